@@ -5,9 +5,12 @@ import Editor from './components/Editor';
 import Loader from './components/Loader';
 import MyPapers from './components/MyPapers';
 import Settings from './components/Settings';
-import { type FormData, type QuestionPaperData, type User, type Page, type Theme, UploadedImage } from './types';
-import { generateQuestionPaper } from './services/geminiService';
+import { type FormData, type QuestionPaperData, type User, type Page, type Theme, type SectionGenerationState, type GenerationPreset, type PaperInstructions, UploadedImage } from './types';
+import { generateSectionQuestions, assemblePaperFromSections, draftPaperInstructions } from './services/geminiService';
+import { sectionsFromDistribution } from './services/paperInstructions';
 import { generateHtmlFromPaperData } from './services/htmlGenerator';
+import { generatePaperSets } from './services/paperSets';
+import { DEFAULT_SIMILARITY_THRESHOLD } from './services/similarity';
 import { authService } from './services/authService';
 import PublicLandingPage from './components/PublicLandingPage';
 import AuthPage from './components/AuthPage';
@@ -17,6 +20,7 @@ import AppLayout from './components/AppLayout';
 import TeacherDashboard from './components/TeacherDashboard';
 import StudentDashboard from './components/StudentDashboard';
 import QuestionBank from './components/QuestionBank';
+import SyllabusManager from './components/SyllabusManager';
 import PracticeGenerator from './components/PracticeGenerator';
 import AssignedPapers from './components/AssignedPapers';
 import AttendedPapers from './components/AttendedPapers';
@@ -25,6 +29,8 @@ import Header from './Header';
 import { ImageGallery } from './components/ImageGallery';
 import { ProImageEditor } from './components/ProImageEditor';
 import VoiceAssistant from './components/VoiceAssistant';
+import AIErrorNotice from './components/AIErrorNotice';
+import { toAIError } from './services/aiErrors';
 
 
 function App() {
@@ -32,7 +38,7 @@ function App() {
   const [page, setPage] = useState<Page>('teacherDashboard');
   const [isLoading, setIsLoading] = useState<boolean>(false);
   const [isAuthLoading, setIsAuthLoading] = useState<boolean>(true);
-  const [error, setError] = useState<string | null>(null);
+  const [error, setError] = useState<Error | null>(null);
   const [activePaper, setActivePaper] = useState<QuestionPaperData | null>(null);
   const [currentUser, setCurrentUser] = useState<User | null>(null);
   const [papers, setPapers] = useState<QuestionPaperData[]>([]);
@@ -43,7 +49,12 @@ function App() {
   const [publicPaper, setPublicPaper] = useState<QuestionPaperData | null>(null);
   
   const [selectedImageForEdit, setSelectedImageForEdit] = useState<UploadedImage | null>(null);
-  const [voiceFormData, setVoiceFormData] = useState<Partial<FormData> | null>(null);
+  const [generatorInitialData, setGeneratorInitialData] = useState<Partial<FormData> | null>(null);
+  const [generationJob, setGenerationJob] = useState<{ formData: FormData; paperId: string; createdAt: string; sections: SectionGenerationState[]; instructions?: PaperInstructions } | null>(null);
+  const generationAbortRef = useRef<AbortController | null>(null);
+  // Sections of the current job already merged into `activePaper`.
+  // The distribution row each question of the open paper was generated for, by position.
+  const mergedSectionIdsRef = useRef<string[]>([]);
 
   const editorRef = useRef<any>(null);
   // A simple state to force re-render when the editor is ready, ensuring the ref is connected.
@@ -138,42 +149,145 @@ function App() {
     setTheme(prevTheme => (prevTheme === 'light' ? 'dark' : 'light'));
   };
 
-  const executeGeneration = async (action: () => Promise<void>) => {
-      setIsLoading(true);
-      setError(null);
-
-      try {
-          await action();
-      } catch (e) {
-          console.error(e);
-          setError('Internal Error Occurred');
-      } finally {
-          setIsLoading(false);
-      }
+  const updateSection = (distributionId: string, update: Partial<SectionGenerationState>) => {
+    setGenerationJob(job => job && {
+        ...job,
+        sections: job.sections.map(s => s.item.id === distributionId ? { ...s, ...update } : s),
+    });
   };
 
-  const handleGenerate = useCallback((formData: FormData) => {
-    setActivePaper(null);
-    
-    executeGeneration(async () => {
-        const paper = await generateQuestionPaper(formData);
-        const finalPaper: QuestionPaperData = {
-            ...paper,
-            schoolLogo: currentUser?.schoolLogo,
-            schoolName: formData.schoolName || currentUser?.defaultSchoolName || paper.schoolName,
-        };
-        setActivePaper(finalPaper);
-        if (currentUser?.role === 'teacher') {
-            authService.savePaper(finalPaper);
-            setPapers(authService.getPapers());
+  const runSections = async (formData: FormData, sectionIds: string[], isWholePaper: boolean) => {
+    const controller = new AbortController();
+    generationAbortRef.current = controller;
+
+    // Instructions only depend on the distribution, so a fresh paper drafts them alongside its sections.
+    if (isWholePaper) {
+        draftPaperInstructions(formData, sectionsFromDistribution(formData.questionDistribution, formData.sections), controller.signal)
+            .then(instructions => setGenerationJob(job => job && job.formData === formData ? { ...job, instructions } : job))
+            .catch(e => console.warn('Instructions could not be drafted:', e));
+    }
+
+    const failures: Error[] = [];
+    for (const id of sectionIds) {
+        const item = formData.questionDistribution.find(d => d.id === id);
+        if (!item) continue;
+        if (controller.signal.aborted) {
+            updateSection(id, { status: 'failed', error: 'Cancelled' });
+            continue;
         }
-        setPage('edit');
-    });
+        // A missing key or an exhausted quota will fail every remaining section the same way.
+        const fatal = failures.find(f => toAIError(f).kind === 'missingKey' || toAIError(f).kind === 'quota');
+        if (fatal) {
+            failures.push(fatal);
+            updateSection(id, { status: 'failed', error: fatal.message });
+            continue;
+        }
+        updateSection(id, { status: 'generating', error: undefined });
+        try {
+            const result = await generateSectionQuestions(formData, item, controller.signal);
+            updateSection(id, { status: 'done', result });
+        } catch (e) {
+            console.error(e);
+            if (controller.signal.aborted) {
+                updateSection(id, { status: 'failed', error: 'Cancelled' });
+                continue;
+            }
+            const aiError = toAIError(e);
+            failures.push(aiError);
+            updateSection(id, { status: 'failed', error: aiError.message });
+        }
+    }
 
-  }, [currentUser]);
+    // Nothing at all came back for a fresh paper: show the error screen instead of an empty editor.
+    if (isWholePaper && failures.length === sectionIds.length && failures.length > 0) {
+        setError(failures[failures.length - 1]);
+    }
+
+    if (generationAbortRef.current === controller) {
+        generationAbortRef.current = null;
+    }
+  };
+
+  const withSchoolDetails = (paper: QuestionPaperData, formData: FormData): QuestionPaperData => {
+    const detailed = {
+        ...paper,
+        schoolLogo: currentUser?.schoolLogo,
+        schoolName: formData.schoolName || currentUser?.defaultSchoolName || paper.schoolName,
+    };
+    return { ...detailed, htmlContent: generateHtmlFromPaperData(detailed, { logoConfig: detailed.schoolLogo ? { src: detailed.schoolLogo, alignment: 'center' } : undefined }) };
+  };
+
+  const handleGenerate = (formData: FormData) => {
+    generationAbortRef.current?.abort();
+    setError(null);
+    const job = {
+        formData,
+        paperId: `paper-${Date.now()}`,
+        createdAt: new Date().toISOString(),
+        sections: formData.questionDistribution.map(item => ({ item, status: 'pending' as const })),
+    };
+    mergedSectionIdsRef.current = [];
+    setGenerationJob(job);
+    // The editor opens on the empty paper straight away; sections stream into it as they finish.
+    setActivePaper(withSchoolDetails(assemblePaperFromSections(formData, job.sections, { id: job.paperId, createdAt: job.createdAt }), formData));
+    setPage('edit');
+    runSections(formData, formData.questionDistribution.map(d => d.id), true);
+  };
+
+  const handleCancelGeneration = () => {
+    generationAbortRef.current?.abort();
+  };
+
+  const handleRetrySection = (distributionId: string) => {
+    if (!generationJob || generationAbortRef.current) return;
+    runSections(generationJob.formData, [distributionId], false);
+  };
+
+  // Merge each finished section into the open paper in distribution order. Questions already on the
+  // paper keep the teacher's edits (refined, fixed or re-marked questions); editor actions replace
+  // questions in place, so each one is found again by its position.
+  const completedSectionsKey = generationJob?.sections.filter(s => s.status === 'done').map(s => s.item.id).join('|');
+  useEffect(() => {
+    if (!generationJob) return;
+    const { formData, paperId, createdAt, sections, instructions } = generationJob;
+    const assembled = assemblePaperFromSections(formData, sections, { id: paperId, createdAt, instructions });
+    const current = activePaper?.id === paperId && activePaper.questions.length === mergedSectionIdsRef.current.length ? activePaper : null;
+    const merged = sections
+        .filter(s => s.status === 'done' && s.result)
+        .map(s => {
+            const kept = current ? current.questions.filter((_, i) => mergedSectionIdsRef.current[i] === s.item.id) : [];
+            return { id: s.item.id, questions: kept.length ? kept : s.result!.questions };
+        });
+    mergedSectionIdsRef.current = merged.flatMap(s => s.questions.map(() => s.id));
+    const questions = merged.flatMap(s => s.questions).map((q, index) => ({ ...q, questionNumber: index + 1 }));
+    const finalPaper = current
+        ? withSchoolDetails({
+            ...current,
+            questions,
+            validationReport: assembled.validationReport,
+            instructions: current.instructions ?? instructions,
+        }, { ...formData, schoolName: current.schoolName })
+        : withSchoolDetails(assembled, formData);
+    setActivePaper(finalPaper);
+    if (currentUser?.role === 'teacher' && finalPaper.questions.length > 0) {
+        authService.savePaper(finalPaper);
+        setPapers(authService.getPapers());
+    }
+  }, [generationJob?.paperId, completedSectionsKey, generationJob?.instructions]);
+
+  const stopGeneration = () => {
+    generationAbortRef.current?.abort();
+    generationAbortRef.current = null;
+    setGenerationJob(null);
+  };
   
   const handleVoiceAssistantComplete = (formData: FormData) => {
-    setVoiceFormData(formData);
+    setGeneratorInitialData(formData);
+    handleNavigate('generate');
+  };
+
+  const handleUsePreset = (preset: GenerationPreset) => {
+    setGeneratorInitialData(preset.formData);
     handleNavigate('generate');
   };
 
@@ -208,11 +322,13 @@ function App() {
   };
   
   const handleExitEditor = () => {
+      stopGeneration();
       setActivePaper(null);
       setPage(currentUser?.role === 'teacher' ? 'myPapers' : 'studentDashboard');
   };
   
   const handleEditPaper = (paper: QuestionPaperData) => {
+      stopGeneration();
       setActivePaper(paper);
       setPage('edit');
   };
@@ -220,7 +336,7 @@ function App() {
   const handleDeletePaper = (paperId: string) => {
       if(window.confirm("Are you sure you want to delete this paper? This action cannot be undone.")) {
           authService.deletePaper(paperId);
-          setPapers(prevPapers => prevPapers.filter(p => p.id !== paperId));
+          setPapers(authService.getPapers());
       }
   };
 
@@ -243,12 +359,29 @@ function App() {
                 id: `paper-${Date.now()}`,
                 subject: `${paperToDuplicate.subject} (Copy)`,
                 createdAt: new Date().toISOString(),
+                parentPaperId: undefined,
+                setLabel: undefined,
             };
             authService.savePaper(newPaper);
             setPapers(authService.getPapers());
         }
     };
 
+    const handleGenerateSets = (paperId: string, count: number) => {
+        const parentPaper = papers.find(p => p.id === paperId);
+        if (parentPaper) {
+            authService.savePaperSets(paperId, generatePaperSets(parentPaper, count));
+            setPapers(authService.getPapers());
+        }
+    };
+
+    const handleSaveTranslation = (translated: QuestionPaperData) => {
+        // The reviewer may have edited the text, so the stored HTML is rebuilt from the final questions.
+        const logoConfig = translated.schoolLogo ? { src: translated.schoolLogo, alignment: 'center' as const } : undefined;
+        authService.savePaper({ ...translated, htmlContent: generateHtmlFromPaperData(translated, { logoConfig }) });
+        setPapers(authService.getPapers());
+    };
+
     const handleStudentViewPaperFromUrl = (url: string) => {
         if (!url.includes('#paper/')) {
             alert("Internal Error Occurred");
@@ -284,6 +417,7 @@ function App() {
     if (isLoading) return;
     setError(null);
     if (targetPage !== 'edit') {
+        stopGeneration();
         setActivePaper(null);
     }
     if (targetPage !== 'analyze') {
@@ -293,6 +427,16 @@ function App() {
     setPage(targetPage);
   };
   
+  // Pages missing what they show fall back to another page. This runs after render, since navigating stops generation.
+  useEffect(() => {
+    if (!currentUser?.role || isLoading || error) return;
+    if (page === 'edit' && !activePaper && !generationJob) {
+        handleNavigate(currentUser.role === 'teacher' ? 'myPapers' : 'studentDashboard');
+    } else if (page === 'analyze' && !textToAnalyze && !imagesToAnalyze) {
+        handleNavigate('creationHub');
+    }
+  }, [page, activePaper, generationJob, textToAnalyze, imagesToAnalyze, currentUser?.role, isLoading, error]);
+
   const handleStartAnalysis = (text: string) => {
     setTextToAnalyze(text);
     setImagesToAnalyze(null);
@@ -339,19 +483,16 @@ function App() {
     if (error) {
       return (
         <div className="flex items-center justify-center flex-1">
-          <div className="text-center max-w-lg mx-auto p-8 bg-white dark:bg-slate-800 rounded-xl shadow-xl border dark:border-slate-700 animate-fade-in-up">
-            <h3 className="text-xl font-semibold text-red-500 mb-4">Operation Failed</h3>
-            <p className="text-slate-600 dark:text-slate-400 mb-6 whitespace-pre-wrap">{error}</p>
-            <button
-              onClick={() => {
+          <AIErrorNotice
+            error={error}
+            actionLabel="Try Again"
+            onAction={() => {
+                // Bring the teacher back to the form they submitted rather than a blank one.
+                if (generationJob) setGeneratorInitialData(generationJob.formData);
                 setError(null);
                 handleNavigate(currentUser.role === 'teacher' ? 'generate' : 'practice');
-              }}
-              className="bg-indigo-600 text-white font-bold py-2 px-4 rounded-lg hover:bg-indigo-700"
-            >
-              Try Again
-            </button>
-          </div>
+            }}
+          />
         </div>
       );
     }
@@ -359,28 +500,30 @@ function App() {
     if(currentUser.role === 'teacher') {
         switch (page) {
           case 'teacherDashboard':
-            return <TeacherDashboard user={currentUser} papers={papers} onNavigate={handleNavigate} onEditPaper={handleEditPaper} onRenamePaper={handleRenamePaper} onDuplicatePaper={handleDuplicatePaper} onDeletePaper={handleDeletePaper}/>;
+            return <TeacherDashboard user={currentUser} papers={papers} onNavigate={handleNavigate} onEditPaper={handleEditPaper} onRenamePaper={handleRenamePaper} onDuplicatePaper={handleDuplicatePaper} onDeletePaper={handleDeletePaper} onUsePreset={handleUsePreset} />;
           case 'creationHub':
             return <CreationHub onNavigate={handleNavigate} onStartAnalysis={handleStartAnalysis} onStartImageAnalysis={handleStartImageAnalysis} />;
           case 'generate':
-            return <GeneratorForm onSubmit={handleGenerate} isLoading={isLoading} user={currentUser} initialData={voiceFormData} onClearInitialData={() => setVoiceFormData(null)} />;
+            return <GeneratorForm onSubmit={handleGenerate} isLoading={isLoading} user={currentUser} initialData={generatorInitialData} onClearInitialData={() => setGeneratorInitialData(null)} />;
           case 'analyze':
             if (textToAnalyze) return <AnalysisScreen textToAnalyze={textToAnalyze} onComplete={handleAnalysisComplete} onCancel={() => handleNavigate('creationHub')} />;
             if (imagesToAnalyze) return <AnalysisScreen imagesToAnalyze={imagesToAnalyze} onComplete={handleAnalysisComplete} onCancel={() => handleNavigate('creationHub')} />;
-            handleNavigate('creationHub'); return null;
+            return null;
           case 'edit':
-            if (activePaper) return <Editor ref={editorRef} key={activePaper.id} paperData={activePaper} onSave={handleSavePaper} onSaveAndExit={handleExitEditor} onReady={handleEditorReady} />;
-            handleNavigate('myPapers'); return null;
+            if (activePaper) return <Editor ref={editorRef} key={activePaper.id} paperData={activePaper} onSave={handleSavePaper} onSaveAndExit={handleExitEditor} onReady={handleEditorReady} generation={editorGeneration} duplicateThreshold={currentUser.similarityThreshold ?? DEFAULT_SIMILARITY_THRESHOLD} />;
+            return null;
           case 'myPapers':
-            return <MyPapers user={currentUser} papers={papers} onEdit={handleEditPaper} onDelete={handleDeletePaper} onGenerateNew={() => handleNavigate('creationHub')} onRename={handleRenamePaper} onDuplicate={handleDuplicatePaper} />;
+            return <MyPapers user={currentUser} papers={papers} onEdit={handleEditPaper} onDelete={handleDeletePaper} onGenerateNew={() => handleNavigate('creationHub')} onRename={handleRenamePaper} onDuplicate={handleDuplicatePaper} onGenerateSets={handleGenerateSets} onSaveTranslation={handleSaveTranslation} />;
           case 'questionBank':
             return <QuestionBank />;
+          case 'syllabus':
+            return <SyllabusManager />;
           case 'settings':
-            return <Settings user={currentUser} theme={theme} toggleTheme={toggleTheme} onLogout={handleLogout} />;
+            return <Settings user={currentUser} theme={theme} toggleTheme={toggleTheme} onLogout={handleLogout} onUserUpdate={setCurrentUser} />;
           case 'gallery':
             return <ImageGallery onEditImage={handleEditImage} />;
           default:
-            return <TeacherDashboard user={currentUser} papers={papers} onNavigate={handleNavigate} onEditPaper={handleEditPaper} onRenamePaper={handleRenamePaper} onDuplicatePaper={handleDuplicatePaper} onDeletePaper={handleDeletePaper} />;
+            return <TeacherDashboard user={currentUser} papers={papers} onNavigate={handleNavigate} onEditPaper={handleEditPaper} onRenamePaper={handleRenamePaper} onDuplicatePaper={handleDuplicatePaper} onDeletePaper={handleDeletePaper} onUsePreset={handleUsePreset} />;
         }
     }
     
@@ -395,10 +538,10 @@ function App() {
             case 'attendedPapers':
                 return <AttendedPapers papers={attendedPapers} onViewPaper={handleViewAttendedPaper} />;
             case 'edit':
-                if (activePaper) return <Editor ref={editorRef} key={activePaper.id} paperData={activePaper} onSave={() => {}} onSaveAndExit={() => handleNavigate('studentDashboard')} onReady={handleEditorReady} />;
-                handleNavigate('studentDashboard'); return null;
+                if (activePaper) return <Editor ref={editorRef} key={activePaper.id} paperData={activePaper} onSave={setActivePaper} onSaveAndExit={() => handleNavigate('studentDashboard')} onReady={handleEditorReady} generation={editorGeneration} />;
+                return null;
             case 'settings':
-                return <Settings user={currentUser} theme={theme} toggleTheme={toggleTheme} onLogout={handleLogout} />;
+                return <Settings user={currentUser} theme={theme} toggleTheme={toggleTheme} onLogout={handleLogout} onUserUpdate={setCurrentUser} />;
             case 'gallery':
                 return <ImageGallery onEditImage={handleEditImage} />;
             default:
@@ -409,6 +552,12 @@ function App() {
     return <div>Invalid user role.</div>
   };
 
+  const editorGeneration = generationJob ? {
+      sections: generationJob.sections,
+      onCancel: handleCancelGeneration,
+      onRetry: handleRetrySection,
+  } : undefined;
+
   const editorActions = (page === 'edit' && editorRef.current) ? {
       onSaveAndExit: editorRef.current.handleSaveAndExitClick,
       onExport: editorRef.current.openExportModal,
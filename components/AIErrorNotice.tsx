@@ -0,0 +1,37 @@
+import React, { useState } from 'react';
+import { toAIError, AI_ERROR_HELP } from '../services/aiErrors';
+import DiagnosticsPanel from './DiagnosticsPanel';
+
+interface AIErrorNoticeProps {
+    error: unknown;
+    actionLabel: string;
+    onAction: () => void;
+}
+
+/** Error card for failed AI operations, with next steps that depend on what went wrong. */
+const AIErrorNotice: React.FC<AIErrorNoticeProps> = ({ error, actionLabel, onAction }) => {
+    const [showDiagnostics, setShowDiagnostics] = useState(false);
+    const aiError = toAIError(error);
+    const help = AI_ERROR_HELP[aiError.kind];
+
+    return (
+        <div className="text-left max-w-lg mx-auto p-8 bg-white dark:bg-slate-800 rounded-xl shadow-xl border dark:border-slate-700 animate-fade-in-up">
+            <h3 className="text-xl font-semibold text-red-500 mb-2">{help.title}</h3>
+            <p className="text-slate-600 dark:text-slate-400 mb-4 whitespace-pre-wrap">{aiError.message}</p>
+            <ul className="list-disc pl-5 space-y-1 text-sm text-slate-600 dark:text-slate-400 mb-6">
+                {help.steps.map(step => <li key={step}>{step}</li>)}
+            </ul>
+            <div className="flex flex-wrap items-center justify-between gap-3">
+                <button onClick={() => setShowDiagnostics(true)} className="text-sm font-semibold text-slate-500 hover:text-slate-800 dark:hover:text-slate-200 underline">
+                    View diagnostics
+                </button>
+                <button onClick={onAction} className="bg-indigo-600 text-white font-bold py-2 px-4 rounded-lg hover:bg-indigo-700">
+                    {actionLabel}
+                </button>
+            </div>
+            {showDiagnostics && <DiagnosticsPanel onClose={() => setShowDiagnostics(false)} />}
+        </div>
+    );
+};
+
+export default AIErrorNotice;
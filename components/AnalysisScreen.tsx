@@ -3,6 +3,7 @@ import { type Part } from '@google/genai';
 import { analyzePastedText, analyzeHandwrittenImages } from '../services/geminiService';
 import { type FormData, type AnalysisResult, type QuestionPaperData, Question, QuestionType } from '../types';
 import { SpinnerIcon } from './icons/SpinnerIcon';
+import AIErrorNotice from './AIErrorNotice';
 import { generateHtmlFromPaperData } from '../services/htmlGenerator';
 
 interface AnalysisScreenProps {
@@ -48,7 +49,7 @@ const AnalysisScreen: React.FC<AnalysisScreenProps> = ({ textToAnalyze, imagesTo
   const [status, setStatus] = useState<'analyzing' | 'collecting' | 'error'>('analyzing');
   const [analysisResult, setAnalysisResult] = useState<AnalysisResult | null>(null);
   const [missingData, setMissingData] = useState<Partial<AnalysisResult['extractedData']>>({});
-  const [errorMessage, setErrorMessage] = useState<string | null>(null);
+  const [error, setError] = useState<unknown>(null);
   const [currentMessage, setCurrentMessage] = useState(analysisMessages[0]);
 
   useEffect(() => {
@@ -66,7 +67,7 @@ const AnalysisScreen: React.FC<AnalysisScreenProps> = ({ textToAnalyze, imagesTo
         setStatus('collecting');
       } catch (e) {
         console.error("Analysis Error:", e);
-        setErrorMessage("Internal Error Occurred");
+        setError(e);
         setStatus('error');
       }
     };
@@ -163,15 +164,8 @@ const AnalysisScreen: React.FC<AnalysisScreenProps> = ({ textToAnalyze, imagesTo
 
   if (status === 'error') {
     return (
-        <div className="text-center mt-20 max-w-lg mx-auto p-8 bg-white dark:bg-slate-800 rounded-xl shadow-xl border dark:border-slate-700 animate-fade-in-up">
-          <h3 className="text-xl font-semibold text-red-500 mb-4">Operation Failed</h3>
-          <p className="text-slate-600 dark:text-slate-400 mb-6 whitespace-pre-wrap">{errorMessage}</p>
-          <button
-            onClick={onCancel}
-            className="bg-indigo-600 text-white font-bold py-2 px-4 rounded-lg hover:bg-indigo-700 focus:outline-none focus:ring-2 focus:ring-indigo-500 focus:ring-offset-2 dark:focus:ring-offset-slate-800 transition-colors"
-          >
-            Go Back
-          </button>
+        <div className="mt-20">
+          <AIErrorNotice error={error} actionLabel="Go Back" onAction={onCancel} />
         </div>
     );
   }
@@ -0,0 +1,208 @@
+import React, { useMemo, useState } from 'react';
+import { type Blueprint, type BlueprintEntry, type BlueprintUnit, QuestionType, Difficulty, Taxonomy } from '../types';
+import { QUESTION_TYPES, DIFFICULTY_LEVELS, BLOOM_TAXONOMY_LEVELS } from '../constants';
+import { authService } from '../services/authService';
+import { createBlueprint, createBlueprintEntry, summarizeBlueprint } from '../services/blueprint';
+
+interface BlueprintEditorProps {
+    blueprint: Blueprint;
+    onChange: (blueprint: Blueprint) => void;
+    subject: string;
+    className: string;
+    error?: string;
+}
+
+const TrashIcon: React.FC<React.SVGProps<SVGSVGElement>> = (props) => (
+    <svg xmlns="http://www.w3.org/2000/svg" width="24" height="24" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round" {...props}><path d="M3 6h18"/><path d="M19 6v14a2 2 0 0 1-2 2H7a2 2 0 0 1-2-2V6m3 0V4a2 2 0 0 1 2-2h4a2 2 0 0 1 2 2v2"/></svg>
+);
+
+const inputClass = "w-full mt-1 p-2 rounded-md bg-white dark:bg-slate-800 border-slate-300 dark:border-slate-600 shadow-sm text-sm";
+
+const BlueprintEditor: React.FC<BlueprintEditorProps> = ({ blueprint, onChange, subject, className, error }) => {
+    const [savedBlueprints, setSavedBlueprints] = useState<Blueprint[]>(() => authService.getBlueprints());
+    const [saveMessage, setSaveMessage] = useState('');
+
+    const summary = useMemo(() => summarizeBlueprint(blueprint), [blueprint]);
+
+    const update = (changes: Partial<Blueprint>) => onChange({ ...blueprint, ...changes });
+
+    const updateUnit = (id: string, changes: Partial<BlueprintUnit>) =>
+        update({ units: blueprint.units.map(u => u.id === id ? { ...u, ...changes } : u) });
+
+    const addUnit = () => {
+        const unit: BlueprintUnit = { id: `unit-${Date.now()}`, name: `Unit ${blueprint.units.length + 1}`, weightage: 0 };
+        update({ units: [...blueprint.units, unit] });
+    };
+
+    const removeUnit = (id: string) => {
+        if (blueprint.units.length <= 1) return;
+        update({ units: blueprint.units.filter(u => u.id !== id), entries: blueprint.entries.filter(e => e.unitId !== id) });
+    };
+
+    const updateEntry = (id: string, changes: Partial<BlueprintEntry>) =>
+        update({ entries: blueprint.entries.map(e => e.id === id ? { ...e, ...changes } : e) });
+
+    const setTaxonomyWeightage = (taxonomy: Taxonomy, value: string) => {
+        const taxonomyWeightage = { ...blueprint.taxonomyWeightage };
+        if (value === '') delete taxonomyWeightage[taxonomy];
+        else taxonomyWeightage[taxonomy] = Number(value) || 0;
+        update({ taxonomyWeightage });
+    };
+
+    const handleLoad = (id: string) => {
+        const saved = savedBlueprints.find(b => b.id === id);
+        if (saved) onChange(saved);
+    };
+
+    const handleSave = () => {
+        try {
+            const saved = authService.saveBlueprint({ ...blueprint, subject: blueprint.subject || subject, className: blueprint.className || className });
+            onChange(saved);
+            setSavedBlueprints(authService.getBlueprints());
+            setSaveMessage('Saved');
+        } catch (e) {
+            console.error(e);
+            setSaveMessage('Could not save');
+        }
+        setTimeout(() => setSaveMessage(''), 2000);
+    };
+
+    const handleDelete = () => {
+        if (!window.confirm(`Delete the saved blueprint "${blueprint.name}"?`)) return;
+        authService.deleteBlueprint(blueprint.id);
+        setSavedBlueprints(authService.getBlueprints());
+        onChange(createBlueprint(subject, className));
+    };
+
+    const isSaved = savedBlueprints.some(b => b.id === blueprint.id);
+
+    return (
+        <div className="space-y-6">
+            <div className="flex flex-wrap items-end gap-3">
+                <div className="flex-1 min-w-[200px]">
+                    <label className="text-xs font-medium text-slate-600 dark:text-slate-400">Blueprint name</label>
+                    <input type="text" value={blueprint.name} onChange={e => update({ name: e.target.value })} className={inputClass} />
+                </div>
+                {savedBlueprints.length > 0 && (
+                    <div className="min-w-[180px]">
+                        <label className="text-xs font-medium text-slate-600 dark:text-slate-400">Load saved</label>
+                        <select value={isSaved ? blueprint.id : ''} onChange={e => handleLoad(e.target.value)} className={inputClass}>
+                            <option value="" disabled>Choose a blueprint…</option>
+                            {savedBlueprints.map(b => <option key={b.id} value={b.id}>{b.name}{b.className ? ` (${b.className})` : ''}</option>)}
+                        </select>
+                    </div>
+                )}
+                <button type="button" onClick={handleSave} className="px-4 py-2 rounded-lg bg-indigo-600 text-sm font-semibold text-white hover:bg-indigo-700 transition-colors">
+                    {saveMessage || (isSaved ? 'Update Blueprint' : 'Save Blueprint')}
+                </button>
+                {isSaved && (
+                    <button type="button" onClick={handleDelete} className="p-2 text-red-500 hover:bg-red-100 dark:hover:bg-red-900/50 rounded-md transition-colors" title="Delete saved blueprint">
+                        <TrashIcon className="w-5 h-5" />
+                    </button>
+                )}
+            </div>
+
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+                <div className="p-4 bg-slate-50 dark:bg-slate-900/50 rounded-xl border dark:border-slate-700/50 space-y-3">
+                    <h4 className="text-sm font-bold text-slate-700 dark:text-slate-300">Units / Chapters (marks)</h4>
+                    {blueprint.units.map(unit => {
+                        const planned = summary.marksByUnit[unit.id] || 0;
+                        return (
+                            <div key={unit.id} className="flex items-center gap-2">
+                                <input type="text" value={unit.name} onChange={e => updateUnit(unit.id, { name: e.target.value })} className={`${inputClass} mt-0 flex-1`} />
+                                <input type="number" min="0" value={unit.weightage} onChange={e => updateUnit(unit.id, { weightage: Number(e.target.value) || 0 })} className={`${inputClass} mt-0 w-20`} />
+                                <span className={`w-14 text-xs text-right font-semibold ${planned === unit.weightage ? 'text-emerald-600' : 'text-amber-600'}`}>{planned}/{unit.weightage}</span>
+                                {blueprint.units.length > 1 && (
+                                    <button type="button" onClick={() => removeUnit(unit.id)} className="p-1 text-red-500 hover:bg-red-100 dark:hover:bg-red-900/50 rounded-md"><TrashIcon className="w-4 h-4" /></button>
+                                )}
+                            </div>
+                        );
+                    })}
+                    <button type="button" onClick={addUnit} className="text-sm font-semibold text-indigo-600 hover:text-indigo-800">+ Add Unit</button>
+                </div>
+
+                <div className="p-4 bg-slate-50 dark:bg-slate-900/50 rounded-xl border dark:border-slate-700/50 space-y-3">
+                    <h4 className="text-sm font-bold text-slate-700 dark:text-slate-300">Cognitive level weightage (marks)</h4>
+                    <div className="grid grid-cols-2 gap-3">
+                        {BLOOM_TAXONOMY_LEVELS.map(level => {
+                            const target = blueprint.taxonomyWeightage[level.value];
+                            const planned = summary.marksByTaxonomy[level.value] || 0;
+                            return (
+                                <div key={level.value}>
+                                    <label className="text-xs font-medium text-slate-600 dark:text-slate-400 flex justify-between">
+                                        <span>{level.label}</span>
+                                        {target !== undefined && <span className={planned === target ? 'text-emerald-600' : 'text-amber-600'}>{planned}/{target}</span>}
+                                    </label>
+                                    <input type="number" min="0" placeholder="Any" value={target ?? ''} onChange={e => setTaxonomyWeightage(level.value, e.target.value)} className={inputClass} />
+                                </div>
+                            );
+                        })}
+                    </div>
+                </div>
+            </div>
+
+            <div className="space-y-3">
+                <h4 className="text-sm font-bold text-slate-700 dark:text-slate-300">Design matrix</h4>
+                {blueprint.entries.map(entry => (
+                    <div key={entry.id} className="flex flex-wrap gap-3 items-end p-3 bg-slate-50 dark:bg-slate-900/50 rounded-xl border dark:border-slate-700/50">
+                        <div className="flex-1 min-w-[120px]">
+                            <label className="text-xs font-medium">Unit</label>
+                            <select value={entry.unitId} onChange={e => updateEntry(entry.id, { unitId: e.target.value })} className={inputClass}>
+                                {blueprint.units.map(u => <option key={u.id} value={u.id}>{u.name}</option>)}
+                            </select>
+                        </div>
+                        <div className="flex-1 min-w-[140px]">
+                            <label className="text-xs font-medium">Type</label>
+                            <select value={entry.type} onChange={e => updateEntry(entry.id, { type: e.target.value as QuestionType })} className={inputClass}>
+                                {QUESTION_TYPES.map(qt => <option key={qt.value} value={qt.value}>{qt.label}</option>)}
+                            </select>
+                        </div>
+                        <div className="flex-1 min-w-[120px]">
+                            <label className="text-xs font-medium">Taxonomy</label>
+                            <select value={entry.taxonomy} onChange={e => updateEntry(entry.id, { taxonomy: e.target.value as Taxonomy })} className={inputClass}>
+                                {BLOOM_TAXONOMY_LEVELS.map(t => <option key={t.value} value={t.value}>{t.label}</option>)}
+                            </select>
+                        </div>
+                        <div className="w-24">
+                            <label className="text-xs font-medium">Difficulty</label>
+                            <select value={entry.difficulty} onChange={e => updateEntry(entry.id, { difficulty: e.target.value as Difficulty })} className={inputClass}>
+                                {DIFFICULTY_LEVELS.map(d => <option key={d.value} value={d.value}>{d.label}</option>)}
+                            </select>
+                        </div>
+                        <div className="w-16">
+                            <label className="text-xs font-medium">Count</label>
+                            <input type="number" min="1" value={entry.count} onChange={e => updateEntry(entry.id, { count: Number(e.target.value) || 0 })} className={inputClass} />
+                        </div>
+                        <div className="w-16">
+                            <label className="text-xs font-medium">Marks</label>
+                            <input type="number" min="0" step="0.5" value={entry.marks} onChange={e => updateEntry(entry.id, { marks: Number(e.target.value) || 0 })} className={inputClass} />
+                        </div>
+                        <div className="w-16">
+                            <label className="text-xs font-medium" title="Internal choices (OR questions)">OR</label>
+                            <input type="number" min="0" max={entry.count} value={entry.internalChoices || 0} onChange={e => updateEntry(entry.id, { internalChoices: Math.min(Number(e.target.value) || 0, entry.count) })} className={inputClass} />
+                        </div>
+                        {blueprint.entries.length > 1 && (
+                            <button type="button" onClick={() => update({ entries: blueprint.entries.filter(e => e.id !== entry.id) })} className="p-2 text-red-500 hover:bg-red-100 dark:hover:bg-red-900/50 rounded-md transition-colors"><TrashIcon className="w-5 h-5" /></button>
+                        )}
+                    </div>
+                ))}
+                <button type="button" onClick={() => update({ entries: [...blueprint.entries, createBlueprintEntry(blueprint.units[0].id)] })} className="text-sm font-semibold text-indigo-600 hover:text-indigo-800">+ Add Matrix Row</button>
+            </div>
+
+            {(summary.unitMismatches.length > 0 || summary.taxonomyMismatches.length > 0) && (
+                <div className="p-3 rounded-lg bg-amber-50 border border-amber-300 text-amber-900 text-sm space-y-1">
+                    <p className="font-semibold">The matrix does not match the weightage yet:</p>
+                    {summary.unitMismatches.map(m => (
+                        <p key={m.unitId}>{blueprint.units.find(u => u.id === m.unitId)?.name}: {m.planned} of {m.target} marks planned</p>
+                    ))}
+                    {summary.taxonomyMismatches.map(m => (
+                        <p key={m.taxonomy}>{m.taxonomy}: {m.planned} of {m.target} marks planned</p>
+                    ))}
+                </div>
+            )}
+            {error && <p className="text-xs text-red-500">{error}</p>}
+        </div>
+    );
+};
+
+export default BlueprintEditor;
@@ -0,0 +1,60 @@
+import React, { useMemo, useState } from 'react';
+import { type QuestionPaperData } from '../types';
+import { generateBlueprintHtml } from '../services/htmlGenerator';
+import { exportHtmlDocumentsToPdf } from '../utils/pdfExport';
+import { SpinnerIcon } from './icons/SpinnerIcon';
+
+interface BlueprintReportModalProps {
+    paper: QuestionPaperData;
+    onClose: () => void;
+}
+
+const CloseIcon = (props: React.SVGProps<SVGSVGElement>) => (
+    <svg xmlns="http://www.w3.org/2000/svg" width="24" height="24" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round" {...props}><line x1="18" y1="6" x2="6" y2="18"/><line x1="6" y1="6" x2="18" y2="18"/></svg>
+);
+
+const BlueprintReportModal: React.FC<BlueprintReportModalProps> = ({ paper, onClose }) => {
+    const [isExporting, setIsExporting] = useState(false);
+    const html = useMemo(() => generateBlueprintHtml(paper), [paper]);
+
+    const handleExport = async () => {
+        setIsExporting(true);
+        try {
+            await exportHtmlDocumentsToPdf([html], `${paper.subject.replace(/\s+/g, '_')}_Blueprint.pdf`);
+        } catch (error) {
+            console.error(error);
+            alert("Export Failed");
+        } finally {
+            setIsExporting(false);
+        }
+    };
+
+    return (
+        <div className="fixed inset-0 bg-black/50 backdrop-blur-sm flex items-center justify-center z-[60] animate-fade-in p-4" onClick={onClose}>
+            <div className="bg-white dark:bg-slate-800 rounded-2xl shadow-2xl w-full max-w-4xl h-[85vh] flex flex-col" onClick={e => e.stopPropagation()}>
+                <div className="p-6 border-b dark:border-slate-700 flex justify-between items-center shrink-0">
+                    <div>
+                        <h2 className="text-2xl font-bold text-slate-900 dark:text-white">Blueprint Comparison</h2>
+                        <p className="text-sm text-slate-500 dark:text-slate-400 mt-1">Planned / generated. Cells in red differ from the plan.</p>
+                    </div>
+                    <button onClick={onClose} className="p-1 rounded-full text-slate-500 hover:bg-slate-200 dark:hover:bg-slate-700 transition-colors">
+                        <CloseIcon className="w-5 h-5"/>
+                    </button>
+                </div>
+                <div className="p-6 overflow-auto flex-1 bg-slate-100 dark:bg-slate-900">
+                    <div className="bg-white p-10 mx-auto shadow" style={{ maxWidth: 794, fontFamily: "'Times New Roman', Times, serif" }} dangerouslySetInnerHTML={{ __html: html }} />
+                </div>
+                <div className="p-4 border-t dark:border-slate-700 flex justify-end shrink-0 gap-3">
+                    <button onClick={handleExport} disabled={isExporting} className="flex items-center justify-center gap-2 px-4 py-2 rounded-lg bg-slate-100 dark:bg-slate-700 font-semibold text-slate-700 dark:text-slate-200 hover:bg-slate-200 dark:hover:bg-slate-600 transition-colors w-32">
+                        {isExporting ? <SpinnerIcon className="w-5 h-5"/> : 'Export PDF'}
+                    </button>
+                    <button onClick={onClose} className="px-4 py-2 rounded-lg bg-indigo-600 text-white font-semibold hover:bg-indigo-700 transition-colors">
+                        Close
+                    </button>
+                </div>
+            </div>
+        </div>
+    );
+};
+
+export default BlueprintReportModal;
@@ -0,0 +1,72 @@
+import React, { useState } from 'react';
+import { getDiagnostics, clearDiagnostics, formatDiagnosticsReport, type DiagnosticEntry } from '../services/diagnostics';
+import { AI_ERROR_HELP } from '../services/aiErrors';
+
+interface DiagnosticsPanelProps {
+    onClose: () => void;
+}
+
+const CloseIcon = (props: React.SVGProps<SVGSVGElement>) => (
+    <svg xmlns="http://www.w3.org/2000/svg" width="24" height="24" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round" {...props}><line x1="18" y1="6" x2="6" y2="18"/><line x1="6" y1="6" x2="18" y2="18"/></svg>
+);
+
+const DiagnosticsPanel: React.FC<DiagnosticsPanelProps> = ({ onClose }) => {
+    const [entries, setEntries] = useState<DiagnosticEntry[]>(() => getDiagnostics());
+    const [copied, setCopied] = useState(false);
+
+    const handleCopy = () => {
+        navigator.clipboard.writeText(formatDiagnosticsReport(entries)).then(() => {
+            setCopied(true);
+            setTimeout(() => setCopied(false), 2000);
+        }, err => console.error('Could not copy diagnostics:', err));
+    };
+
+    const handleClear = () => {
+        clearDiagnostics();
+        setEntries([]);
+    };
+
+    return (
+        <div className="fixed inset-0 bg-black/50 backdrop-blur-sm flex items-center justify-center z-50 animate-fade-in p-4" onClick={onClose}>
+            <div className="bg-white dark:bg-slate-800 rounded-2xl shadow-2xl w-full max-w-2xl animate-zoom-in" onClick={e => e.stopPropagation()}>
+                <div className="p-6 border-b dark:border-slate-700 flex justify-between items-center">
+                    <div>
+                        <h2 className="text-xl font-bold text-slate-900 dark:text-white">Diagnostics</h2>
+                        <p className="text-sm text-slate-500 dark:text-slate-400 mt-1">Recent AI errors on this device. Copy them into your report when something goes wrong.</p>
+                    </div>
+                    <button onClick={onClose} className="p-1 rounded-full text-slate-500 hover:bg-slate-200 dark:hover:bg-slate-700 transition-colors">
+                        <CloseIcon className="w-5 h-5"/>
+                    </button>
+                </div>
+                <div className="p-6 max-h-[60vh] overflow-y-auto">
+                    {entries.length === 0 ? (
+                        <p className="text-sm text-slate-500 dark:text-slate-400">No errors have been recorded.</p>
+                    ) : (
+                        <ul className="space-y-3">
+                            {entries.map(entry => (
+                                <li key={entry.id} className="p-3 rounded-lg bg-slate-50 dark:bg-slate-900/50 text-sm">
+                                    <div className="flex justify-between gap-3">
+                                        <span className={`font-semibold ${entry.level === 'error' ? 'text-red-600 dark:text-red-400' : 'text-amber-600 dark:text-amber-400'}`}>
+                                            {AI_ERROR_HELP[entry.kind]?.title || entry.kind}{entry.level === 'retry' ? ` · retried (attempt ${entry.attempt})` : ''}
+                                        </span>
+                                        <span className="shrink-0 text-xs text-slate-500 dark:text-slate-400">{new Date(entry.timestamp).toLocaleString()}</span>
+                                    </div>
+                                    <p className="mt-1 text-slate-700 dark:text-slate-300">{entry.message}</p>
+                                    <p className="mt-1 text-xs text-slate-500 dark:text-slate-400 break-all">{entry.context}{entry.provider ? ` · ${entry.provider}` : ''}{entry.detail ? ` · ${entry.detail}` : ''}</p>
+                                </li>
+                            ))}
+                        </ul>
+                    )}
+                </div>
+                <div className="px-6 py-4 bg-slate-50 dark:bg-slate-800/50 rounded-b-2xl flex justify-end gap-3">
+                    <button onClick={handleClear} disabled={entries.length === 0} className="px-4 py-2 rounded-lg text-sm font-semibold text-red-600 hover:bg-red-50 dark:hover:bg-red-900/30 transition-colors disabled:opacity-50">Clear</button>
+                    <button onClick={handleCopy} className="px-4 py-2 rounded-lg bg-indigo-600 text-sm font-semibold text-white hover:bg-indigo-700 transition-colors w-36">
+                        {copied ? 'Copied!' : 'Copy Report'}
+                    </button>
+                </div>
+            </div>
+        </div>
+    );
+};
+
+export default DiagnosticsPanel;
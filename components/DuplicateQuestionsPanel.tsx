@@ -0,0 +1,62 @@
+import React, { useState } from 'react';
+import { type Question } from '../types';
+import { type NearDuplicate } from '../services/similarity';
+import { SpinnerIcon } from './icons/SpinnerIcon';
+
+interface DuplicateQuestionsPanelProps {
+    duplicates: NearDuplicate[];
+    /** Printed number of a question, which follows section order rather than generation order. */
+    numberOf: (question: Question) => number;
+    busyQuestion: Question | null;
+    onRegenerate: (duplicates: NearDuplicate[]) => void;
+}
+
+const truncate = (text: string, length = 90) => text.length > length ? `${text.slice(0, length)}…` : text;
+
+const DuplicateQuestionsPanel: React.FC<DuplicateQuestionsPanelProps> = ({ duplicates, numberOf, busyQuestion, onRegenerate }) => {
+    const [isExpanded, setIsExpanded] = useState(false);
+    const [isDismissed, setIsDismissed] = useState(false);
+
+    if (isDismissed || duplicates.length === 0) return null;
+    const isBusy = busyQuestion !== null;
+
+    return (
+        <div className="fixed top-48 right-8 z-50 w-80 rounded-xl border border-amber-300 bg-amber-50 text-amber-900 shadow-lg text-sm">
+            <div className="flex items-center justify-between gap-3 px-4 py-3">
+                <p className="font-semibold">{duplicates.length} question(s) repeat earlier ones</p>
+                <div className="flex items-center gap-2 shrink-0">
+                    <button onClick={() => setIsExpanded(e => !e)} className="font-semibold underline">{isExpanded ? 'Hide' : 'Details'}</button>
+                    <button onClick={() => setIsDismissed(true)} className="font-semibold">&times;</button>
+                </div>
+            </div>
+            {isExpanded && (
+                <ul className="px-4 max-h-72 overflow-y-auto space-y-3">
+                    {duplicates.map(duplicate => {
+                        const [best] = duplicate.matches;
+                        return (
+                            <li key={numberOf(duplicate.question)} className="border-t border-amber-200 pt-2">
+                                <div className="flex items-center justify-between gap-2">
+                                    <span className="font-semibold">Q{numberOf(duplicate.question)} · {Math.round(best.score * 100)}% similar</span>
+                                    <button onClick={() => onRegenerate([duplicate])} disabled={isBusy} className="flex items-center gap-1 text-xs font-semibold text-indigo-700 hover:underline disabled:opacity-50">
+                                        {busyQuestion === duplicate.question && <SpinnerIcon className="w-3 h-3" />}
+                                        Regenerate
+                                    </button>
+                                </div>
+                                <p className="mt-1 text-xs">"{truncate(best.text)}"</p>
+                                <p className="text-xs text-amber-700">{best.origin}{duplicate.matches.length > 1 ? ` and ${duplicate.matches.length - 1} more` : ''}</p>
+                            </li>
+                        );
+                    })}
+                </ul>
+            )}
+            <div className="px-4 py-3">
+                <button onClick={() => onRegenerate(duplicates)} disabled={isBusy} className="w-full flex items-center justify-center gap-2 px-3 py-2 rounded-lg bg-amber-600 text-white font-semibold hover:bg-amber-700 transition-colors disabled:opacity-60">
+                    {isBusy ? <SpinnerIcon className="w-4 h-4" /> : null}
+                    {isBusy ? 'Regenerating…' : 'Regenerate all automatically'}
+                </button>
+            </div>
+        </div>
+    );
+};
+
+export default DuplicateQuestionsPanel;
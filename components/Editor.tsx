@@ -1,10 +1,26 @@
 
-import React, { useState, useEffect, useRef, useImperativeHandle, forwardRef, useCallback } from 'react';
+import React, { useState, useEffect, useRef, useImperativeHandle, forwardRef, useCallback, useMemo } from 'react';
 import { jsPDF } from 'jspdf';
 import html2canvas from 'html2canvas';
-import { type QuestionPaperData, type PaperStyles } from '../types';
-import { generateHtmlFromPaperData } from '../services/htmlGenerator';
+import { type QuestionPaperData, type PaperStyles, type SectionGenerationState, type Question, type QuestionRefineAction, Taxonomy } from '../types';
+import { generateHtmlFromPaperData, orderQuestionsForLayout } from '../services/htmlGenerator';
+import { refineQuestion } from '../services/geminiService';
 import RichTextToolbar from './RichTextToolbar';
+import ValidationReportBanner from './ValidationReportBanner';
+import GenerationProgress from './GenerationProgress';
+import QuestionActionsMenu from './QuestionActionsMenu';
+import BlueprintReportModal from './BlueprintReportModal';
+import MarkingSchemeModal from './MarkingSchemeModal';
+import ReviewReportModal from './ReviewReportModal';
+import InstructionsModal from './InstructionsModal';
+import PaperSectionsModal from './PaperSectionsModal';
+import OmrSheetModal from './OmrSheetModal';
+import DuplicateQuestionsPanel from './DuplicateQuestionsPanel';
+import QuestionSourceNotes, { type QuestionSourceNote } from './QuestionSourceNotes';
+import { unresolvedSourceFlags } from '../services/sourceIngestion';
+import { OMR_QUESTION_TYPES } from '../services/omrSheet';
+import { getPaperTemplates, DEFAULT_TEMPLATE_ID } from '../services/paperTemplates';
+import { buildSimilarityCorpus, findNearDuplicates, findSimilarQuestions, type NearDuplicate } from '../services/similarity';
 import { SpinnerIcon } from './icons/SpinnerIcon';
 import { UploadIcon } from './icons/UploadIcon';
 import Cropper from 'react-cropper';
@@ -12,34 +28,16 @@ import "cropperjs/dist/cropper.css";
 
 const A4_WIDTH_PX = 794; 
 const A4_HEIGHT_PX = 1123;
+const MAX_DEDUPE_ATTEMPTS = 2;
 
-const triggerMathRendering = (element: HTMLElement | null): Promise<void> => {
-    return new Promise((resolve) => {
-        if (!element || !(window as any).renderMathInElement) {
-            resolve();
-            return;
-        }
-        try {
-            (window as any).renderMathInElement(element, { 
-                delimiters: [
-                    {left: '$$', right: '$$', display: true},
-                    {left: '$', right: '$', display: false},
-                    {left: '\\(', right: '\\)', display: false},
-                    {left: '\\[', right: '\\]', display: true}
-                ], 
-                throwOnError: false,
-                output: 'html', 
-                strict: false
-            });
-        } catch (err) {
-            console.error("KaTeX render error:", err);
-        }
-        setTimeout(resolve, 300);
-    });
-};
+export interface EditorGenerationState {
+    sections: SectionGenerationState[];
+    onCancel: () => void;
+    onRetry: (distributionId: string) => void;
+}
 
-const Editor = forwardRef<any, { paperData: QuestionPaperData; onSave: (p: QuestionPaperData) => void; onSaveAndExit: () => void; onReady: () => void; }>((props, ref) => {
-    const { paperData, onSave, onSaveAndExit, onReady } = props;
+const Editor = forwardRef<any, { paperData: QuestionPaperData; onSave: (p: QuestionPaperData) => void; onSaveAndExit: () => void; onReady: () => void; generation?: EditorGenerationState; duplicateThreshold?: number; }>((props, ref) => {
+    const { paperData, onSave, onSaveAndExit, onReady, generation, duplicateThreshold } = props;
     
     // State
     const [pagesHtml, setPagesHtml] = useState<string[]>([]);
@@ -49,6 +47,19 @@ const Editor = forwardRef<any, { paperData: QuestionPaperData; onSave: (p: Quest
     const [cropState, setCropState] = useState<{ isOpen: boolean; img: HTMLImageElement | null; src: string }>({ isOpen: false, img: null, src: '' });
     const [cropper, setCropper] = useState<any>();
 
+    // Per-question AI actions
+    const [hoveredQuestion, setHoveredQuestion] = useState<{ number: number; top: number; left: number } | null>(null);
+    const [refiningNumber, setRefiningNumber] = useState<number | null>(null);
+    const [isBlueprintOpen, setIsBlueprintOpen] = useState(false);
+    const [isMarkingSchemeOpen, setIsMarkingSchemeOpen] = useState(false);
+    const [isReviewOpen, setIsReviewOpen] = useState(false);
+    const [isInstructionsOpen, setIsInstructionsOpen] = useState(false);
+    const [isSectionsOpen, setIsSectionsOpen] = useState(false);
+    const [isOmrOpen, setIsOmrOpen] = useState(false);
+    const [paperTemplates] = useState(() => getPaperTemplates());
+    const [dedupingQuestion, setDedupingQuestion] = useState<Question | null>(null);
+    const [sourceNotePositions, setSourceNotePositions] = useState<Omit<QuestionSourceNote, 'question'>[]>([]);
+
     // Refs
     const pagesContainerRef = useRef<HTMLDivElement>(null);
     const fileInputRef = useRef<HTMLInputElement>(null);
@@ -62,12 +73,17 @@ const Editor = forwardRef<any, { paperData: QuestionPaperData; onSave: (p: Quest
         borderStyle: 'solid' 
     };
 
-    // Initial render & pagination
     useEffect(() => {
         onReady();
-        paginate();
     }, []);
 
+    // Re-paginate whenever what the layout is built from changes: the questions (e.g. as generated
+    // sections stream in), the template, the sections or the instructions. Saving the typed-in pages
+    // only changes `htmlContent`, so it does not re-paginate over the teacher's edits.
+    useEffect(() => {
+        paginate();
+    }, [paperData.questions, paperData.templateId, paperData.sections, paperData.instructions]);
+
     // Advanced Image Interaction (Drag, Resize, Select)
     useEffect(() => {
         let activeOverlay: HTMLElement | null = null;
@@ -252,7 +268,6 @@ const Editor = forwardRef<any, { paperData: QuestionPaperData; onSave: (p: Quest
         document.body.appendChild(container);
 
         await document.fonts.ready;
-        await triggerMathRendering(container);
         
         const contentRoot = container.querySelector('#paper-root');
         const children = Array.from(contentRoot?.children || []);
@@ -284,9 +299,35 @@ const Editor = forwardRef<any, { paperData: QuestionPaperData; onSave: (p: Quest
         document.body.removeChild(container);
 
         setPagesHtml(pages.length > 0 ? pages : [htmlContent]);
-        setTimeout(() => triggerMathRendering(pagesContainerRef.current), 100);
     }, [paperData]);
 
+    // Source citations sit in the margin to the right of each question's first block.
+    useEffect(() => {
+        const container = pagesContainerRef.current;
+        if (!container || !paperData.sourceMode) {
+            setSourceNotePositions([]);
+            return;
+        }
+        const measure = () => {
+            const containerRect = container.getBoundingClientRect();
+            const positions = new Map<number, Omit<QuestionSourceNote, 'question'>>();
+            container.querySelectorAll<HTMLElement>('.question-block').forEach(block => {
+                const number = Number(block.dataset.questionNumber);
+                const page = block.closest('.paper-page');
+                if (!number || !page || positions.has(number)) return;
+                positions.set(number, {
+                    number,
+                    top: block.getBoundingClientRect().top - containerRect.top + container.scrollTop,
+                    left: page.getBoundingClientRect().right - containerRect.left + container.scrollLeft + 16,
+                });
+            });
+            setSourceNotePositions([...positions.values()]);
+        };
+        measure();
+        window.addEventListener('resize', measure);
+        return () => window.removeEventListener('resize', measure);
+    }, [pagesHtml, paperData.sourceMode]);
+
     const handleImageUpload = (e: React.ChangeEvent<HTMLInputElement>) => {
         const file = e.target.files?.[0];
         if (!file) return;
@@ -334,6 +375,99 @@ const Editor = forwardRef<any, { paperData: QuestionPaperData; onSave: (p: Quest
         return updatedPaper;
     };
 
+    const handleQuestionHover = (e: React.MouseEvent) => {
+        const container = pagesContainerRef.current;
+        const block = (e.target as HTMLElement).closest('.question-block') as HTMLElement | null;
+        if (!container || !block || refiningNumber !== null) return;
+        const number = Number(block.dataset.questionNumber);
+        if (!number || number === hoveredQuestion?.number) return;
+
+        const blockRect = block.getBoundingClientRect();
+        const containerRect = container.getBoundingClientRect();
+        setHoveredQuestion({
+            number,
+            top: blockRect.top - containerRect.top + container.scrollTop - 28,
+            left: blockRect.right - containerRect.left + container.scrollLeft - 64,
+        });
+    };
+
+    const handleRefineQuestion = async (question: Question, number: number, action: QuestionRefineAction, taxonomy?: Taxonomy) => {
+        setRefiningNumber(number);
+        try {
+            const refined = await refineQuestion(paperData, question, action, taxonomy);
+            const updatedPaper = { ...paperData, questions: paperData.questions.map(q => q === question ? refined : q) };
+            updatedPaper.htmlContent = generateHtmlFromPaperData(updatedPaper, {
+                logoConfig: updatedPaper.schoolLogo ? { src: updatedPaper.schoolLogo, alignment: 'center' } : undefined
+            });
+            onSave(updatedPaper);
+        } catch (error) {
+            console.error(error);
+            alert(error instanceof Error ? error.message : "Could not update the question.");
+        } finally {
+            setRefiningNumber(null);
+        }
+    };
+
+    const isGenerating = !!generation?.sections.some(s => s.status === 'pending' || s.status === 'generating');
+    const hoveredQuestionData = hoveredQuestion ? orderQuestionsForLayout(paperData.questions, paperData.sections)[hoveredQuestion.number - 1] : undefined;
+
+    // Earlier questions for this subject and class; only teachers' editors pass a threshold.
+    const similarityCorpus = useMemo(
+        () => duplicateThreshold === undefined ? null : buildSimilarityCorpus(paperData),
+        [duplicateThreshold, paperData.id, paperData.subject, paperData.className]
+    );
+    const nearDuplicates = useMemo(
+        () => similarityCorpus && duplicateThreshold !== undefined && !isGenerating ? findNearDuplicates(paperData.questions, similarityCorpus, duplicateThreshold) : [],
+        [similarityCorpus, duplicateThreshold, isGenerating, paperData.questions]
+    );
+    const printedNumber = (question: Question) => orderQuestionsForLayout(paperData.questions, paperData.sections).indexOf(question) + 1;
+
+    const handleRegenerateDuplicates = async (duplicates: NearDuplicate[]) => {
+        if (!similarityCorpus || duplicateThreshold === undefined) return;
+        let current = paperData;
+        try {
+            for (const { question, matches } of duplicates) {
+                setDedupingQuestion(question);
+                const avoid = matches.map(m => m.text);
+                let replacement = question;
+                for (let attempt = 0; attempt < MAX_DEDUPE_ATTEMPTS; attempt++) {
+                    replacement = await refineQuestion(current, question, 'regenerate', undefined, avoid);
+                    const stillSimilar = findSimilarQuestions(replacement, similarityCorpus, duplicateThreshold);
+                    if (stillSimilar.length === 0) break;
+                    avoid.push(...stillSimilar.map(m => m.text), replacement.questionText);
+                }
+                current = { ...current, questions: current.questions.map(q => q === question ? replacement : q) };
+                current.htmlContent = generateHtmlFromPaperData(current, {
+                    logoConfig: current.schoolLogo ? { src: current.schoolLogo, alignment: 'center' } : undefined
+                });
+                onSave(current);
+            }
+        } catch (error) {
+            console.error(error);
+            alert(error instanceof Error ? error.message : "Could not regenerate the repeated questions.");
+        } finally {
+            setDedupingQuestion(null);
+        }
+    };
+
+    const orderedQuestions = orderQuestionsForLayout(paperData.questions, paperData.sections);
+    const sourceNotes: QuestionSourceNote[] = sourceNotePositions
+        .map(position => ({ ...position, question: orderedQuestions[position.number - 1] }))
+        .filter(note => note.question && (note.question.source || note.question.sourceFlag));
+
+    const handleTemplateChange = (templateId: string) => {
+        onSave({ ...paperData, templateId });
+    };
+
+    const openReviewIssues = paperData.review?.issues.filter(issue => issue.status === 'open').length ?? 0;
+
+    const handleResolveSourceFlag = (question: Question) => {
+        onSave({
+            ...paperData,
+            questions: paperData.questions.map(q => q === question && q.sourceFlag ? { ...q, sourceFlag: { ...q.sourceFlag, resolved: true } } : q),
+        });
+    };
+
     const handleCropApply = () => {
         if (cropper && cropState.img) {
             const croppedData = cropper.getCroppedCanvas().toDataURL();
@@ -347,6 +481,11 @@ const Editor = forwardRef<any, { paperData: QuestionPaperData; onSave: (p: Quest
 
     const handleExportPDF = async () => {
         if (isExporting) return;
+        const flagged = unresolvedSourceFlags(paperData);
+        if (flagged.length > 0) {
+            alert(`${flagged.length} question(s) could not be grounded in the source material. This paper uses strict source mode, so regenerate or keep each flagged question before exporting.`);
+            return;
+        }
         setIsExporting(true);
         // Clear selection handles before export
         const overlays = pagesContainerRef.current?.querySelectorAll('.selection-overlay');
@@ -455,15 +594,76 @@ const Editor = forwardRef<any, { paperData: QuestionPaperData; onSave: (p: Quest
                 <UploadIcon className="w-4 h-4" />
                 Add Image
             </button>
+            <div className="fixed top-36 right-8 z-50 flex gap-2">
+                {!isGenerating && (
+                    <select value={paperTemplates.some(t => t.id === paperData.templateId) ? paperData.templateId : DEFAULT_TEMPLATE_ID} onChange={e => handleTemplateChange(e.target.value)} title="Layout template" className="bg-white dark:bg-slate-800 text-indigo-600 dark:text-indigo-400 pl-4 pr-8 py-2 rounded-full shadow-lg border-0 font-semibold text-sm focus:ring-2 focus:ring-indigo-500">
+                        {paperTemplates.map(t => <option key={t.id} value={t.id}>{t.name} layout</option>)}
+                    </select>
+                )}
+                {paperData.blueprint && (
+                    <button onClick={() => setIsBlueprintOpen(true)} className="flex items-center gap-2 bg-white dark:bg-slate-800 text-indigo-600 dark:text-indigo-400 px-4 py-2 rounded-full shadow-lg hover:bg-slate-50 dark:hover:bg-slate-700 transition-all font-semibold text-sm hover:scale-105">
+                        Blueprint
+                    </button>
+                )}
+                {!isGenerating && paperData.questions.length > 0 && (
+                    <>
+                        <button onClick={() => setIsSectionsOpen(true)} className="flex items-center gap-2 bg-white dark:bg-slate-800 text-indigo-600 dark:text-indigo-400 px-4 py-2 rounded-full shadow-lg hover:bg-slate-50 dark:hover:bg-slate-700 transition-all font-semibold text-sm hover:scale-105">
+                            Sections
+                        </button>
+                        <button onClick={() => setIsInstructionsOpen(true)} className="flex items-center gap-2 bg-white dark:bg-slate-800 text-indigo-600 dark:text-indigo-400 px-4 py-2 rounded-full shadow-lg hover:bg-slate-50 dark:hover:bg-slate-700 transition-all font-semibold text-sm hover:scale-105">
+                            Instructions
+                        </button>
+                        <button onClick={() => setIsMarkingSchemeOpen(true)} className="flex items-center gap-2 bg-white dark:bg-slate-800 text-indigo-600 dark:text-indigo-400 px-4 py-2 rounded-full shadow-lg hover:bg-slate-50 dark:hover:bg-slate-700 transition-all font-semibold text-sm hover:scale-105">
+                            Marking Scheme
+                        </button>
+                        <button onClick={() => setIsReviewOpen(true)} className="flex items-center gap-2 bg-white dark:bg-slate-800 text-indigo-600 dark:text-indigo-400 px-4 py-2 rounded-full shadow-lg hover:bg-slate-50 dark:hover:bg-slate-700 transition-all font-semibold text-sm hover:scale-105">
+                            Review
+                            {openReviewIssues > 0 && <span className="px-1.5 rounded-full bg-amber-100 text-amber-800 text-xs">{openReviewIssues}</span>}
+                        </button>
+                        {paperData.questions.some(q => OMR_QUESTION_TYPES.includes(q.type)) && (
+                            <button onClick={() => setIsOmrOpen(true)} className="flex items-center gap-2 bg-white dark:bg-slate-800 text-indigo-600 dark:text-indigo-400 px-4 py-2 rounded-full shadow-lg hover:bg-slate-50 dark:hover:bg-slate-700 transition-all font-semibold text-sm hover:scale-105">
+                                OMR Sheet
+                            </button>
+                        )}
+                    </>
+                )}
+            </div>
+            {isBlueprintOpen && <BlueprintReportModal paper={paperData} onClose={() => setIsBlueprintOpen(false)} />}
+            {isMarkingSchemeOpen && <MarkingSchemeModal paper={paperData} onSave={onSave} onClose={() => setIsMarkingSchemeOpen(false)} />}
+            {isReviewOpen && <ReviewReportModal paper={paperData} onSave={onSave} onClose={() => setIsReviewOpen(false)} />}
+            {isInstructionsOpen && <InstructionsModal paper={paperData} onSave={onSave} onClose={() => setIsInstructionsOpen(false)} />}
+            {isOmrOpen && <OmrSheetModal paper={paperData} onClose={() => setIsOmrOpen(false)} />}
+            {isSectionsOpen && <PaperSectionsModal paper={paperData} onSave={onSave} onClose={() => setIsSectionsOpen(false)} />}
             
             <RichTextToolbar editorRef={pagesContainerRef} />
 
-            <main className="flex-1 overflow-auto p-8 bg-slate-300 dark:bg-slate-950/20" ref={pagesContainerRef}>
+            {generation && <GenerationProgress sections={generation.sections} onCancel={generation.onCancel} onRetry={generation.onRetry} />}
+            {paperData.validationReport && !generation?.sections.some(s => s.status !== 'done') && <ValidationReportBanner report={paperData.validationReport} />}
+            <DuplicateQuestionsPanel duplicates={nearDuplicates} numberOf={printedNumber} busyQuestion={dedupingQuestion} onRegenerate={handleRegenerateDuplicates} />
+
+            <main className="flex-1 overflow-auto p-8 bg-slate-300 dark:bg-slate-950/20 relative" ref={pagesContainerRef} onMouseOver={handleQuestionHover} onMouseLeave={() => refiningNumber === null && setHoveredQuestion(null)}>
+                {hoveredQuestion && hoveredQuestionData && !isGenerating && (
+                    <QuestionActionsMenu
+                        question={{ ...hoveredQuestionData, questionNumber: hoveredQuestion.number }}
+                        position={hoveredQuestion}
+                        isBusy={refiningNumber === hoveredQuestion.number}
+                        onAction={(action, taxonomy) => handleRefineQuestion(hoveredQuestionData, hoveredQuestion.number, action, taxonomy)}
+                    />
+                )}
+                {!isGenerating && (
+                    <QuestionSourceNotes
+                        notes={sourceNotes}
+                        busyNumber={refiningNumber}
+                        onResolve={handleResolveSourceFlag}
+                        onRegenerate={(question, number) => handleRefineQuestion(question, number, 'regenerate')}
+                    />
+                )}
                 {pagesHtml.map((html, i) => (
                     <div key={i} className="paper-page bg-white shadow-2xl mx-auto mb-10 relative print:shadow-none print:mb-0" 
                         style={{ width: A4_WIDTH_PX, height: A4_HEIGHT_PX, overflow: 'hidden', position: 'relative' }}>
+                        {/* Finished sections re-lay the pages out from the questions, so typing waits until generation stops. */}
                         <div 
-                             contentEditable={true}
+                             contentEditable={!isGenerating}
                              suppressContentEditableWarning={true}
                              className="paper-page-content prose max-w-none outline-none selection:bg-indigo-100 selection:text-indigo-900" 
                              style={{ 
@@ -0,0 +1,61 @@
+import React from 'react';
+import { type SectionGenerationState } from '../types';
+import { SpinnerIcon } from './icons/SpinnerIcon';
+import { CheckIcon } from './icons/CheckIcon';
+
+interface GenerationProgressProps {
+    sections: SectionGenerationState[];
+    onCancel: () => void;
+    onRetry: (distributionId: string) => void;
+}
+
+const GenerationProgress: React.FC<GenerationProgressProps> = ({ sections, onCancel, onRetry }) => {
+    const isRunning = sections.some(s => s.status === 'generating' || s.status === 'pending');
+    const doneCount = sections.filter(s => s.status === 'done').length;
+    const failedCount = sections.filter(s => s.status === 'failed').length;
+
+    if (!isRunning && failedCount === 0) return null;
+
+    return (
+        <div className="fixed top-24 left-8 z-50 w-80 bg-white dark:bg-slate-800 rounded-xl shadow-2xl border dark:border-slate-700 text-sm">
+            <div className="px-4 py-3 border-b dark:border-slate-700 flex items-center justify-between">
+                <div>
+                    <p className="font-bold text-slate-900 dark:text-white">{isRunning ? 'Generating paper...' : 'Some sections failed'}</p>
+                    <p className="text-xs text-slate-500 dark:text-slate-400">{doneCount} of {sections.length} sections ready</p>
+                </div>
+                {isRunning && (
+                    <button onClick={onCancel} className="px-3 py-1 rounded-md bg-red-50 text-red-600 font-semibold hover:bg-red-100 dark:bg-red-900/30 dark:text-red-400">
+                        Cancel
+                    </button>
+                )}
+            </div>
+            <ul className="max-h-72 overflow-y-auto divide-y dark:divide-slate-700">
+                {sections.map(section => (
+                    <li key={section.item.id} className="px-4 py-2 flex items-center gap-3">
+                        <span className="w-5 h-5 shrink-0 flex items-center justify-center">
+                            {section.status === 'generating' && <SpinnerIcon className="w-4 h-4 text-indigo-500" />}
+                            {section.status === 'done' && <CheckIcon className="w-4 h-4 text-emerald-500" />}
+                            {section.status === 'failed' && <span className="font-bold text-red-500">!</span>}
+                            {section.status === 'pending' && <span className="w-2 h-2 rounded-full bg-slate-300 dark:bg-slate-600" />}
+                        </span>
+                        <div className="flex-1 min-w-0">
+                            <p className="font-medium text-slate-800 dark:text-slate-200 truncate">{section.item.type}{section.item.unit ? ` · ${section.item.unit}` : ''}</p>
+                            <p className="text-xs text-slate-500 dark:text-slate-400 truncate">
+                                {section.status === 'failed'
+                                    ? section.error
+                                    : `${section.result?.questions.length ?? 0} / ${section.item.count} questions · ${section.item.marks} marks each`}
+                            </p>
+                        </div>
+                        {section.status === 'failed' && (
+                            <button onClick={() => onRetry(section.item.id)} disabled={isRunning} className="px-2 py-1 rounded-md text-xs font-semibold text-indigo-600 hover:bg-indigo-50 dark:hover:bg-indigo-900/30 disabled:opacity-40">
+                                Retry
+                            </button>
+                        )}
+                    </li>
+                ))}
+            </ul>
+        </div>
+    );
+};
+
+export default GenerationProgress;
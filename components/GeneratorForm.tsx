@@ -1,6 +1,17 @@
 import React, { useState, useMemo, useEffect, useRef } from 'react';
-import { type FormData, QuestionType, type QuestionDistributionItem, Difficulty, Taxonomy, User } from '../types';
+import { type FormData, QuestionType, type QuestionDistributionItem, type Blueprint, type BilingualLayout, type Syllabus, type GenerationPreset, type SourceChunk, type PaperTemplate, type PaperSection, Difficulty, Taxonomy, User } from '../types';
 import { LANGUAGES, QUESTION_TYPES, DIFFICULTY_LEVELS, BLOOM_TAXONOMY_LEVELS } from '../constants';
+import { createBlueprint, blueprintToDistribution } from '../services/blueprint';
+import { syllabusTopicsFor, syllabusTopicsToText, syllabusTitle } from '../services/syllabus';
+import { authService } from '../services/authService';
+import { createPreset, duplicatePreset, presetsToJson, parsePresetsJson } from '../services/presets';
+import { downloadTextFile } from '../utils/download';
+import { ingestSourceDocument, isIngestibleFile } from '../services/sourceIngestion';
+import { getPaperTemplates, DEFAULT_TEMPLATE_ID } from '../services/paperTemplates';
+import BlueprintEditor from './BlueprintEditor';
+import SyllabusTreePicker from './SyllabusTreePicker';
+import SourceChunkPicker from './SourceChunkPicker';
+import SectionsEditor from './SectionsEditor';
 
 interface GeneratorFormProps {
   onSubmit: (formData: FormData) => void;
@@ -50,22 +61,45 @@ const GeneratorForm: React.FC<GeneratorFormProps> = ({ onSubmit, isLoading, user
     subject: '',
     topics: '',
     language: 'English',
+    secondaryLanguage: '',
+    bilingualLayout: 'interleaved' as BilingualLayout,
+    templateId: DEFAULT_TEMPLATE_ID,
+    sections: [] as PaperSection[],
     timeAllowed: '',
     sourceMaterials: '',
     sourceMode: 'reference' as 'strict' | 'reference',
     modelQuality: 'flash' as 'flash' | 'pro',
   });
   
+  // Presets replace the whole form; other callers (voice, dashboard) may only fill in some fields.
+  const applyFormData = (data: Partial<FormData>, isPreset = false) => {
+    const { questionDistribution: distribution, blueprint: savedBlueprint, syllabusId: savedSyllabusId, syllabusTopics, sourceFiles, sourceChunks: _chunks, totalMarks: _total, ...fields } = data;
+    setFormData(prev => ({
+        ...prev,
+        ...fields,
+        schoolName: fields.schoolName || prev.schoolName,
+        secondaryLanguage: isPreset ? fields.secondaryLanguage || '' : fields.secondaryLanguage ?? prev.secondaryLanguage,
+        sections: isPreset ? fields.sections || [] : fields.sections ?? prev.sections,
+    }));
+    if (distribution) {
+        setQuestionDistribution(distribution);
+    }
+    if (savedBlueprint || isPreset) {
+        setUseBlueprint(!!savedBlueprint);
+        if (savedBlueprint) setBlueprint(savedBlueprint);
+    }
+    const savedSyllabus = savedSyllabusId ? syllabi.find(s => s.id === savedSyllabusId) : undefined;
+    if (savedSyllabus || isPreset) {
+        // A preset shared by a colleague may name a syllabus this teacher does not have; its topics text still applies.
+        setSyllabusId(savedSyllabus?.id || '');
+        setSelectedNodeIds(savedSyllabus ? (syllabusTopics || []).map(t => t.id) : []);
+    }
+    setErrors({});
+  };
+
   useEffect(() => {
     if (initialData) {
-        setFormData(prev => ({ 
-            ...prev, 
-            ...initialData,
-            schoolName: initialData.schoolName || prev.schoolName,
-         }));
-        if(initialData.questionDistribution) {
-            setQuestionDistribution(initialData.questionDistribution);
-        }
+        applyFormData(initialData);
         onClearInitialData?.();
     }
   }, [initialData, onClearInitialData]);
@@ -78,16 +112,51 @@ const GeneratorForm: React.FC<GeneratorFormProps> = ({ onSubmit, isLoading, user
     { id: `dist-${Date.now()}`, type: QuestionType.MultipleChoice, count: 5, marks: 2, difficulty: Difficulty.Medium, taxonomy: Taxonomy.Applying },
   ]);
 
+  const [syllabi] = useState<Syllabus[]>(() => authService.getSyllabi());
+  const [paperTemplates] = useState<PaperTemplate[]>(() => getPaperTemplates());
+  const selectedTemplate = paperTemplates.find(t => t.id === formData.templateId);
+  const [syllabusId, setSyllabusId] = useState('');
+  const [selectedNodeIds, setSelectedNodeIds] = useState<string[]>([]);
+  const syllabus = syllabi.find(s => s.id === syllabusId);
+
+  // Syllabi for the class and subject being typed are listed first.
+  const sortedSyllabi = useMemo(() => {
+    const matches = (s: Syllabus) => s.className.trim().toLowerCase() === formData.className.trim().toLowerCase() && s.subject.trim().toLowerCase() === formData.subject.trim().toLowerCase();
+    return [...syllabi].sort((a, b) => Number(matches(b)) - Number(matches(a)));
+  }, [syllabi, formData.className, formData.subject]);
+
+  const handleSyllabusChange = (id: string) => {
+    setSyllabusId(id);
+    setSelectedNodeIds([]);
+    const picked = syllabi.find(s => s.id === id);
+    if (picked) {
+        setFormData(prev => ({ ...prev, className: prev.className || picked.className, subject: prev.subject || picked.subject }));
+    }
+  };
+
+  const [useBlueprint, setUseBlueprint] = useState(false);
+  const [blueprint, setBlueprint] = useState<Blueprint>(() => createBlueprint('', ''));
+
+  // In blueprint mode the matrix replaces the hand-made distribution.
+  const effectiveDistribution = useMemo(
+    () => useBlueprint ? blueprintToDistribution(blueprint) : questionDistribution,
+    [useBlueprint, blueprint, questionDistribution]
+  );
+
   const [errors, setErrors] = useState<Record<string, string>>({});
   const [attachedFiles, setAttachedFiles] = useState<{ name: string; data: string; mimeType: string; }[]>([]);
+  const [sourceChunks, setSourceChunks] = useState<SourceChunk[]>([]);
+  const [selectedChunkIds, setSelectedChunkIds] = useState<string[]>([]);
+  const [ingestingFile, setIngestingFile] = useState<string | null>(null);
+  const [ingestError, setIngestError] = useState('');
 
   const dragItemIndex = useRef<number | null>(null);
   const dragOverItemIndex = useRef<number | null>(null);
   const [draggingIndex, setDraggingIndex] = useState<number | null>(null);
 
   const totalMarks = useMemo(() => {
-    return questionDistribution.reduce((acc, item) => acc + (item.count * item.marks), 0);
-  }, [questionDistribution]);
+    return effectiveDistribution.reduce((acc, item) => acc + (item.count * item.marks), 0);
+  }, [effectiveDistribution]);
 
   const handleChange = (e: React.ChangeEvent<HTMLInputElement | HTMLSelectElement | HTMLTextAreaElement>) => {
     const { name, value } = e.target;
@@ -111,35 +180,53 @@ const GeneratorForm: React.FC<GeneratorFormProps> = ({ onSubmit, isLoading, user
     const files = event.target.files;
     if (!files || files.length === 0) return;
 
-    for (const file of Array.from(files) as File[]) {
-        if (file.size > 20 * 1024 * 1024) { 
-            alert(`File ${file.name} is too large. Please keep files under 20MB.`);
+    const selectedFiles = Array.from(files) as File[];
+    if (event.target) event.target.value = '';
+    setIngestError('');
+
+    for (const file of selectedFiles) {
+        // Documents are read locally and split into chapters, so they have a higher limit than inline attachments.
+        const limit = isIngestibleFile(file) ? 100 : 20;
+        if (file.size > limit * 1024 * 1024) {
+            alert(`File ${file.name} is too large. Please keep files under ${limit}MB.`);
             continue;
         }
 
-        if (file.type.startsWith('text/')) {
-            const text = await file.text();
-            setFormData(prev => ({
-                ...prev,
-                sourceMaterials: (prev.sourceMaterials ? prev.sourceMaterials + `\n\n--- CONTENT FROM ${file.name} ---\n\n` : '') + text
-            }));
-        } else {
+        if (isIngestibleFile(file)) {
+            setIngestingFile(file.name);
             try {
-                const base64Data = await blobToBase64(file);
-                setAttachedFiles(prev => [...prev.filter(f => f.name !== file.name), { name: file.name, data: base64Data, mimeType: file.type }]);
+                const chunks = await ingestSourceDocument(file);
+                setSourceChunks(prev => [...prev.filter(c => c.documentName !== file.name), ...chunks]);
+                setSelectedChunkIds(prev => [...prev, ...chunks.map(c => c.id)]);
+                continue;
             } catch (error) {
-                console.error(`Error processing file ${file.name}:`, error);
+                console.error(`Error reading ${file.name}:`, error);
+                setIngestError(error instanceof Error ? error.message : `${file.name} could not be read.`);
+                // Scanned PDFs have no text layer; the model can still read them as an attachment.
+                if (!file.name.toLowerCase().endsWith('.pdf')) continue;
+            } finally {
+                setIngestingFile(null);
             }
         }
+        try {
+            const base64Data = await blobToBase64(file);
+            setAttachedFiles(prev => [...prev.filter(f => f.name !== file.name), { name: file.name, data: base64Data, mimeType: file.type }]);
+        } catch (error) {
+            console.error(`Error processing file ${file.name}:`, error);
+        }
     }
-
-    if (event.target) event.target.value = '';
   };
 
   const removeAttachedFile = (fileName: string) => {
     setAttachedFiles(prev => prev.filter(f => f.name !== fileName));
   };
 
+  const removeSourceDocument = (documentName: string) => {
+    const removed = new Set(sourceChunks.filter(c => c.documentName === documentName).map(c => c.id));
+    setSourceChunks(prev => prev.filter(c => !removed.has(c.id)));
+    setSelectedChunkIds(prev => prev.filter(id => !removed.has(id)));
+  };
+
 
   const handleDistributionChange = (id: string, field: keyof Omit<QuestionDistributionItem, 'id'>, value: string | number) => {
     setQuestionDistribution(prev =>
@@ -204,6 +291,10 @@ const GeneratorForm: React.FC<GeneratorFormProps> = ({ onSubmit, isLoading, user
       { id: `dist-${Date.now()}-1`, type: QuestionType.MultipleChoice, count: 10, marks: 1, difficulty: Difficulty.Easy, taxonomy: Taxonomy.Remembering },
     ]);
     setAttachedFiles([]);
+    setSourceChunks([]);
+    setSelectedChunkIds([]);
+    setSyllabusId('');
+    setSelectedNodeIds([]);
     setErrors({});
   };
 
@@ -212,10 +303,25 @@ const GeneratorForm: React.FC<GeneratorFormProps> = ({ onSubmit, isLoading, user
     if (!formData.schoolName.trim()) newErrors.schoolName = "School name is required.";
     if (!formData.className.trim()) newErrors.className = "Class/Grade is required.";
     if (!formData.subject.trim()) newErrors.subject = "Subject is required.";
-    if (!formData.topics.trim()) newErrors.topics = "Topics are required.";
+    if (syllabus) {
+        if (selectedNodeIds.length === 0) newErrors.topics = "Pick at least one syllabus topic.";
+    } else if (!formData.topics.trim()) newErrors.topics = "Topics are required.";
     if (!formData.timeAllowed.trim()) newErrors.timeAllowed = "Time allowed is required.";
-    if (questionDistribution.some(d => d.count <= 0 || d.marks < 0)) {
+    if (formData.secondaryLanguage && formData.secondaryLanguage === formData.language) newErrors.secondaryLanguage = "Choose a second language different from the first.";
+    if (!useBlueprint && questionDistribution.some(d => d.count <= 0 || d.marks < 0)) {
         newErrors.distribution = "Question count must be positive.";
+    } else if (!useBlueprint && questionDistribution.some(d => (d.internalChoices || 0) > d.count)) {
+        newErrors.distribution = "Internal choices cannot exceed the question count.";
+    }
+    if (useBlueprint) {
+        if (blueprint.units.some(u => !u.name.trim())) newErrors.blueprint = "Every unit needs a name.";
+        else if (effectiveDistribution.length === 0) newErrors.blueprint = "Add at least one matrix row with questions.";
+        else if (effectiveDistribution.some(d => (d.internalChoices || 0) > d.count)) newErrors.blueprint = "Internal choices cannot exceed the question count.";
+    }
+    if (formData.sections.some(s => !s.name.trim() || s.types.length === 0)) {
+        newErrors.sections = "Every section needs a name and at least one question type.";
+    } else if (formData.sections.some(s => s.minMarks !== undefined && s.maxMarks !== undefined && s.minMarks > s.maxMarks)) {
+        newErrors.sections = "A section's minimum marks cannot exceed its maximum.";
     }
     if (totalMarks <= 0) {
         newErrors.totalMarks = "Total marks must be greater than zero.";
@@ -224,15 +330,94 @@ const GeneratorForm: React.FC<GeneratorFormProps> = ({ onSubmit, isLoading, user
     return Object.keys(newErrors).length === 0;
   };
 
+  const selectedChunks = sourceChunks.filter(c => selectedChunkIds.includes(c.id));
+
+  const buildFormData = (): FormData => {
+    const syllabusTopics = syllabus ? syllabusTopicsFor(syllabus, selectedNodeIds) : undefined;
+    return {
+        ...formData,
+        topics: syllabusTopics ? syllabusTopicsToText(syllabusTopics) : formData.topics,
+        syllabusId: syllabus?.id,
+        syllabusTopics,
+        questionDistribution: effectiveDistribution,
+        totalMarks,
+        sourceFiles: attachedFiles,
+        sourceChunks: selectedChunks.length ? selectedChunks : undefined,
+        blueprint: useBlueprint ? blueprint : undefined,
+        secondaryLanguage: formData.secondaryLanguage || undefined,
+        sections: formData.sections.length ? formData.sections : undefined,
+    };
+  };
+
   const handleSubmit = (e: React.FormEvent) => {
     e.preventDefault();
     if (validate()) {
-        onSubmit({
-            ...formData,
-            questionDistribution,
-            totalMarks,
-            sourceFiles: attachedFiles,
-        });
+        onSubmit(buildFormData());
+    }
+  };
+
+  // --- Presets ---
+  const [presets, setPresets] = useState<GenerationPreset[]>(() => authService.getPresets());
+  const [activePresetId, setActivePresetId] = useState('');
+  const [presetName, setPresetName] = useState<string | null>(null); // non-null while naming a new preset
+  const [presetMessage, setPresetMessage] = useState('');
+  const presetFileRef = useRef<HTMLInputElement>(null);
+  const activePreset = presets.find(p => p.id === activePresetId);
+
+  const flashPresetMessage = (message: string) => {
+    setPresetMessage(message);
+    setTimeout(() => setPresetMessage(''), 2500);
+  };
+
+  const handleLoadPreset = (id: string) => {
+    const preset = presets.find(p => p.id === id);
+    if (!preset) return;
+    applyFormData(preset.formData, true);
+    setActivePresetId(id);
+  };
+
+  const handleSavePreset = () => {
+    if (!presetName?.trim()) return;
+    const saved = authService.savePreset(createPreset(presetName, buildFormData()));
+    setPresets(authService.getPresets());
+    setActivePresetId(saved.id);
+    setPresetName(null);
+    flashPresetMessage('Preset saved');
+  };
+
+  const handleUpdatePreset = () => {
+    if (!activePreset) return;
+    authService.savePreset({ ...activePreset, formData: createPreset(activePreset.name, buildFormData()).formData });
+    setPresets(authService.getPresets());
+    flashPresetMessage('Preset updated');
+  };
+
+  const handleDuplicatePreset = () => {
+    if (!activePreset) return;
+    const saved = authService.savePreset(duplicatePreset(activePreset, presets.map(p => p.name)));
+    setPresets(authService.getPresets());
+    setActivePresetId(saved.id);
+  };
+
+  const handleDeletePreset = () => {
+    if (!activePreset || !window.confirm(`Delete the preset "${activePreset.name}"?`)) return;
+    authService.deletePreset(activePreset.id);
+    setPresets(authService.getPresets());
+    setActivePresetId('');
+  };
+
+  const handleImportPresets = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) return;
+    try {
+        const imported = parsePresetsJson(await file.text());
+        imported.forEach(preset => authService.savePreset(preset));
+        setPresets(authService.getPresets());
+        flashPresetMessage(`${imported.length} preset(s) imported`);
+    } catch (error) {
+        console.error(error);
+        flashPresetMessage(error instanceof Error ? error.message : 'The presets could not be imported.');
     }
   };
 
@@ -256,6 +441,47 @@ const GeneratorForm: React.FC<GeneratorFormProps> = ({ onSubmit, isLoading, user
                     </div>
                 </div>
 
+                <div className="p-4 rounded-xl bg-slate-50 dark:bg-slate-900/50 border dark:border-slate-700/50 space-y-3">
+                    <input type="file" ref={presetFileRef} onChange={handleImportPresets} accept=".json,application/json" className="hidden" />
+                    <div className="flex flex-wrap items-center gap-3">
+                        <label htmlFor="preset" className="text-sm font-semibold text-slate-700 dark:text-slate-300">Preset</label>
+                        <select id="preset" value={activePresetId} onChange={e => handleLoadPreset(e.target.value)} className="flex-1 min-w-[12rem] rounded-lg border-0 py-2 px-3 text-gray-900 dark:text-white bg-white dark:bg-slate-900/50 shadow-sm ring-1 ring-inset ring-gray-300 dark:ring-slate-700 focus:ring-2 focus:ring-inset focus:ring-indigo-600 sm:text-sm">
+                            <option value="" disabled>{presets.length ? 'Load a saved preset…' : 'No saved presets yet'}</option>
+                            {presets.map(p => <option key={p.id} value={p.id}>{p.name}</option>)}
+                        </select>
+                        <div className="flex flex-wrap items-center gap-2 text-sm font-semibold">
+                            <button type="button" onClick={() => setPresetName(activePreset ? `${activePreset.name} (Copy)` : '')} className="text-indigo-600 hover:text-indigo-800">Save as preset</button>
+                            {activePreset && (
+                                <>
+                                    <button type="button" onClick={handleUpdatePreset} className="text-indigo-600 hover:text-indigo-800">Update</button>
+                                    <button type="button" onClick={handleDuplicatePreset} className="text-indigo-600 hover:text-indigo-800">Duplicate</button>
+                                    <button type="button" onClick={handleDeletePreset} className="text-red-600 hover:text-red-800">Delete</button>
+                                </>
+                            )}
+                            <button type="button" onClick={() => presetFileRef.current?.click()} className="text-slate-600 dark:text-slate-400 hover:text-slate-900 dark:hover:text-white">Import</button>
+                            {presets.length > 0 && (
+                                <button type="button" onClick={() => downloadTextFile(presetsToJson(presets), 'presets.json', 'application/json')} className="text-slate-600 dark:text-slate-400 hover:text-slate-900 dark:hover:text-white">Export</button>
+                            )}
+                        </div>
+                    </div>
+                    {presetName !== null && (
+                        <div className="flex items-center gap-2">
+                            <input
+                                type="text"
+                                value={presetName}
+                                onChange={e => setPresetName(e.target.value)}
+                                onKeyDown={e => { if (e.key === 'Enter') { e.preventDefault(); handleSavePreset(); } }}
+                                placeholder="e.g., Class 10 Science Half-Yearly"
+                                autoFocus
+                                className="flex-1 rounded-lg border-0 py-2 px-3 text-gray-900 dark:text-white bg-white dark:bg-slate-900/50 shadow-sm ring-1 ring-inset ring-gray-300 dark:ring-slate-700 focus:ring-2 focus:ring-inset focus:ring-indigo-600 sm:text-sm"
+                            />
+                            <button type="button" onClick={handleSavePreset} disabled={!presetName.trim()} className="px-4 py-2 rounded-lg bg-indigo-600 text-sm font-semibold text-white hover:bg-indigo-700 disabled:opacity-50">Save</button>
+                            <button type="button" onClick={() => setPresetName(null)} className="px-3 py-2 text-sm font-semibold text-slate-600 dark:text-slate-400">Cancel</button>
+                        </div>
+                    )}
+                    {presetMessage && <p className="text-xs font-medium text-slate-600 dark:text-slate-400">{presetMessage}</p>}
+                </div>
+
                 <div className="space-y-6 border-t dark:border-slate-700 pt-8">
                     <div className="flex justify-between items-center">
                         <h3 className="text-xl font-bold text-slate-800 dark:text-slate-200">1. Paper Details</h3>
@@ -281,15 +507,58 @@ const GeneratorForm: React.FC<GeneratorFormProps> = ({ onSubmit, isLoading, user
                         <FormField name="className" label="Class / Grade" value={formData.className} onChange={handleChange} error={errors.className} />
                         <FormField name="subject" label="Subject" value={formData.subject} onChange={handleChange} error={errors.subject} />
                         <FormField name="timeAllowed" label="Time Allowed" value={formData.timeAllowed} onChange={handleChange} error={errors.timeAllowed} placeholder="e.g., 2 hours 30 minutes" />
-                        <div className="md:col-span-2">
-                             <FormField name="topics" label="Topics to Cover" as="textarea" value={formData.topics} onChange={handleChange} error={errors.topics} />
+                        <div className="md:col-span-2 space-y-3">
+                            {syllabi.length > 0 && (
+                                <div>
+                                    <label htmlFor="syllabus" className="block text-sm font-medium leading-6 text-gray-900 dark:text-white mb-2">Syllabus</label>
+                                    <select id="syllabus" value={syllabusId} onChange={e => handleSyllabusChange(e.target.value)} className="block w-full rounded-lg border-0 py-2.5 px-3 text-gray-900 dark:text-white bg-white dark:bg-slate-900/50 shadow-sm ring-1 ring-inset ring-gray-300 dark:ring-slate-700 focus:ring-2 focus:ring-inset focus:ring-indigo-600 sm:text-sm sm:leading-6">
+                                        <option value="">None (type topics)</option>
+                                        {sortedSyllabi.map(s => <option key={s.id} value={s.id}>{syllabusTitle(s)}</option>)}
+                                    </select>
+                                </div>
+                            )}
+                            {syllabus ? (
+                                <div>
+                                    <p className="block text-sm font-medium leading-6 text-gray-900 dark:text-white mb-2">Topics to Cover ({selectedNodeIds.length} selected)</p>
+                                    <SyllabusTreePicker syllabus={syllabus} selectedIds={selectedNodeIds} onChange={setSelectedNodeIds} />
+                                    {errors.topics && <p className="mt-1 text-xs text-red-500">{errors.topics}</p>}
+                                </div>
+                            ) : (
+                                <FormField name="topics" label="Topics to Cover" as="textarea" value={formData.topics} onChange={handleChange} error={errors.topics} />
+                            )}
                         </div>
-                        <div className="md:col-span-2">
+                        <div>
                             <label htmlFor="language" className="block text-sm font-medium leading-6 text-gray-900 dark:text-white mb-2">Language</label>
                             <select id="language" name="language" value={formData.language} onChange={handleChange} className="block w-full rounded-lg border-0 py-2.5 px-3 text-gray-900 dark:text-white bg-white dark:bg-slate-900/50 shadow-sm ring-1 ring-inset ring-gray-300 dark:ring-slate-700 focus:ring-2 focus:ring-inset focus:ring-indigo-600 sm:text-sm sm:leading-6">
                                 {LANGUAGES.map(lang => <option key={lang} value={lang}>{lang}</option>)}
                             </select>
                         </div>
+                        <div>
+                            <label htmlFor="secondaryLanguage" className="block text-sm font-medium leading-6 text-gray-900 dark:text-white mb-2">Second Language (bilingual paper)</label>
+                            <select id="secondaryLanguage" name="secondaryLanguage" value={formData.secondaryLanguage} onChange={handleChange} className="block w-full rounded-lg border-0 py-2.5 px-3 text-gray-900 dark:text-white bg-white dark:bg-slate-900/50 shadow-sm ring-1 ring-inset ring-gray-300 dark:ring-slate-700 focus:ring-2 focus:ring-inset focus:ring-indigo-600 sm:text-sm sm:leading-6">
+                                <option value="">None</option>
+                                {LANGUAGES.filter(lang => lang !== formData.language).map(lang => <option key={lang} value={lang}>{lang}</option>)}
+                            </select>
+                            {errors.secondaryLanguage && <p className="mt-1 text-xs text-red-500">{errors.secondaryLanguage}</p>}
+                        </div>
+                        {formData.secondaryLanguage && (
+                            <div className="md:col-span-2 flex items-center gap-4 text-sm">
+                                <span className="font-medium text-gray-900 dark:text-white">Bilingual layout:</span>
+                                {([['interleaved', 'Second language under each line'], ['columns', 'Two columns']] as [BilingualLayout, string][]).map(([value, label]) => (
+                                    <label key={value} className="flex items-center gap-2 text-slate-700 dark:text-slate-300">
+                                        <input type="radio" name="bilingualLayout" value={value} checked={formData.bilingualLayout === value} onChange={handleChange} />
+                                        {label}
+                                    </label>
+                                ))}
+                            </div>
+                        )}
+                        <div className="md:col-span-2">
+                            <label htmlFor="templateId" className="block text-sm font-medium leading-6 text-gray-900 dark:text-white mb-2">Layout Template</label>
+                            <select id="templateId" name="templateId" value={selectedTemplate ? formData.templateId : DEFAULT_TEMPLATE_ID} onChange={handleChange} className="block w-full rounded-lg border-0 py-2.5 px-3 text-gray-900 dark:text-white bg-white dark:bg-slate-900/50 shadow-sm ring-1 ring-inset ring-gray-300 dark:ring-slate-700 focus:ring-2 focus:ring-inset focus:ring-indigo-600 sm:text-sm sm:leading-6">
+                                {paperTemplates.map(t => <option key={t.id} value={t.id}>{t.name}</option>)}
+                            </select>
+                            {selectedTemplate?.description && <p className="mt-1 text-xs text-slate-500 dark:text-slate-400">{selectedTemplate.description}</p>}
+                        </div>
                     </div>
                 </div>
 
@@ -303,7 +572,15 @@ const GeneratorForm: React.FC<GeneratorFormProps> = ({ onSubmit, isLoading, user
                                     <span>Choose files</span>
                                     <input id="file-upload" name="file-upload" type="file" className="sr-only" multiple onChange={handleFileChange} accept=".pdf,.doc,.docx,.txt,.md,image/*" />
                                 </label>
+                                {ingestingFile && <span className="text-sm text-slate-500 dark:text-slate-400">Reading {ingestingFile}…</span>}
                             </div>
+                            <p className="mt-2 text-xs text-slate-500 dark:text-slate-400">PDF, Word and text files are split into chapters so you can choose what to use. Images are sent as they are.</p>
+                            {ingestError && <p className="mt-2 text-xs text-red-500">{ingestError}</p>}
+                            {sourceChunks.length > 0 && (
+                                <div className="mt-4">
+                                    <SourceChunkPicker chunks={sourceChunks} selectedIds={selectedChunkIds} onChange={setSelectedChunkIds} onRemoveDocument={removeSourceDocument} />
+                                </div>
+                            )}
                             {attachedFiles.length > 0 && (
                                 <div className="mt-4 flex flex-wrap gap-2">
                                     {attachedFiles.map(file => (
@@ -318,11 +595,52 @@ const GeneratorForm: React.FC<GeneratorFormProps> = ({ onSubmit, isLoading, user
                             )}
                         </div>
                         <FormField name="sourceMaterials" label="Paste Lesson Notes" as="textarea" value={formData.sourceMaterials} onChange={handleChange} placeholder="Paste text here..." />
+                        <div className="flex flex-wrap items-center justify-between gap-3">
+                            <p className="text-xs text-slate-500 dark:text-slate-400">
+                                {formData.sourceMode === 'strict'
+                                    ? 'Strict: every question must come from the material. Questions that cannot be traced back to it are flagged for review.'
+                                    : 'Reference: questions are based mainly on the material, and may also cover the wider topics.'}
+                            </p>
+                            <div className="flex items-center gap-2 p-1 bg-slate-100 dark:bg-slate-900 rounded-lg">
+                                {(['reference', 'strict'] as const).map(mode => (
+                                    <button
+                                        key={mode}
+                                        type="button"
+                                        onClick={() => setFormData(prev => ({ ...prev, sourceMode: mode }))}
+                                        className={`px-4 py-1.5 rounded-md text-xs font-bold capitalize transition-all ${formData.sourceMode === mode ? 'bg-indigo-600 text-white shadow-md' : 'text-slate-500 hover:bg-slate-200 dark:hover:bg-slate-800'}`}
+                                    >
+                                        {mode}
+                                    </button>
+                                ))}
+                            </div>
+                        </div>
                     </div>
                 </div>
                 
                 <div className="border-t dark:border-slate-700 pt-8 space-y-4">
-                    <h3 className="text-xl font-bold text-slate-800 dark:text-slate-200">3. Question Distribution</h3>
+                    <div className="flex justify-between items-center">
+                        <h3 className="text-xl font-bold text-slate-800 dark:text-slate-200">3. Question Distribution</h3>
+                        <div className="flex items-center gap-2 p-1 bg-slate-100 dark:bg-slate-900 rounded-lg">
+                            <button 
+                                type="button" 
+                                onClick={() => setUseBlueprint(false)}
+                                className={`px-4 py-1.5 rounded-md text-xs font-bold transition-all ${!useBlueprint ? 'bg-indigo-600 text-white shadow-md' : 'text-slate-500 hover:bg-slate-200 dark:hover:bg-slate-800'}`}
+                            >
+                                Simple
+                            </button>
+                            <button 
+                                type="button" 
+                                onClick={() => setUseBlueprint(true)}
+                                className={`px-4 py-1.5 rounded-md text-xs font-bold transition-all ${useBlueprint ? 'bg-indigo-600 text-white shadow-md' : 'text-slate-500 hover:bg-slate-200 dark:hover:bg-slate-800'}`}
+                            >
+                                Blueprint
+                            </button>
+                        </div>
+                    </div>
+                    {useBlueprint ? (
+                        <BlueprintEditor blueprint={blueprint} onChange={setBlueprint} subject={formData.subject} className={formData.className} error={errors.blueprint} />
+                    ) : (
+                    <>
                     <div className="space-y-4">
                         {questionDistribution.map((dist, index) => (
                              <div 
@@ -352,6 +670,10 @@ const GeneratorForm: React.FC<GeneratorFormProps> = ({ onSubmit, isLoading, user
                                         <label className="text-xs font-medium">Marks</label>
                                         <input type="number" min="0" step="0.5" value={dist.marks} onChange={(e) => handleDistributionChange(dist.id, 'marks', e.target.value)} className="w-full mt-1 p-2 rounded-md bg-white dark:bg-slate-800 border-slate-300 dark:border-slate-600 shadow-sm text-sm" />
                                     </div>
+                                    <div className="w-20">
+                                        <label className="text-xs font-medium" title="Internal choices (OR questions)">OR</label>
+                                        <input type="number" min="0" max={dist.count} value={dist.internalChoices || 0} onChange={(e) => handleDistributionChange(dist.id, 'internalChoices', e.target.value)} className="w-full mt-1 p-2 rounded-md bg-white dark:bg-slate-800 border-slate-300 dark:border-slate-600 shadow-sm text-sm" />
+                                    </div>
                                     <div className="flex-1 min-w-[120px]">
                                         <label className="text-xs font-medium">Taxonomy</label>
                                         <select value={dist.taxonomy} onChange={(e) => handleDistributionChange(dist.id, 'taxonomy', e.target.value)} className="w-full mt-1 p-2 rounded-md bg-white dark:bg-slate-800 border-slate-300 dark:border-slate-600 shadow-sm text-sm">
@@ -369,6 +691,17 @@ const GeneratorForm: React.FC<GeneratorFormProps> = ({ onSubmit, isLoading, user
                      <button type="button" onClick={addQuestionType} className="mt-4 flex items-center gap-2 text-sm font-semibold text-indigo-600 hover:text-indigo-800">
                         <PlusIcon className="w-5 h-5"/> Add Question Type
                     </button>
+                    </>
+                    )}
+                </div>
+
+                <div className="border-t dark:border-slate-700 pt-8 space-y-4">
+                    <div>
+                        <h3 className="text-xl font-bold text-slate-800 dark:text-slate-200">4. Sections (Optional)</h3>
+                        <p className="text-sm text-slate-500 dark:text-slate-400 mt-1">Each question type gets its own section unless you define them here: a name, the question types and marks band it takes, in print order.</p>
+                    </div>
+                    <SectionsEditor sections={formData.sections} onChange={sections => setFormData(prev => ({ ...prev, sections }))} items={effectiveDistribution} />
+                    {errors.sections && <p className="mt-1 text-xs text-red-500">{errors.sections}</p>}
                 </div>
             </div>
 
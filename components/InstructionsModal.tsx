@@ -0,0 +1,99 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { type QuestionPaperData } from '../types';
+import { draftPaperInstructions, generateHtmlFromPaperData } from '../services/geminiService';
+import { sectionsFromQuestions, instructionsToText, textToInstructions } from '../services/paperInstructions';
+import AIErrorNotice from './AIErrorNotice';
+import { SpinnerIcon } from './icons/SpinnerIcon';
+
+interface InstructionsModalProps {
+    paper: QuestionPaperData;
+    onSave: (paper: QuestionPaperData) => void;
+    onClose: () => void;
+}
+
+const CloseIcon = (props: React.SVGProps<SVGSVGElement>) => (
+    <svg xmlns="http://www.w3.org/2000/svg" width="24" height="24" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round" {...props}><line x1="18" y1="6" x2="6" y2="18"/><line x1="6" y1="6" x2="18" y2="18"/></svg>
+);
+
+const textareaClass = "w-full p-3 rounded-lg bg-slate-50 dark:bg-slate-900/50 ring-1 ring-inset ring-gray-300 dark:ring-slate-700 border-0 text-sm text-slate-800 dark:text-slate-200";
+
+/** Edits the general instructions and each section's notes, one instruction per line. */
+const InstructionsModal: React.FC<InstructionsModalProps> = ({ paper, onSave, onClose }) => {
+    const sections = sectionsFromQuestions(paper.questions, paper.sections);
+    const [general, setGeneral] = useState(instructionsToText(paper.instructions?.general));
+    const [sectionText, setSectionText] = useState<Record<string, string>>(() =>
+        Object.fromEntries(sections.map(s => [s.key, instructionsToText(paper.instructions?.sections[s.key])])));
+    const [isDrafting, setIsDrafting] = useState(false);
+    const [error, setError] = useState<unknown>(null);
+    const abortRef = useRef<AbortController | null>(null);
+
+    useEffect(() => () => abortRef.current?.abort(), []);
+
+    const handleDraft = async () => {
+        const controller = new AbortController();
+        abortRef.current = controller;
+        setIsDrafting(true);
+        setError(null);
+        try {
+            const drafted = await draftPaperInstructions(paper, sections, controller.signal);
+            setGeneral(instructionsToText(drafted.general));
+            setSectionText(Object.fromEntries(sections.map(s => [s.key, instructionsToText(drafted.sections[s.key])])));
+        } catch (err) {
+            if (!controller.signal.aborted) setError(err);
+        } finally {
+            setIsDrafting(false);
+        }
+    };
+
+    const handleSave = () => {
+        const sectionInstructions = Object.fromEntries(sections
+            .map(s => [s.key, textToInstructions(sectionText[s.key] || '')] as const)
+            .filter(([, lines]) => lines.length > 0));
+        const updated: QuestionPaperData = { ...paper, instructions: { general: textToInstructions(general), sections: sectionInstructions } };
+        updated.htmlContent = generateHtmlFromPaperData(updated, {
+            logoConfig: updated.schoolLogo ? { src: updated.schoolLogo, alignment: 'center' } : undefined
+        });
+        onSave(updated);
+        onClose();
+    };
+
+    return (
+        <div className="fixed inset-0 bg-black/50 backdrop-blur-sm flex items-center justify-center z-[60] animate-fade-in p-4" onClick={onClose}>
+            <div className="bg-white dark:bg-slate-800 rounded-2xl shadow-2xl w-full max-w-3xl h-[85vh] flex flex-col" onClick={e => e.stopPropagation()}>
+                <div className="p-6 border-b dark:border-slate-700 flex justify-between items-center shrink-0">
+                    <div>
+                        <h2 className="text-2xl font-bold text-slate-900 dark:text-white">Instructions</h2>
+                        <p className="text-sm text-slate-500 dark:text-slate-400 mt-1">One instruction per line. They are printed on the paper and the answer key.</p>
+                    </div>
+                    <button onClick={onClose} className="p-1 rounded-full text-slate-500 hover:bg-slate-200 dark:hover:bg-slate-700 transition-colors">
+                        <CloseIcon className="w-5 h-5"/>
+                    </button>
+                </div>
+                <div className="p-6 overflow-y-auto flex-1 space-y-5">
+                    {error ? <AIErrorNotice error={error} actionLabel="Try Again" onAction={handleDraft} /> : null}
+                    <div>
+                        <label className="block text-sm font-semibold text-slate-700 dark:text-slate-300 mb-1">General Instructions</label>
+                        <textarea value={general} onChange={e => setGeneral(e.target.value)} rows={6} disabled={isDrafting} placeholder="Leave empty to use the layout template's instructions." className={textareaClass} />
+                    </div>
+                    {sections.map(section => (
+                        <div key={section.key}>
+                            <label className="block text-sm font-semibold text-slate-700 dark:text-slate-300 mb-1">Section {section.letter} · {section.name}</label>
+                            <textarea value={sectionText[section.key] || ''} onChange={e => setSectionText(prev => ({ ...prev, [section.key]: e.target.value }))} rows={2} disabled={isDrafting} className={textareaClass} />
+                        </div>
+                    ))}
+                </div>
+                <div className="px-6 py-4 bg-slate-50 dark:bg-slate-800/50 rounded-b-2xl flex items-center justify-between gap-3 shrink-0">
+                    <button onClick={handleDraft} disabled={isDrafting} className="flex items-center gap-2 text-sm font-semibold text-indigo-600 hover:text-indigo-800 disabled:opacity-50">
+                        {isDrafting && <SpinnerIcon className="w-4 h-4" />} Draft with AI
+                    </button>
+                    <div className="flex gap-3">
+                        <button onClick={onClose} className="px-4 py-2 rounded-lg bg-slate-200 dark:bg-slate-700/80 text-sm font-semibold text-slate-800 dark:text-slate-200 hover:bg-slate-300 dark:hover:bg-slate-700 transition-colors">Cancel</button>
+                        <button onClick={handleSave} disabled={isDrafting} className="px-4 py-2 rounded-lg bg-indigo-600 text-sm font-semibold text-white hover:bg-indigo-700 transition-colors disabled:opacity-50">Save</button>
+                    </div>
+                </div>
+            </div>
+        </div>
+    );
+};
+
+export default InstructionsModal;
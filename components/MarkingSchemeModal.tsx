@@ -0,0 +1,185 @@
+import React, { useMemo, useState } from 'react';
+import { type QuestionPaperData, type Question, type QuestionAlternative, type MarkingPoint } from '../types';
+import { generateHtmlFromPaperData, generateMarkingSchemeHtml, orderQuestionsForLayout } from '../services/htmlGenerator';
+import { sumMarks } from '../services/paperValidator';
+import { sourceFlagBlockMessage } from '../services/sourceIngestion';
+import { exportHtmlDocumentsToPdf } from '../utils/pdfExport';
+import { SpinnerIcon } from './icons/SpinnerIcon';
+import { DeleteIcon } from './icons/DeleteIcon';
+
+interface MarkingSchemeModalProps {
+    paper: QuestionPaperData;
+    onSave: (paper: QuestionPaperData) => void;
+    onClose: () => void;
+}
+
+/** A question, internal choice or part whose marking points are edited together. */
+interface SchemeTarget {
+    key: string;
+    label: string;
+    marks: number;
+    points: MarkingPoint[];
+    update: (question: Question, points: MarkingPoint[]) => Question;
+}
+
+const CloseIcon = (props: React.SVGProps<SVGSVGElement>) => (
+    <svg xmlns="http://www.w3.org/2000/svg" width="24" height="24" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round" {...props}><line x1="18" y1="6" x2="6" y2="18"/><line x1="6" y1="6" x2="18" y2="18"/></svg>
+);
+
+const inputClass = "p-2 rounded-md bg-white dark:bg-slate-800 border-slate-300 dark:border-slate-600 shadow-sm text-sm";
+
+const truncate = (text: string, length = 120) => text.length > length ? `${text.slice(0, length)}…` : text;
+
+// Empty lists are stored as "no scheme", so the question earns full marks for the correct answer.
+const schemeOrUndefined = (points: MarkingPoint[]) => points.length > 0 ? points : undefined;
+
+const withBodyScheme = <T extends QuestionAlternative>(body: T, partIndex: number | undefined, points: MarkingPoint[]): T => partIndex === undefined
+    ? { ...body, markingScheme: schemeOrUndefined(points) }
+    : { ...body, subQuestions: body.subQuestions?.map((part, i) => i === partIndex ? { ...part, markingScheme: schemeOrUndefined(points) } : part) };
+
+/** Every editable scheme of a question: one per part, or one per body when there are no parts. */
+const schemeTargets = (question: Question, number: number): SchemeTarget[] => {
+    const bodies: QuestionAlternative[] = [question, ...(question.alternatives || [])];
+    const hasChoice = bodies.length > 1;
+    return bodies.flatMap((body, bodyIndex) => {
+        const update = (partIndex?: number) => (q: Question, points: MarkingPoint[]): Question => bodyIndex === 0
+            ? withBodyScheme(q, partIndex, points)
+            : { ...q, alternatives: q.alternatives?.map((alt, i) => i === bodyIndex - 1 ? withBodyScheme(alt, partIndex, points) : alt) };
+        const choice = hasChoice ? ` (${String.fromCharCode(97 + bodyIndex)})` : '';
+        if (!body.subQuestions?.length) {
+            return [{ key: `${number}-${bodyIndex}`, label: `Q${number}${choice}`, marks: question.marks, points: body.markingScheme || [], update: update() }];
+        }
+        return body.subQuestions.map((part, partIndex) => ({
+            key: `${number}-${bodyIndex}-${partIndex}`,
+            label: `Q${number}${choice} part ${partIndex + 1}: ${truncate(part.questionText, 60)}`,
+            marks: part.marks,
+            points: part.markingScheme || [],
+            update: update(partIndex),
+        }));
+    });
+};
+
+const MarkingPointsEditor: React.FC<{ target: SchemeTarget; onChange: (points: MarkingPoint[]) => void }> = ({ target, onChange }) => {
+    const { points, marks } = target;
+    const total = sumMarks(points);
+    const updatePoint = (index: number, changes: Partial<MarkingPoint>) => onChange(points.map((p, i) => i === index ? { ...p, ...changes } : p));
+
+    return (
+        <div className="space-y-2">
+            <div className="flex items-center justify-between gap-3 text-xs">
+                <span className="font-semibold text-slate-600 dark:text-slate-400">{target.label}</span>
+                {points.length > 0 && (
+                    <span className={`shrink-0 font-semibold ${total === marks ? 'text-emerald-600' : 'text-red-500'}`}>{total} / {marks} marks</span>
+                )}
+            </div>
+            {points.length === 0 && <p className="text-xs text-slate-500 dark:text-slate-400">No marking points: full marks for the correct answer.</p>}
+            {points.map((point, i) => (
+                <div key={i} className="flex items-center gap-2">
+                    <span className="w-5 text-xs text-slate-400 text-right">{i + 1}.</span>
+                    <input type="text" value={point.description} onChange={e => updatePoint(i, { description: e.target.value })} placeholder="e.g. Correct formula" className={`${inputClass} flex-1`} />
+                    <input type="number" min={0} step={0.5} value={point.marks} onChange={e => updatePoint(i, { marks: Math.max(Number(e.target.value) || 0, 0) })} className={`${inputClass} w-20`} />
+                    <button onClick={() => onChange(points.filter((_, j) => j !== i))} className="p-1 text-slate-400 hover:text-red-500" title="Remove step">
+                        <DeleteIcon className="w-4 h-4" />
+                    </button>
+                </div>
+            ))}
+            <button onClick={() => onChange([...points, { description: '', marks: Math.max(marks - total, 0) }])} className="text-xs font-semibold text-indigo-600 hover:text-indigo-800">
+                + Add step
+            </button>
+        </div>
+    );
+};
+
+/** Edits the step-wise marking points of every question and exports the marking scheme and answer key. */
+const MarkingSchemeModal: React.FC<MarkingSchemeModalProps> = ({ paper, onSave, onClose }) => {
+    const ordered = useMemo(() => orderQuestionsForLayout(paper.questions, paper.sections), [paper.questions, paper.sections]);
+    const [draft, setDraft] = useState<Question[]>(ordered);
+    const [exporting, setExporting] = useState<'scheme' | 'key' | null>(null);
+
+    const draftPaper = (): QuestionPaperData => {
+        const edited = new Map(ordered.map((q, i) => [q, draft[i]]));
+        return { ...paper, questions: paper.questions.map(q => edited.get(q) ?? q) };
+    };
+
+    const targets = draft.map((question, i) => schemeTargets(question, i + 1));
+    const mismatched = targets.flat().filter(t => t.points.length > 0 && sumMarks(t.points) !== t.marks);
+    const incomplete = targets.flat().some(t => t.points.some(p => !p.description.trim()));
+
+    const updateTarget = (index: number, target: SchemeTarget, points: MarkingPoint[]) => {
+        setDraft(current => current.map((q, i) => i === index ? target.update(q, points) : q));
+    };
+
+    const handleExport = async (kind: 'scheme' | 'key') => {
+        const current = draftPaper();
+        const blocked = sourceFlagBlockMessage([current], kind === 'scheme' ? 'exporting the marking scheme' : 'exporting the answer key');
+        if (blocked) {
+            alert(blocked);
+            return;
+        }
+        setExporting(kind);
+        const logoConfig = current.schoolLogo ? { src: current.schoolLogo, alignment: 'center' as const } : undefined;
+        try {
+            await exportHtmlDocumentsToPdf(
+                [kind === 'scheme' ? generateMarkingSchemeHtml(current) : generateHtmlFromPaperData(current, { logoConfig, isAnswerKey: true })],
+                `${paper.subject.replace(/\s+/g, '_')}_${kind === 'scheme' ? 'Marking_Scheme' : 'Answer_Key'}.pdf`,
+            );
+        } catch (error) {
+            console.error(error);
+            alert("Export Failed");
+        } finally {
+            setExporting(null);
+        }
+    };
+
+    const handleSave = () => {
+        onSave(draftPaper());
+        onClose();
+    };
+
+    return (
+        <div className="fixed inset-0 bg-black/50 backdrop-blur-sm flex items-center justify-center z-[60] animate-fade-in p-4" onClick={onClose}>
+            <div className="bg-white dark:bg-slate-800 rounded-2xl shadow-2xl w-full max-w-3xl h-[85vh] flex flex-col" onClick={e => e.stopPropagation()}>
+                <div className="p-6 border-b dark:border-slate-700 flex justify-between items-center shrink-0">
+                    <div>
+                        <h2 className="text-2xl font-bold text-slate-900 dark:text-white">Marking Scheme</h2>
+                        <p className="text-sm text-slate-500 dark:text-slate-400 mt-1">The marks for each step must add up to the marks of its question or part.</p>
+                    </div>
+                    <button onClick={onClose} className="p-1 rounded-full text-slate-500 hover:bg-slate-200 dark:hover:bg-slate-700 transition-colors">
+                        <CloseIcon className="w-5 h-5"/>
+                    </button>
+                </div>
+                <div className="p-6 overflow-y-auto flex-1 space-y-6">
+                    {draft.map((question, i) => (
+                        <div key={i} className="border-b dark:border-slate-700 pb-4 last:border-b-0 space-y-3">
+                            <p className="text-sm font-semibold text-slate-800 dark:text-slate-200">
+                                Q{i + 1}. {truncate(question.questionText)} <span className="font-normal text-slate-500">· {question.type} · {question.marks} marks</span>
+                            </p>
+                            {targets[i].map(target => (
+                                <MarkingPointsEditor key={target.key} target={target} onChange={points => updateTarget(i, target, points)} />
+                            ))}
+                        </div>
+                    ))}
+                </div>
+                <div className="px-6 py-4 bg-slate-50 dark:bg-slate-800/50 rounded-b-2xl flex flex-wrap items-center justify-between gap-3 shrink-0">
+                    <div className="flex gap-2">
+                        <button onClick={() => handleExport('key')} disabled={exporting !== null} className="flex items-center justify-center gap-2 px-4 py-2 rounded-lg bg-slate-200 dark:bg-slate-700/80 text-sm font-semibold text-slate-800 dark:text-slate-200 hover:bg-slate-300 dark:hover:bg-slate-700 transition-colors disabled:opacity-50">
+                            {exporting === 'key' && <SpinnerIcon className="w-4 h-4" />} Answer Key PDF
+                        </button>
+                        <button onClick={() => handleExport('scheme')} disabled={exporting !== null} className="flex items-center justify-center gap-2 px-4 py-2 rounded-lg bg-slate-200 dark:bg-slate-700/80 text-sm font-semibold text-slate-800 dark:text-slate-200 hover:bg-slate-300 dark:hover:bg-slate-700 transition-colors disabled:opacity-50">
+                            {exporting === 'scheme' && <SpinnerIcon className="w-4 h-4" />} Marking Scheme PDF
+                        </button>
+                    </div>
+                    <div className="flex items-center gap-3">
+                        {(mismatched.length > 0 || incomplete) && (
+                            <span className="text-xs text-red-500">{mismatched.length > 0 ? `${mismatched.length} scheme(s) don't add up to their marks` : 'Describe every step'}</span>
+                        )}
+                        <button onClick={onClose} className="px-4 py-2 rounded-lg bg-slate-200 dark:bg-slate-700/80 text-sm font-semibold text-slate-800 dark:text-slate-200 hover:bg-slate-300 dark:hover:bg-slate-700 transition-colors">Cancel</button>
+                        <button onClick={handleSave} disabled={mismatched.length > 0 || incomplete} className="px-4 py-2 rounded-lg bg-indigo-600 text-sm font-semibold text-white hover:bg-indigo-700 transition-colors disabled:opacity-50">Save</button>
+                    </div>
+                </div>
+            </div>
+        </div>
+    );
+};
+
+export default MarkingSchemeModal;
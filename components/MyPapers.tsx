@@ -8,7 +8,10 @@ import { EditIcon } from './icons/EditIcon';
 import { DeleteIcon } from './icons/DeleteIcon';
 import { ShareIcon } from './icons/ShareIcon';
 import ShareModal from './ShareModal';
+import PaperSetsModal from './PaperSetsModal';
+import TranslatePaperModal from './TranslatePaperModal';
 import { AnimatedButton } from './AnimatedButton';
+import { unresolvedSourceFlags } from '../services/sourceIngestion';
 
 interface MyPapersProps {
     user: User;
@@ -18,12 +21,16 @@ interface MyPapersProps {
     onGenerateNew: () => void;
     onRename: (paperId: string, newSubject: string) => void;
     onDuplicate: (paperId: string) => void;
+    onGenerateSets: (paperId: string, count: number) => void;
+    onSaveTranslation: (translated: QuestionPaperData) => void;
 }
 
 // --- Local Icons ---
 const SearchIcon: React.FC<React.SVGProps<SVGSVGElement>> = (props) => ( <svg xmlns="http://www.w3.org/2000/svg" width="20" height="20" viewBox="0 0 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round" {...props}><circle cx="11" cy="11" r="8"></circle><line x1="21" y1="21" x2="16.65" y2="16.65"></line></svg> );
 const KebabIcon: React.FC<React.SVGProps<SVGSVGElement>> = (props) => ( <svg xmlns="http://www.w3.org/2000/svg" width="20" height="20" viewBox="0 0 24 24" fill="currentColor" {...props}><path d="M12 8c1.1 0 2-.9 2-2s-.9-2-2-2-2 .9-2 2 .9 2 2 2zm0 2c-1.1 0-2 .9-2 2s.9 2 2 2 2-.9 2-2-.9-2-2-2zm0 6c-1.1 0-2 .9-2 2s.9 2 2 2 2-.9 2-2-.9-2-2-2z"></path></svg> );
 const CopyIcon: React.FC<React.SVGProps<SVGSVGElement>> = (props) => ( <svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 20 20" fill="currentColor" {...props}><path d="M7 3a1 1 0 000 2h6a1 1 0 100-2H7zM4 7a1 1 0 011-1h10a1 1 0 110 2H5a1 1 0 01-1-1zM2 11a2 2 0 012-2h12a2 2 0 012 2v4a2 2 0 01-2 2H4a2 2 0 01-2-2v-4z" /></svg> );
+const LayersIcon: React.FC<React.SVGProps<SVGSVGElement>> = (props) => ( <svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round" {...props}><polygon points="12 2 2 7 12 12 22 7 12 2"/><polyline points="2 17 12 22 22 17"/><polyline points="2 12 12 17 22 12"/></svg> );
+const GlobeIcon: React.FC<React.SVGProps<SVGSVGElement>> = (props) => ( <svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round" {...props}><circle cx="12" cy="12" r="10"/><line x1="2" y1="12" x2="22" y2="12"/><path d="M12 2a15.3 15.3 0 0 1 4 10 15.3 15.3 0 0 1-4 10 15.3 15.3 0 0 1-4-10 15.3 15.3 0 0 1 4-10z"/></svg> );
 const PlusIcon = (props: React.SVGProps<SVGSVGElement>) => (<svg xmlns="http://www.w3.org/2000/svg" width="24" height="24" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round" {...props}><path d="M5 12h14"/><path d="M12 5v14"/></svg>);
 
 const StatCard: React.FC<{icon: React.ReactNode, label: string, value: string | number}> = ({ icon, label, value }) => (
@@ -76,7 +83,7 @@ const RenameModal: React.FC<{paper: QuestionPaperData, onSave: (newName: string)
     );
 };
 
-const PaperActionsMenu: React.FC<{onEdit: () => void, onRename: () => void, onDuplicate: () => void, onShare: () => void, onDelete: () => void}> = ({ onEdit, onRename, onDuplicate, onShare, onDelete }) => {
+const PaperActionsMenu: React.FC<{onEdit: () => void, onRename: () => void, onDuplicate: () => void, onShare: () => void, onDelete: () => void, onSets?: () => void, onTranslate: () => void}> = ({ onEdit, onRename, onDuplicate, onShare, onDelete, onSets, onTranslate }) => {
     const [isOpen, setIsOpen] = useState(false);
     const menuRef = useRef<HTMLDivElement>(null);
 
@@ -107,6 +114,8 @@ const PaperActionsMenu: React.FC<{onEdit: () => void, onRename: () => void, onDu
                         <li><button onClick={(e) => handleAction(e, onEdit)} className="w-full flex items-center gap-3 text-left px-3 py-2 rounded-md text-sm font-medium text-slate-700 dark:text-slate-300 hover:bg-slate-100 dark:hover:bg-slate-700 transition-colors"><EditIcon className="w-4 h-4" /> Edit</button></li>
                         <li><button onClick={(e) => handleAction(e, onRename)} className="w-full flex items-center gap-3 text-left px-3 py-2 rounded-md text-sm font-medium text-slate-700 dark:text-slate-300 hover:bg-slate-100 dark:hover:bg-slate-700 transition-colors"><svg xmlns="http://www.w3.org/2000/svg" className="w-4 h-4" viewBox="0 0 20 20" fill="currentColor"><path d="M17.414 2.586a2 2 0 00-2.828 0L7 10.172V13h2.828l7.586-7.586a2 2 0 000-2.828z" /><path fillRule="evenodd" d="M2 6a2 2 0 012-2h4a1 1 0 010 2H4v10h10v-4a1 1 0 112 0v4a2 2 0 01-2 2H4a2 2 0 01-2-2V6z" clipRule="evenodd" /></svg> Rename</button></li>
                         <li><button onClick={(e) => handleAction(e, onDuplicate)} className="w-full flex items-center gap-3 text-left px-3 py-2 rounded-md text-sm font-medium text-slate-700 dark:text-slate-300 hover:bg-slate-100 dark:hover:bg-slate-700 transition-colors"><CopyIcon className="w-4 h-4" /> Duplicate</button></li>
+                        {onSets && <li><button onClick={(e) => handleAction(e, onSets)} className="w-full flex items-center gap-3 text-left px-3 py-2 rounded-md text-sm font-medium text-slate-700 dark:text-slate-300 hover:bg-slate-100 dark:hover:bg-slate-700 transition-colors"><LayersIcon className="w-4 h-4" /> Generate Sets</button></li>}
+                        <li><button onClick={(e) => handleAction(e, onTranslate)} className="w-full flex items-center gap-3 text-left px-3 py-2 rounded-md text-sm font-medium text-slate-700 dark:text-slate-300 hover:bg-slate-100 dark:hover:bg-slate-700 transition-colors"><GlobeIcon className="w-4 h-4" /> Translate</button></li>
                         <li><button onClick={(e) => handleAction(e, onShare)} className="w-full flex items-center gap-3 text-left px-3 py-2 rounded-md text-sm font-medium text-slate-700 dark:text-slate-300 hover:bg-slate-100 dark:hover:bg-slate-700 transition-colors"><ShareIcon className="w-4 h-4" /> Share</button></li>
                         <li><div className="h-px bg-slate-200 dark:bg-slate-700 my-1"></div></li>
                         <li><button onClick={(e) => handleAction(e, onDelete)} className="w-full flex items-center gap-3 text-left px-3 py-2 rounded-md text-sm font-medium text-red-600 dark:text-red-400 hover:bg-red-50 dark:hover:bg-red-900/30 transition-colors"><DeleteIcon className="w-4 h-4" /> Delete</button></li>
@@ -118,11 +127,12 @@ const PaperActionsMenu: React.FC<{onEdit: () => void, onRename: () => void, onDu
 };
 
 
-const PaperCard: React.FC<{paper: QuestionPaperData, onEdit: () => void, onRename: () => void, onDuplicate: () => void, onShare: () => void, onDelete: () => void}> = ({ paper, onEdit, onRename, onDuplicate, onShare, onDelete }) => {
+const PaperCard: React.FC<{paper: QuestionPaperData, setCount: number, onEdit: () => void, onRename: () => void, onDuplicate: () => void, onShare: () => void, onDelete: () => void, onSets: () => void, onTranslate: () => void}> = ({ paper, setCount, onEdit, onRename, onDuplicate, onShare, onDelete, onSets, onTranslate }) => {
+    const sourceFlagCount = unresolvedSourceFlags(paper).length;
     return (
         <div className="group relative bg-white dark:bg-slate-800/50 rounded-2xl shadow-lg border dark:border-slate-700/50 flex flex-col justify-between transition-all duration-300 hover:shadow-2xl hover:-translate-y-1.5 hover:border-indigo-500/50 dark:hover:shadow-indigo-500/10 overflow-hidden">
             <div className="absolute top-2 right-2 z-10 opacity-0 group-hover:opacity-100 transition-opacity duration-200">
-                <PaperActionsMenu onEdit={onEdit} onRename={onRename} onDuplicate={onDuplicate} onShare={onShare} onDelete={onDelete} />
+                <PaperActionsMenu onEdit={onEdit} onRename={onRename} onDuplicate={onDuplicate} onShare={onShare} onDelete={onDelete} onSets={paper.parentPaperId ? undefined : onSets} onTranslate={onTranslate} />
             </div>
             <div className="p-5 flex-grow space-y-3 cursor-pointer" onClick={onEdit}>
                 <div className="flex items-center gap-3">
@@ -138,17 +148,23 @@ const PaperCard: React.FC<{paper: QuestionPaperData, onEdit: () => void, onRenam
                  <div className="flex items-center gap-2 text-xs text-slate-400 dark:text-slate-500">
                     <ClockIcon className="w-4 h-4" />
                     <span>{new Date(paper.createdAt).toLocaleDateString()}</span>
+                    {sourceFlagCount > 0 && <span className="px-2 py-0.5 rounded-full bg-amber-50 dark:bg-amber-900/30 text-amber-700 dark:text-amber-400 font-semibold" title="Questions not grounded in the source material">{sourceFlagCount} to check</span>}
+                    {paper.setLabel && <span className="ml-auto px-2 py-0.5 rounded-full bg-indigo-50 dark:bg-indigo-900/30 text-indigo-600 dark:text-indigo-400 font-semibold">Set {paper.setLabel}</span>}
+                    {paper.translatedFromId && !paper.setLabel && <span className="ml-auto px-2 py-0.5 rounded-full bg-emerald-50 dark:bg-emerald-900/30 text-emerald-600 dark:text-emerald-400 font-semibold" title="Translated copy">{paper.language}</span>}
+                    {!paper.setLabel && setCount > 0 && <span className="ml-auto px-2 py-0.5 rounded-full bg-slate-100 dark:bg-slate-700/50 font-semibold">{setCount} sets</span>}
                 </div>
             </div>
         </div>
     );
 }
 
-const MyPapers: React.FC<MyPapersProps> = ({ user, papers, onEdit, onDelete, onGenerateNew, onRename, onDuplicate }) => {
+const MyPapers: React.FC<MyPapersProps> = ({ user, papers, onEdit, onDelete, onGenerateNew, onRename, onDuplicate, onGenerateSets, onSaveTranslation }) => {
     const [searchTerm, setSearchTerm] = useState('');
     const [isShareModalOpen, setIsShareModalOpen] = useState(false);
     const [paperToShare, setPaperToShare] = useState<QuestionPaperData | null>(null);
     const [paperToRename, setPaperToRename] = useState<QuestionPaperData | null>(null);
+    const [paperForSets, setPaperForSets] = useState<QuestionPaperData | null>(null);
+    const [paperToTranslate, setPaperToTranslate] = useState<QuestionPaperData | null>(null);
 
     const userName = user.email.split('@')[0];
     const capitalizedUserName = userName.charAt(0).toUpperCase() + userName.slice(1);
@@ -162,9 +178,23 @@ const MyPapers: React.FC<MyPapersProps> = ({ user, papers, onEdit, onDelete, onG
         );
     }, [papers, searchTerm]);
     
+    const setsByParent = useMemo(() => {
+        const map: Record<string, QuestionPaperData[]> = {};
+        papers.forEach(p => {
+            if (p.parentPaperId) (map[p.parentPaperId] = map[p.parentPaperId] || []).push(p);
+        });
+        Object.values(map).forEach(sets => sets.sort((a, b) => (a.setLabel || '').localeCompare(b.setLabel || '')));
+        return map;
+    }, [papers]);
+
     const totalQuestions = useMemo(() => papers.reduce((sum, paper) => sum + paper.questions.length, 0), [papers]);
 
     const handleOpenShareModal = (paper: QuestionPaperData) => {
+        const flagged = unresolvedSourceFlags(paper);
+        if (flagged.length > 0) {
+            alert(`${flagged.length} question(s) in this strict-mode paper could not be grounded in the source material. Open the paper and resolve them before sharing it.`);
+            return;
+        }
         setPaperToShare(paper);
         setIsShareModalOpen(true);
     };
@@ -202,6 +232,22 @@ const MyPapers: React.FC<MyPapersProps> = ({ user, papers, onEdit, onDelete, onG
     return (
         <div className="max-w-7xl mx-auto animate-fade-in-up">
              {paperToRename && <RenameModal paper={paperToRename} onSave={handleRenameSave} onClose={() => setPaperToRename(null)} />}
+             {paperForSets && (
+                <PaperSetsModal
+                    paper={paperForSets}
+                    sets={setsByParent[paperForSets.id] || []}
+                    onGenerate={count => onGenerateSets(paperForSets.id, count)}
+                    onOpenSet={onEdit}
+                    onClose={() => setPaperForSets(null)}
+                />
+             )}
+             {paperToTranslate && (
+                <TranslatePaperModal
+                    paper={paperToTranslate}
+                    onSave={translated => { onSaveTranslation(translated); setPaperToTranslate(null); }}
+                    onClose={() => setPaperToTranslate(null)}
+                />
+             )}
              <header className="mb-10">
                 <h1 className="text-4xl font-bold text-slate-900 dark:text-white tracking-tight">Welcome back, {capitalizedUserName}!</h1>
                 <p className="mt-2 text-lg text-slate-600 dark:text-slate-400">Here's an overview of your question paper library.</p>
@@ -242,11 +288,14 @@ const MyPapers: React.FC<MyPapersProps> = ({ user, papers, onEdit, onDelete, onG
                         <div key={paper.id} className="animate-stagger-in" style={{ animationDelay: `${index * 50}ms` }}>
                             <PaperCard 
                                paper={paper} 
+                               setCount={setsByParent[paper.id]?.length || 0}
                                onEdit={() => onEdit(paper)} 
                                onDelete={() => onDelete(paper.id)}
                                onShare={() => handleOpenShareModal(paper)}
                                onRename={() => handleOpenRenameModal(paper)}
                                onDuplicate={() => onDuplicate(paper.id)}
+                               onSets={() => setPaperForSets(paper)}
+                               onTranslate={() => setPaperToTranslate(paper)}
                             />
                         </div>
                     ))}
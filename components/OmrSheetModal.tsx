@@ -0,0 +1,107 @@
+import React, { useMemo, useState } from 'react';
+import { type QuestionPaperData } from '../types';
+import { authService } from '../services/authService';
+import { sourceFlagBlockMessage } from '../services/sourceIngestion';
+import { omrQuestions, mergeSetRows, generateOmrSheetHtml, generateOmrAnswerKeyCsv } from '../services/omrSheet';
+import { exportHtmlDocumentsToPdf } from '../utils/pdfExport';
+import { downloadTextFile } from '../utils/download';
+import { SpinnerIcon } from './icons/SpinnerIcon';
+
+interface OmrSheetModalProps {
+    paper: QuestionPaperData;
+    onClose: () => void;
+}
+
+const CloseIcon = (props: React.SVGProps<SVGSVGElement>) => (
+    <svg xmlns="http://www.w3.org/2000/svg" width="24" height="24" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round" {...props}><line x1="18" y1="6" x2="6" y2="18"/><line x1="6" y1="6" x2="18" y2="18"/></svg>
+);
+
+const PREVIEW_SCALE = 0.5;
+
+/** Exports bubble sheets for the paper's MCQ and True/False questions, with the answer key as CSV. */
+const OmrSheetModal: React.FC<OmrSheetModalProps> = ({ paper, onClose }) => {
+    const [isExporting, setIsExporting] = useState(false);
+    // A paper with sets (or a set itself) gets one sheet for all of them, with a set code to bubble.
+    const papers = useMemo(() => {
+        const sets = authService.getPaperSets(paper.parentPaperId || paper.id);
+        return sets.length ? sets : [paper];
+    }, [paper]);
+    const sheets = useMemo(() => generateOmrSheetHtml(papers), [papers]);
+    // The rows printed on the sheet, across every set.
+    const questions = useMemo(() => mergeSetRows(papers), [papers]);
+    const unreadAnswers = papers.flatMap(omrQuestions).filter(q => q.answers.some(a => a === null)).length;
+    const fileBase = `${paper.subject.replace(/\s+/g, '_')}_OMR`;
+
+    const blockedMessage = () => sourceFlagBlockMessage(papers, 'exporting the OMR sheet');
+
+    const handleExportPdf = async () => {
+        const blocked = blockedMessage();
+        if (blocked) {
+            alert(blocked);
+            return;
+        }
+        setIsExporting(true);
+        try {
+            await exportHtmlDocumentsToPdf(sheets, `${fileBase}.pdf`);
+        } catch (error) {
+            console.error(error);
+            alert("Export Failed");
+        } finally {
+            setIsExporting(false);
+        }
+    };
+
+    const handleExportCsv = () => {
+        const blocked = blockedMessage();
+        if (blocked) {
+            alert(blocked);
+            return;
+        }
+        downloadTextFile(generateOmrAnswerKeyCsv(papers), `${fileBase}_Answer_Key.csv`, 'text/csv');
+    };
+
+    return (
+        <div className="fixed inset-0 bg-black/50 backdrop-blur-sm flex items-center justify-center z-[60] animate-fade-in p-4" onClick={onClose}>
+            <div className="bg-white dark:bg-slate-800 rounded-2xl shadow-2xl w-full max-w-3xl h-[85vh] flex flex-col" onClick={e => e.stopPropagation()}>
+                <div className="p-6 border-b dark:border-slate-700 flex justify-between items-center shrink-0">
+                    <div>
+                        <h2 className="text-2xl font-bold text-slate-900 dark:text-white">OMR Sheet</h2>
+                        <p className="text-sm text-slate-500 dark:text-slate-400 mt-1">
+                            {questions.length} bubble question(s) on {sheets.length} sheet(s){papers.length > 1 ? ` · sets ${papers.map(p => p.setLabel).join(', ')}` : ''}
+                        </p>
+                    </div>
+                    <button onClick={onClose} className="p-1 rounded-full text-slate-500 hover:bg-slate-200 dark:hover:bg-slate-700 transition-colors">
+                        <CloseIcon className="w-5 h-5"/>
+                    </button>
+                </div>
+                <div className="p-6 overflow-y-auto flex-1 space-y-4">
+                    {questions.length === 0 ? (
+                        <p className="text-sm text-slate-500 dark:text-slate-400">This paper has no Multiple Choice or True/False questions to put on an OMR sheet.</p>
+                    ) : (
+                        <>
+                            {unreadAnswers > 0 && (
+                                <p className="p-3 rounded-lg bg-amber-50 dark:bg-amber-900/20 text-sm text-amber-800 dark:text-amber-300">
+                                    {unreadAnswers} answer(s) do not match one of their options and are left blank in the answer key CSV.
+                                </p>
+                            )}
+                            <div className="mx-auto shadow-lg overflow-hidden bg-white" style={{ width: 794 * PREVIEW_SCALE, height: 1123 * PREVIEW_SCALE }}>
+                                <div className="relative" style={{ width: 794, height: 1123, padding: 60, boxSizing: 'border-box', transform: `scale(${PREVIEW_SCALE})`, transformOrigin: 'top left' }} dangerouslySetInnerHTML={{ __html: sheets[0] }} />
+                            </div>
+                        </>
+                    )}
+                </div>
+                <div className="px-6 py-4 bg-slate-50 dark:bg-slate-800/50 rounded-b-2xl flex justify-end gap-3 shrink-0">
+                    <button onClick={onClose} className="px-4 py-2 rounded-lg bg-slate-200 dark:bg-slate-700/80 text-sm font-semibold text-slate-800 dark:text-slate-200 hover:bg-slate-300 dark:hover:bg-slate-700 transition-colors">Close</button>
+                    <button onClick={handleExportCsv} disabled={questions.length === 0} className="px-4 py-2 rounded-lg bg-white dark:bg-slate-700/50 text-sm font-semibold text-slate-700 dark:text-slate-200 border border-slate-200 dark:border-slate-600 hover:bg-slate-100 dark:hover:bg-slate-700 transition-colors disabled:opacity-50">
+                        Answer Key CSV
+                    </button>
+                    <button onClick={handleExportPdf} disabled={questions.length === 0 || isExporting} className="flex items-center justify-center gap-2 px-4 py-2 rounded-lg bg-emerald-600 text-sm font-semibold text-white hover:bg-emerald-700 transition-colors disabled:opacity-50 w-40">
+                        {isExporting ? <SpinnerIcon className="w-5 h-5"/> : 'Export OMR PDF'}
+                    </button>
+                </div>
+            </div>
+        </div>
+    );
+};
+
+export default OmrSheetModal;
@@ -0,0 +1,58 @@
+import React, { useState } from 'react';
+import { type QuestionPaperData, type PaperSection } from '../types';
+import { generateHtmlFromPaperData } from '../services/htmlGenerator';
+import SectionsEditor from './SectionsEditor';
+
+interface PaperSectionsModalProps {
+    paper: QuestionPaperData;
+    onSave: (paper: QuestionPaperData) => void;
+    onClose: () => void;
+}
+
+const CloseIcon = (props: React.SVGProps<SVGSVGElement>) => (
+    <svg xmlns="http://www.w3.org/2000/svg" width="24" height="24" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round" {...props}><line x1="18" y1="6" x2="6" y2="18"/><line x1="6" y1="6" x2="18" y2="18"/></svg>
+);
+
+/** Regroups an existing paper's questions into the teacher's own sections. */
+const PaperSectionsModal: React.FC<PaperSectionsModalProps> = ({ paper, onSave, onClose }) => {
+    const [sections, setSections] = useState<PaperSection[]>(paper.sections || []);
+    const isInvalid = sections.some(s => !s.name.trim() || s.types.length === 0
+        || (s.minMarks !== undefined && s.maxMarks !== undefined && s.minMarks > s.maxMarks));
+
+    const handleSave = () => {
+        const updated: QuestionPaperData = { ...paper, sections: sections.length ? sections : undefined };
+        updated.htmlContent = generateHtmlFromPaperData(updated, {
+            logoConfig: updated.schoolLogo ? { src: updated.schoolLogo, alignment: 'center' } : undefined
+        });
+        onSave(updated);
+        onClose();
+    };
+
+    return (
+        <div className="fixed inset-0 bg-black/50 backdrop-blur-sm flex items-center justify-center z-[60] animate-fade-in p-4" onClick={onClose}>
+            <div className="bg-white dark:bg-slate-800 rounded-2xl shadow-2xl w-full max-w-3xl h-[85vh] flex flex-col" onClick={e => e.stopPropagation()}>
+                <div className="p-6 border-b dark:border-slate-700 flex justify-between items-center shrink-0">
+                    <div>
+                        <h2 className="text-2xl font-bold text-slate-900 dark:text-white">Sections</h2>
+                        <p className="text-sm text-slate-500 dark:text-slate-400 mt-1">Without sections, each question type is printed as its own section.</p>
+                    </div>
+                    <button onClick={onClose} className="p-1 rounded-full text-slate-500 hover:bg-slate-200 dark:hover:bg-slate-700 transition-colors">
+                        <CloseIcon className="w-5 h-5"/>
+                    </button>
+                </div>
+                <div className="p-6 overflow-y-auto flex-1">
+                    <SectionsEditor sections={sections} onChange={setSections} items={paper.questions} />
+                </div>
+                <div className="px-6 py-4 bg-slate-50 dark:bg-slate-800/50 rounded-b-2xl flex items-center justify-between gap-3 shrink-0">
+                    <p className="text-xs text-red-500">{isInvalid ? 'Every section needs a name, at least one question type and a valid marks band.' : ''}</p>
+                    <div className="flex gap-3">
+                        <button onClick={onClose} className="px-4 py-2 rounded-lg bg-slate-200 dark:bg-slate-700/80 text-sm font-semibold text-slate-800 dark:text-slate-200 hover:bg-slate-300 dark:hover:bg-slate-700 transition-colors">Cancel</button>
+                        <button onClick={handleSave} disabled={isInvalid} className="px-4 py-2 rounded-lg bg-indigo-600 text-sm font-semibold text-white hover:bg-indigo-700 transition-colors disabled:opacity-50">Save</button>
+                    </div>
+                </div>
+            </div>
+        </div>
+    );
+};
+
+export default PaperSectionsModal;
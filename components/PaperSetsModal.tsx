@@ -0,0 +1,117 @@
+import React, { useState } from 'react';
+import { type QuestionPaperData } from '../types';
+import { generateHtmlFromPaperData, generateMarkingSchemeHtml } from '../services/htmlGenerator';
+import { MAX_PAPER_SETS } from '../services/paperSets';
+import { sourceFlagBlockMessage } from '../services/sourceIngestion';
+import { exportHtmlDocumentsToPdf } from '../utils/pdfExport';
+import { SpinnerIcon } from './icons/SpinnerIcon';
+
+interface PaperSetsModalProps {
+    paper: QuestionPaperData;
+    sets: QuestionPaperData[];
+    onGenerate: (count: number) => void;
+    onOpenSet: (set: QuestionPaperData) => void;
+    onClose: () => void;
+}
+
+const CloseIcon = (props: React.SVGProps<SVGSVGElement>) => (
+    <svg xmlns="http://www.w3.org/2000/svg" width="24" height="24" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round" {...props}><line x1="18" y1="6" x2="6" y2="18"/><line x1="6" y1="6" x2="18" y2="18"/></svg>
+);
+
+const PaperSetsModal: React.FC<PaperSetsModalProps> = ({ paper, sets, onGenerate, onOpenSet, onClose }) => {
+    const [count, setCount] = useState(sets.length || 3);
+    const [includeAnswerKeys, setIncludeAnswerKeys] = useState(true);
+    const [isExporting, setIsExporting] = useState(false);
+
+    const handleGenerate = () => {
+        const blocked = sourceFlagBlockMessage([paper], 'generating sets');
+        if (blocked) {
+            alert(blocked);
+            return;
+        }
+        onGenerate(count);
+    };
+
+    const handleExportAll = async () => {
+        const blocked = sourceFlagBlockMessage(sets, 'exporting its sets');
+        if (blocked) {
+            alert(blocked);
+            return;
+        }
+        setIsExporting(true);
+        try {
+            const documents = sets.flatMap(set => {
+                const logoConfig = set.schoolLogo ? { src: set.schoolLogo, alignment: 'center' as const } : undefined;
+                const html = [generateHtmlFromPaperData(set, { logoConfig })];
+                if (includeAnswerKeys) html.push(generateHtmlFromPaperData(set, { logoConfig, isAnswerKey: true }), generateMarkingSchemeHtml(set));
+                return html;
+            });
+            await exportHtmlDocumentsToPdf(documents, `${paper.subject.replace(/\s+/g, '_')}_Sets.pdf`);
+        } catch (error) {
+            console.error(error);
+            alert("Export Failed");
+        } finally {
+            setIsExporting(false);
+        }
+    };
+
+    return (
+        <div className="fixed inset-0 bg-black/50 backdrop-blur-sm flex items-center justify-center z-50 animate-fade-in p-4" onClick={onClose}>
+            <div className="bg-white dark:bg-slate-800 rounded-2xl shadow-2xl w-full max-w-md animate-zoom-in" onClick={e => e.stopPropagation()}>
+                <div className="p-6 border-b dark:border-slate-700 flex justify-between items-center">
+                    <div>
+                        <h2 className="text-xl font-bold text-slate-900 dark:text-white">Paper Sets</h2>
+                        <p className="text-sm text-slate-500 dark:text-slate-400 mt-1">Shuffled variants of "{paper.subject}", each with its own answer key.</p>
+                    </div>
+                    <button onClick={onClose} className="p-1 rounded-full text-slate-500 hover:bg-slate-200 dark:hover:bg-slate-700 transition-colors">
+                        <CloseIcon className="w-5 h-5"/>
+                    </button>
+                </div>
+                <div className="p-6 space-y-5">
+                    <div className="flex items-end gap-3">
+                        <div className="flex-1">
+                            <label htmlFor="set-count" className="block text-sm font-medium text-slate-700 dark:text-slate-300">Number of sets</label>
+                            <input
+                                id="set-count"
+                                type="number"
+                                min={2}
+                                max={MAX_PAPER_SETS}
+                                value={count}
+                                onChange={e => setCount(Math.min(Math.max(Number(e.target.value) || 2, 2), MAX_PAPER_SETS))}
+                                className="mt-1 block w-full rounded-lg border-0 py-2 px-3 text-gray-900 dark:text-white bg-white dark:bg-slate-900/50 shadow-sm ring-1 ring-inset ring-gray-300 dark:ring-slate-700 focus:ring-2 focus:ring-inset focus:ring-indigo-600"
+                            />
+                        </div>
+                        <button onClick={handleGenerate} className="px-4 py-2 rounded-lg bg-indigo-600 text-sm font-semibold text-white hover:bg-indigo-700 transition-colors">
+                            {sets.length > 0 ? 'Regenerate' : 'Generate Sets'}
+                        </button>
+                    </div>
+                    {sets.length > 0 && (
+                        <>
+                            <ul className="grid grid-cols-3 gap-2">
+                                {sets.map(set => (
+                                    <li key={set.id}>
+                                        <button onClick={() => onOpenSet(set)} className="w-full px-3 py-2 rounded-lg border dark:border-slate-700 text-sm font-semibold text-slate-700 dark:text-slate-200 hover:border-indigo-500 hover:text-indigo-600 transition-colors">
+                                            Set {set.setLabel}
+                                        </button>
+                                    </li>
+                                ))}
+                            </ul>
+                            <label className="flex items-center gap-2 text-sm text-slate-600 dark:text-slate-400">
+                                <input type="checkbox" checked={includeAnswerKeys} onChange={() => setIncludeAnswerKeys(v => !v)} className="rounded text-indigo-600 focus:ring-indigo-500" />
+                                Include answer key and marking scheme after each set
+                            </label>
+                        </>
+                    )}
+                </div>
+                <div className="px-6 py-4 bg-slate-50 dark:bg-slate-800/50 rounded-b-2xl flex justify-end gap-3">
+                    <button onClick={onClose} className="px-4 py-2 rounded-lg bg-slate-200 dark:bg-slate-700/80 text-sm font-semibold text-slate-800 dark:text-slate-200 hover:bg-slate-300 dark:hover:bg-slate-700 transition-colors">Close</button>
+                    <button onClick={handleExportAll} disabled={sets.length === 0 || isExporting} className="flex items-center justify-center gap-2 px-4 py-2 rounded-lg bg-emerald-600 text-sm font-semibold text-white hover:bg-emerald-700 transition-colors disabled:opacity-50 w-36">
+                        {isExporting ? <SpinnerIcon className="w-5 h-5"/> : 'Export All PDF'}
+                    </button>
+                </div>
+            </div>
+        </div>
+    );
+};
+
+export default PaperSetsModal;
@@ -0,0 +1,163 @@
+import React, { useMemo, useRef, useState } from 'react';
+import { type PaperTemplate, type QuestionPaperData, QuestionType, Difficulty, Taxonomy } from '../types';
+import { authService } from '../services/authService';
+import { BUILT_IN_PAPER_TEMPLATES, paperTemplateToJson, parsePaperTemplateJson } from '../services/paperTemplates';
+import { generateHtmlFromPaperData } from '../services/htmlGenerator';
+import { downloadTextFile } from '../utils/download';
+import { EditIcon } from './icons/EditIcon';
+import { DeleteIcon } from './icons/DeleteIcon';
+
+/** A template being edited: its JSON without the stylesheet, and the stylesheet on its own. */
+interface TemplateDraft {
+    original?: PaperTemplate;
+    json: string;
+    css: string;
+}
+
+const SAMPLE_PAPER: QuestionPaperData = {
+    id: 'template-preview',
+    schoolName: 'Sample School',
+    className: '10',
+    subject: 'Science',
+    totalMarks: '5',
+    timeAllowed: '30 minutes',
+    htmlContent: '',
+    createdAt: '',
+    questions: [
+        { questionNumber: 1, type: QuestionType.MultipleChoice, questionText: 'Which gas do plants take in for photosynthesis?', options: ['Oxygen', 'Carbon dioxide', 'Nitrogen', 'Hydrogen'], answer: 'Carbon dioxide', marks: 1, difficulty: Difficulty.Easy, taxonomy: Taxonomy.Remembering },
+        { questionNumber: 2, type: QuestionType.ShortAnswer, questionText: 'State two differences between arteries and veins.', options: null, answer: '', marks: 2, difficulty: Difficulty.Medium, taxonomy: Taxonomy.Understanding },
+        { questionNumber: 3, type: QuestionType.ShortAnswer, questionText: 'Why is the ozone layer important?', options: null, answer: '', marks: 2, difficulty: Difficulty.Medium, taxonomy: Taxonomy.Understanding },
+    ],
+};
+
+const toDraft = (template: PaperTemplate, original?: PaperTemplate): TemplateDraft => {
+    const { css, ...fields } = template;
+    return { original, json: paperTemplateToJson(fields), css: css || '' };
+};
+
+const textareaClass = "w-full p-3 rounded-lg bg-slate-50 dark:bg-slate-900/50 ring-1 ring-inset ring-gray-300 dark:ring-slate-700 border-0 font-mono text-xs text-slate-800 dark:text-slate-200";
+
+const TemplateEditor: React.FC<{ draft: TemplateDraft; onSave: (template: PaperTemplate) => void; onClose: () => void }> = ({ draft, onSave, onClose }) => {
+    const [json, setJson] = useState(draft.json);
+    const [css, setCss] = useState(draft.css);
+
+    const parsed = useMemo((): { template?: PaperTemplate; error?: string } => {
+        try {
+            return { template: parsePaperTemplateJson(json, css) };
+        } catch (error) {
+            return { error: error instanceof Error ? error.message : 'The template could not be read.' };
+        }
+    }, [json, css]);
+    const previewHtml = useMemo(() => parsed.template ? generateHtmlFromPaperData(SAMPLE_PAPER, { template: parsed.template }) : '', [parsed.template]);
+
+    const handleSave = () => {
+        if (!parsed.template) return;
+        const { original } = draft;
+        onSave(original ? { ...parsed.template, id: original.id, createdAt: original.createdAt } : parsed.template);
+    };
+
+    return (
+        <div className="fixed inset-0 bg-black/50 backdrop-blur-sm flex items-center justify-center z-[60] animate-fade-in p-4" onClick={onClose}>
+            <div className="bg-white dark:bg-slate-800 rounded-2xl shadow-2xl w-full max-w-6xl h-[85vh] flex flex-col" onClick={e => e.stopPropagation()}>
+                <div className="p-6 border-b dark:border-slate-700 shrink-0">
+                    <h2 className="text-2xl font-bold text-slate-900 dark:text-white">{draft.original ? `Edit ${draft.original.name}` : 'New Layout Template'}</h2>
+                    <p className="text-sm text-slate-500 dark:text-slate-400 mt-1">
+                        Text fields take placeholders such as {'{subject}'}, {'{letter}'} or {'{marks}'}. The CSS is added to the paper's stylesheet; style the paper-* and question-* classes.
+                    </p>
+                </div>
+                <div className="flex-1 overflow-hidden grid grid-cols-1 lg:grid-cols-2 gap-4 p-6">
+                    <div className="flex flex-col gap-3 min-h-0">
+                        <label className="text-xs font-semibold text-slate-600 dark:text-slate-400">Template JSON</label>
+                        <textarea value={json} onChange={e => setJson(e.target.value)} spellCheck={false} className={`${textareaClass} flex-[2] min-h-0`} />
+                        <label className="text-xs font-semibold text-slate-600 dark:text-slate-400">CSS</label>
+                        <textarea value={css} onChange={e => setCss(e.target.value)} spellCheck={false} placeholder=".paper-section-title { letter-spacing: 2px; }" className={`${textareaClass} flex-1 min-h-0`} />
+                        {parsed.error && <p className="text-xs text-red-500">{parsed.error}</p>}
+                    </div>
+                    <div className="overflow-auto bg-slate-100 dark:bg-slate-900 rounded-lg p-4">
+                        <div className="bg-white p-8 mx-auto shadow" style={{ maxWidth: 794, fontFamily: "'Times New Roman', Times, serif" }} dangerouslySetInnerHTML={{ __html: previewHtml }} />
+                    </div>
+                </div>
+                <div className="px-6 py-4 bg-slate-50 dark:bg-slate-800/50 rounded-b-2xl flex justify-end gap-3 shrink-0">
+                    <button onClick={onClose} className="px-4 py-2 rounded-lg bg-slate-200 dark:bg-slate-700/80 text-sm font-semibold text-slate-800 dark:text-slate-200 hover:bg-slate-300 dark:hover:bg-slate-700 transition-colors">Cancel</button>
+                    <button onClick={handleSave} disabled={!parsed.template} className="px-4 py-2 rounded-lg bg-indigo-600 text-sm font-semibold text-white hover:bg-indigo-700 transition-colors disabled:opacity-50">Save Template</button>
+                </div>
+            </div>
+        </div>
+    );
+};
+
+/** The school's own layout templates: create from a built-in one, import, edit, export and delete. */
+const PaperTemplateManager: React.FC = () => {
+    const [templates, setTemplates] = useState<PaperTemplate[]>(() => authService.getPaperTemplates());
+    const [baseId, setBaseId] = useState(BUILT_IN_PAPER_TEMPLATES[0].id);
+    const [draft, setDraft] = useState<TemplateDraft | null>(null);
+    const [error, setError] = useState('');
+    const fileRef = useRef<HTMLInputElement>(null);
+
+    const handleNew = () => {
+        const base = BUILT_IN_PAPER_TEMPLATES.find(t => t.id === baseId)!;
+        setDraft(toDraft({ ...base, name: `${base.name} (Custom)` }));
+    };
+
+    const handleSave = (template: PaperTemplate) => {
+        authService.savePaperTemplate(template);
+        setTemplates(authService.getPaperTemplates());
+        setDraft(null);
+    };
+
+    const handleDelete = (template: PaperTemplate) => {
+        if (!window.confirm(`Delete the template "${template.name}"? Papers that use it go back to the standard layout.`)) return;
+        authService.deletePaperTemplate(template.id);
+        setTemplates(authService.getPaperTemplates());
+    };
+
+    const handleImport = async (event: React.ChangeEvent<HTMLInputElement>) => {
+        const file = event.target.files?.[0];
+        event.target.value = '';
+        if (!file) return;
+        setError('');
+        try {
+            authService.savePaperTemplate(parsePaperTemplateJson(await file.text()));
+            setTemplates(authService.getPaperTemplates());
+        } catch (err) {
+            console.error(err);
+            setError(err instanceof Error ? err.message : 'The template could not be imported.');
+        }
+    };
+
+    return (
+        <div className="space-y-4">
+            <input type="file" ref={fileRef} onChange={handleImport} accept=".json,application/json" className="hidden" />
+            <div className="flex flex-wrap items-center gap-3">
+                <select value={baseId} onChange={e => setBaseId(e.target.value)} className="p-2 rounded-md bg-white dark:bg-slate-800 border-slate-300 dark:border-slate-600 shadow-sm text-sm">
+                    {BUILT_IN_PAPER_TEMPLATES.map(t => <option key={t.id} value={t.id}>Start from {t.name}</option>)}
+                </select>
+                <button onClick={handleNew} className="px-4 py-2 rounded-lg bg-indigo-600 text-sm font-semibold text-white hover:bg-indigo-700">New Template</button>
+                <button onClick={() => fileRef.current?.click()} className="text-sm font-semibold text-indigo-600 hover:text-indigo-800">Import JSON</button>
+            </div>
+            {error && <p className="p-3 rounded-lg bg-red-50 border border-red-300 text-red-800 text-sm">{error}</p>}
+            {templates.length === 0 ? (
+                <p className="text-sm text-slate-500 dark:text-slate-400">No custom templates yet. The built-in CBSE, ICSE, State Board and University layouts are always available.</p>
+            ) : (
+                <div className="space-y-2">
+                    {templates.map(template => (
+                        <div key={template.id} className="p-3 rounded-lg bg-slate-100 dark:bg-slate-900/50 flex justify-between items-center gap-3">
+                            <div className="min-w-0">
+                                <p className="font-semibold text-slate-800 dark:text-slate-200 truncate">{template.name}</p>
+                                {template.description && <p className="text-sm text-slate-500 dark:text-slate-400 truncate">{template.description}</p>}
+                            </div>
+                            <div className="flex items-center gap-1 shrink-0">
+                                <button onClick={() => downloadTextFile(paperTemplateToJson(template), `${template.name.replace(/\s+/g, '_')}.json`, 'application/json')} className="px-2 py-1 text-xs font-semibold text-slate-600 dark:text-slate-400 hover:text-slate-900 dark:hover:text-white">Export</button>
+                                <button onClick={() => setDraft(toDraft(template, template))} className="p-1.5 rounded-md text-slate-500 hover:bg-slate-200 dark:hover:bg-slate-700" title="Edit"><EditIcon className="w-4 h-4" /></button>
+                                <button onClick={() => handleDelete(template)} className="p-1.5 rounded-md text-red-500 hover:bg-red-100 dark:hover:bg-red-900/50" title="Delete"><DeleteIcon className="w-4 h-4" /></button>
+                            </div>
+                        </div>
+                    ))}
+                </div>
+            )}
+            {draft && <TemplateEditor draft={draft} onSave={handleSave} onClose={() => setDraft(null)} />}
+        </div>
+    );
+};
+
+export default PaperTemplateManager;
@@ -3,6 +3,7 @@ import { jsPDF } from 'jspdf';
 import html2canvas from 'html2canvas';
 import { type QuestionPaperData } from '../types';
 import { SSGPT_LOGO_URL } from '../constants';
+import { renderLegacyMath } from '../services/mathRenderer';
 import { SpinnerIcon } from './icons/SpinnerIcon';
 
 interface PublicPaperViewProps {
@@ -58,17 +59,9 @@ const PublicPaperView: React.FC<PublicPaperViewProps> = ({ paper, onExit }) => {
             document.body.removeChild(stagingContainer);
             setPagesHtml(newPages.length ? newPages : ['']);
             
-            // Trigger math rendering
+            // Papers saved before math was typeset at generation time still hold raw TeX.
             setTimeout(() => {
-                if (containerRef.current && (window as any).renderMathInElement) {
-                    (window as any).renderMathInElement(containerRef.current, {
-                        delimiters: [
-                            {left: '$$', right: '$$', display: true},
-                            {left: '$', right: '$', display: false},
-                        ],
-                        throwOnError: false
-                    });
-                }
+                if (containerRef.current) renderLegacyMath(containerRef.current);
             }, 50);
         };
 
@@ -0,0 +1,63 @@
+import React, { useState } from 'react';
+import { type Question, type QuestionRefineAction, Taxonomy } from '../types';
+import { BLOOM_TAXONOMY_LEVELS } from '../constants';
+import { SpinnerIcon } from './icons/SpinnerIcon';
+
+interface QuestionActionsMenuProps {
+    question: Question;
+    position: { top: number; left: number };
+    isBusy: boolean;
+    onAction: (action: QuestionRefineAction, taxonomy?: Taxonomy) => void;
+}
+
+const SparkleIcon = (props: React.SVGProps<SVGSVGElement>) => (
+    <svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round" {...props}><path d="M12 3l1.9 5.8L20 10.7l-5.2 3.2L16 20l-4-3.6L8 20l1.2-6.1L4 10.7l6.1-1.9z"/></svg>
+);
+
+const QuestionActionsMenu: React.FC<QuestionActionsMenuProps> = ({ question, position, isBusy, onAction }) => {
+    const [isOpen, setIsOpen] = useState(false);
+    const [showLevels, setShowLevels] = useState(false);
+
+    const handleAction = (action: QuestionRefineAction, taxonomy?: Taxonomy) => {
+        setIsOpen(false);
+        setShowLevels(false);
+        onAction(action, taxonomy);
+    };
+
+    const itemClass = "w-full text-left px-3 py-2 rounded-md text-sm font-medium text-slate-700 dark:text-slate-300 hover:bg-slate-100 dark:hover:bg-slate-700 transition-colors";
+
+    return (
+        <div className="absolute z-40" style={{ top: position.top, left: position.left }} onMouseDown={e => e.preventDefault()}>
+            <button
+                onClick={() => setIsOpen(o => !o)}
+                disabled={isBusy}
+                className="flex items-center gap-1.5 px-2.5 py-1 rounded-full bg-indigo-600 text-white text-xs font-semibold shadow-lg hover:bg-indigo-700 disabled:opacity-70"
+                title={`AI actions for question ${question.questionNumber}`}
+            >
+                {isBusy ? <SpinnerIcon className="w-3.5 h-3.5" /> : <SparkleIcon className="w-3.5 h-3.5" />}
+                Q{question.questionNumber}
+            </button>
+            {isOpen && !isBusy && (
+                <div className="absolute top-full right-0 mt-2 w-56 bg-white dark:bg-slate-800 rounded-lg shadow-2xl border dark:border-slate-700 p-2 animate-zoom-in">
+                    {!showLevels ? (
+                        <ul className="space-y-1">
+                            <li><button onClick={() => handleAction('regenerate')} className={itemClass}>Regenerate</button></li>
+                            <li><button onClick={() => handleAction('simplify')} className={itemClass}>Simplify</button></li>
+                            <li><button onClick={() => handleAction('harder')} className={itemClass}>Make harder</button></li>
+                            <li><button onClick={() => setShowLevels(true)} className={itemClass}>Change Bloom level &rarr;</button></li>
+                        </ul>
+                    ) : (
+                        <ul className="space-y-1">
+                            <li><button onClick={() => setShowLevels(false)} className={`${itemClass} text-slate-500`}>&larr; Back</button></li>
+                            {BLOOM_TAXONOMY_LEVELS.filter(level => level.value !== question.taxonomy).map(level => (
+                                <li key={level.value}><button onClick={() => handleAction('taxonomy', level.value)} className={itemClass}>{level.label}</button></li>
+                            ))}
+                        </ul>
+                    )}
+                </div>
+            )}
+        </div>
+    );
+};
+
+export default QuestionActionsMenu;
@@ -1,8 +1,9 @@
 
 import React, { useState, useEffect, useMemo } from 'react';
 import { authService } from '../services/authService';
-import { type BankQuestion, QuestionType, Difficulty, Taxonomy } from '../types';
-import { QUESTION_TYPES, DIFFICULTY_LEVELS, BLOOM_TAXONOMY_LEVELS } from '../constants';
+import { type BankQuestion, type SubQuestion, QuestionType, Difficulty, Taxonomy } from '../types';
+import { QUESTION_TYPES, DIFFICULTY_LEVELS, BLOOM_TAXONOMY_LEVELS, ASSERTION_REASON_OPTIONS } from '../constants';
+import { sumMarks } from '../services/paperValidator';
 import { EditIcon } from './icons/EditIcon';
 import { DeleteIcon } from './icons/DeleteIcon';
 
@@ -36,6 +37,9 @@ const QuestionCard: React.FC<{question: BankQuestion, onEdit: () => void, onDele
                 <span className="px-2 py-1 bg-blue-100 text-blue-800 dark:bg-blue-900/50 dark:text-blue-300 rounded-md font-medium">{question.type}</span>
                 <span className="px-2 py-1 bg-green-100 text-green-800 dark:bg-green-900/50 dark:text-green-300 rounded-md font-medium">{question.difficulty}</span>
                 <span className="px-2 py-1 bg-purple-100 text-purple-800 dark:bg-purple-900/50 dark:text-purple-300 rounded-md font-medium">{question.marks} Marks</span>
+                {question.subQuestions && question.subQuestions.length > 0 && (
+                    <span className="px-2 py-1 bg-amber-100 text-amber-800 dark:bg-amber-900/50 dark:text-amber-300 rounded-md font-medium">{question.subQuestions.length} Parts</span>
+                )}
                  <span className="px-2 py-1 bg-slate-100 text-slate-800 dark:bg-slate-700 dark:text-slate-300 rounded-md font-medium">{question.subject}</span>
                  <span className="px-2 py-1 bg-slate-100 text-slate-800 dark:bg-slate-700 dark:text-slate-300 rounded-md font-medium">{question.className}</span>
             </div>
@@ -57,7 +61,8 @@ const AddQuestionModal: React.FC<{
     const initialFormState = {
       subject: '', className: '', type: QuestionType.ShortAnswer, questionText: '', 
       options: ['','','',''], answer: '', marks: 1, difficulty: Difficulty.Medium, taxonomy: Taxonomy.Understanding,
-      matchA: ['',''], matchB: ['','']
+      matchA: ['',''], matchB: ['',''], subQuestions: [] as SubQuestion[],
+      numericValue: '', numericUnit: '', numericTolerance: ''
     };
 
     const [formState, setFormState] = useState(initialFormState);
@@ -80,10 +85,12 @@ const AddQuestionModal: React.FC<{
              answer = String(questionToEdit.answer);
         }
         
+        const numeric = questionToEdit.numericAnswer;
         setFormState({
             subject: questionToEdit.subject, className: questionToEdit.className, type: questionToEdit.type, questionText: questionToEdit.questionText,
             options, answer, marks: questionToEdit.marks, difficulty: questionToEdit.difficulty, taxonomy: questionToEdit.taxonomy,
-            matchA, matchB
+            matchA, matchB, subQuestions: questionToEdit.subQuestions || [],
+            numericValue: numeric ? String(numeric.value) : '', numericUnit: numeric?.unit || '', numericTolerance: numeric?.tolerance ? String(numeric.tolerance) : ''
         });
 
       } else {
@@ -111,16 +118,50 @@ const AddQuestionModal: React.FC<{
         setFormState(prev => ({...prev, [key]: newCol}));
     };
 
+    const handleAddPart = () => {
+        setFormState(prev => ({...prev, subQuestions: [...prev.subQuestions, { questionText: '', marks: 1, answer: '', taxonomy: prev.taxonomy }]}));
+    };
+
+    const handlePartChange = (index: number, changes: Partial<SubQuestion>) => {
+        setFormState(prev => ({...prev, subQuestions: prev.subQuestions.map((part, i) => i === index ? { ...part, ...changes } : part)}));
+    };
+
+    const handleRemovePart = (index: number) => {
+        setFormState(prev => ({...prev, subQuestions: prev.subQuestions.filter((_, i) => i !== index)}));
+    };
+
+    const hasParts = formState.subQuestions.length > 0;
+
+    const assertionReasonAnswer = (index: number) => `(${String.fromCharCode(97 + index)}) ${ASSERTION_REASON_OPTIONS[index]}`;
+
     const handleSave = () => {
         // Validation
         if (!formState.subject || !formState.className || !formState.questionText) {
             alert("Subject, Class, and Question Text are required.");
             return;
         }
+        if (hasParts && (formState.subQuestions.length < 2 || formState.subQuestions.some(part => !part.questionText.trim() || part.marks <= 0))) {
+            alert("A question with parts needs at least two parts, each with text and positive marks.");
+            return;
+        }
+        if (formState.type === QuestionType.CaseBased && formState.subQuestions.length < 2) {
+            alert("Case-based questions need at least two parts on the passage.");
+            return;
+        }
+        if (formState.type === QuestionType.AssertionReason && !ASSERTION_REASON_OPTIONS.some((opt, i) => formState.answer === assertionReasonAnswer(i))) {
+            alert("Choose the correct Assertion-Reason option.");
+            return;
+        }
+        if (formState.type === QuestionType.Numerical && (formState.numericValue.trim() === '' || !Number.isFinite(Number(formState.numericValue)))) {
+            alert("Numerical questions need a numeric final answer.");
+            return;
+        }
 
         let questionPayload: Omit<BankQuestion, 'id' | 'createdAt'> = {
             subject: formState.subject, className: formState.className, type: formState.type, questionText: formState.questionText,
-            options: null, answer: '', marks: Number(formState.marks), difficulty: formState.difficulty, taxonomy: formState.taxonomy, styles: {}
+            options: null, answer: '', marks: hasParts ? sumMarks(formState.subQuestions) : Number(formState.marks),
+            difficulty: formState.difficulty, taxonomy: formState.taxonomy, styles: {},
+            subQuestions: hasParts ? formState.subQuestions : undefined
         };
 
         if (formState.type === QuestionType.MultipleChoice) {
@@ -141,6 +182,13 @@ const AddQuestionModal: React.FC<{
                 answerMap[item] = columnB[index];
             });
             questionPayload.answer = answerMap;
+        } else if (formState.type === QuestionType.AssertionReason) {
+            questionPayload.options = [...ASSERTION_REASON_OPTIONS];
+            questionPayload.answer = formState.answer;
+        } else if (formState.type === QuestionType.Numerical) {
+            const tolerance = Math.abs(Number(formState.numericTolerance)) || undefined;
+            questionPayload.numericAnswer = { value: Number(formState.numericValue), unit: formState.numericUnit.trim() || undefined, tolerance };
+            questionPayload.answer = formState.answer;
         } else {
             questionPayload.answer = formState.answer;
         }
@@ -169,7 +217,27 @@ const AddQuestionModal: React.FC<{
                 <FormField as="select" label="Question Type" name="type" value={formState.type} onChange={handleChange}>
                     {QUESTION_TYPES.map(qt => <option key={qt.value} value={qt.value}>{qt.label}</option>)}
                 </FormField>
-                <FormField as="textarea" label="Question Text" name="questionText" value={formState.questionText} onChange={handleChange} />
+                <FormField as="textarea" label={formState.type === QuestionType.AssertionReason ? "Question Text (Assertion (A): ... / Reason (R): ...)" : formState.type === QuestionType.CaseBased ? "Case / Passage" : "Question Text"} name="questionText" value={formState.questionText} onChange={handleChange} />
+
+                {formState.type === QuestionType.AssertionReason && (
+                    <div className="space-y-2 p-3 border rounded-md dark:border-slate-700">
+                        <label className="text-sm font-medium">Correct option</label>
+                        {ASSERTION_REASON_OPTIONS.map((opt, i) => (
+                            <label key={i} className="flex items-start gap-2 text-sm">
+                                <input type="radio" name="answer" value={assertionReasonAnswer(i)} checked={formState.answer === assertionReasonAnswer(i)} onChange={handleChange} className="mt-1"/>
+                                <span>({String.fromCharCode(97 + i)}) {opt}</span>
+                            </label>
+                        ))}
+                    </div>
+                )}
+
+                {formState.type === QuestionType.Numerical && (
+                    <div className="grid grid-cols-3 gap-4">
+                        <FormField type="number" label="Final Value" name="numericValue" value={formState.numericValue} onChange={handleChange} />
+                        <FormField label="Unit" name="numericUnit" value={formState.numericUnit} onChange={handleChange} />
+                        <FormField type="number" label="Tolerance (±)" name="numericTolerance" value={formState.numericTolerance} onChange={handleChange} />
+                    </div>
+                )}
                 
                 {formState.type === QuestionType.MultipleChoice && (
                     <div className="space-y-2 p-3 border rounded-md dark:border-slate-700">
@@ -196,12 +264,35 @@ const AddQuestionModal: React.FC<{
                     </div>
                 )}
                 
-                {(formState.type !== QuestionType.MultipleChoice && formState.type !== QuestionType.MatchTheFollowing) && (
-                     <FormField as="textarea" label="Answer" name="answer" value={String(formState.answer)} onChange={handleChange} />
+                {(formState.type !== QuestionType.MultipleChoice && formState.type !== QuestionType.MatchTheFollowing && formState.type !== QuestionType.AssertionReason) && (
+                     <FormField as="textarea" label={hasParts ? "Answer (optional, shared by all parts)" : formState.type === QuestionType.Numerical ? "Worked Solution" : "Answer"} name="answer" value={String(formState.answer)} onChange={handleChange} />
                 )}
 
+                <div className="space-y-3 p-3 border rounded-md dark:border-slate-700">
+                    <div className="flex justify-between items-center">
+                        <label className="text-sm font-medium">Parts {hasParts && <span className="text-slate-500">(marks add up to the question's marks)</span>}</label>
+                        <button type="button" onClick={handleAddPart} className="text-sm font-semibold text-indigo-600 hover:text-indigo-800">+ Add Part</button>
+                    </div>
+                    {formState.subQuestions.map((part, i) => (
+                        <div key={i} className="space-y-2 p-3 rounded-md bg-slate-50 dark:bg-slate-900/50">
+                            <div className="flex items-center gap-2">
+                                <span className="font-semibold text-sm w-8">({String.fromCharCode(97 + i)})</span>
+                                <input type="text" placeholder="Part text" value={part.questionText} onChange={e => handlePartChange(i, { questionText: e.target.value })} className="flex-1 p-2 text-sm rounded-md bg-white dark:bg-slate-900 border border-slate-300 dark:border-slate-600"/>
+                                <input type="number" min="0" step="0.5" title="Marks" value={part.marks} onChange={e => handlePartChange(i, { marks: Number(e.target.value) || 0 })} className="w-20 p-2 text-sm rounded-md bg-white dark:bg-slate-900 border border-slate-300 dark:border-slate-600"/>
+                                <button type="button" onClick={() => handleRemovePart(i)} className="p-2 text-red-500 hover:bg-red-100 dark:hover:bg-red-900/40 rounded-md"><DeleteIcon className="w-4 h-4" /></button>
+                            </div>
+                            <div className="flex items-center gap-2 pl-10">
+                                <input type="text" placeholder="Answer" value={part.answer} onChange={e => handlePartChange(i, { answer: e.target.value })} className="flex-1 p-2 text-sm rounded-md bg-white dark:bg-slate-900 border border-slate-300 dark:border-slate-600"/>
+                                <select value={part.taxonomy} onChange={e => handlePartChange(i, { taxonomy: e.target.value as Taxonomy })} className="p-2 text-sm rounded-md bg-white dark:bg-slate-900 border border-slate-300 dark:border-slate-600">
+                                    {BLOOM_TAXONOMY_LEVELS.map(t => <option key={t.value} value={t.value}>{t.label}</option>)}
+                                </select>
+                            </div>
+                        </div>
+                    ))}
+                </div>
+
                 <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
-                    <FormField type="number" label="Marks" name="marks" value={String(formState.marks)} onChange={handleChange} />
+                    <FormField type="number" label="Marks" name="marks" value={String(hasParts ? sumMarks(formState.subQuestions) : formState.marks)} onChange={handleChange} disabled={hasParts} />
                     <FormField as="select" label="Difficulty" name="difficulty" value={formState.difficulty} onChange={handleChange}>
                         {DIFFICULTY_LEVELS.map(d => <option key={d.value} value={d.value}>{d.label}</option>)}
                     </FormField>
@@ -219,8 +310,8 @@ const AddQuestionModal: React.FC<{
     );
 };
 
-const FormField: React.FC<{name: string, label: string, value: string, onChange: (e: any) => void, as?: 'input' | 'textarea' | 'select', type?: string, children?: React.ReactNode}> = ({ name, label, value, onChange, as='input', type='text', children }) => {
-    const commonProps = { id: name, name, value, onChange, className: "block w-full rounded-lg border-0 py-2.5 px-3 text-gray-900 dark:text-white bg-white dark:bg-slate-900/50 shadow-sm ring-1 ring-inset ring-gray-300 dark:ring-slate-700 focus:ring-2 focus:ring-inset focus:ring-indigo-600 sm:text-sm" };
+const FormField: React.FC<{name: string, label: string, value: string, onChange: (e: any) => void, as?: 'input' | 'textarea' | 'select', type?: string, disabled?: boolean, children?: React.ReactNode}> = ({ name, label, value, onChange, as='input', type='text', disabled, children }) => {
+    const commonProps = { id: name, name, value, onChange, disabled, className: "block w-full rounded-lg border-0 py-2.5 px-3 text-gray-900 dark:text-white bg-white dark:bg-slate-900/50 shadow-sm ring-1 ring-inset ring-gray-300 dark:ring-slate-700 focus:ring-2 focus:ring-inset focus:ring-indigo-600 sm:text-sm disabled:opacity-60" };
     const renderField = () => {
         if (as === 'textarea') return <textarea {...commonProps} rows={3} />;
         if (as === 'select') return <select {...commonProps}>{children}</select>;
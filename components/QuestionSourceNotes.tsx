@@ -0,0 +1,74 @@
+import React, { useState } from 'react';
+import { type Question } from '../types';
+import { formatCitation } from '../services/sourceIngestion';
+import { SpinnerIcon } from './icons/SpinnerIcon';
+
+export interface QuestionSourceNote {
+    number: number;
+    question: Question;
+    top: number;
+    left: number;
+}
+
+interface QuestionSourceNotesProps {
+    notes: QuestionSourceNote[];
+    busyNumber: number | null;
+    onResolve: (question: Question) => void;
+    onRegenerate: (question: Question, number: number) => void;
+}
+
+const BookIcon: React.FC<React.SVGProps<SVGSVGElement>> = (props) => (
+    <svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 20 20" fill="currentColor" {...props}><path d="M10.75 16.82A7.462 7.462 0 0115 15.5c.71 0 1.396.098 2.046.282A.75.75 0 0018 15.06v-11a.75.75 0 00-.546-.721A9.006 9.006 0 0015 3a8.963 8.963 0 00-4.25 1.065V16.82zM9.25 4.065A8.963 8.963 0 005 3c-.85 0-1.673.118-2.454.339A.75.75 0 002 4.06v11a.75.75 0 00.954.721A7.506 7.506 0 015 15.5c1.579 0 3.042.487 4.25 1.32V4.065z" /></svg>
+);
+
+/**
+ * Citations and unresolved source flags shown in the margin beside each
+ * question. They sit outside the pages, so they are never exported.
+ */
+const QuestionSourceNotes: React.FC<QuestionSourceNotesProps> = ({ notes, busyNumber, onResolve, onRegenerate }) => {
+    const [openNumber, setOpenNumber] = useState<number | null>(null);
+
+    return (
+        <>
+            {notes.map(({ number, question, top, left }) => {
+                const { source, sourceFlag } = question;
+                const isFlagged = !!sourceFlag && !sourceFlag.resolved;
+                const isOpen = openNumber === number;
+                return (
+                    <div key={number} className="absolute z-40 w-56 text-xs" style={{ top, left }}>
+                        {isFlagged ? (
+                            <div className="rounded-lg border border-amber-300 bg-amber-50 text-amber-900 shadow p-2 space-y-2">
+                                <p className="font-semibold">Q{number} · Not grounded in the source</p>
+                                <p>{sourceFlag!.reason}</p>
+                                {source?.excerpt && <p className="italic">"{source.excerpt}"</p>}
+                                <div className="flex items-center justify-end gap-3">
+                                    <button onClick={() => onRegenerate(question, number)} disabled={busyNumber !== null} className="flex items-center gap-1 font-semibold text-indigo-700 hover:underline disabled:opacity-50">
+                                        {busyNumber === number && <SpinnerIcon className="w-3 h-3" />}
+                                        Regenerate
+                                    </button>
+                                    <button onClick={() => onResolve(question)} className="font-semibold hover:underline">Keep</button>
+                                </div>
+                            </div>
+                        ) : source && (
+                            <div className="rounded-lg bg-white/90 dark:bg-slate-800/90 text-slate-600 dark:text-slate-300 shadow">
+                                <button onClick={() => setOpenNumber(isOpen ? null : number)} title={source.excerpt} className="w-full flex items-center gap-1.5 px-2 py-1 text-left">
+                                    <BookIcon className="w-3.5 h-3.5 shrink-0 text-indigo-500" />
+                                    <span className="truncate">{formatCitation(source)}</span>
+                                    {sourceFlag?.resolved && <span className="ml-auto shrink-0 text-amber-600" title={sourceFlag.reason}>kept</span>}
+                                </button>
+                                {isOpen && (
+                                    <div className="px-2 pb-2 space-y-1">
+                                        {source.documentName && <p className="font-semibold truncate">{source.documentName}</p>}
+                                        {source.excerpt && <p className="italic">"{source.excerpt}"</p>}
+                                    </div>
+                                )}
+                            </div>
+                        )}
+                    </div>
+                );
+            })}
+        </>
+    );
+};
+
+export default QuestionSourceNotes;
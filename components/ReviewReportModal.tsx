@@ -0,0 +1,168 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { type QuestionPaperData, type ReviewIssue, type ReviewSeverity } from '../types';
+import { reviewPaper, translateQuestions, generateHtmlFromPaperData } from '../services/geminiService';
+import { REVIEW_CATEGORY_LABELS, applyReviewFix, dismissReviewIssue, findReviewedQuestion } from '../services/paperReview';
+import AIErrorNotice from './AIErrorNotice';
+import { SpinnerIcon } from './icons/SpinnerIcon';
+
+interface ReviewReportModalProps {
+    paper: QuestionPaperData;
+    onSave: (paper: QuestionPaperData) => void;
+    onClose: () => void;
+}
+
+const CloseIcon = (props: React.SVGProps<SVGSVGElement>) => (
+    <svg xmlns="http://www.w3.org/2000/svg" width="24" height="24" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round" {...props}><line x1="18" y1="6" x2="6" y2="18"/><line x1="6" y1="6" x2="18" y2="18"/></svg>
+);
+
+const SEVERITY_CLASSES: Record<ReviewSeverity, string> = {
+    high: 'bg-red-100 text-red-700 dark:bg-red-900/40 dark:text-red-300',
+    medium: 'bg-amber-100 text-amber-800 dark:bg-amber-900/40 dark:text-amber-300',
+    low: 'bg-slate-100 text-slate-600 dark:bg-slate-700 dark:text-slate-300',
+};
+
+const FixPreview: React.FC<{ issue: ReviewIssue }> = ({ issue }) => {
+    const { questionText, options, answer } = issue.fix!;
+    return (
+        <div className="mt-2 p-2 rounded-md bg-emerald-50 dark:bg-emerald-900/20 text-xs text-emerald-900 dark:text-emerald-200 space-y-1">
+            {questionText && <p><span className="font-semibold">Question:</span> {questionText}</p>}
+            {options && <p><span className="font-semibold">Options:</span> {options.map((o, i) => `(${String.fromCharCode(97 + i)}) ${o}`).join('  ')}</p>}
+            {answer && <p><span className="font-semibold">Answer:</span> {answer}</p>}
+        </div>
+    );
+};
+
+/** Runs the automated reviewer and lists its issues, with one-click fixes that are saved with the paper. */
+const ReviewReportModal: React.FC<ReviewReportModalProps> = ({ paper, onSave, onClose }) => {
+    const [isReviewing, setIsReviewing] = useState(false);
+    const [error, setError] = useState<unknown>(null);
+    const [busyIssueId, setBusyIssueId] = useState<string | null>(null);
+    const [showResolved, setShowResolved] = useState(false);
+    const abortRef = useRef<AbortController | null>(null);
+    const review = paper.review;
+
+    useEffect(() => () => abortRef.current?.abort(), []);
+
+    const handleRunReview = async () => {
+        const controller = new AbortController();
+        abortRef.current = controller;
+        setIsReviewing(true);
+        setError(null);
+        try {
+            const result = await reviewPaper(paper, controller.signal);
+            onSave({ ...paper, review: result });
+        } catch (err) {
+            if (!controller.signal.aborted) setError(err);
+        } finally {
+            setIsReviewing(false);
+        }
+    };
+
+    const handleAccept = async (issue: ReviewIssue) => {
+        const question = findReviewedQuestion(paper, issue);
+        let updated = applyReviewFix(paper, issue);
+        if (!question || updated === paper) return;
+        setBusyIssueId(issue.id);
+        try {
+            // The fix dropped the second-language copy, which no longer matched the wording.
+            if (paper.secondaryLanguage && question.translation) {
+                const index = paper.questions.indexOf(question);
+                const [translated] = (await translateQuestions([updated.questions[index]], paper.language || 'English', paper.secondaryLanguage)).questions;
+                updated = { ...updated, questions: updated.questions.map((q, i) => i === index ? translated : q) };
+                updated.htmlContent = generateHtmlFromPaperData(updated, {
+                    logoConfig: updated.schoolLogo ? { src: updated.schoolLogo, alignment: 'center' } : undefined
+                });
+            }
+        } catch (err) {
+            console.error(err);
+            alert(`The fix was applied, but the question could not be translated again, so it is printed in ${paper.language || 'English'} only. ${err instanceof Error ? err.message : ''}`);
+        } finally {
+            onSave(updated);
+            setBusyIssueId(null);
+        }
+    };
+
+    const openIssues = review?.issues.filter(issue => issue.status === 'open') || [];
+    const shownIssues = (showResolved ? review?.issues : openIssues) || [];
+
+    return (
+        <div className="fixed inset-0 bg-black/50 backdrop-blur-sm flex items-center justify-center z-[60] animate-fade-in p-4" onClick={onClose}>
+            <div className="bg-white dark:bg-slate-800 rounded-2xl shadow-2xl w-full max-w-3xl h-[85vh] flex flex-col" onClick={e => e.stopPropagation()}>
+                <div className="p-6 border-b dark:border-slate-700 flex justify-between items-center shrink-0">
+                    <div>
+                        <h2 className="text-2xl font-bold text-slate-900 dark:text-white">Paper Review</h2>
+                        <p className="text-sm text-slate-500 dark:text-slate-400 mt-1">
+                            {review ? `Reviewed ${new Date(review.reviewedAt).toLocaleString()} · ${openIssues.length} open issue(s)` : 'Checks wording, MCQ options, answers, syllabus coverage and vocabulary before you print.'}
+                        </p>
+                    </div>
+                    <button onClick={onClose} className="p-1 rounded-full text-slate-500 hover:bg-slate-200 dark:hover:bg-slate-700 transition-colors">
+                        <CloseIcon className="w-5 h-5"/>
+                    </button>
+                </div>
+                <div className="p-6 overflow-y-auto flex-1 space-y-4">
+                    {isReviewing ? (
+                        <div className="h-full flex flex-col items-center justify-center gap-3 text-slate-500 dark:text-slate-400">
+                            <SpinnerIcon className="w-8 h-8 text-indigo-500" />
+                            <p className="text-sm">Reviewing {paper.questions.length} questions…</p>
+                        </div>
+                    ) : error ? (
+                        <AIErrorNotice error={error} actionLabel="Try Again" onAction={handleRunReview} />
+                    ) : !review ? (
+                        <p className="text-sm text-slate-500 dark:text-slate-400">This paper has not been reviewed yet.</p>
+                    ) : (
+                        <>
+                            {review.summary && <p className="text-sm text-slate-700 dark:text-slate-300">{review.summary}</p>}
+                            {shownIssues.length === 0 && <p className="text-sm text-emerald-600">No open issues.</p>}
+                            {shownIssues.map(issue => {
+                                const isStale = !findReviewedQuestion(paper, issue);
+                                const isOpen = issue.status === 'open';
+                                return (
+                                    <div key={issue.id} className={`p-4 rounded-lg border dark:border-slate-700 ${isOpen ? '' : 'opacity-60'}`}>
+                                        <div className="flex flex-wrap items-center gap-2 text-xs">
+                                            <span className="font-semibold text-slate-800 dark:text-slate-200">Q{issue.questionNumber}</span>
+                                            <span className={`px-2 py-0.5 rounded-full font-semibold capitalize ${SEVERITY_CLASSES[issue.severity]}`}>{issue.severity}</span>
+                                            <span className="text-slate-500 dark:text-slate-400">{REVIEW_CATEGORY_LABELS[issue.category]}</span>
+                                            {!isOpen && <span className="ml-auto font-semibold text-slate-500 capitalize">{issue.status}</span>}
+                                        </div>
+                                        <p className="mt-2 text-sm text-slate-800 dark:text-slate-200">{issue.message}</p>
+                                        {issue.suggestion && <p className="mt-1 text-sm text-slate-500 dark:text-slate-400">{issue.suggestion}</p>}
+                                        {issue.fix && isOpen && <FixPreview issue={issue} />}
+                                        {isOpen && (
+                                            <div className="mt-3 flex items-center justify-end gap-3">
+                                                {isStale && <span className="mr-auto text-xs text-amber-600">This question has changed since the review.</span>}
+                                                <button onClick={() => onSave(dismissReviewIssue(paper, issue))} className="text-sm font-semibold text-slate-500 hover:text-slate-800 dark:hover:text-slate-200">Dismiss</button>
+                                                {issue.fix && (
+                                                    <button onClick={() => handleAccept(issue)} disabled={isStale || busyIssueId !== null} className="flex items-center gap-2 px-3 py-1.5 rounded-lg bg-indigo-600 text-sm font-semibold text-white hover:bg-indigo-700 transition-colors disabled:opacity-50">
+                                                        {busyIssueId === issue.id && <SpinnerIcon className="w-4 h-4" />} Accept fix
+                                                    </button>
+                                                )}
+                                            </div>
+                                        )}
+                                    </div>
+                                );
+                            })}
+                        </>
+                    )}
+                </div>
+                <div className="px-6 py-4 bg-slate-50 dark:bg-slate-800/50 rounded-b-2xl flex items-center justify-between gap-3 shrink-0">
+                    <label className="flex items-center gap-2 text-sm text-slate-600 dark:text-slate-400">
+                        {review && review.issues.length > openIssues.length && (
+                            <>
+                                <input type="checkbox" checked={showResolved} onChange={e => setShowResolved(e.target.checked)} className="rounded text-indigo-600 focus:ring-indigo-500" />
+                                Show accepted and dismissed
+                            </>
+                        )}
+                    </label>
+                    <div className="flex gap-3">
+                        <button onClick={onClose} className="px-4 py-2 rounded-lg bg-slate-200 dark:bg-slate-700/80 text-sm font-semibold text-slate-800 dark:text-slate-200 hover:bg-slate-300 dark:hover:bg-slate-700 transition-colors">Close</button>
+                        <button onClick={handleRunReview} disabled={isReviewing} className="px-4 py-2 rounded-lg bg-indigo-600 text-sm font-semibold text-white hover:bg-indigo-700 transition-colors disabled:opacity-50">
+                            {review ? 'Review Again' : 'Run Review'}
+                        </button>
+                    </div>
+                </div>
+            </div>
+        </div>
+    );
+};
+
+export default ReviewReportModal;
@@ -0,0 +1,90 @@
+import React from 'react';
+import { type PaperSection, QuestionType } from '../types';
+import { QUESTION_TYPES } from '../constants';
+import { groupIntoSections, marksBreakdown } from '../services/htmlGenerator';
+import { DeleteIcon } from './icons/DeleteIcon';
+
+interface SectionsEditorProps {
+    sections: PaperSection[];
+    onChange: (sections: PaperSection[]) => void;
+    /** The questions (or planned rows) to preview the grouping with. */
+    items: { type: QuestionType; marks: number; count?: number }[];
+}
+
+const inputClass = "w-full mt-1 p-2 rounded-md bg-white dark:bg-slate-800 border-slate-300 dark:border-slate-600 shadow-sm text-sm";
+
+const toMarks = (value: string): number | undefined => value.trim() === '' ? undefined : Math.max(0, Number(value) || 0);
+
+/**
+ * Lists the teacher's sections in print order. Each shows what it will hold,
+ * and whatever no section takes is listed as the type-grouped sections that
+ * follow them.
+ */
+const SectionsEditor: React.FC<SectionsEditorProps> = ({ sections, onChange, items }) => {
+    const grouped = groupIntoSections(items, sections);
+    const preview = (key: string) => grouped.find(g => g.key === key)?.items || [];
+    const leftOver = grouped.filter(g => !sections.some(s => s.id === g.key));
+
+    const update = (id: string, patch: Partial<PaperSection>) => onChange(sections.map(s => s.id === id ? { ...s, ...patch } : s));
+
+    const toggleType = (section: PaperSection, type: QuestionType) =>
+        update(section.id, { types: section.types.includes(type) ? section.types.filter(t => t !== type) : [...section.types, type] });
+
+    const move = (index: number, offset: number) => {
+        const next = [...sections];
+        const [moved] = next.splice(index, 1);
+        next.splice(index + offset, 0, moved);
+        onChange(next);
+    };
+
+    const addSection = () => onChange([...sections, { id: `sec-${Date.now()}`, name: `Section ${sections.length + 1}`, types: [] }]);
+
+    const summary = (sectionItems: { marks: number; count?: number }[]) => sectionItems.length
+        ? `${marksBreakdown(sectionItems)} = ${sectionItems.reduce((acc, item) => acc + item.marks * (item.count ?? 1), 0)} marks`
+        : 'No questions fit this section.';
+
+    return (
+        <div className="space-y-3">
+            {sections.map((section, index) => (
+                <div key={section.id} className="p-4 bg-slate-50 dark:bg-slate-900/50 rounded-xl border dark:border-slate-700/50 space-y-3">
+                    <div className="flex flex-wrap gap-4 items-end">
+                        <div className="flex-1 min-w-[180px]">
+                            <label className="text-xs font-medium text-slate-600 dark:text-slate-400">Section {String.fromCharCode(65 + index)} name</label>
+                            <input value={section.name} onChange={e => update(section.id, { name: e.target.value })} className={inputClass} />
+                        </div>
+                        <div className="w-24">
+                            <label className="text-xs font-medium" title="Smallest marks per question (inclusive)">Min marks</label>
+                            <input type="number" min="0" step="0.5" value={section.minMarks ?? ''} onChange={e => update(section.id, { minMarks: toMarks(e.target.value) })} placeholder="Any" className={inputClass} />
+                        </div>
+                        <div className="w-24">
+                            <label className="text-xs font-medium" title="Largest marks per question (inclusive)">Max marks</label>
+                            <input type="number" min="0" step="0.5" value={section.maxMarks ?? ''} onChange={e => update(section.id, { maxMarks: toMarks(e.target.value) })} placeholder="Any" className={inputClass} />
+                        </div>
+                        <div className="flex gap-1">
+                            <button type="button" onClick={() => move(index, -1)} disabled={index === 0} title="Move up" className="p-2 rounded-md text-slate-500 hover:bg-slate-200 dark:hover:bg-slate-700 disabled:opacity-30">↑</button>
+                            <button type="button" onClick={() => move(index, 1)} disabled={index === sections.length - 1} title="Move down" className="p-2 rounded-md text-slate-500 hover:bg-slate-200 dark:hover:bg-slate-700 disabled:opacity-30">↓</button>
+                            <button type="button" onClick={() => onChange(sections.filter(s => s.id !== section.id))} title="Remove section" className="p-2 rounded-md text-red-500 hover:bg-red-100 dark:hover:bg-red-900/50"><DeleteIcon className="w-4 h-4" /></button>
+                        </div>
+                    </div>
+                    <div className="flex flex-wrap gap-2">
+                        {QUESTION_TYPES.map(qt => (
+                            <button type="button" key={qt.value} onClick={() => toggleType(section, qt.value)}
+                                className={`px-3 py-1 rounded-full text-xs font-semibold transition-colors ${section.types.includes(qt.value) ? 'bg-indigo-600 text-white' : 'bg-white dark:bg-slate-800 text-slate-600 dark:text-slate-300 ring-1 ring-inset ring-slate-300 dark:ring-slate-600'}`}>
+                                {qt.label}
+                            </button>
+                        ))}
+                    </div>
+                    <p className="text-xs text-slate-500 dark:text-slate-400">{summary(preview(section.id))}</p>
+                </div>
+            ))}
+            {sections.length > 0 && leftOver.length > 0 && (
+                <p className="text-xs text-amber-600">
+                    Not in any section, printed after them by type: {leftOver.map(g => `${g.name} (${summary(g.items)})`).join('; ')}.
+                </p>
+            )}
+            <button type="button" onClick={addSection} className="text-sm font-semibold text-indigo-600 hover:text-indigo-800">+ Add Section</button>
+        </div>
+    );
+};
+
+export default SectionsEditor;
@@ -1,6 +1,11 @@
 
-import React from 'react';
+import React, { useState } from 'react';
 import { type User } from '../types';
+import { authService } from '../services/authService';
+import { DEFAULT_SIMILARITY_THRESHOLD, MIN_SIMILARITY_THRESHOLD, MAX_SIMILARITY_THRESHOLD } from '../services/similarity';
+import DiagnosticsPanel from './DiagnosticsPanel';
+import UsageReport from './UsageReport';
+import PaperTemplateManager from './PaperTemplateManager';
 
 type Theme = 'light' | 'dark';
 
@@ -9,9 +14,17 @@ interface SettingsProps {
     theme: Theme;
     toggleTheme: () => void;
     onLogout: () => void;
+    onUserUpdate: (user: User) => void;
 }
 
-const Settings: React.FC<SettingsProps> = ({ user, theme, toggleTheme, onLogout }) => {
+const Settings: React.FC<SettingsProps> = ({ user, theme, toggleTheme, onLogout, onUserUpdate }) => {
+    const similarityThreshold = user.similarityThreshold ?? DEFAULT_SIMILARITY_THRESHOLD;
+    const [showDiagnostics, setShowDiagnostics] = useState(false);
+
+    const handleThresholdChange = (value: number) => {
+        const updated = authService.updateUserSettings({ similarityThreshold: value });
+        if (updated) onUserUpdate(updated);
+    };
 
     return (
         <div className="max-w-4xl mx-auto animate-fade-in-up p-4 sm:p-6 lg:p-8">
@@ -75,6 +88,96 @@ const Settings: React.FC<SettingsProps> = ({ user, theme, toggleTheme, onLogout
                     
                     <div className="border-t dark:border-slate-700"></div>
 
+                    {user.role === 'teacher' && (
+                        <>
+                            {/* Question reuse */}
+                            <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
+                                <div className="md:col-span-1">
+                                    <h3 className="text-lg font-medium text-slate-800 dark:text-slate-200">Repeated Questions</h3>
+                                    <p className="text-sm text-slate-500 dark:text-slate-400 mt-1">
+                                        Generated questions this similar to your question bank or past papers for the same class are flagged in the editor.
+                                    </p>
+                                </div>
+                                <div className="md:col-span-2 max-w-xs">
+                                    <div className="flex justify-between text-sm font-medium text-slate-700 dark:text-slate-300">
+                                        <label htmlFor="similarity-threshold">Similarity threshold</label>
+                                        <span>{Math.round(similarityThreshold * 100)}%</span>
+                                    </div>
+                                    <input
+                                        id="similarity-threshold"
+                                        type="range"
+                                        min={MIN_SIMILARITY_THRESHOLD}
+                                        max={MAX_SIMILARITY_THRESHOLD}
+                                        step={0.05}
+                                        value={similarityThreshold}
+                                        onChange={e => handleThresholdChange(Number(e.target.value))}
+                                        className="w-full mt-2 accent-indigo-600"
+                                    />
+                                    <div className="flex justify-between text-xs text-slate-400 mt-1">
+                                        <span>Flag more</span>
+                                        <span>Only near-copies</span>
+                                    </div>
+                                </div>
+                            </div>
+
+                            <div className="border-t dark:border-slate-700"></div>
+                        </>
+                    )}
+
+                    {user.role === 'teacher' && (
+                        <>
+                            {/* Paper Templates */}
+                            <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
+                                <div className="md:col-span-1">
+                                    <h3 className="text-lg font-medium text-slate-800 dark:text-slate-200">Paper Templates</h3>
+                                    <p className="text-sm text-slate-500 dark:text-slate-400 mt-1">
+                                        Your school's own paper layouts, defined in JSON with optional CSS.
+                                    </p>
+                                </div>
+                                <div className="md:col-span-2">
+                                    <PaperTemplateManager />
+                                </div>
+                            </div>
+
+                            <div className="border-t dark:border-slate-700"></div>
+                        </>
+                    )}
+
+                    {/* Usage */}
+                    <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
+                        <div className="md:col-span-1">
+                            <h3 className="text-lg font-medium text-slate-800 dark:text-slate-200">Usage</h3>
+                            <p className="text-sm text-slate-500 dark:text-slate-400 mt-1">
+                                AI calls and tokens per day, by feature or model.
+                            </p>
+                        </div>
+                        <div className="md:col-span-2">
+                            <UsageReport user={user} onUserUpdate={onUserUpdate} />
+                        </div>
+                    </div>
+
+                    <div className="border-t dark:border-slate-700"></div>
+
+                    {/* Diagnostics */}
+                    <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
+                        <div className="md:col-span-1">
+                            <h3 className="text-lg font-medium text-slate-800 dark:text-slate-200">Diagnostics</h3>
+                            <p className="text-sm text-slate-500 dark:text-slate-400 mt-1">
+                                Recent AI errors on this device, to copy into an issue report.
+                            </p>
+                        </div>
+                        <div className="md:col-span-2">
+                            <button
+                                onClick={() => setShowDiagnostics(true)}
+                                className="bg-white dark:bg-slate-700/50 text-slate-700 dark:text-slate-200 font-semibold py-2 px-4 rounded-lg border border-slate-200 dark:border-slate-600 hover:bg-slate-100 dark:hover:bg-slate-700 transition-colors"
+                            >
+                                View Diagnostics
+                            </button>
+                        </div>
+                    </div>
+
+                    <div className="border-t dark:border-slate-700"></div>
+
                     {/* Account Settings */}
                     <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
                         <div className="md:col-span-1">
@@ -94,6 +197,7 @@ const Settings: React.FC<SettingsProps> = ({ user, theme, toggleTheme, onLogout
                     </div>
                 </div>
             </div>
+            {showDiagnostics && <DiagnosticsPanel onClose={() => setShowDiagnostics(false)} />}
         </div>
     );
 };
@@ -11,6 +11,7 @@ const SettingsIcon = (props: React.SVGProps<SVGSVGElement>) => <svg xmlns="http:
 const LogoutIcon = (props: React.SVGProps<SVGSVGElement>) => <svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 20 20" fill="currentColor" {...props}><path fillRule="evenodd" d="M3 4.25A2.25 2.25 0 015.25 2h5.5A2.25 2.25 0 0113 4.25v2a.75.75 0 01-1.5 0v-2A.75.75 0 0010.75 3.5h-5.5A.75.75 0 004.5 4.25v11.5c0 .414.336.75.75.75h5.5a.75.75 0 00.75-.75v-2a.75.75 0 011.5 0v2A2.25 2.25 0 0110.75 18h-5.5A2.25 2.25 0 013 15.75V4.25z" clipRule="evenodd" /><path fillRule="evenodd" d="M6 10a.75.75 0 01.75-.75h9.546l-1.048-1.047a.75.75 0 111.06-1.06l2.5 2.5a.75.75 0 010 1.06l-2.5 2.5a.75.75 0 11-1.06-1.06L16.296 10.75H6.75A.75.75 0 016 10z" clipRule="evenodd" /></svg>;
 const SunIcon = (props: React.SVGProps<SVGSVGElement>) => <svg xmlns="http://www.w3.org/2000/svg" width="20" height="20" viewBox="0 0 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round" {...props}><circle cx="12" cy="12" r="5"/><line x1="12" y1="1" x2="12" y2="3"/><line x1="12" y1="21" x2="12" y2="23"/><line x1="4.22" y1="4.22" x2="5.64" y2="5.64"/><line x1="18.36" y1="18.36" x2="19.78" y2="19.78"/><line x1="1" y1="12" x2="3" y2="12"/><line x1="21" y1="12" x2="23" y2="12"/><line x1="4.22" y1="19.78" x2="5.64" y2="18.36"/><line x1="18.36" y1="5.64" x2="19.78" y2="4.22"/></svg>;
 const MoonIcon = (props: React.SVGProps<SVGSVGElement>) => <svg xmlns="http://www.w3.org/2000/svg" width="20" height="20" viewBox="0 0 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round" {...props}><path d="M21 12.79A9 9 0 1 1 11.21 3 7 7 0 0 0 21 12.79z"/></svg>;
+const SyllabusIcon = (props: React.SVGProps<SVGSVGElement>) => <svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 20 20" fill="currentColor" {...props}><path fillRule="evenodd" d="M3 4.75A.75.75 0 013.75 4h12.5a.75.75 0 010 1.5H3.75A.75.75 0 013 4.75zM6 10a.75.75 0 01.75-.75h9.5a.75.75 0 010 1.5h-9.5A.75.75 0 016 10zm3 5.25a.75.75 0 01.75-.75h6.5a.75.75 0 010 1.5h-6.5a.75.75 0 01-.75-.75z" clipRule="evenodd" /></svg>;
 const QuestionBankIcon = (props: React.SVGProps<SVGSVGElement>) => <svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 20 20" fill="currentColor" {...props}><path d="M5.5 16.5a1.5 1.5 0 01-1.5-1.5V5.5a1.5 1.5 0 011.5-1.5h9a1.5 1.5 0 011.5 1.5v2.879a.75.75 0 01-1.5 0V5.5a.5.5 0 00-.5-.5h-9a.5.5 0 00-.5.5v9.5a.5.5 0 00.5.5h2.879a.75.75 0 010 1.5H5.5z" /><path d="M14.06 11.56a.75.75 0 01.75-.75h2.44a.75.75 0 010 1.5h-2.44a.75.75 0 01-.75-.75z" /><path d="M14.06 14.56a.75.75 0 01.75-.75h2.44a.75.75 0 010 1.5h-2.44a.75.75 0 01-.75-.75z" /><path d="M11.75 8a.75.75 0 000 1.5h5.5a.75.75 0 000-1.5h-5.5z" /></svg>;
 const PracticeIcon = (props: React.SVGProps<SVGSVGElement>) => <svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 20 20" fill="currentColor" {...props}><path fillRule="evenodd" d="M15.28 2.22a.75.75 0 00-1.06 0l-4.25 4.25a.75.75 0 101.06 1.06L15.25 3.28l4.47 4.47a.75.75 0 101.06-1.06l-5.5-5.5z" clipRule="evenodd" /><path fillRule="evenodd" d="M8.25 3.007a.75.75 0 01.75.75v12.493a.75.75 0 01-1.5 0V3.757a.75.75 0 01.75-.75z" clipRule="evenodd" /></svg>;
 const AssignedIcon = (props: React.SVGProps<SVGSVGElement>) => <svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 20 20" fill="currentColor" {...props}><path d="M3.5 4A1.5 1.5 0 015 2.5h10A1.5 1.5 0 0116.5 4v10a1.5 1.5 0 01-1.5 1.5H8.691a1.5 1.5 0 00-1.06.44l-1.882 1.882a.75.75 0 01-1.061 0l-1.882-1.882A1.5 1.5 0 002 14V4.5A1.5 1.5 0 013.5 4zM10 6a.75.75 0 01.75.75v3.5a.75.75 0 01-1.5 0v-3.5A.75.75 0 0110 6zM10 12a1 1 0 100 2 1 1 0 000-2z" /></svg>;
@@ -47,6 +48,7 @@ const Sidebar: React.FC<SidebarProps> = ({ user, currentPage, onNavigate, onLogo
         { page: 'generate', label: 'Generate Paper', icon: <GenerateIcon /> },
         { page: 'gallery', label: 'My Uploads', icon: <GalleryIcon /> }, // Added Gallery
         { page: 'questionBank', label: 'Question Bank', icon: <QuestionBankIcon /> },
+        { page: 'syllabus', label: 'Syllabus', icon: <SyllabusIcon /> },
         { page: 'myPapers', label: 'My Papers', icon: <PapersIcon /> },
     ];
 
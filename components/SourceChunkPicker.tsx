@@ -0,0 +1,80 @@
+import React, { useState } from 'react';
+import { type SourceChunk } from '../types';
+import { estimateTokens } from '../services/sourceIngestion';
+
+interface SourceChunkPickerProps {
+    chunks: SourceChunk[];
+    selectedIds: string[];
+    onChange: (selectedIds: string[]) => void;
+    onRemoveDocument: (documentName: string) => void;
+}
+
+const ChevronIcon: React.FC<React.SVGProps<SVGSVGElement>> = (props) => (
+    <svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 20 20" fill="currentColor" {...props}><path fillRule="evenodd" d="M7.21 14.77a.75.75 0 01.02-1.06L11.168 10 7.23 6.29a.75.75 0 111.04-1.08l4.5 4.25a.75.75 0 010 1.08l-4.5 4.25a.75.75 0 01-1.06-.02z" clipRule="evenodd" /></svg>
+);
+
+const SourceChunkPicker: React.FC<SourceChunkPickerProps> = ({ chunks, selectedIds, onChange, onRemoveDocument }) => {
+    const [preview, setPreview] = useState<string | null>(null);
+    const selected = new Set(selectedIds);
+    const documents: string[] = Array.from(new Set(chunks.map(c => c.documentName)));
+    const selectedTokens = chunks.filter(c => selected.has(c.id)).reduce((acc, c) => acc + estimateTokens(c.text), 0);
+
+    const toggle = (id: string) => onChange(selected.has(id) ? selectedIds.filter(s => s !== id) : [...selectedIds, id]);
+
+    const toggleDocument = (name: string) => {
+        const ids = chunks.filter(c => c.documentName === name).map(c => c.id);
+        const allSelected = ids.every(id => selected.has(id));
+        onChange(allSelected ? selectedIds.filter(id => !ids.includes(id)) : [...new Set([...selectedIds, ...ids])]);
+    };
+
+    return (
+        <div className="rounded-lg bg-slate-50 dark:bg-slate-900/50 ring-1 ring-inset ring-gray-300 dark:ring-slate-700">
+            <div className="max-h-80 overflow-y-auto p-3 space-y-3">
+                {documents.map(name => {
+                    const docChunks = chunks.filter(c => c.documentName === name);
+                    const count = docChunks.filter(c => selected.has(c.id)).length;
+                    return (
+                        <div key={name}>
+                            <div className="flex items-center justify-between gap-2">
+                                <label className="flex items-center gap-2 text-sm font-semibold text-slate-800 dark:text-slate-200 cursor-pointer min-w-0">
+                                    <input
+                                        type="checkbox"
+                                        checked={count === docChunks.length}
+                                        ref={el => { if (el) el.indeterminate = count > 0 && count < docChunks.length; }}
+                                        onChange={() => toggleDocument(name)}
+                                        className="rounded text-indigo-600 focus:ring-indigo-500"
+                                    />
+                                    <span className="truncate">{name}</span>
+                                    <span className="shrink-0 text-xs font-normal text-slate-500">{count}/{docChunks.length} sections</span>
+                                </label>
+                                <button type="button" onClick={() => onRemoveDocument(name)} className="shrink-0 text-xs font-semibold text-red-600 hover:text-red-800">Remove</button>
+                            </div>
+                            <ul className="mt-1 pl-6">
+                                {docChunks.map(chunk => (
+                                    <li key={chunk.id}>
+                                        <div className="flex items-center gap-2 py-1 text-sm text-slate-700 dark:text-slate-300">
+                                            <input type="checkbox" checked={selected.has(chunk.id)} onChange={() => toggle(chunk.id)} className="rounded text-indigo-600 focus:ring-indigo-500" />
+                                            <button type="button" onClick={() => setPreview(preview === chunk.id ? null : chunk.id)} className="flex items-center gap-1 text-left min-w-0">
+                                                <ChevronIcon className={`w-4 h-4 shrink-0 text-slate-400 transition-transform ${preview === chunk.id ? 'rotate-90' : ''}`} />
+                                                <span className="truncate">{chunk.title}</span>
+                                            </button>
+                                            <span className="ml-auto shrink-0 text-xs text-slate-400">{chunk.pages ? `p. ${chunk.pages} · ` : ''}~{estimateTokens(chunk.text).toLocaleString()} tokens</span>
+                                        </div>
+                                        {preview === chunk.id && (
+                                            <p className="ml-6 mb-2 p-2 rounded bg-white dark:bg-slate-800 text-xs text-slate-600 dark:text-slate-400 whitespace-pre-wrap max-h-40 overflow-y-auto">{chunk.text.slice(0, 1500)}{chunk.text.length > 1500 ? '…' : ''}</p>
+                                        )}
+                                    </li>
+                                ))}
+                            </ul>
+                        </div>
+                    );
+                })}
+            </div>
+            <p className="px-3 py-2 border-t dark:border-slate-700 text-xs text-slate-500 dark:text-slate-400">
+                {selectedIds.length} section(s) selected, ~{selectedTokens.toLocaleString()} tokens. Each part of the paper is sent only the sections relevant to it.
+            </p>
+        </div>
+    );
+};
+
+export default SourceChunkPicker;
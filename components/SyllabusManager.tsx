@@ -0,0 +1,167 @@
+import React, { useRef, useState } from 'react';
+import { type Syllabus, type SyllabusNode } from '../types';
+import { authService } from '../services/authService';
+import {
+    createSyllabus, createSyllabusNode, updateSyllabusNode, childLevel, syllabusTitle,
+    parseSyllabusJson, parseSyllabusCsv, syllabusToJson, flattenSyllabus, SYLLABUS_LEVEL_LABELS,
+} from '../services/syllabus';
+import { downloadTextFile } from '../utils/download';
+
+const PlusIcon = (props: React.SVGProps<SVGSVGElement>) => (<svg xmlns="http://www.w3.org/2000/svg" width="20" height="20" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round" {...props}><path d="M5 12h14"/><path d="M12 5v14"/></svg>);
+const TrashIcon: React.FC<React.SVGProps<SVGSVGElement>> = (props) => (
+    <svg xmlns="http://www.w3.org/2000/svg" width="24" height="24" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round" {...props}><path d="M3 6h18"/><path d="M19 6v14a2 2 0 0 1-2 2H7a2 2 0 0 1-2-2V6m3 0V4a2 2 0 0 1 2-2h4a2 2 0 0 1 2 2v2"/></svg>
+);
+
+const inputClass = "w-full mt-1 p-2 rounded-md bg-white dark:bg-slate-800 border-slate-300 dark:border-slate-600 shadow-sm text-sm";
+
+const SyllabusManager: React.FC = () => {
+    const [syllabi, setSyllabi] = useState<Syllabus[]>(() => authService.getSyllabi());
+    const [draft, setDraft] = useState<Syllabus | null>(() => syllabi[0] || null);
+    const [message, setMessage] = useState('');
+    const [importError, setImportError] = useState('');
+    const fileInputRef = useRef<HTMLInputElement>(null);
+
+    const isSaved = !!draft && syllabi.some(s => s.id === draft.id);
+    const nodeCount = draft ? flattenSyllabus(draft.units).length : 0;
+
+    const update = (changes: Partial<Syllabus>) => draft && setDraft({ ...draft, ...changes });
+    const updateNode = (id: string, change: (node: SyllabusNode) => SyllabusNode | null) => draft && update({ units: updateSyllabusNode(draft.units, id, change) });
+
+    const addChild = (parent: SyllabusNode) => {
+        const level = childLevel(parent.level);
+        if (!level) return;
+        updateNode(parent.id, node => ({ ...node, children: [...node.children, createSyllabusNode(level, `New ${SYLLABUS_LEVEL_LABELS[level].toLowerCase()}`)] }));
+    };
+
+    const flash = (text: string) => {
+        setMessage(text);
+        setTimeout(() => setMessage(''), 2000);
+    };
+
+    const handleSave = () => {
+        if (!draft) return;
+        if (!draft.subject.trim() || !draft.className.trim()) {
+            flash('Add a class and subject first');
+            return;
+        }
+        const saved = authService.saveSyllabus(draft);
+        setDraft(saved);
+        setSyllabi(authService.getSyllabi());
+        flash('Saved');
+    };
+
+    const handleDelete = () => {
+        if (!draft || !window.confirm(`Delete the syllabus "${syllabusTitle(draft)}"?`)) return;
+        authService.deleteSyllabus(draft.id);
+        const remaining = authService.getSyllabi();
+        setSyllabi(remaining);
+        setDraft(remaining[0] || null);
+    };
+
+    const handleImport = async (event: React.ChangeEvent<HTMLInputElement>) => {
+        const file = event.target.files?.[0];
+        event.target.value = '';
+        if (!file) return;
+        setImportError('');
+        const defaults = { board: draft?.board || '', className: draft?.className || '', subject: draft?.subject || '' };
+        try {
+            const text = await file.text();
+            const imported = file.name.toLowerCase().endsWith('.csv') ? parseSyllabusCsv(text, defaults) : parseSyllabusJson(text, defaults);
+            setDraft(imported);
+            flash('Imported. Review and save.');
+        } catch (error) {
+            console.error(error);
+            setImportError(error instanceof Error ? error.message : 'The file could not be imported.');
+        }
+    };
+
+    const renderNode = (node: SyllabusNode, depth: number): React.ReactNode => {
+        const nextLevel = childLevel(node.level);
+        return (
+            <li key={node.id} className="space-y-2">
+                <div className="flex items-center gap-2" style={{ paddingLeft: depth * 24 }}>
+                    <span className="w-28 shrink-0 text-xs font-medium text-slate-500 dark:text-slate-400">{SYLLABUS_LEVEL_LABELS[node.level]}</span>
+                    <input type="text" value={node.name} onChange={e => updateNode(node.id, n => ({ ...n, name: e.target.value }))} className={`${inputClass} mt-0 flex-1`} />
+                    {nextLevel && (
+                        <button type="button" onClick={() => addChild(node)} className="shrink-0 text-xs font-semibold text-indigo-600 hover:text-indigo-800" title={`Add ${SYLLABUS_LEVEL_LABELS[nextLevel].toLowerCase()}`}>
+                            + {SYLLABUS_LEVEL_LABELS[nextLevel]}
+                        </button>
+                    )}
+                    <button type="button" onClick={() => updateNode(node.id, () => null)} className="p-1 text-red-500 hover:bg-red-100 dark:hover:bg-red-900/50 rounded-md"><TrashIcon className="w-4 h-4" /></button>
+                </div>
+                {node.children.length > 0 && <ul className="space-y-2">{node.children.map(child => renderNode(child, depth + 1))}</ul>}
+            </li>
+        );
+    };
+
+    return (
+        <div className="max-w-7xl mx-auto animate-fade-in-up">
+            <input type="file" ref={fileInputRef} onChange={handleImport} accept=".json,.csv,application/json,text/csv" className="hidden" />
+            <header className="flex flex-col sm:flex-row justify-between items-start sm:items-center gap-4 mb-8">
+                <div>
+                    <h1 className="text-4xl font-bold text-slate-900 dark:text-white tracking-tight">Syllabus</h1>
+                    <p className="mt-2 text-lg text-slate-600 dark:text-slate-400">Units, chapters, subtopics and learning outcomes to pick from when generating papers.</p>
+                </div>
+                <div className="flex items-center gap-3">
+                    <button onClick={() => fileInputRef.current?.click()} className="py-2.5 px-5 rounded-lg bg-white dark:bg-slate-700/50 border border-slate-200 dark:border-slate-600 font-semibold text-slate-700 dark:text-slate-200 hover:bg-slate-100 dark:hover:bg-slate-700 transition-colors">
+                        Import JSON / CSV
+                    </button>
+                    <button onClick={() => setDraft(createSyllabus('', '', ''))} className="flex items-center justify-center gap-2 bg-indigo-600 text-white font-bold py-2.5 px-5 rounded-lg hover:bg-indigo-700 transition-colors shadow-md">
+                        <PlusIcon /> New Syllabus
+                    </button>
+                </div>
+            </header>
+            {importError && <p className="mb-4 p-3 rounded-lg bg-red-50 border border-red-300 text-red-800 text-sm">{importError}</p>}
+
+            <div className="grid grid-cols-1 lg:grid-cols-4 gap-6">
+                <aside className="space-y-2">
+                    {syllabi.length === 0 && <p className="text-sm text-slate-500 dark:text-slate-400">No saved syllabi yet. Create one or import a CSV with the columns unit, chapter, subtopic, outcome.</p>}
+                    {syllabi.map(s => (
+                        <button key={s.id} onClick={() => setDraft(s)} className={`w-full text-left px-4 py-3 rounded-xl border text-sm font-semibold transition-colors ${draft?.id === s.id ? 'border-indigo-500 bg-indigo-50 dark:bg-indigo-900/30 text-indigo-700 dark:text-indigo-300' : 'border-slate-200 dark:border-slate-700 bg-white dark:bg-slate-800/50 text-slate-700 dark:text-slate-300 hover:border-indigo-400'}`}>
+                            {syllabusTitle(s)}
+                        </button>
+                    ))}
+                </aside>
+
+                {draft && (
+                    <section className="lg:col-span-3 bg-white dark:bg-slate-800/50 p-6 rounded-2xl shadow-xl border dark:border-slate-700/50 space-y-6">
+                        <div className="grid grid-cols-1 sm:grid-cols-3 gap-4">
+                            <div>
+                                <label className="text-xs font-medium text-slate-600 dark:text-slate-400">Board</label>
+                                <input type="text" value={draft.board} onChange={e => update({ board: e.target.value })} placeholder="e.g., CBSE" className={inputClass} />
+                            </div>
+                            <div>
+                                <label className="text-xs font-medium text-slate-600 dark:text-slate-400">Class / Grade</label>
+                                <input type="text" value={draft.className} onChange={e => update({ className: e.target.value })} className={inputClass} />
+                            </div>
+                            <div>
+                                <label className="text-xs font-medium text-slate-600 dark:text-slate-400">Subject</label>
+                                <input type="text" value={draft.subject} onChange={e => update({ subject: e.target.value })} className={inputClass} />
+                            </div>
+                        </div>
+
+                        <div className="space-y-3">
+                            <h4 className="text-sm font-bold text-slate-700 dark:text-slate-300">Structure ({nodeCount} entries)</h4>
+                            <ul className="space-y-2">{draft.units.map(unit => renderNode(unit, 0))}</ul>
+                            <button type="button" onClick={() => update({ units: [...draft.units, createSyllabusNode('unit', `Unit ${draft.units.length + 1}`)] })} className="text-sm font-semibold text-indigo-600 hover:text-indigo-800">+ Add Unit</button>
+                        </div>
+
+                        <div className="flex flex-wrap justify-end gap-3 pt-4 border-t dark:border-slate-700">
+                            {isSaved && (
+                                <button type="button" onClick={handleDelete} className="px-4 py-2 rounded-lg text-sm font-semibold text-red-600 hover:bg-red-50 dark:hover:bg-red-900/30 transition-colors">Delete</button>
+                            )}
+                            <button type="button" onClick={() => downloadTextFile(syllabusToJson(draft), `${syllabusTitle(draft).replace(/[^\w]+/g, '_')}.json`, 'application/json')} className="px-4 py-2 rounded-lg bg-slate-100 dark:bg-slate-700 text-sm font-semibold text-slate-700 dark:text-slate-200 hover:bg-slate-200 dark:hover:bg-slate-600 transition-colors">
+                                Export JSON
+                            </button>
+                            <button type="button" onClick={handleSave} className="px-4 py-2 rounded-lg bg-indigo-600 text-sm font-semibold text-white hover:bg-indigo-700 transition-colors">
+                                {message || (isSaved ? 'Update Syllabus' : 'Save Syllabus')}
+                            </button>
+                        </div>
+                    </section>
+                )}
+            </div>
+        </div>
+    );
+};
+
+export default SyllabusManager;
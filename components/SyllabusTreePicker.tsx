@@ -0,0 +1,66 @@
+import React, { useState } from 'react';
+import { type Syllabus, type SyllabusNode } from '../types';
+import { SYLLABUS_LEVEL_LABELS, descendantIds } from '../services/syllabus';
+
+interface SyllabusTreePickerProps {
+    syllabus: Syllabus;
+    selectedIds: string[];
+    onChange: (selectedIds: string[]) => void;
+}
+
+const ChevronIcon: React.FC<React.SVGProps<SVGSVGElement>> = (props) => (
+    <svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 20 20" fill="currentColor" {...props}><path fillRule="evenodd" d="M7.21 14.77a.75.75 0 01.02-1.06L11.168 10 7.23 6.29a.75.75 0 111.04-1.08l4.5 4.25a.75.75 0 010 1.08l-4.5 4.25a.75.75 0 01-1.06-.02z" clipRule="evenodd" /></svg>
+);
+
+const SyllabusTreePicker: React.FC<SyllabusTreePickerProps> = ({ syllabus, selectedIds, onChange }) => {
+    const [expanded, setExpanded] = useState<Set<string>>(() => new Set(syllabus.units.map(u => u.id)));
+    const selected = new Set(selectedIds);
+
+    // Picking a node picks everything under it, so a chapter covers all of its subtopics.
+    const toggle = (node: SyllabusNode) => {
+        const ids = [node.id, ...descendantIds(node)];
+        onChange(selected.has(node.id) ? selectedIds.filter(id => !ids.includes(id)) : [...new Set([...selectedIds, ...ids])]);
+    };
+
+    const toggleExpanded = (id: string) => setExpanded(prev => {
+        const next = new Set(prev);
+        if (next.has(id)) next.delete(id); else next.add(id);
+        return next;
+    });
+
+    const renderNode = (node: SyllabusNode, depth: number): React.ReactNode => {
+        const isOpen = expanded.has(node.id);
+        const partlySelected = !selected.has(node.id) && descendantIds(node).some(id => selected.has(id));
+        return (
+            <li key={node.id}>
+                <div className="flex items-center gap-2 py-1 rounded-md hover:bg-slate-100 dark:hover:bg-slate-800" style={{ paddingLeft: depth * 20 }}>
+                    {node.children.length > 0 ? (
+                        <button type="button" onClick={() => toggleExpanded(node.id)} className="p-0.5 text-slate-500">
+                            <ChevronIcon className={`w-4 h-4 transition-transform ${isOpen ? 'rotate-90' : ''}`} />
+                        </button>
+                    ) : <span className="w-5" />}
+                    <label className="flex items-center gap-2 text-sm text-slate-700 dark:text-slate-300 cursor-pointer">
+                        <input
+                            type="checkbox"
+                            checked={selected.has(node.id)}
+                            ref={el => { if (el) el.indeterminate = partlySelected; }}
+                            onChange={() => toggle(node)}
+                            className="rounded text-indigo-600 focus:ring-indigo-500"
+                        />
+                        <span className={node.level === 'unit' ? 'font-semibold' : ''}>{node.name}</span>
+                        <span className="text-xs text-slate-400">{SYLLABUS_LEVEL_LABELS[node.level]}</span>
+                    </label>
+                </div>
+                {isOpen && node.children.length > 0 && <ul>{node.children.map(child => renderNode(child, depth + 1))}</ul>}
+            </li>
+        );
+    };
+
+    return (
+        <div className="max-h-72 overflow-y-auto p-3 rounded-lg bg-slate-50 dark:bg-slate-900/50 ring-1 ring-inset ring-gray-300 dark:ring-slate-700">
+            <ul>{syllabus.units.map(unit => renderNode(unit, 0))}</ul>
+        </div>
+    );
+};
+
+export default SyllabusTreePicker;
@@ -1,11 +1,14 @@
 
 import React, { useMemo, useState, useRef, useEffect } from 'react';
-import { type QuestionPaperData, type User, type Page } from '../types';
+import { type QuestionPaperData, type User, type Page, type GenerationPreset } from '../types';
 import { PaperIcon } from './icons/PaperIcon';
 import { EditIcon } from './icons/EditIcon';
 import { ShareIcon } from './icons/ShareIcon';
 import { DeleteIcon } from './icons/DeleteIcon';
 import ShareModal from './ShareModal';
+import { authService } from '../services/authService';
+import { duplicatePreset, presetSummary, presetsToJson, parsePresetsJson } from '../services/presets';
+import { downloadTextFile } from '../utils/download';
 
 interface TeacherDashboardProps {
     user: User;
@@ -15,6 +18,7 @@ interface TeacherDashboardProps {
     onRenamePaper: (paperId: string, newSubject: string) => void;
     onDuplicatePaper: (paperId: string) => void;
     onDeletePaper: (paperId: string) => void;
+    onUsePreset: (preset: GenerationPreset) => void;
 }
 
 // --- Local Icons ---
@@ -90,9 +94,12 @@ const PaperActionsMenu: React.FC<{onEdit: () => void, onRename: () => void, onDu
 };
 
 
-const TeacherDashboard: React.FC<TeacherDashboardProps> = ({ user, papers, onNavigate, onEditPaper, onRenamePaper, onDuplicatePaper, onDeletePaper }) => {
+const TeacherDashboard: React.FC<TeacherDashboardProps> = ({ user, papers, onNavigate, onEditPaper, onRenamePaper, onDuplicatePaper, onDeletePaper, onUsePreset }) => {
     const [isShareModalOpen, setIsShareModalOpen] = useState(false);
     const [currentPaperToShare, setCurrentPaperToShare] = useState<QuestionPaperData | null>(null);
+    const [presets, setPresets] = useState<GenerationPreset[]>(() => authService.getPresets());
+    const [presetError, setPresetError] = useState('');
+    const presetFileRef = useRef<HTMLInputElement>(null);
     
     const userName = user.email.split('@')[0];
     const capitalizedUserName = userName.charAt(0).toUpperCase() + userName.slice(1);
@@ -104,6 +111,31 @@ const TeacherDashboard: React.FC<TeacherDashboardProps> = ({ user, papers, onNav
         setIsShareModalOpen(true);
     };
 
+    const handleDuplicatePreset = (preset: GenerationPreset) => {
+        authService.savePreset(duplicatePreset(preset, presets.map(p => p.name)));
+        setPresets(authService.getPresets());
+    };
+
+    const handleDeletePreset = (preset: GenerationPreset) => {
+        if (!window.confirm(`Delete the preset "${preset.name}"?`)) return;
+        authService.deletePreset(preset.id);
+        setPresets(authService.getPresets());
+    };
+
+    const handleImportPresets = async (event: React.ChangeEvent<HTMLInputElement>) => {
+        const file = event.target.files?.[0];
+        event.target.value = '';
+        if (!file) return;
+        setPresetError('');
+        try {
+            parsePresetsJson(await file.text()).forEach(preset => authService.savePreset(preset));
+            setPresets(authService.getPresets());
+        } catch (error) {
+            console.error(error);
+            setPresetError(error instanceof Error ? error.message : 'The presets could not be imported.');
+        }
+    };
+
     const shareUrl = useMemo(() => {
         if (!currentPaperToShare) return '';
         try {
@@ -172,6 +204,39 @@ const TeacherDashboard: React.FC<TeacherDashboardProps> = ({ user, papers, onNav
                      )}
                 </div>
              </div>
+
+             <section className="mt-8 bg-white dark:bg-slate-800/50 p-6 rounded-2xl shadow-lg border dark:border-slate-700/50">
+                <input type="file" ref={presetFileRef} onChange={handleImportPresets} accept=".json,application/json" className="hidden" />
+                <div className="flex justify-between items-center mb-4">
+                    <h3 className="text-xl font-bold text-slate-800 dark:text-slate-200">Presets</h3>
+                    <div className="flex items-center gap-4 text-sm font-semibold">
+                        <button onClick={() => presetFileRef.current?.click()} className="text-indigo-600 hover:text-indigo-800">Import</button>
+                        {presets.length > 0 && (
+                            <button onClick={() => downloadTextFile(presetsToJson(presets), 'presets.json', 'application/json')} className="text-indigo-600 hover:text-indigo-800">Export All</button>
+                        )}
+                    </div>
+                </div>
+                {presetError && <p className="mb-3 p-3 rounded-lg bg-red-50 border border-red-300 text-red-800 text-sm">{presetError}</p>}
+                {presets.length > 0 ? (
+                    <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-3">
+                        {presets.map(preset => (
+                            <div key={preset.id} className="p-3 rounded-lg bg-slate-100 dark:bg-slate-900/50 flex justify-between items-center gap-3">
+                                <div className="min-w-0">
+                                    <p className="font-semibold truncate">{preset.name}</p>
+                                    <p className="text-sm text-slate-500 dark:text-slate-400 truncate">{presetSummary(preset)}</p>
+                                </div>
+                                <div className="flex items-center gap-1 shrink-0">
+                                    <button onClick={() => onUsePreset(preset)} className="px-3 py-1.5 rounded-md bg-indigo-600 text-white text-xs font-semibold hover:bg-indigo-700">Use</button>
+                                    <button onClick={() => handleDuplicatePreset(preset)} className="p-1.5 rounded-md text-slate-500 hover:bg-slate-200 dark:hover:bg-slate-700" title="Duplicate"><CopyIcon className="w-4 h-4" /></button>
+                                    <button onClick={() => handleDeletePreset(preset)} className="p-1.5 rounded-md text-red-500 hover:bg-red-100 dark:hover:bg-red-900/50" title="Delete"><DeleteIcon className="w-4 h-4" /></button>
+                                </div>
+                            </div>
+                        ))}
+                    </div>
+                ) : (
+                    <p className="text-slate-500 dark:text-slate-400">Save a preset from the paper form to reuse the same settings here.</p>
+                )}
+             </section>
              {currentPaperToShare && (
                  <ShareModal
                     isOpen={isShareModalOpen}
@@ -0,0 +1,137 @@
+import React, { useState } from 'react';
+import { type QuestionPaperData, type Question } from '../types';
+import { LANGUAGES } from '../constants';
+import { translatePaper } from '../services/geminiService';
+import { SpinnerIcon } from './icons/SpinnerIcon';
+
+interface TranslatePaperModalProps {
+    paper: QuestionPaperData;
+    onSave: (translated: QuestionPaperData) => void;
+    onClose: () => void;
+}
+
+const CloseIcon = (props: React.SVGProps<SVGSVGElement>) => (
+    <svg xmlns="http://www.w3.org/2000/svg" width="24" height="24" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round" {...props}><line x1="18" y1="6" x2="6" y2="18"/><line x1="6" y1="6" x2="18" y2="18"/></svg>
+);
+
+const formatAnswer = (answer: Question['answer']) =>
+    typeof answer === 'string' ? answer : Object.entries(answer).map(([a, b]) => `${a} → ${b}`).join('; ');
+
+const formatOptions = (options: Question['options']) => {
+    if (!options) return [];
+    if (Array.isArray(options)) return options.map((opt, i) => `(${String.fromCharCode(97 + i)}) ${opt}`);
+    return options.columnA.map((item, i) => `${item} | ${options.columnB[i] ?? ''}`);
+};
+
+const QuestionColumn: React.FC<{ question: Question; language: string; onTextChange?: (text: string) => void }> = ({ question, language, onTextChange }) => (
+    <div className="space-y-2 min-w-0">
+        <p className="text-xs font-semibold uppercase tracking-wide text-slate-400">{language}</p>
+        {onTextChange ? (
+            <textarea value={question.questionText} onChange={e => onTextChange(e.target.value)} rows={3} className="w-full p-2 rounded-md bg-white dark:bg-slate-800 border-slate-300 dark:border-slate-600 shadow-sm text-sm" />
+        ) : (
+            <p className="text-sm text-slate-800 dark:text-slate-200 whitespace-pre-wrap">{question.questionText}</p>
+        )}
+        {formatOptions(question.options).length > 0 && (
+            <ul className="text-sm text-slate-600 dark:text-slate-400 space-y-0.5">
+                {formatOptions(question.options).map((opt, i) => <li key={i}>{opt}</li>)}
+            </ul>
+        )}
+        {question.subQuestions?.map((part, i) => (
+            <p key={i} className="text-sm text-slate-600 dark:text-slate-400">({String.fromCharCode(97 + i)}) {part.questionText}</p>
+        ))}
+        {question.alternatives?.map((alt, i) => (
+            <p key={i} className="text-sm text-slate-600 dark:text-slate-400"><span className="font-semibold">OR</span> {alt.questionText}</p>
+        ))}
+        <p className="text-xs text-emerald-700 dark:text-emerald-400"><span className="font-semibold">Answer:</span> {formatAnswer(question.answer)}</p>
+    </div>
+);
+
+const TranslatePaperModal: React.FC<TranslatePaperModalProps> = ({ paper, onSave, onClose }) => {
+    const sourceLanguage = paper.language || 'English';
+    const [targetLanguage, setTargetLanguage] = useState(() => LANGUAGES.find(lang => lang !== sourceLanguage) || '');
+    const [translated, setTranslated] = useState<QuestionPaperData | null>(null);
+    const [untranslated, setUntranslated] = useState<number[]>([]);
+    const [isTranslating, setIsTranslating] = useState(false);
+    const [error, setError] = useState('');
+
+    const handleTranslate = async () => {
+        setIsTranslating(true);
+        setError('');
+        try {
+            const result = await translatePaper(paper, targetLanguage);
+            setTranslated(result.paper);
+            setUntranslated(result.untranslated);
+        } catch (e) {
+            console.error(e);
+            setError(e instanceof Error ? e.message : 'The paper could not be translated.');
+        } finally {
+            setIsTranslating(false);
+        }
+    };
+
+    const updateQuestionText = (index: number, questionText: string) => {
+        if (!translated) return;
+        setTranslated({ ...translated, questions: translated.questions.map((q, i) => i === index ? { ...q, questionText } : q) });
+    };
+
+    return (
+        <div className="fixed inset-0 bg-black/50 backdrop-blur-sm flex items-center justify-center z-50 animate-fade-in p-4" onClick={onClose}>
+            <div className="bg-white dark:bg-slate-800 rounded-2xl shadow-2xl w-full max-w-5xl max-h-[90vh] flex flex-col animate-zoom-in" onClick={e => e.stopPropagation()}>
+                <div className="p-6 border-b dark:border-slate-700 flex justify-between items-center shrink-0">
+                    <div>
+                        <h2 className="text-xl font-bold text-slate-900 dark:text-white">Translate Paper</h2>
+                        <p className="text-sm text-slate-500 dark:text-slate-400 mt-1">Saves a translated copy of "{paper.subject}". Numbering, marks and formulas stay as they are.</p>
+                    </div>
+                    <button onClick={onClose} className="p-1 rounded-full text-slate-500 hover:bg-slate-200 dark:hover:bg-slate-700 transition-colors">
+                        <CloseIcon className="w-5 h-5"/>
+                    </button>
+                </div>
+                <div className="p-6 space-y-5 overflow-y-auto flex-1">
+                    <div className="flex items-end gap-3">
+                        <div className="flex-1">
+                            <label htmlFor="translate-language" className="block text-sm font-medium text-slate-700 dark:text-slate-300">Translate from {sourceLanguage} into</label>
+                            <select
+                                id="translate-language"
+                                value={targetLanguage}
+                                onChange={e => { setTargetLanguage(e.target.value); setTranslated(null); }}
+                                className="mt-1 block w-full rounded-lg border-0 py-2 px-3 text-gray-900 dark:text-white bg-white dark:bg-slate-900/50 shadow-sm ring-1 ring-inset ring-gray-300 dark:ring-slate-700 focus:ring-2 focus:ring-inset focus:ring-indigo-600"
+                            >
+                                {LANGUAGES.filter(lang => lang !== sourceLanguage).map(lang => <option key={lang} value={lang}>{lang}</option>)}
+                            </select>
+                        </div>
+                        <button onClick={handleTranslate} disabled={isTranslating || !targetLanguage} className="flex items-center justify-center gap-2 px-4 py-2 rounded-lg bg-indigo-600 text-sm font-semibold text-white hover:bg-indigo-700 transition-colors disabled:opacity-50 w-32">
+                            {isTranslating ? <SpinnerIcon className="w-5 h-5"/> : translated ? 'Retranslate' : 'Translate'}
+                        </button>
+                    </div>
+                    {error && <p className="text-sm text-red-500">{error}</p>}
+                    {translated && untranslated.length > 0 && (
+                        <div className="p-3 rounded-lg bg-amber-50 border border-amber-300 text-amber-900 text-sm">
+                            Question(s) {untranslated.join(', ')} could not be translated and were kept in {sourceLanguage}. Edit them below or retranslate.
+                        </div>
+                    )}
+                    {translated && (
+                        <ol className="space-y-4">
+                            {paper.questions.map((original, index) => (
+                                <li key={original.questionNumber} className="p-4 bg-slate-50 dark:bg-slate-900/50 rounded-xl border dark:border-slate-700/50">
+                                    <p className="text-sm font-bold text-slate-700 dark:text-slate-300 mb-3">Q{original.questionNumber} <span className="font-normal text-slate-400">({original.marks} marks)</span></p>
+                                    <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                                        <QuestionColumn question={original} language={sourceLanguage} />
+                                        <QuestionColumn question={translated.questions[index]} language={targetLanguage} onTextChange={text => updateQuestionText(index, text)} />
+                                    </div>
+                                </li>
+                            ))}
+                        </ol>
+                    )}
+                </div>
+                <div className="px-6 py-4 bg-slate-50 dark:bg-slate-800/50 rounded-b-2xl flex justify-end gap-3 shrink-0">
+                    <button onClick={onClose} className="px-4 py-2 rounded-lg bg-slate-200 dark:bg-slate-700/80 text-sm font-semibold text-slate-800 dark:text-slate-200 hover:bg-slate-300 dark:hover:bg-slate-700 transition-colors">Cancel</button>
+                    <button onClick={() => translated && onSave(translated)} disabled={!translated || isTranslating} className="px-4 py-2 rounded-lg bg-emerald-600 text-sm font-semibold text-white hover:bg-emerald-700 transition-colors disabled:opacity-50">
+                        Save as New Paper
+                    </button>
+                </div>
+            </div>
+        </div>
+    );
+};
+
+export default TranslatePaperModal;
@@ -0,0 +1,106 @@
+import React, { useMemo, useState } from 'react';
+import { type User, type UsageLimits } from '../types';
+import { authService } from '../services/authService';
+import { AI_FEATURES, AI_FEATURE_LABELS, summarizeUsage, totalTokens, limitWarnings, localDateKey, type UsageTotals } from '../services/usage';
+
+interface UsageReportProps {
+    user: User;
+    onUserUpdate: (user: User) => void;
+}
+
+const DAYS_SHOWN = 7;
+
+const inputClass = "w-full mt-1 p-2 rounded-md bg-white dark:bg-slate-800 border-slate-300 dark:border-slate-600 shadow-sm text-sm";
+
+const TotalsRow: React.FC<{ label: string; totals: UsageTotals; strong?: boolean }> = ({ label, totals, strong }) => (
+    <tr className={strong ? 'font-semibold text-slate-800 dark:text-slate-200' : 'text-slate-600 dark:text-slate-400'}>
+        <td className="py-1 pr-4">{label}</td>
+        <td className="py-1 pr-4 text-right">{totals.calls}{totals.failures > 0 && <span className="text-red-500"> ({totals.failures} failed)</span>}</td>
+        <td className="py-1 pr-4 text-right">{totals.promptTokens.toLocaleString()}</td>
+        <td className="py-1 pr-4 text-right">{totals.responseTokens.toLocaleString()}</td>
+        <td className="py-1 text-right">{(totals.latencyMs / totals.calls / 1000).toFixed(1)}s</td>
+    </tr>
+);
+
+const UsageReport: React.FC<UsageReportProps> = ({ user, onUserUpdate }) => {
+    const [records, setRecords] = useState(() => authService.getUsage());
+    const [groupBy, setGroupBy] = useState<'feature' | 'model'>('feature');
+    const days = useMemo(() => summarizeUsage(records).slice(0, DAYS_SHOWN), [records]);
+    const limits = user.usageLimits || {};
+    const today = days[0]?.date === localDateKey(new Date()) ? days[0] : undefined;
+    const warnings = today ? limitWarnings(limits, today.total) : [];
+
+    const handleLimitChange = (field: keyof UsageLimits, value: string) => {
+        const parsed = Math.floor(Number(value));
+        const updated = authService.updateUserSettings({ usageLimits: { ...limits, [field]: parsed > 0 ? parsed : undefined } });
+        if (updated) onUserUpdate(updated);
+    };
+
+    const handleClear = () => {
+        if (!window.confirm('Clear all recorded AI usage?')) return;
+        authService.clearUsage();
+        setRecords([]);
+    };
+
+    return (
+        <div className="space-y-6">
+            {user.role === 'teacher' && (
+                <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+                    <div>
+                        <label className="text-xs font-medium text-slate-600 dark:text-slate-400">Daily call limit</label>
+                        <input type="number" min={0} value={limits.dailyCalls ?? ''} onChange={e => handleLimitChange('dailyCalls', e.target.value)} placeholder="No limit" className={inputClass} />
+                    </div>
+                    <div>
+                        <label className="text-xs font-medium text-slate-600 dark:text-slate-400">Daily token limit</label>
+                        <input type="number" min={0} step={1000} value={limits.dailyTokens ?? ''} onChange={e => handleLimitChange('dailyTokens', e.target.value)} placeholder="No limit" className={inputClass} />
+                    </div>
+                    <p className="sm:col-span-2 text-xs text-slate-500 dark:text-slate-400">Soft limits: you are asked to confirm before the first AI call that goes past them each day.</p>
+                </div>
+            )}
+            {warnings.length > 0 && (
+                <p className="p-3 rounded-lg bg-amber-50 border border-amber-300 text-amber-900 text-sm">Today's usage has reached your limit: {warnings.join(' and ')}.</p>
+            )}
+
+            <div className="flex items-center justify-between gap-3">
+                <div className="flex rounded-lg bg-slate-100 dark:bg-slate-900/50 p-1 text-sm font-semibold">
+                    {(['feature', 'model'] as const).map(option => (
+                        <button key={option} onClick={() => setGroupBy(option)} className={`px-3 py-1 rounded-md transition-colors ${groupBy === option ? 'bg-white dark:bg-slate-700 text-indigo-600 dark:text-indigo-300 shadow-sm' : 'text-slate-600 dark:text-slate-400'}`}>
+                            By {option}
+                        </button>
+                    ))}
+                </div>
+                {records.length > 0 && (
+                    <button onClick={handleClear} className="text-sm font-semibold text-red-600 hover:text-red-800">Clear history</button>
+                )}
+            </div>
+
+            {days.length === 0 ? (
+                <p className="text-sm text-slate-500 dark:text-slate-400">No AI calls have been recorded yet.</p>
+            ) : (
+                <div className="overflow-x-auto">
+                    <table className="w-full text-sm">
+                        <thead>
+                            <tr className="text-xs uppercase tracking-wide text-slate-500 dark:text-slate-400">
+                                <th className="pb-2 pr-4 text-left font-medium">{groupBy === 'feature' ? 'Feature' : 'Model'}</th>
+                                <th className="pb-2 pr-4 text-right font-medium">Calls</th>
+                                <th className="pb-2 pr-4 text-right font-medium">Prompt tokens</th>
+                                <th className="pb-2 pr-4 text-right font-medium">Response tokens</th>
+                                <th className="pb-2 text-right font-medium">Avg. latency</th>
+                            </tr>
+                        </thead>
+                        {days.map(day => (
+                            <tbody key={day.date} className="border-t dark:border-slate-700">
+                                <TotalsRow label={`${day.date} · ${totalTokens(day.total).toLocaleString()} tokens`} totals={day.total} strong />
+                                {groupBy === 'feature'
+                                    ? AI_FEATURES.filter(f => day.byFeature[f]).map(f => <TotalsRow key={f} label={AI_FEATURE_LABELS[f]} totals={day.byFeature[f]!} />)
+                                    : Object.entries(day.byModel).sort(([a], [b]) => a.localeCompare(b)).map(([model, totals]) => <TotalsRow key={model} label={model} totals={totals} />)}
+                            </tbody>
+                        ))}
+                    </table>
+                </div>
+            )}
+        </div>
+    );
+};
+
+export default UsageReport;
@@ -0,0 +1,52 @@
+import React, { useState } from 'react';
+import { type ValidationReport } from '../types';
+
+interface ValidationReportBannerProps {
+    report: ValidationReport;
+}
+
+const ValidationReportBanner: React.FC<ValidationReportBannerProps> = ({ report }) => {
+    const [isExpanded, setIsExpanded] = useState(false);
+    const [isDismissed, setIsDismissed] = useState(false);
+
+    const hasUnresolved = report.unresolved.length > 0;
+    const marksMismatch = report.actualTotalMarks !== report.expectedTotalMarks;
+    if (isDismissed || (report.fixes.length === 0 && !hasUnresolved && !marksMismatch)) return null;
+
+    const tone = hasUnresolved || marksMismatch
+        ? 'bg-amber-50 border-amber-300 text-amber-900'
+        : 'bg-emerald-50 border-emerald-300 text-emerald-900';
+
+    return (
+        <div className={`fixed bottom-6 left-1/2 -translate-x-1/2 z-50 w-full max-w-xl rounded-xl border shadow-lg text-sm ${tone}`}>
+            <div className="flex items-center justify-between gap-4 px-4 py-3">
+                <p className="font-semibold">
+                    {hasUnresolved
+                        ? `${report.unresolved.reduce((acc, s) => acc + s.missing, 0)} requested question(s) could not be generated.`
+                        : marksMismatch
+                        ? `The questions add up to ${report.actualTotalMarks} marks, but the paper is set for ${report.expectedTotalMarks}.`
+                        : `Paper checked against your distribution: ${report.fixes.length} issue(s) auto-fixed${report.repairedCount ? `, ${report.repairedCount} question(s) regenerated` : ''}.`}
+                </p>
+                <div className="flex items-center gap-2 shrink-0">
+                    <button onClick={() => setIsExpanded(e => !e)} className="font-semibold underline">{isExpanded ? 'Hide' : 'Details'}</button>
+                    <button onClick={() => setIsDismissed(true)} className="font-semibold">&times;</button>
+                </div>
+            </div>
+            {isExpanded && (
+                <div className="px-4 pb-3 max-h-48 overflow-y-auto space-y-1">
+                    <p>Questions: {report.receivedCount} received for {report.requestedCount} requested. Marks: {report.actualTotalMarks} / {report.expectedTotalMarks}.</p>
+                    {report.unresolved.map(slot => (
+                        <p key={slot.distributionId} className="font-medium">Missing {slot.missing} × {slot.type}</p>
+                    ))}
+                    <ul className="list-disc pl-5">
+                        {report.fixes.map((fix, i) => (
+                            <li key={i}>{fix.questionNumber ? `Item ${fix.questionNumber}: ` : ''}{fix.message}</li>
+                        ))}
+                    </ul>
+                </div>
+            )}
+        </div>
+    );
+};
+
+export default ValidationReportBanner;
@@ -1,7 +1,9 @@
 import React, { useState, useEffect, useRef, useCallback } from 'react';
-import { GoogleGenAI, FunctionDeclaration, Type, LiveServerMessage, Modality, Blob, Part } from "@google/genai";
+import { FunctionDeclaration, Type, Blob } from "@google/genai";
 import { type FormData, QuestionType, Difficulty, Taxonomy, type VoiceOption, type QuestionDistributionItem } from '../types';
 import { rewriteTranscript } from '../services/geminiService';
+import { getAIProvider, type AILiveSession } from '../services/aiProvider';
+import { AIError } from '../services/aiErrors';
 import { MicIcon } from './icons/MicIcon';
 import { StopIcon } from './icons/StopIcon';
 
@@ -27,7 +29,7 @@ const VoiceAssistant: React.FC<{ onFormReady: (formData: FormData) => void }> =
     const [displayTranscript, setDisplayTranscript] = useState('Listening...');
     const [isMuted, setIsMuted] = useState(false);
 
-    const sessionPromiseRef = useRef<Promise<any> | null>(null);
+    const sessionPromiseRef = useRef<Promise<AILiveSession> | null>(null);
     const audioContextRef = useRef<AudioContext | null>(null);
     const outputAudioContextRef = useRef<AudioContext | null>(null);
     const mediaStreamRef = useRef<MediaStream | null>(null);
@@ -35,95 +37,98 @@ const VoiceAssistant: React.FC<{ onFormReady: (formData: FormData) => void }> =
     let nextStartTime = 0;
     
     const startSession = useCallback(async () => {
-        if (!process.env.API_KEY) { setDisplayTranscript("API Key not configured."); return; }
+        const provider = getAIProvider();
+        if (!provider.connectLive) { setDisplayTranscript("Voice chat is not available with the offline AI provider."); return; }
         setVoiceState('listening'); setDisplayTranscript('Listening...'); setRawTranscript('');
         
+        let stream: MediaStream;
         try {
-            const stream = await navigator.mediaDevices.getUserMedia({ audio: true });
-            mediaStreamRef.current = stream;
-            audioContextRef.current = new (window.AudioContext || (window as any).webkitAudioContext)({ sampleRate: 16000 });
-            outputAudioContextRef.current = new (window.AudioContext || (window as any).webkitAudioContext)({ sampleRate: 24000 });
-            
-            const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
-            sessionPromiseRef.current = ai.live.connect({
-                model: 'gemini-2.5-flash-native-audio-preview-12-25',
-                callbacks: {
-                    onopen: () => {
-                        const source = audioContextRef.current!.createMediaStreamSource(stream);
-                        const processor = audioContextRef.current!.createScriptProcessor(4096, 1, 1);
-                        processor.onaudioprocess = (e) => {
-                            if (isMuted) return;
-                            const pcmBlob = createBlob(e.inputBuffer.getChannelData(0));
-                            sessionPromiseRef.current?.then(s => s.sendRealtimeInput({ media: pcmBlob }));
-                        };
-                        source.connect(processor);
-                        processor.connect(audioContextRef.current!.destination);
-                    },
-                    onmessage: async (msg: LiveServerMessage) => {
-                        if (msg.serverContent?.inputTranscription) {
-                            setRawTranscript(msg.serverContent.inputTranscription.text);
-                            setDisplayTranscript(msg.serverContent.inputTranscription.text);
-                        }
-                        if (msg.serverContent?.turnComplete) {
-                            setVoiceState('processing');
-                            setDisplayTranscript('Processing...');
-                            const finalTranscript = rawTranscript;
-                            if(finalTranscript.trim()) {
-                                const rewritten = await rewriteTranscript(finalTranscript);
-                                setDisplayTranscript(rewritten);
-                            }
-                        }
-                        const audioData = msg.serverContent?.modelTurn?.parts?.[0]?.inlineData?.data;
-                        if (audioData) {
-                            setVoiceState('speaking');
-                            const audioBuffer = await decodeAudioData(decode(audioData), outputAudioContextRef.current!);
-                            const source = outputAudioContextRef.current!.createBufferSource();
-                            source.buffer = audioBuffer;
-                            source.connect(outputAudioContextRef.current!.destination);
-                            
-                            nextStartTime = Math.max(nextStartTime, outputAudioContextRef.current!.currentTime);
-                            source.start(nextStartTime);
-                            nextStartTime += audioBuffer.duration;
-                            
-                            audioSourcesRef.current.add(source);
-                            source.onended = () => {
-                                audioSourcesRef.current.delete(source);
-                                if (audioSourcesRef.current.size === 0) setVoiceState('listening');
-                            };
-                        }
-                        if (msg.serverContent?.interrupted) {
-                            audioSourcesRef.current.forEach(s => s.stop());
-                            audioSourcesRef.current.clear();
-                            nextStartTime = 0;
-                        }
-                        if (msg.toolCall?.functionCalls?.[0]?.name === 'generatePaper') {
-                            setVoiceState('processing');
-                            const args = msg.toolCall.functionCalls[0].args;
-                            const totalMarks = (args.questionDistribution || []).reduce((acc: number, item: any) => acc + (item.count * item.marks), 0);
-                            const formData = { ...args, totalMarks } as FormData;
-                            onFormReady(formData);
-                            setUiState('minimized');
-                        }
-                    },
-                    onerror: (e: ErrorEvent) => {
-                        console.error(e);
-                        setDisplayTranscript(`Error: ${e.message}`);
-                        setVoiceState('idle');
-                    },
-                    onclose: () => {
-                        mediaStreamRef.current?.getTracks().forEach(t => t.stop());
-                        audioContextRef.current?.close();
-                        outputAudioContextRef.current?.close();
-                    }
-                },
-                config: { responseModalities: [Modality.AUDIO], inputAudioTranscription: {}, tools: [{ functionDeclarations: [generatePaperFunctionDeclaration] }], systemInstruction }
-            });
-
+            stream = await navigator.mediaDevices.getUserMedia({ audio: true });
         } catch (err) {
             console.error(err);
             setDisplayTranscript("Microphone access denied.");
             setVoiceState('idle');
+            return;
         }
+        mediaStreamRef.current = stream;
+        audioContextRef.current = new (window.AudioContext || (window as any).webkitAudioContext)({ sampleRate: 16000 });
+        outputAudioContextRef.current = new (window.AudioContext || (window as any).webkitAudioContext)({ sampleRate: 24000 });
+
+        sessionPromiseRef.current = provider.connectLive({
+            systemInstruction,
+            functionDeclarations: [generatePaperFunctionDeclaration],
+            callbacks: {
+                onOpen: () => {
+                    const source = audioContextRef.current!.createMediaStreamSource(stream);
+                    const processor = audioContextRef.current!.createScriptProcessor(4096, 1, 1);
+                    processor.onaudioprocess = (e) => {
+                        if (isMuted) return;
+                        const pcmBlob = createBlob(e.inputBuffer.getChannelData(0));
+                        sessionPromiseRef.current?.then(s => s.sendAudio(pcmBlob));
+                    };
+                    source.connect(processor);
+                    processor.connect(audioContextRef.current!.destination);
+                },
+                onTranscript: (text) => {
+                    setRawTranscript(text);
+                    setDisplayTranscript(text);
+                },
+                onTurnComplete: async () => {
+                    setVoiceState('processing');
+                    setDisplayTranscript('Processing...');
+                    const finalTranscript = rawTranscript;
+                    if(finalTranscript.trim()) {
+                        const rewritten = await rewriteTranscript(finalTranscript);
+                        setDisplayTranscript(rewritten);
+                    }
+                },
+                onAudio: async (audioData) => {
+                    setVoiceState('speaking');
+                    const audioBuffer = await decodeAudioData(decode(audioData), outputAudioContextRef.current!);
+                    const source = outputAudioContextRef.current!.createBufferSource();
+                    source.buffer = audioBuffer;
+                    source.connect(outputAudioContextRef.current!.destination);
+                    
+                    nextStartTime = Math.max(nextStartTime, outputAudioContextRef.current!.currentTime);
+                    source.start(nextStartTime);
+                    nextStartTime += audioBuffer.duration;
+                    
+                    audioSourcesRef.current.add(source);
+                    source.onended = () => {
+                        audioSourcesRef.current.delete(source);
+                        if (audioSourcesRef.current.size === 0) setVoiceState('listening');
+                    };
+                },
+                onInterrupted: () => {
+                    audioSourcesRef.current.forEach(s => s.stop());
+                    audioSourcesRef.current.clear();
+                    nextStartTime = 0;
+                },
+                onFunctionCall: (call) => {
+                    if (call.name !== 'generatePaper') return;
+                    setVoiceState('processing');
+                    const args = call.args as Partial<FormData>;
+                    const totalMarks = (args.questionDistribution || []).reduce((acc, item) => acc + (item.count * item.marks), 0);
+                    const formData = { ...args, totalMarks } as FormData;
+                    onFormReady(formData);
+                    setUiState('minimized');
+                },
+                onError: (message) => {
+                    setDisplayTranscript(`Error: ${message}`);
+                    setVoiceState('idle');
+                },
+                onClose: () => {
+                    mediaStreamRef.current?.getTracks().forEach(t => t.stop());
+                    audioContextRef.current?.close();
+                    outputAudioContextRef.current?.close();
+                },
+            },
+        });
+        sessionPromiseRef.current.catch(err => {
+            setDisplayTranscript(err instanceof AIError ? err.message : "Could not start the voice session.");
+            setVoiceState('idle');
+            stream.getTracks().forEach(t => t.stop());
+        });
     }, [isMuted, onFormReady, rawTranscript]);
 
     const stopSession = useCallback(() => {
@@ -11,8 +11,23 @@ export const QUESTION_TYPES = [
   { value: QuestionType.ShortAnswer, label: 'Short Answer' },
   { value: QuestionType.LongAnswer, label: 'Long Answer' },
   { value: QuestionType.MatchTheFollowing, label: 'Match the Following' },
+  { value: QuestionType.AssertionReason, label: 'Assertion-Reason' },
+  { value: QuestionType.CaseBased, label: 'Case / Passage Based' },
+  { value: QuestionType.Numerical, label: 'Numerical' },
+  { value: QuestionType.OneWord, label: 'One Word' },
 ];
 
+// The four standard Assertion-Reason choices, always printed in this order.
+export const ASSERTION_REASON_OPTIONS = [
+  'Both Assertion (A) and Reason (R) are true, and Reason (R) is the correct explanation of Assertion (A).',
+  'Both Assertion (A) and Reason (R) are true, but Reason (R) is not the correct explanation of Assertion (A).',
+  'Assertion (A) is true, but Reason (R) is false.',
+  'Assertion (A) is false, but Reason (R) is true.',
+];
+
+// Objective questions are marked right or wrong; these get step-wise marking points.
+export const MARKING_SCHEME_TYPES = [QuestionType.ShortAnswer, QuestionType.LongAnswer, QuestionType.Numerical, QuestionType.CaseBased];
+
 export const DIFFICULTY_LEVELS = [
     { value: Difficulty.Easy, label: 'Easy' },
     { value: Difficulty.Medium, label: 'Medium' },
@@ -0,0 +1,250 @@
+export type AIErrorKind = 'quota' | 'safety' | 'invalidResponse' | 'network' | 'missingKey' | 'timeout' | 'usageLimit' | 'unknown';
+
+interface AIErrorOptions {
+    /** The operation that failed, e.g. "generateSectionQuestions". */
+    context?: string;
+    /** The underlying provider message, kept for diagnostics. */
+    detail?: string;
+}
+
+export class AIError extends Error {
+    readonly kind: AIErrorKind;
+    /** Whether sending the same request again may succeed. */
+    readonly retryable: boolean;
+    context?: string;
+    detail?: string;
+
+    constructor(kind: AIErrorKind, message: string, retryable: boolean, options: AIErrorOptions = {}) {
+        super(message);
+        this.name = 'AIError';
+        this.kind = kind;
+        this.retryable = retryable;
+        this.context = options.context;
+        this.detail = options.detail;
+    }
+}
+
+export class QuotaError extends AIError {
+    constructor(options?: AIErrorOptions) {
+        super('quota', "API quota exceeded. You've reached the request limit for your current API key plan.", true, options);
+        this.name = 'QuotaError';
+    }
+}
+
+export class SafetyError extends AIError {
+    constructor(options?: AIErrorOptions) {
+        super('safety', 'The content was flagged by safety filters. Please adjust your topics to comply with academic standards.', false, options);
+        this.name = 'SafetyError';
+    }
+}
+
+export class InvalidResponseError extends AIError {
+    constructor(message = 'The AI returned a response that could not be read.', options?: AIErrorOptions) {
+        super('invalidResponse', message, true, options);
+        this.name = 'InvalidResponseError';
+    }
+}
+
+export class NetworkError extends AIError {
+    constructor(options?: AIErrorOptions) {
+        super('network', 'Could not reach the AI service.', true, options);
+        this.name = 'NetworkError';
+    }
+}
+
+export class MissingApiKeyError extends AIError {
+    constructor(options?: AIErrorOptions) {
+        super('missingKey', 'The AI API key is missing or was rejected.', false, options);
+        this.name = 'MissingApiKeyError';
+    }
+}
+
+export class TimeoutError extends AIError {
+    constructor(options?: AIErrorOptions) {
+        super('timeout', 'The AI service took too long to respond.', true, options);
+        this.name = 'TimeoutError';
+    }
+}
+
+/** The user declined to go past one of their daily soft usage limits. */
+export class UsageLimitError extends AIError {
+    constructor(options?: AIErrorOptions) {
+        super('usageLimit', "The request was not sent because today's usage limit has been reached.", false, options);
+        this.name = 'UsageLimitError';
+    }
+}
+
+/** What the teacher can do about each kind of failure, shown on error screens. */
+export const AI_ERROR_HELP: Record<AIErrorKind, { title: string; steps: string[] }> = {
+    quota: {
+        title: 'Usage limit reached',
+        steps: [
+            'Wait a few minutes and try again.',
+            "Use the 'Fast (Flash)' model setting for lower usage.",
+            'Upgrade your project to a paid plan for higher limits: ai.google.dev/gemini-api/docs/billing',
+        ],
+    },
+    safety: {
+        title: 'Blocked by safety filters',
+        steps: [
+            'Rephrase the topics in neutral, academic terms.',
+            'Remove any attached material that is not needed for the paper.',
+        ],
+    },
+    invalidResponse: {
+        title: 'The AI returned an unreadable answer',
+        steps: [
+            'Try again; this is usually a one-off.',
+            'Ask for fewer questions per section if it keeps happening.',
+        ],
+    },
+    network: {
+        title: 'Could not reach the AI service',
+        steps: [
+            'Check your internet connection.',
+            'Try again in a moment; the service may be briefly overloaded.',
+        ],
+    },
+    missingKey: {
+        title: 'API key missing or invalid',
+        steps: [
+            'Set GEMINI_API_KEY in .env.local and restart the app.',
+            'Check that the key is active in Google AI Studio.',
+        ],
+    },
+    timeout: {
+        title: 'The request timed out',
+        steps: [
+            'Try again.',
+            'Generate fewer questions at once or attach smaller source files.',
+        ],
+    },
+    usageLimit: {
+        title: 'Daily usage limit reached',
+        steps: [
+            'Try again tomorrow.',
+            'Raise or clear the limit under Settings > Usage.',
+        ],
+    },
+    unknown: {
+        title: 'Something went wrong',
+        steps: [
+            'Try again.',
+            'If it keeps failing, copy the diagnostics and include them when reporting the issue.',
+        ],
+    },
+};
+
+export const isAbortError = (error: unknown) => (error as { name?: string } | null)?.name === 'AbortError';
+
+/** The HTTP status an SDK error carries as `status` or `code`, as a number or numeric string. */
+const errorStatus = (error: unknown): number | undefined => {
+    if (!error || typeof error !== 'object') return undefined;
+    const { status, code } = error as { status?: unknown; code?: unknown };
+    const value = status ?? code;
+    const parsed = typeof value === 'number' ? value : typeof value === 'string' && value.trim() ? Number(value) : NaN;
+    return Number.isFinite(parsed) ? parsed : undefined;
+};
+
+/** Maps anything thrown by a provider or SDK to one of the typed errors above. */
+export const toAIError = (error: unknown, context?: string): AIError => {
+    if (error instanceof AIError) {
+        error.context ??= context;
+        return error;
+    }
+    const detail = error instanceof Error ? error.message : String(error);
+    const message = detail.toLowerCase();
+    const status = errorStatus(error);
+    const options = { context, detail };
+
+    // Quota messages can mention the API key they were counted against, so they are matched first.
+    if (status === 429 || message.includes('quota') || message.includes('resource has been exhausted') || message.includes('resource_exhausted') || message.includes('rate limit')) {
+        return new QuotaError(options);
+    }
+    if (message.includes('api_key') || message.includes('api key') || status === 401 || status === 403 || message.includes('permission_denied')) {
+        return new MissingApiKeyError(options);
+    }
+    if (message.includes('safety') || message.includes('prohibited_content') || message.includes('blockreason')) {
+        return new SafetyError(options);
+    }
+    if (status === 408 || status === 504 || message.includes('timed out') || message.includes('timeout') || message.includes('deadline')) {
+        return new TimeoutError(options);
+    }
+    if (error instanceof SyntaxError || message.includes('json')) {
+        return new InvalidResponseError(undefined, options);
+    }
+    if ((status !== undefined && status >= 500) || message.includes('fetch') || message.includes('network') || message.includes('unavailable') || message.includes('overloaded') || message.includes('econn')) {
+        return new NetworkError(options);
+    }
+    return new AIError('unknown', context ? `AI request failed (${context}).` : 'AI request failed.', false, options);
+};
+
+export interface RetryOptions {
+    retries?: number;
+    baseDelayMs?: number;
+    maxDelayMs?: number;
+    signal?: AbortSignal;
+    onRetry?: (error: AIError, attempt: number, delayMs: number) => void;
+}
+
+/** Exponential backoff with jitter: half the capped delay, plus a random share of the other half. */
+export const backoffDelay = (attempt: number, baseDelayMs: number, maxDelayMs: number) => {
+    const ceiling = Math.min(maxDelayMs, baseDelayMs * 2 ** attempt);
+    return ceiling / 2 + Math.random() * ceiling / 2;
+};
+
+const sleep = (ms: number, signal?: AbortSignal) => new Promise<void>((resolve, reject) => {
+    if (signal?.aborted) return reject(new DOMException('Aborted', 'AbortError'));
+    const onAbort = () => {
+        clearTimeout(timer);
+        reject(new DOMException('Aborted', 'AbortError'));
+    };
+    const timer = setTimeout(() => {
+        signal?.removeEventListener('abort', onAbort);
+        resolve();
+    }, ms);
+    signal?.addEventListener('abort', onAbort, { once: true });
+});
+
+/**
+ * Runs `operation`, retrying transient failures (quota, network, timeout,
+ * unreadable responses). Cancellation is never retried and is rethrown as is.
+ */
+export const withRetry = async <T>(operation: () => Promise<T>, options: RetryOptions = {}): Promise<T> => {
+    const { retries = 3, baseDelayMs = 1000, maxDelayMs = 15000, signal, onRetry } = options;
+    for (let attempt = 0; ; attempt++) {
+        try {
+            return await operation();
+        } catch (error) {
+            if (signal?.aborted || isAbortError(error)) throw error;
+            const aiError = toAIError(error);
+            if (!aiError.retryable || attempt >= retries) throw aiError;
+            const delay = backoffDelay(attempt, baseDelayMs, maxDelayMs);
+            onRetry?.(aiError, attempt + 1, delay);
+            await sleep(delay, signal);
+        }
+    }
+};
+
+/**
+ * Gives `run` its own abort signal that fires after `ms` or when `signal`
+ * aborts. Rejects with a TimeoutError even if the provider ignores the signal.
+ */
+export const withTimeout = <T>(run: (signal: AbortSignal) => Promise<T>, ms: number, signal?: AbortSignal): Promise<T> => {
+    const controller = new AbortController();
+    const onAbort = () => controller.abort(signal?.reason);
+    if (signal?.aborted) onAbort();
+    else signal?.addEventListener('abort', onAbort, { once: true });
+
+    let timer: ReturnType<typeof setTimeout> | undefined;
+    const timeout = new Promise<never>((_, reject) => {
+        timer = setTimeout(() => {
+            controller.abort();
+            reject(new TimeoutError({ detail: `No response after ${Math.round(ms / 1000)}s` }));
+        }, ms);
+    });
+    return Promise.race([run(controller.signal), timeout]).finally(() => {
+        clearTimeout(timer);
+        signal?.removeEventListener('abort', onAbort);
+    });
+};
@@ -0,0 +1,194 @@
+import { type Schema, type FunctionDeclaration } from '@google/genai';
+import { geminiProvider } from './geminiProvider';
+import { mockProvider } from './mockProvider';
+import { withRetry, withTimeout, toAIError, isAbortError } from './aiErrors';
+import { logDiagnostic, reportAIError } from './diagnostics';
+import { recordUsage, confirmWithinLimits } from './usage';
+import { type AIFeature } from '../types';
+
+export type AIProviderId = 'gemini' | 'mock';
+
+/** What a request is for. Providers may pick models by task; the offline provider picks fixtures by it. */
+export type AITask = 'questions' | 'refine' | 'translate' | 'verifySources' | 'review' | 'instructions' | 'analysis' | 'transcript';
+
+export type AIModelTier = 'fast' | 'pro';
+
+/**
+ * What a provider reports about one call. Providers may report the model as the
+ * call goes out and the token counts once the response arrives.
+ */
+export interface AIUsage {
+    model?: string;
+    promptTokens?: number;
+    responseTokens?: number;
+}
+
+export type AIUsageMeter = (usage: AIUsage) => void;
+
+export interface AIAttachment {
+    data: string; // base64 encoded
+    mimeType: string;
+}
+
+export interface AIJsonRequest {
+    task: AITask;
+    prompt: string;
+    attachments?: AIAttachment[];
+    schema?: Schema;
+    tier?: AIModelTier;
+    /** Structured inputs behind the prompt, so providers that cannot read prompts can still respond sensibly. */
+    context?: Record<string, unknown>;
+    signal?: AbortSignal;
+}
+
+export interface AITextRequest {
+    task: AITask;
+    prompt: string;
+    tier?: AIModelTier;
+    context?: Record<string, unknown>;
+    signal?: AbortSignal;
+}
+
+export interface AIFunctionCall {
+    name: string;
+    args: Record<string, unknown>;
+}
+
+export interface AIChatResponse {
+    text: string | null;
+    functionCalls: AIFunctionCall[] | null;
+}
+
+export interface AIChatSession {
+    sendMessage(message: string, meter?: AIUsageMeter): Promise<AIChatResponse>;
+}
+
+/** What a live voice session reports back as the conversation goes on. */
+export interface AILiveCallbacks {
+    onOpen(): void;
+    onTranscript(text: string): void;
+    onTurnComplete(): void;
+    /** Base64 encoded 24kHz 16-bit mono PCM audio. */
+    onAudio(data: string): void;
+    onInterrupted(): void;
+    onFunctionCall(call: AIFunctionCall): void;
+    onError(message: string): void;
+    onClose(): void;
+}
+
+export interface AILiveSession {
+    /** Sends base64 encoded 16kHz 16-bit mono PCM audio from the microphone. */
+    sendAudio(audio: AIAttachment): void;
+    close(): void;
+}
+
+export interface AILiveOptions {
+    systemInstruction: string;
+    functionDeclarations: FunctionDeclaration[];
+    callbacks: AILiveCallbacks;
+}
+
+export interface AIProvider {
+    readonly id: AIProviderId;
+    /** Returns the parsed JSON body of the model's answer. */
+    generateJson(request: AIJsonRequest, meter?: AIUsageMeter): Promise<unknown>;
+    generateText(request: AITextRequest, meter?: AIUsageMeter): Promise<string>;
+    createChat(options: { systemInstruction: string }): AIChatSession;
+    /** Returns base64 encoded 24kHz 16-bit mono PCM audio. */
+    generateSpeech(text: string, meter?: AIUsageMeter): Promise<string>;
+    /** Returns a data URL. */
+    generateImage(prompt: string, aspectRatio: string, meter?: AIUsageMeter): Promise<string>;
+    /** Opens a spoken conversation. Providers without live audio leave this out. */
+    connectLive?(options: AILiveOptions): Promise<AILiveSession>;
+}
+
+const FEATURE_BY_TASK: Record<AITask, AIFeature> = {
+    questions: 'generation',
+    refine: 'generation',
+    translate: 'generation',
+    verifySources: 'generation',
+    review: 'analysis',
+    instructions: 'generation',
+    analysis: 'analysis',
+    transcript: 'chat',
+};
+
+const providers: Record<AIProviderId, AIProvider> = {
+    gemini: geminiProvider,
+    mock: mockProvider,
+};
+
+const REQUEST_TIMEOUT_MS = 120_000;
+
+/**
+ * Checks soft usage limits, gives every call a timeout, retries transient
+ * failures with backoff, records each attempt's usage, and turns whatever the
+ * provider throws into a typed `AIError`. Chat messages are not retried, since
+ * a timed-out message may still have reached the model.
+ */
+const withResilience = (provider: AIProvider): AIProvider => {
+    const attempt = async <T>(feature: AIFeature, task: string, signal: AbortSignal | undefined, run: (signal: AbortSignal, meter: AIUsageMeter) => Promise<T>): Promise<T> => {
+        const startedAt = Date.now();
+        let usage: AIUsage = {};
+        let success = false;
+        try {
+            const result = await withTimeout(s => run(s, reported => { usage = { ...usage, ...reported }; }), REQUEST_TIMEOUT_MS, signal);
+            success = true;
+            return result;
+        } finally {
+            recordUsage({
+                feature, task, success,
+                model: usage.model || provider.id,
+                promptTokens: usage.promptTokens || 0,
+                responseTokens: usage.responseTokens || 0,
+                latencyMs: Date.now() - startedAt,
+            });
+        }
+    };
+
+    const call = async <T>(task: AITask | 'chat' | 'speech' | 'image', signal: AbortSignal | undefined, run: (signal: AbortSignal, meter: AIUsageMeter) => Promise<T>, retries?: number): Promise<T> => {
+        const feature: AIFeature = task === 'chat' ? 'chat' : task === 'speech' ? 'tts' : task === 'image' ? 'image' : FEATURE_BY_TASK[task];
+        try {
+            confirmWithinLimits(feature);
+            return await withRetry(() => attempt(feature, task, signal, run), {
+                signal,
+                retries,
+                onRetry: (error, n) => logDiagnostic({ level: 'retry', kind: error.kind, context: task, message: error.message, detail: error.detail, attempt: n, provider: provider.id }),
+            });
+        } catch (error) {
+            if (signal?.aborted || isAbortError(error)) throw error;
+            const aiError = toAIError(error, task);
+            reportAIError(aiError, provider.id);
+            throw aiError;
+        }
+    };
+
+    return {
+        id: provider.id,
+        generateJson: request => call(request.task, request.signal, (signal, meter) => provider.generateJson({ ...request, signal }, meter)),
+        generateText: request => call(request.task, request.signal, (signal, meter) => provider.generateText({ ...request, signal }, meter)),
+        createChat: options => {
+            const chat = provider.createChat(options);
+            return { sendMessage: message => call('chat', undefined, (_, meter) => chat.sendMessage(message, meter), 0) };
+        },
+        generateSpeech: text => call('speech', undefined, (_, meter) => provider.generateSpeech(text, meter)),
+        generateImage: (prompt, aspectRatio) => call('image', undefined, (_, meter) => provider.generateImage(prompt, aspectRatio, meter)),
+        // Only opening a live session goes through the limits and usage log; a dropped session is not retried.
+        connectLive: provider.connectLive && (options => call('chat', undefined, () => provider.connectLive!(options), 0)),
+    };
+};
+
+let activeProvider: AIProvider | null = null;
+
+export const getAIProvider = (): AIProvider => {
+    if (!activeProvider) {
+        const configured = (process.env.AI_PROVIDER || 'gemini') as AIProviderId;
+        activeProvider = withResilience(providers[configured] ?? geminiProvider);
+    }
+    return activeProvider;
+};
+
+/** Swaps the provider at runtime, e.g. from tests or a settings toggle. */
+export const setAIProvider = (provider: AIProvider | AIProviderId) => {
+    activeProvider = withResilience(typeof provider === 'string' ? providers[provider] : provider);
+};
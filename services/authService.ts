@@ -7,7 +7,7 @@ import {
     onAuthStateChanged,
     type User as FirebaseUser
 } from 'firebase/auth';
-import { type QuestionPaperData, type User, type BankQuestion } from '../types';
+import { type QuestionPaperData, type User, type BankQuestion, type Blueprint, type Syllabus, type GenerationPreset, type PaperTemplate, type UsageRecord, type UsageLimits } from '../types';
 
 // The data will still be in localStorage, but keyed by UID.
 // This avoids needing a full backend/database like Firestore for this project.
@@ -17,6 +17,8 @@ interface UserSettings {
     defaultSchoolName?: string;
     schoolLogo?: string;
     role?: 'teacher' | 'student';
+    similarityThreshold?: number;
+    usageLimits?: UsageLimits;
 }
 
 interface Database {
@@ -24,10 +26,18 @@ interface Database {
     papers: Record<string, QuestionPaperData[]>; // UID -> Teacher's created papers
     attendedPapers: Record<string, QuestionPaperData[]>; // UID -> Student's attended papers
     questionBank: Record<string, BankQuestion[]>; // UID -> BankQuestions
+    blueprints: Record<string, Blueprint[]>; // UID -> Saved exam blueprints
+    syllabi: Record<string, Syllabus[]>; // UID -> Syllabi by board, class and subject
+    presets: Record<string, GenerationPreset[]>; // UID -> Saved generator presets
+    paperTemplates: Record<string, PaperTemplate[]>; // UID -> Custom layout templates
+    usage: Record<string, UsageRecord[]>; // UID -> AI calls, oldest first
 }
 
+// Usage records older than this are dropped as new ones come in.
+const USAGE_RETENTION_DAYS = 90;
+
 const getDb = (): Database => {
-    const defaultDb: Database = { userSettings: {}, papers: {}, attendedPapers: {}, questionBank: {} };
+    const defaultDb: Database = { userSettings: {}, papers: {}, attendedPapers: {}, questionBank: {}, blueprints: {}, syllabi: {}, presets: {}, paperTemplates: {}, usage: {} };
     try {
         const dbString = localStorage.getItem(DB_KEY);
         if (dbString) {
@@ -37,6 +47,11 @@ const getDb = (): Database => {
                 papers: parsedDb.papers || {},
                 attendedPapers: parsedDb.attendedPapers || {},
                 questionBank: parsedDb.questionBank || {},
+                blueprints: parsedDb.blueprints || {},
+                syllabi: parsedDb.syllabi || {},
+                presets: parsedDb.presets || {},
+                paperTemplates: parsedDb.paperTemplates || {},
+                usage: parsedDb.usage || {},
             };
         }
     } catch (e) {
@@ -57,7 +72,9 @@ const mapFirebaseUserToAppUser = (firebaseUser: FirebaseUser, settings: UserSett
         profilePicture: firebaseUser.photoURL || `https://ui-avatars.com/api/?name=${encodeURIComponent(firebaseUser.email?.split('@')[0] || 'User')}&background=random&color=fff&rounded=true`,
         role: settings?.role,
         defaultSchoolName: settings?.defaultSchoolName || '',
-        schoolLogo: settings?.schoolLogo
+        schoolLogo: settings?.schoolLogo,
+        similarityThreshold: settings?.similarityThreshold,
+        usageLimits: settings?.usageLimits
     };
 }
 
@@ -154,10 +171,27 @@ export const authService = {
 
         const db = getDb();
         if (db.papers[uid]) {
-            db.papers[uid] = db.papers[uid].filter(p => p.id !== paperId);
+            // Sets generated from this paper go with it.
+            db.papers[uid] = db.papers[uid].filter(p => p.id !== paperId && p.parentPaperId !== paperId);
             saveDb(db);
         }
     },
+
+    savePaperSets: (parentPaperId: string, sets: QuestionPaperData[]): void => {
+        const uid = authService.getCurrentUserUid();
+        if (!uid) return;
+
+        const db = getDb();
+        const papers = (db.papers[uid] || []).filter(p => p.parentPaperId !== parentPaperId);
+        db.papers[uid] = [...papers, ...sets];
+        saveDb(db);
+    },
+
+    getPaperSets: (parentPaperId: string): QuestionPaperData[] => {
+        return authService.getPapers()
+            .filter(p => p.parentPaperId === parentPaperId)
+            .sort((a, b) => (a.setLabel || '').localeCompare(b.setLabel || ''));
+    },
     
     // --- Student Attended Papers Methods ---
     saveAttendedPaper: (paper: QuestionPaperData): void => {
@@ -236,4 +270,198 @@ export const authService = {
             saveDb(db);
         }
     },
-};
\ No newline at end of file
+
+    // --- Blueprint Methods ---
+
+    saveBlueprint: (blueprint: Blueprint): Blueprint => {
+        const uid = authService.getCurrentUserUid();
+        if (!uid) throw new Error("User not authenticated");
+
+        const db = getDb();
+        if (!db.blueprints[uid]) {
+            db.blueprints[uid] = [];
+        }
+
+        const saved = { ...blueprint, updatedAt: new Date().toISOString() };
+        const index = db.blueprints[uid].findIndex(b => b.id === blueprint.id);
+        if (index > -1) {
+            db.blueprints[uid][index] = saved;
+        } else {
+            db.blueprints[uid].push(saved);
+        }
+        saveDb(db);
+        return saved;
+    },
+
+    getBlueprints: (): Blueprint[] => {
+        const uid = authService.getCurrentUserUid();
+        if (!uid) return [];
+        const db = getDb();
+        return (db.blueprints[uid] || []).sort((a, b) => new Date(b.updatedAt).getTime() - new Date(a.updatedAt).getTime());
+    },
+
+    deleteBlueprint: (blueprintId: string): void => {
+        const uid = authService.getCurrentUserUid();
+        if (!uid) return;
+
+        const db = getDb();
+        if (db.blueprints[uid]) {
+            db.blueprints[uid] = db.blueprints[uid].filter(b => b.id !== blueprintId);
+            saveDb(db);
+        }
+    },
+
+    // --- Syllabus Methods ---
+
+    saveSyllabus: (syllabus: Syllabus): Syllabus => {
+        const uid = authService.getCurrentUserUid();
+        if (!uid) throw new Error("User not authenticated");
+
+        const db = getDb();
+        if (!db.syllabi[uid]) {
+            db.syllabi[uid] = [];
+        }
+
+        const saved = { ...syllabus, updatedAt: new Date().toISOString() };
+        const index = db.syllabi[uid].findIndex(s => s.id === syllabus.id);
+        if (index > -1) {
+            db.syllabi[uid][index] = saved;
+        } else {
+            db.syllabi[uid].push(saved);
+        }
+        saveDb(db);
+        return saved;
+    },
+
+    getSyllabi: (): Syllabus[] => {
+        const uid = authService.getCurrentUserUid();
+        if (!uid) return [];
+        const db = getDb();
+        return (db.syllabi[uid] || []).sort((a, b) => new Date(b.updatedAt).getTime() - new Date(a.updatedAt).getTime());
+    },
+
+    deleteSyllabus: (syllabusId: string): void => {
+        const uid = authService.getCurrentUserUid();
+        if (!uid) return;
+
+        const db = getDb();
+        if (db.syllabi[uid]) {
+            db.syllabi[uid] = db.syllabi[uid].filter(s => s.id !== syllabusId);
+            saveDb(db);
+        }
+    },
+
+    // --- Preset Methods ---
+
+    savePreset: (preset: GenerationPreset): GenerationPreset => {
+        const uid = authService.getCurrentUserUid();
+        if (!uid) throw new Error("User not authenticated");
+
+        const db = getDb();
+        if (!db.presets[uid]) {
+            db.presets[uid] = [];
+        }
+
+        const saved = { ...preset, updatedAt: new Date().toISOString() };
+        const index = db.presets[uid].findIndex(p => p.id === preset.id);
+        if (index > -1) {
+            db.presets[uid][index] = saved;
+        } else {
+            db.presets[uid].push(saved);
+        }
+        saveDb(db);
+        return saved;
+    },
+
+    getPresets: (): GenerationPreset[] => {
+        const uid = authService.getCurrentUserUid();
+        if (!uid) return [];
+        const db = getDb();
+        return (db.presets[uid] || []).sort((a, b) => a.name.localeCompare(b.name));
+    },
+
+    deletePreset: (presetId: string): void => {
+        const uid = authService.getCurrentUserUid();
+        if (!uid) return;
+
+        const db = getDb();
+        if (db.presets[uid]) {
+            db.presets[uid] = db.presets[uid].filter(p => p.id !== presetId);
+            saveDb(db);
+        }
+    },
+
+    // --- Paper Template Methods ---
+
+    savePaperTemplate: (template: PaperTemplate): PaperTemplate => {
+        const uid = authService.getCurrentUserUid();
+        if (!uid) throw new Error("User not authenticated");
+
+        const db = getDb();
+        if (!db.paperTemplates[uid]) {
+            db.paperTemplates[uid] = [];
+        }
+
+        const saved = { ...template, updatedAt: new Date().toISOString() };
+        const index = db.paperTemplates[uid].findIndex(t => t.id === template.id);
+        if (index > -1) {
+            db.paperTemplates[uid][index] = saved;
+        } else {
+            db.paperTemplates[uid].push(saved);
+        }
+        saveDb(db);
+        return saved;
+    },
+
+    getPaperTemplates: (): PaperTemplate[] => {
+        const uid = authService.getCurrentUserUid();
+        if (!uid) return [];
+        const db = getDb();
+        return (db.paperTemplates[uid] || []).sort((a, b) => a.name.localeCompare(b.name));
+    },
+
+    deletePaperTemplate: (templateId: string): void => {
+        const uid = authService.getCurrentUserUid();
+        if (!uid) return;
+
+        const db = getDb();
+        if (db.paperTemplates[uid]) {
+            db.paperTemplates[uid] = db.paperTemplates[uid].filter(t => t.id !== templateId);
+            saveDb(db);
+        }
+    },
+
+    // --- Usage Methods ---
+
+    recordUsage: (record: UsageRecord): void => {
+        const uid = authService.getCurrentUserUid();
+        if (!uid) return;
+
+        const db = getDb();
+        const cutoff = new Date(Date.now() - USAGE_RETENTION_DAYS * 24 * 60 * 60 * 1000).toISOString();
+        db.usage[uid] = [...(db.usage[uid] || []).filter(r => r.timestamp >= cutoff), record];
+        saveDb(db);
+    },
+
+    getUsage: (): UsageRecord[] => {
+        const uid = authService.getCurrentUserUid();
+        if (!uid) return [];
+        const db = getDb();
+        return db.usage[uid] || [];
+    },
+
+    clearUsage: (): void => {
+        const uid = authService.getCurrentUserUid();
+        if (!uid) return;
+
+        const db = getDb();
+        delete db.usage[uid];
+        saveDb(db);
+    },
+
+    getUsageLimits: (): UsageLimits | undefined => {
+        const uid = authService.getCurrentUserUid();
+        if (!uid) return undefined;
+        return getDb().userSettings[uid]?.usageLimits;
+    },
+};
@@ -0,0 +1,130 @@
+import { type Blueprint, type BlueprintEntry, type Question, type QuestionDistributionItem, QuestionType, Difficulty, Taxonomy } from '../types';
+
+export const UNASSIGNED_UNIT = 'Unassigned';
+
+export const createBlueprint = (subject: string, className: string): Blueprint => {
+    const now = new Date().toISOString();
+    const unitId = `unit-${Date.now()}`;
+    return {
+        id: `bp-${Date.now()}`,
+        name: subject ? `${subject} Blueprint` : 'Untitled Blueprint',
+        subject,
+        className,
+        units: [{ id: unitId, name: 'Unit 1', weightage: 10 }],
+        taxonomyWeightage: {},
+        entries: [createBlueprintEntry(unitId)],
+        createdAt: now,
+        updatedAt: now,
+    };
+};
+
+export const createBlueprintEntry = (unitId: string): BlueprintEntry => ({
+    id: `bpe-${Date.now()}-${Math.random().toString(36).slice(2, 7)}`,
+    unitId,
+    type: QuestionType.ShortAnswer,
+    taxonomy: Taxonomy.Understanding,
+    difficulty: Difficulty.Medium,
+    count: 1,
+    marks: 2,
+});
+
+const entryMarks = (entry: BlueprintEntry) => entry.count * entry.marks;
+
+/** Each matrix cell becomes its own distribution item, tagged with the unit it must cover. */
+export const blueprintToDistribution = (blueprint: Blueprint): QuestionDistributionItem[] =>
+    blueprint.entries
+        .filter(entry => entry.count > 0)
+        .map(entry => ({
+            id: `bp-${entry.id}`,
+            type: entry.type,
+            count: entry.count,
+            marks: entry.marks,
+            difficulty: entry.difficulty,
+            taxonomy: entry.taxonomy,
+            internalChoices: entry.internalChoices,
+            unit: blueprint.units.find(u => u.id === entry.unitId)?.name || UNASSIGNED_UNIT,
+        }));
+
+export interface BlueprintPlanSummary {
+    totalMarks: number;
+    marksByUnit: Record<string, number>; // unit id -> planned marks
+    marksByTaxonomy: Partial<Record<Taxonomy, number>>;
+    /** Units and levels whose matrix marks differ from the weightage the teacher set. */
+    unitMismatches: { unitId: string; target: number; planned: number }[];
+    taxonomyMismatches: { taxonomy: Taxonomy; target: number; planned: number }[];
+}
+
+export const summarizeBlueprint = (blueprint: Blueprint): BlueprintPlanSummary => {
+    const marksByUnit: Record<string, number> = {};
+    const marksByTaxonomy: Partial<Record<Taxonomy, number>> = {};
+    blueprint.entries.forEach(entry => {
+        marksByUnit[entry.unitId] = (marksByUnit[entry.unitId] || 0) + entryMarks(entry);
+        marksByTaxonomy[entry.taxonomy] = (marksByTaxonomy[entry.taxonomy] || 0) + entryMarks(entry);
+    });
+
+    return {
+        totalMarks: blueprint.entries.reduce((acc, entry) => acc + entryMarks(entry), 0),
+        marksByUnit,
+        marksByTaxonomy,
+        unitMismatches: blueprint.units
+            .filter(unit => (marksByUnit[unit.id] || 0) !== unit.weightage)
+            .map(unit => ({ unitId: unit.id, target: unit.weightage, planned: marksByUnit[unit.id] || 0 })),
+        taxonomyMismatches: (Object.entries(blueprint.taxonomyWeightage) as [Taxonomy, number][])
+            .filter(([taxonomy, target]) => (marksByTaxonomy[taxonomy] || 0) !== target)
+            .map(([taxonomy, target]) => ({ taxonomy, target, planned: marksByTaxonomy[taxonomy] || 0 })),
+    };
+};
+
+export interface BlueprintCell {
+    plannedMarks: number;
+    actualMarks: number;
+    plannedCount: number;
+    actualCount: number;
+}
+
+export interface BlueprintComparisonRow {
+    unit: string;
+    target: number;
+    byTaxonomy: Partial<Record<Taxonomy, BlueprintCell>>;
+    byType: Partial<Record<QuestionType, BlueprintCell>>;
+    total: BlueprintCell;
+}
+
+const emptyCell = (): BlueprintCell => ({ plannedMarks: 0, actualMarks: 0, plannedCount: 0, actualCount: 0 });
+
+const sameUnit = (a: string | undefined, b: string) => (a || UNASSIGNED_UNIT).trim().toLowerCase() === b.trim().toLowerCase();
+
+/**
+ * Lays the plan and a generated paper side by side, one row per unit. Questions
+ * whose unit is not in the blueprint are collected in an "Unassigned" row.
+ */
+export const compareBlueprintWithPaper = (blueprint: Blueprint, questions: Question[]): BlueprintComparisonRow[] => {
+    const rows: BlueprintComparisonRow[] = blueprint.units.map(unit => ({ unit: unit.name, target: unit.weightage, byTaxonomy: {}, byType: {}, total: emptyCell() }));
+    const rowFor = (unitName: string | undefined) => {
+        let row = rows.find(r => sameUnit(unitName, r.unit));
+        if (!row) {
+            row = { unit: UNASSIGNED_UNIT, target: 0, byTaxonomy: {}, byType: {}, total: emptyCell() };
+            rows.push(row);
+        }
+        return row;
+    };
+    const add = (row: BlueprintComparisonRow, type: QuestionType, taxonomy: Taxonomy, update: (cell: BlueprintCell) => void) => {
+        [row.byTaxonomy[taxonomy] ??= emptyCell(), row.byType[type] ??= emptyCell(), row.total].forEach(update);
+    };
+
+    blueprint.entries.forEach(entry => {
+        const unit = blueprint.units.find(u => u.id === entry.unitId);
+        add(rowFor(unit?.name), entry.type, entry.taxonomy, cell => {
+            cell.plannedMarks += entryMarks(entry);
+            cell.plannedCount += entry.count;
+        });
+    });
+    questions.forEach(q => {
+        add(rowFor(q.unit), q.type, q.taxonomy, cell => {
+            cell.actualMarks += q.marks;
+            cell.actualCount += 1;
+        });
+    });
+
+    return rows;
+};
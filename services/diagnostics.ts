@@ -0,0 +1,64 @@
+import { type AIError, type AIErrorKind } from './aiErrors';
+
+// Diagnostics describe this browser rather than an account, so they live outside the per-user DB.
+const DIAGNOSTICS_KEY = 'ssgpt_diagnostics';
+const MAX_ENTRIES = 50;
+const MAX_DETAIL_LENGTH = 500;
+
+export interface DiagnosticEntry {
+    id: string;
+    timestamp: string;
+    /** 'retry' entries are transient failures that were retried; 'error' entries reached the user. */
+    level: 'error' | 'retry';
+    kind: AIErrorKind;
+    context: string;
+    message: string;
+    detail?: string;
+    attempt?: number;
+    provider?: string;
+}
+
+export const getDiagnostics = (): DiagnosticEntry[] => {
+    try {
+        return JSON.parse(localStorage.getItem(DIAGNOSTICS_KEY) || '[]');
+    } catch {
+        return [];
+    }
+};
+
+export const logDiagnostic = (entry: Omit<DiagnosticEntry, 'id' | 'timestamp'>) => {
+    const detail = entry.detail && entry.detail.length > MAX_DETAIL_LENGTH ? `${entry.detail.slice(0, MAX_DETAIL_LENGTH)}…` : entry.detail;
+    const full: DiagnosticEntry = { ...entry, detail, id: `diag-${Date.now()}-${Math.random().toString(36).slice(2, 7)}`, timestamp: new Date().toISOString() };
+    try {
+        localStorage.setItem(DIAGNOSTICS_KEY, JSON.stringify([full, ...getDiagnostics()].slice(0, MAX_ENTRIES)));
+    } catch (e) {
+        console.warn('Could not store diagnostics entry:', e);
+    }
+};
+
+export const clearDiagnostics = () => localStorage.removeItem(DIAGNOSTICS_KEY);
+
+const reported = new WeakSet<AIError>();
+
+/** Logs an error the user is about to see. An error passed up through several layers is only logged once. */
+export const reportAIError = (error: AIError, provider?: string) => {
+    if (reported.has(error)) return;
+    reported.add(error);
+    logDiagnostic({ level: 'error', kind: error.kind, context: error.context || 'unknown', message: error.message, detail: error.detail, provider });
+};
+
+/** Plain-text report for pasting into a bug report. */
+export const formatDiagnosticsReport = (entries: DiagnosticEntry[] = getDiagnostics()): string => {
+    const header = [
+        `Generated: ${new Date().toISOString()}`,
+        `Browser: ${navigator.userAgent}`,
+        `Page: ${window.location.origin}${window.location.pathname}`,
+        `Entries: ${entries.length}`,
+    ];
+    const lines = entries.map(e => [
+        `[${e.timestamp}] ${e.level.toUpperCase()} ${e.kind} in ${e.context}${e.attempt ? ` (attempt ${e.attempt})` : ''}${e.provider ? ` via ${e.provider}` : ''}`,
+        `  ${e.message}`,
+        ...(e.detail ? [`  ${e.detail}`] : []),
+    ].join('\n'));
+    return [...header, '', ...lines].join('\n');
+};
@@ -0,0 +1,170 @@
+import { GoogleGenAI, Modality, type LiveServerMessage, type Part, type GenerateContentConfig, type GenerateContentResponseUsageMetadata } from "@google/genai";
+import type { AIProvider, AIJsonRequest, AITextRequest, AIModelTier, AIChatSession, AIUsage, AIUsageMeter, AILiveOptions, AILiveSession } from './aiProvider';
+import { MissingApiKeyError, InvalidResponseError, SafetyError } from './aiErrors';
+
+export const GEMINI_MODELS = {
+    fast: 'gemini-flash-latest',
+    pro: 'gemini-3-flash-preview',
+    vision: 'gemini-3-pro-preview',
+    chat: 'gemini-flash-lite-latest',
+    search: 'gemini-3-flash-preview',
+    tts: 'gemini-2.5-flash-preview-tts',
+    image: 'gemini-3-pro-image-preview',
+    live: 'gemini-2.5-flash-native-audio-preview-12-25',
+} as const;
+
+let client: GoogleGenAI | null = null;
+
+export const getGeminiClient = (): GoogleGenAI => {
+    if (!process.env.API_KEY) throw new MissingApiKeyError({ detail: 'API_KEY is not configured.' });
+    if (!client) client = new GoogleGenAI({ apiKey: process.env.API_KEY });
+    return client;
+};
+
+/**
+ * Robustly cleans and parses JSON from AI responses, handling markdown artifacts.
+ */
+const parseAiJson = (text: string) => {
+    try {
+        const cleanedText = text.replace(/```json/g, '').replace(/```/g, '').trim();
+        return JSON.parse(cleanedText);
+    } catch (e) {
+        console.error("JSON Parse Error. Raw text:", text);
+        throw new InvalidResponseError("The AI returned an invalid response format.", { detail: text.slice(0, 200) });
+    }
+};
+
+/** Token counts from a response's usage metadata. Thinking tokens are billed as output, so they count as response tokens. */
+export const usageFromMetadata = (metadata: GenerateContentResponseUsageMetadata | undefined): AIUsage => ({
+    promptTokens: metadata?.promptTokenCount ?? 0,
+    responseTokens: (metadata?.candidatesTokenCount ?? 0) + (metadata?.thoughtsTokenCount ?? 0),
+});
+
+const modelForTier = (tier: AIModelTier | undefined, hasImages: boolean) => {
+    if (hasImages && !tier) return GEMINI_MODELS.vision;
+    return tier === 'fast' ? GEMINI_MODELS.fast : GEMINI_MODELS.pro;
+};
+
+export const geminiProvider: AIProvider = {
+    id: 'gemini',
+
+    async generateJson(request: AIJsonRequest, meter?: AIUsageMeter) {
+        const ai = getGeminiClient();
+        const attachments = request.attachments || [];
+        const model = modelForTier(request.tier, attachments.some(a => a.mimeType.startsWith('image/')));
+        meter?.({ model });
+        const parts: Part[] = [
+            ...attachments.map(a => ({ inlineData: { data: a.data, mimeType: a.mimeType } })),
+            { text: request.prompt },
+        ];
+        const config: GenerateContentConfig = { responseMimeType: "application/json", abortSignal: request.signal };
+        if (request.schema) config.responseSchema = request.schema;
+
+        const response = await ai.models.generateContent({
+            model,
+            contents: { parts },
+            config,
+        });
+        meter?.(usageFromMetadata(response.usageMetadata));
+        if (!response.text) {
+            const blockReason = response.promptFeedback?.blockReason || response.candidates?.[0]?.finishReason;
+            if (blockReason && /SAFETY|BLOCK|PROHIBITED/.test(String(blockReason))) throw new SafetyError({ detail: `blockReason: ${blockReason}` });
+            throw new InvalidResponseError("The AI returned an empty response.", { detail: blockReason ? `finishReason: ${blockReason}` : undefined });
+        }
+        return parseAiJson(response.text);
+    },
+
+    async generateText(request: AITextRequest, meter?: AIUsageMeter) {
+        const ai = getGeminiClient();
+        const model = modelForTier(request.tier, false);
+        meter?.({ model });
+        const response = await ai.models.generateContent({
+            model,
+            contents: request.prompt,
+            config: { abortSignal: request.signal },
+        });
+        meter?.(usageFromMetadata(response.usageMetadata));
+        return response.text?.trim() || '';
+    },
+
+    createChat({ systemInstruction }): AIChatSession {
+        const chat = getGeminiClient().chats.create({
+            model: GEMINI_MODELS.pro,
+            config: { systemInstruction },
+        });
+        return {
+            async sendMessage(message: string, meter?: AIUsageMeter) {
+                meter?.({ model: GEMINI_MODELS.pro });
+                const response = await chat.sendMessage({ message });
+                meter?.(usageFromMetadata(response.usageMetadata));
+                return {
+                    text: response.text || null,
+                    functionCalls: response.functionCalls?.map(fc => ({ name: fc.name || '', args: fc.args || {} })) || null,
+                };
+            },
+        };
+    },
+
+    async generateSpeech(text: string, meter?: AIUsageMeter) {
+        meter?.({ model: GEMINI_MODELS.tts });
+        const response = await getGeminiClient().models.generateContent({
+            model: GEMINI_MODELS.tts,
+            contents: [{ parts: [{ text }] }],
+            config: {
+                responseModalities: [Modality.AUDIO],
+                speechConfig: {
+                    voiceConfig: {
+                        // Using a standard, pleasant voice.
+                        prebuiltVoiceConfig: { voiceName: 'Kore' },
+                    },
+                },
+            },
+        });
+
+        meter?.(usageFromMetadata(response.usageMetadata));
+        const base64Audio = response.candidates?.[0]?.content?.parts?.[0]?.inlineData?.data;
+        if (!base64Audio) {
+            throw new Error("AI did not return any audio data.");
+        }
+        return base64Audio;
+    },
+
+    async generateImage(prompt: string, aspectRatio: string, meter?: AIUsageMeter) {
+        meter?.({ model: GEMINI_MODELS.image });
+        const response = await getGeminiClient().models.generateContent({
+            model: GEMINI_MODELS.image,
+            contents: prompt,
+            config: { imageConfig: { aspectRatio: aspectRatio as any, imageSize: "1K" } }
+        });
+        meter?.(usageFromMetadata(response.usageMetadata));
+        for (const part of response.candidates?.[0]?.content?.parts || []) {
+            if (part.inlineData) return `data:${part.inlineData.mimeType};base64,${part.inlineData.data}`;
+        }
+        throw new Error("AI did not return any image data.");
+    },
+
+    async connectLive({ systemInstruction, functionDeclarations, callbacks }: AILiveOptions): Promise<AILiveSession> {
+        const session = await getGeminiClient().live.connect({
+            model: GEMINI_MODELS.live,
+            callbacks: {
+                onopen: callbacks.onOpen,
+                onmessage: (msg: LiveServerMessage) => {
+                    const content = msg.serverContent;
+                    if (content?.inputTranscription?.text) callbacks.onTranscript(content.inputTranscription.text);
+                    if (content?.turnComplete) callbacks.onTurnComplete();
+                    const audio = content?.modelTurn?.parts?.[0]?.inlineData?.data;
+                    if (audio) callbacks.onAudio(audio);
+                    if (content?.interrupted) callbacks.onInterrupted();
+                    msg.toolCall?.functionCalls?.forEach(fc => callbacks.onFunctionCall({ name: fc.name || '', args: fc.args || {} }));
+                },
+                onerror: (e: ErrorEvent) => callbacks.onError(e.message),
+                onclose: callbacks.onClose,
+            },
+            config: { responseModalities: [Modality.AUDIO], inputAudioTranscription: {}, tools: [{ functionDeclarations }], systemInstruction },
+        });
+        return {
+            sendAudio: media => session.sendRealtimeInput({ media }),
+            close: () => session.close(),
+        };
+    },
+};
@@ -1,57 +1,32 @@
-import { GoogleGenAI, Type, FunctionDeclaration, Modality, Chat, Part, GenerateContentResponse, GenerateContentConfig } from "@google/genai";
-import { type FormData, type QuestionPaperData, Question, AnalysisResult } from '../types';
-import { generateHtmlFromPaperData } from "./htmlGenerator";
-import { generatePaperFunctionDeclaration, systemInstruction } from '../constants';
+import { Type, Part } from "@google/genai";
+import { type FormData, type QuestionPaperData, type QuestionDistributionItem, type SourceChunk, type QuestionRefineAction, type SectionResult, type SectionGenerationState, type ValidationFix, type QuestionTranslation, type PaperReview, type PaperInstructions, Question, AnalysisResult, QuestionType, Difficulty, Taxonomy } from '../types';
+import { generateHtmlFromPaperData, orderQuestionsForLayout } from "./htmlGenerator";
+import { normalizeReview } from './paperReview';
+import { normalizeInstructions, type InstructionSection } from './paperInstructions';
+import { assignToDistribution, mergeAssignments, toSectionResult, buildValidationReport, attachTranslations } from './paperValidator';
+import { ASSERTION_REASON_OPTIONS, MARKING_SCHEME_TYPES } from '../constants';
+import { getAIProvider, type AIAttachment } from './aiProvider';
+import { tagSyllabusNodes } from './syllabus';
+import { selectSourceChunks, formatSourceChunks, sourceReferencesFor, locateExcerpt, citationFromChunk } from './sourceIngestion';
+import { toAIError, InvalidResponseError } from './aiErrors';
+import { reportAIError } from './diagnostics';
 export { generateHtmlFromPaperData };
 
-const handleApiError = (error: any, context: string) => {
+/** Converts any failure to a typed `AIError`, records it for diagnostics and rethrows it. */
+const handleApiError = (error: unknown, context: string): never => {
     console.error(`Error in ${context}:`, error);
-    const errorMessage = error?.message?.toLowerCase() || '';
-
-    if (errorMessage.includes("safety")) {
-        throw new Error("The content was flagged by safety filters. Please adjust your topics to comply with academic standards.");
-    }
-    
-    // Check for quota-related errors
-    if (errorMessage.includes("quota") || errorMessage.includes("resource has been exhausted")) {
-        throw new Error(
-            "API Quota Exceeded.\n\n" +
-            "You've reached the request limit for your current API key plan. Here's what you can do:\n\n" +
-            "1. Try again in a few minutes.\n" +
-            "2. Use the 'Fast (Flash)' model setting for lower usage.\n" +
-            "3. Upgrade your project to a paid plan for higher limits. Visit:\n" +
-            "ai.google.dev/gemini-api/docs/billing"
-        );
-    }
-    
-    throw new Error(`AI Generation Failed (${context}). Please check your connection or try again. If the issue persists, your API key might be invalid.`);
-};
-
-/**
- * Robustly cleans and parses JSON from AI responses, handling markdown artifacts.
- */
-const parseAiJson = (text: string) => {
-    try {
-        const cleanedText = text.replace(/```json/g, '').replace(/```/g, '').trim();
-        return JSON.parse(cleanedText);
-    } catch (e) {
-        console.error("JSON Parse Error. Raw text:", text);
-        throw new Error("The AI returned an invalid response format. Using Gemini 3 might require a slightly different prompt structure if errors persist.");
-    }
+    const aiError = toAIError(error, context);
+    reportAIError(aiError, getAIProvider().id);
+    throw aiError;
 };
 
 export const rewriteTranscript = async (rawText: string): Promise<string> => {
-    if (!process.env.API_KEY) throw new Error("Internal Error Occurred");
     if (!rawText.trim()) return rawText;
     
-    const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
     const prompt = `Rewrite the following user utterance into a clean, professional, and grammatically correct sentence. Correct any mistakes and add any missing words to make it sound like a formal request. Do not add any extra commentary, just provide the rewritten sentence.\n\nRaw utterance: "${rawText}"\n\nRewritten sentence:`;
     try {
-        const response = await ai.models.generateContent({
-            model: "gemini-3-flash-preview",
-            contents: prompt,
-        });
-        return response.text?.trim() || rawText;
+        const rewritten = await getAIProvider().generateText({ task: 'transcript', prompt, context: { text: rawText } });
+        return rewritten || rawText;
     } catch (error) {
         console.error("Error rewriting transcript:", error);
         return rawText; // fallback to raw text on error
@@ -59,20 +34,134 @@ export const rewriteTranscript = async (rawText: string): Promise<string> => {
 };
 
 
-export const generateQuestionPaper = async (formData: FormData): Promise<QuestionPaperData> => {
-    if (!process.env.API_KEY) throw new Error("Internal Error Occurred");
-    const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
-    const { schoolName, className, subject, topics, questionDistribution, totalMarks, language, timeAllowed, sourceMaterials, sourceFiles, modelQuality } = formData;
-    
-    const modelToUse = modelQuality === 'pro' ? 'gemini-3-flash-preview' : 'gemini-flash-latest';
+const MAX_REPAIR_ATTEMPTS = 2;
+
+const markingSchemeSchema = {
+    type: Type.ARRAY,
+    description: "Step-wise marking points whose marks add up to the marks of the question (or part).",
+    items: {
+        type: Type.OBJECT,
+        properties: {
+            description: { type: Type.STRING },
+            marks: { type: Type.NUMBER }
+        },
+        required: ["description", "marks"]
+    }
+};
+
+const subQuestionSchema = {
+    type: Type.ARRAY,
+    description: "Optional lettered parts, each marked separately. Part marks add up to the question's marks.",
+    items: {
+        type: Type.OBJECT,
+        properties: {
+            questionText: { type: Type.STRING },
+            marks: { type: Type.NUMBER },
+            answer: { type: Type.STRING },
+            taxonomy: { type: Type.STRING },
+            markingScheme: markingSchemeSchema
+        },
+        required: ["questionText", "marks", "answer"]
+    }
+};
 
-    const finalPrompt = `
+const numericAnswerSchema = {
+    type: Type.OBJECT,
+    description: "Only for Numerical questions: the final value, its unit and the accepted tolerance.",
+    properties: {
+        value: { type: Type.NUMBER },
+        unit: { type: Type.STRING },
+        tolerance: { type: Type.NUMBER }
+    },
+    required: ["value"]
+};
+
+const translationSchema = {
+    type: Type.OBJECT,
+    description: "Only for bilingual papers: the same question in the second language.",
+    properties: {
+        questionText: { type: Type.STRING },
+        options: { description: "Same format and order as the main question's options." },
+        answer: { type: Type.STRING },
+        subQuestions: {
+            type: Type.ARRAY,
+            items: { type: Type.OBJECT, properties: { questionText: { type: Type.STRING }, answer: { type: Type.STRING } } }
+        },
+        alternative: {
+            type: Type.OBJECT,
+            properties: { questionText: { type: Type.STRING }, options: { description: "Same format as the alternative's options." }, answer: { type: Type.STRING } }
+        }
+    },
+    required: ["questionText"]
+};
+
+const questionArraySchema = {
+    type: Type.ARRAY,
+    items: {
+        type: Type.OBJECT,
+        properties: {
+            type: { type: Type.STRING },
+            questionText: { type: Type.STRING },
+            options: { description: "Array of strings for MCQ, or {columnA:[], columnB:[]} for Matching." },
+            answer: { type: Type.STRING },
+            marks: { type: Type.NUMBER },
+            difficulty: { type: Type.STRING },
+            taxonomy: { type: Type.STRING },
+            unit: { type: Type.STRING },
+            syllabusNodeId: { type: Type.STRING, description: "Id of the most specific syllabus topic the question tests." },
+            assertion: { type: Type.STRING, description: "Only for Assertion-Reason questions." },
+            reason: { type: Type.STRING, description: "Only for Assertion-Reason questions." },
+            numericAnswer: numericAnswerSchema,
+            subQuestions: subQuestionSchema,
+            markingScheme: markingSchemeSchema,
+            translation: translationSchema,
+            source: {
+                type: Type.OBJECT,
+                description: "Only when source material is given: where in it the question comes from.",
+                properties: {
+                    documentName: { type: Type.STRING },
+                    section: { type: Type.STRING },
+                    pages: { type: Type.STRING },
+                    excerpt: { type: Type.STRING, description: "The passage the question is based on, quoted word for word." }
+                }
+            },
+            alternative: {
+                type: Type.OBJECT,
+                description: "Only for internal choice questions: the 'OR' question, same type and marks.",
+                properties: {
+                    questionText: { type: Type.STRING },
+                    options: { description: "Same format as the main question's options." },
+                    answer: { type: Type.STRING },
+                    numericAnswer: numericAnswerSchema,
+                    subQuestions: subQuestionSchema,
+                    markingScheme: markingSchemeSchema
+                },
+                required: ["questionText", "answer"]
+            }
+        },
+        required: ["type", "questionText", "marks", "answer"]
+    }
+};
+
+const hasSourceMaterial = (formData: FormData) =>
+    !!(formData.sourceMaterials?.trim() || formData.sourceChunks?.length || formData.sourceFiles?.length);
+
+const SOURCE_USE_RULES: Record<FormData['sourceMode'], string> = {
+    strict: 'Every question AND its answer MUST come from the source material alone. Do NOT use outside knowledge.',
+    reference: 'Base the questions primarily on the source material; other questions on the listed topics are allowed.',
+};
+
+const buildPaperPrompt = (formData: FormData, distribution: QuestionDistributionItem[], repairNote?: string, sourceExcerpts?: string) => {
+    const { className, subject, topics, syllabusTopics, totalMarks, language, secondaryLanguage, timeAllowed, sourceMaterials, sourceMode } = formData;
+    const mix = distribution.map(({ type, count, marks, difficulty, taxonomy, unit, internalChoices }) => ({ type, count, marks, difficulty, taxonomy, unit, internalChoices }));
+    return `
 You are a Senior Academic Examiner. Your task is to generate a high-quality, professional examination paper in JSON format.
 
 **CORE LANGUAGE REQUIREMENT:**
 - Generate the ENTIRE assessment (questions, options, matches, solutions) strictly in: **${language}**.
 - Use formal academic tone and precise subject terminology appropriate for ${className}.
-
+${secondaryLanguage ? `- **BILINGUAL:** Also give every question a "translation" object in **${secondaryLanguage}** with the same fields (questionText, options, answer, subQuestions, alternative) in the same order. Every LaTeX formula in the translation MUST be identical to the one in the ${language} text.
+` : ''}
 **MATHEMATICAL & SCIENTIFIC FORMATTING (CRITICAL):**
 1. **LATEX FOR ALL MATH:** Use professional LaTeX for ALL formulas, equations, variables ($x$), symbols (multiplication $\\times$, division $\\div$, plus/minus $\\pm$, etc.), and units ($kg \\cdot m/s^2$).
 2. **ESCAPING:** You MUST use DOUBLE BACKSLASHES (e.g., \\\\times, \\\\frac{a}{b}) for all LaTeX commands within JSON strings.
@@ -82,206 +171,637 @@ You are a Senior Academic Examiner. Your task is to generate a high-quality, pro
 - **NO NUMBERING:** DO NOT include any numbering prefixes like "1.", "Q1", "a)", "(i)", "Column A:" inside the strings.
 - **Multiple Choice:** Return exactly 4 options as a plain array of strings.
 - **Match the Following:** Return an object for 'options': {"columnA": ["Item 1", "Item 2"...], "columnB": ["Match for 2", "Match for 1"...]}. Column B MUST be shuffled.
+- **Assertion-Reason:** Put the statements in "assertion" and "reason". "options" MUST be exactly these four, in this order: ${JSON.stringify(ASSERTION_REASON_OPTIONS)}. "answer" is the letter of the correct option, e.g. "(a)".
+- **Case-Based:** "questionText" holds the case study or passage (80-200 words). Ask at least 2 questions on it in "subQuestions", with part marks adding up to the question's marks.
+- **Numerical:** Give the final result in "numericAnswer" ({"value": number, "unit": string, "tolerance": number}) and the worked solution in "answer".
+- **One Word:** "answer" MUST be a single word or a short term, with no explanation.
 - **Answer Key:** The "answer" field must contain a detailed model solution or the correct choice.
-
+- **Marking Scheme:** For ${MARKING_SCHEME_TYPES.join(', ')} questions, give a "markingScheme": the steps an examiner awards marks for, as [{"description", "marks"}] (e.g. {"description": "Correct formula", "marks": 1}, {"description": "Substitution", "marks": 1}, {"description": "Final answer with unit", "marks": 1}). The points MUST add up EXACTLY to the question's marks. Questions with "subQuestions" give each part its own "markingScheme" adding up to that part's marks instead.
+- **Types:** The "type" field MUST be exactly one of: ${Object.values(QuestionType).map(t => `"${t}"`).join(', ')}. "difficulty" MUST be one of: ${Object.values(Difficulty).join(', ')}. "taxonomy" MUST be one of: ${Object.values(Taxonomy).join(', ')}.
+- **Counts:** Produce EXACTLY the number of questions listed for each entry in the mix, with exactly the marks given.
+- **Internal Choice:** When a mix entry has "internalChoices": N, exactly N of its questions MUST include an "alternative" object ({"questionText", "options", "answer"}) holding an equally difficult OR-question of the same type and marks. Other questions MUST NOT include "alternative".
+- **Sub-parts:** Long Answer questions (and other questions worth 4 or more marks) MAY be split into 2-4 parts in "subQuestions" ([{"questionText", "marks", "answer", "taxonomy"}]). Put the shared context in the question's "questionText", do NOT letter the parts yourself, and make the part marks add up EXACTLY to the question's marks.
+- **Units:** When a mix entry names a "unit", its questions MUST come only from that unit/chapter and repeat it in the "unit" field.
+${syllabusTopics?.length ? `- **Syllabus:** Questions MUST come only from these syllabus topics. Set "syllabusNodeId" to the "id" of the most specific topic each question tests: ${JSON.stringify(syllabusTopics)}
+` : ''}
 **PAPER PARAMETERS:**
 Subject: ${subject} | Grade: ${className} | Topics: ${topics} | Total Marks: ${totalMarks} | Time: ${timeAllowed}
-Mix: ${JSON.stringify(questionDistribution)}
+Mix: ${JSON.stringify(mix)}
 ${sourceMaterials ? `Context: ${sourceMaterials}` : ''}
-
+${sourceExcerpts ? `\n**SOURCE EXCERPTS** (from the teacher's uploaded material):\n${sourceExcerpts}\n` : ''}${hasSourceMaterial(formData) ? `
+**SOURCE USE:** ${SOURCE_USE_RULES[sourceMode === 'strict' ? 'strict' : 'reference']}
+- Give every question taken from the source a "source" object ({"documentName", "section", "pages", "excerpt"}). "excerpt" MUST be copied word for word from the material (one or two sentences, at most 40 words): the passage the question and its answer rest on.
+` : ''}
+${repairNote ? `\n**NOTE:** ${repairNote}\n` : ''}
 Return only a valid JSON array of question objects.
 `;
+};
 
-    try {
-        const parts: Part[] = [{ text: finalPrompt }];
-        if (sourceFiles) {
-            for (const file of sourceFiles) {
-                parts.push({ inlineData: { data: file.data, mimeType: file.mimeType } });
-            }
+const sourceAttachments = (formData: FormData): AIAttachment[] =>
+    (formData.sourceFiles || []).map(file => ({ data: file.data, mimeType: file.mimeType }));
+
+// Only the chunks relevant to a section go out, so large textbooks don't swamp the prompt.
+const sectionSourceChunks = (formData: FormData, distribution: QuestionDistributionItem[]) => {
+    const sectionIndex = Math.max(formData.questionDistribution.findIndex(d => d.id === distribution[0]?.id), 0);
+    return selectSourceChunks(formData.sourceChunks || [], distribution, formData.topics, sectionIndex);
+};
+
+const requestQuestions = async (formData: FormData, distribution: QuestionDistributionItem[], repairNote?: string, signal?: AbortSignal): Promise<unknown> => {
+    const attachments = sourceAttachments(formData);
+    const sourceChunks = sectionSourceChunks(formData, distribution);
+    return getAIProvider().generateJson({
+        task: 'questions',
+        prompt: buildPaperPrompt(formData, distribution, repairNote, sourceChunks.length ? formatSourceChunks(sourceChunks) : undefined),
+        attachments,
+        schema: questionArraySchema,
+        tier: formData.modelQuality === 'pro' ? 'pro' : 'fast',
+        context: { distribution, subject: formData.subject, topics: formData.topics, syllabusTopics: formData.syllabusTopics, language: formData.language },
+        signal,
+    });
+};
+
+const translatedArraySchema = {
+    type: Type.ARRAY,
+    items: {
+        ...translationSchema,
+        properties: {
+            index: { type: Type.INTEGER },
+            ...translationSchema.properties,
+            alternatives: { type: Type.ARRAY, items: translationSchema.properties.alternative }
+        },
+        required: ["index", "questionText"]
+    }
+};
+
+/** Sends `questions` to the translate task and attaches whatever came back cleanly. */
+const requestTranslations = async (questions: Question[], fromLanguage: string, toLanguage: string, purpose: string, signal?: AbortSignal) => {
+    const source = questions.map((q, index) => ({
+        index,
+        questionText: q.questionText,
+        options: q.options,
+        answer: typeof q.answer === 'string' ? q.answer : undefined,
+        subQuestions: q.subQuestions?.map(({ questionText, answer }) => ({ questionText, answer })),
+        alternatives: q.alternatives?.map(({ questionText, options, answer, subQuestions }) => ({
+            questionText, options, answer, subQuestions: subQuestions?.map(part => ({ questionText: part.questionText, answer: part.answer })),
+        })),
+    }));
+    const prompt = `Translate these exam questions from ${fromLanguage} to ${toLanguage} ${purpose}.
+- Keep every LaTeX formula ($...$) exactly as it is; translate only the words around it.
+- Keep options, parts and alternatives in the same order and count.
+- Use the formal academic register and standard subject terminology of ${toLanguage}.
+Return a JSON array with one object per question, carrying the same "index".
+
+Questions: ${JSON.stringify(source)}`;
+
+    const raw = await getAIProvider().generateJson({
+        task: 'translate',
+        prompt,
+        schema: translatedArraySchema,
+        tier: 'fast',
+        context: { questions: source, language: toLanguage },
+        signal,
+    });
+    return attachTranslations(questions, raw);
+};
+
+/**
+ * Fills in the second-language text of questions that do not have it yet.
+ * Questions the model could not translate cleanly are returned unchanged,
+ * with the reason recorded in `fixes`.
+ */
+export const translateQuestions = async (questions: Question[], fromLanguage: string, toLanguage: string, signal?: AbortSignal): Promise<{ questions: Question[]; fixes: ValidationFix[] }> => {
+    const pending = questions.filter(q => !q.translation);
+    if (pending.length === 0) return { questions, fixes: [] };
+
+    const translated = await requestTranslations(pending, fromLanguage, toLanguage, 'for a bilingual question paper', signal);
+    const missing = translated.questions.filter(q => !q.translation).length;
+    if (missing > 0) {
+        translated.fixes.push({ field: 'translation', message: `${missing} question(s) could not be translated into ${toLanguage}.` });
+    }
+    return {
+        questions: questions.map(q => q.translation ? q : translated.questions[pending.indexOf(q)]),
+        fixes: translated.fixes,
+    };
+};
+
+type TranslatableFields = Pick<Question, 'questionText' | 'options' | 'answer' | 'subQuestions'>;
+
+/** Match answers are keyed by column A and point at column B, so both sides follow the translated columns. */
+const translateMatchAnswer = (answer: Record<string, string>, from: Question['options'], to: QuestionTranslation['options']): Record<string, string> => {
+    if (!from || Array.isArray(from) || !to || Array.isArray(to)) return answer;
+    const swap = (value: string, source: string[], target: string[]) => {
+        const index = source.findIndex(item => item.trim().toLowerCase() === value.trim().toLowerCase());
+        return index > -1 ? target[index] : value;
+    };
+    return Object.fromEntries(Object.entries(answer).map(([key, value]) => [swap(key, from.columnA, to.columnA), swap(value, from.columnB, to.columnB)]));
+};
+
+/** Replaces the primary-language fields of a question body with its translation. */
+const applyTranslation = <T extends TranslatableFields>(body: T, translation: QuestionTranslation): T => ({
+    ...body,
+    questionText: translation.questionText,
+    options: translation.options ?? body.options,
+    answer: typeof body.answer === 'string'
+        ? translation.answer ?? body.answer
+        : translateMatchAnswer(body.answer, body.options, translation.options),
+    subQuestions: body.subQuestions?.map((part, i) => ({
+        ...part,
+        questionText: translation.subQuestions?.[i]?.questionText ?? part.questionText,
+        answer: translation.subQuestions?.[i]?.answer ?? part.answer,
+    })),
+});
+
+export interface PaperTranslationResult {
+    paper: QuestionPaperData;
+    /** Numbers of the questions that were kept in the original language. */
+    untranslated: number[];
+}
+
+/**
+ * Translates a whole paper into `targetLanguage` as a new, unsaved paper linked
+ * back to the original. Numbering, marks and formulas are left untouched.
+ */
+export const translatePaper = async (paper: QuestionPaperData, targetLanguage: string, signal?: AbortSignal): Promise<PaperTranslationResult> => {
+    // A bilingual paper's existing translation is for another language, so translate from the primary text only.
+    const source = paper.questions.map(q => ({ ...q, translation: undefined }));
+    const translated = await requestTranslations(source, paper.language || 'English', targetLanguage, 'as a standalone question paper', signal);
+
+    const untranslated: number[] = [];
+    const questions = translated.questions.map(q => {
+        const { translation, ...question } = q;
+        if (!translation) {
+            untranslated.push(q.questionNumber);
+            return question;
         }
+        const body = applyTranslation(question, translation);
+        return {
+            ...body,
+            alternatives: question.alternatives?.map((alt, i) => {
+                const altTranslation = translation.alternatives?.[i];
+                return altTranslation ? applyTranslation(alt, altTranslation) : alt;
+            }),
+        };
+    });
 
-        const response = await ai.models.generateContent({
-            model: modelToUse,
-            contents: { parts },
-            config: { 
-                responseMimeType: "application/json",
-                responseSchema: {
-                    type: Type.ARRAY,
-                    items: {
-                        type: Type.OBJECT,
-                        properties: {
-                            type: { type: Type.STRING },
-                            questionText: { type: Type.STRING },
-                            options: { description: "Array of strings for MCQ, or {columnA:[], columnB:[]} for Matching." },
-                            answer: { type: Type.STRING },
-                            marks: { type: Type.NUMBER },
-                            difficulty: { type: Type.STRING },
-                            taxonomy: { type: Type.STRING }
-                        },
-                        required: ["type", "questionText", "marks", "answer"]
-                    }
-                }
+    const result: QuestionPaperData = {
+        ...paper,
+        id: `paper-${Date.now()}`,
+        questions,
+        language: targetLanguage,
+        secondaryLanguage: undefined,
+        bilingualLayout: undefined,
+        parentPaperId: undefined,
+        setLabel: undefined,
+        translatedFromId: paper.id,
+        review: undefined,
+        createdAt: new Date().toISOString(),
+    };
+    const logoConfig = paper.schoolLogo ? { src: paper.schoolLogo, alignment: 'center' as const } : undefined;
+    result.htmlContent = generateHtmlFromPaperData(result, { logoConfig });
+    return { paper: result, untranslated };
+};
+
+const sourceCheckSchema = {
+    type: Type.ARRAY,
+    items: {
+        type: Type.OBJECT,
+        properties: {
+            index: { type: Type.INTEGER },
+            grounded: { type: Type.BOOLEAN },
+            excerpt: { type: Type.STRING },
+            reason: { type: Type.STRING }
+        },
+        required: ["index", "grounded"]
+    }
+};
+
+/** One verdict as the model returned it; every field is checked before use. */
+interface SourceCheck {
+    index: unknown;
+    grounded?: unknown;
+    excerpt?: unknown;
+    reason?: unknown;
+}
+
+const buildSourceCheckPrompt = (items: { index: number; question: Question }[], material: SourceChunk[]) => `You are checking exam questions against the teacher's source material.
+For each question, decide whether the question AND its answer are fully supported by the source material (the text below and any attached files), without outside knowledge.
+- Supported: "grounded": true, and "excerpt" holds the supporting passage quoted word for word (at most 40 words).
+- Not supported: "grounded": false, and "reason" says in one sentence what is missing from the source.
+Return a JSON array with one {"index", "grounded", "excerpt", "reason"} object per question.
+
+**SOURCE MATERIAL:**
+${material.length ? formatSourceChunks(material) : '(see the attached files)'}
+
+**QUESTIONS:**
+${JSON.stringify(items.map(({ index, question }) => ({
+    index,
+    questionText: question.questionText,
+    options: question.options,
+    answer: question.answer,
+    subQuestions: question.subQuestions?.map(({ questionText, answer }) => ({ questionText, answer })),
+})))}`;
+
+/**
+ * Attaches source citations to a section's questions. A quoted excerpt found in
+ * the extracted text is cited as it is. In strict mode every other question is
+ * checked by the model against the same material, and questions it cannot
+ * ground get a `sourceFlag` the teacher has to resolve.
+ */
+const groundInSource = async (questions: Question[], formData: FormData, distribution: QuestionDistributionItem[], signal?: AbortSignal): Promise<{ questions: Question[]; fixes: ValidationFix[] }> => {
+    const pasted = formData.sourceMaterials?.trim();
+    const material: SourceChunk[] = [
+        ...sectionSourceChunks(formData, distribution),
+        ...(pasted ? [{ id: 'pasted-source', documentName: 'Pasted material', title: 'Pasted material', text: pasted }] : []),
+    ];
+    const cite = (question: Question, excerpt: string | undefined): Question | null => {
+        const chunk = excerpt ? locateExcerpt(excerpt, material) : null;
+        return chunk ? { ...question, source: citationFromChunk(chunk, excerpt!) } : null;
+    };
+
+    const located = questions.map(q => cite(q, q.source?.excerpt));
+    const cited = located.map((q, i) => q ?? questions[i]);
+    const pending = cited.map((_, i) => i).filter(i => !located[i]);
+    if (formData.sourceMode !== 'strict' || pending.length === 0) return { questions: cited, fixes: [] };
+
+    const attachments = sourceAttachments(formData);
+    const flag = (index: number, reason: string) => {
+        cited[index] = { ...cited[index], sourceFlag: { reason } };
+    };
+    try {
+        const raw = await getAIProvider().generateJson({
+            task: 'verifySources',
+            prompt: buildSourceCheckPrompt(pending.map(index => ({ index, question: cited[index] })), material),
+            attachments,
+            schema: sourceCheckSchema,
+            tier: 'fast',
+            context: { questions: pending.map(index => ({ index, questionText: cited[index].questionText })), material: material.map(c => c.text) },
+            signal,
+        });
+        const checks = new Map((Array.isArray(raw) ? raw : [])
+            .filter((c): c is SourceCheck => !!c && typeof c === 'object')
+            .map(c => [Number(c.index), c]));
+        pending.forEach(index => {
+            const check = checks.get(index);
+            if (!check) return flag(index, 'The source check returned no verdict for this question.');
+            if (check.grounded !== true) {
+                return flag(index, typeof check.reason === 'string' && check.reason.trim() ? check.reason.trim() : 'Not supported by the source material.');
             }
+            const excerpt = typeof check.excerpt === 'string' ? check.excerpt.trim() : '';
+            const grounded = cite(cited[index], excerpt);
+            if (grounded) cited[index] = grounded;
+            // Attached files cannot be searched here, so a quote from them is taken on trust.
+            else if (excerpt && attachments.length > 0) cited[index] = { ...cited[index], source: { ...cited[index].source, excerpt } };
+            else flag(index, 'The passage quoted as support could not be found in the source text.');
         });
+    } catch (error) {
+        if (signal?.aborted) throw error;
+        console.warn('Source check failed:', error);
+        pending.forEach(index => flag(index, `The source check could not run: ${toAIError(error).message}`));
+    }
+
+    const flagged = cited.filter(q => q.sourceFlag).length;
+    return {
+        questions: cited,
+        fixes: flagged > 0 ? [{ field: 'source', message: `${flagged} question(s) could not be grounded in the source material.` }] : [],
+    };
+};
 
-        const generatedQuestionsRaw = parseAiJson(response.text as string);
-        
-        if (!Array.isArray(generatedQuestionsRaw) || generatedQuestionsRaw.length === 0) {
-            throw new Error("AI failed to produce content for the paper.");
+/**
+ * Generates and validates the questions for one distribution item. Missing or
+ * invalid questions are re-requested up to `MAX_REPAIR_ATTEMPTS` times.
+ */
+export const generateSectionQuestions = async (formData: FormData, item: QuestionDistributionItem, signal?: AbortSignal): Promise<SectionResult> => {
+    const distribution = [item];
+    try {
+        const raw = await requestQuestions(formData, distribution, undefined, signal);
+        let assignment = assignToDistribution(raw, distribution);
+        let repairAttempts = 0;
+        let repairedCount = 0;
+
+        // Re-ask only for the slots that came back missing or invalid.
+        while (assignment.missing.length > 0 && repairAttempts < MAX_REPAIR_ATTEMPTS) {
+            repairAttempts++;
+            const missing = assignment.missing;
+            const note = 'Some questions were missing or invalid in an earlier attempt. Generate ONLY the questions in this mix, and make them different from typical textbook examples already used.';
+            try {
+                const repairRaw = await requestQuestions(formData, missing, note, signal);
+                const repair = assignToDistribution(repairRaw, missing);
+                repairedCount += Object.values(repair.slots).reduce((acc, qs) => acc + qs.length, 0);
+                assignment = mergeAssignments(assignment, repair);
+            } catch (repairError) {
+                if (signal?.aborted) throw repairError;
+                console.warn(`Repair attempt ${repairAttempts} failed:`, repairError);
+            }
         }
 
-        const processedQuestions: Question[] = generatedQuestionsRaw.map((q, index) => ({
-            ...q,
-            options: q.options || null,
-            answer: q.answer || '',
-            questionNumber: index + 1
-        }));
-
-        const paperId = `paper-${Date.now()}`;
-        const structuredPaperData: QuestionPaperData = {
-            id: paperId, schoolName, className, subject, totalMarks: String(totalMarks),
-            timeAllowed, questions: processedQuestions, htmlContent: '', createdAt: new Date().toISOString(),
-        };
-        
-        structuredPaperData.htmlContent = generateHtmlFromPaperData(structuredPaperData);
-        return structuredPaperData;
+        const result = toSectionResult(assignment, distribution, repairAttempts, repairedCount);
+        if (result.questions.length === 0) {
+            throw new InvalidResponseError(`AI failed to produce ${item.type} questions.`);
+        }
+        if (formData.syllabusTopics?.length) {
+            const tagged = tagSyllabusNodes(result.questions, formData.syllabusTopics);
+            result.questions = tagged.questions;
+            result.fixes = [...result.fixes, ...tagged.fixes];
+        }
+        if (hasSourceMaterial(formData)) {
+            const grounded = await groundInSource(result.questions, formData, distribution, signal);
+            result.questions = grounded.questions;
+            result.fixes = [...result.fixes, ...grounded.fixes];
+        }
+        // Bilingual papers: translate whatever came back without a second-language version.
+        if (formData.secondaryLanguage) {
+            try {
+                const translated = await translateQuestions(result.questions, formData.language, formData.secondaryLanguage, signal);
+                result.questions = translated.questions;
+                result.fixes = [...result.fixes, ...translated.fixes];
+            } catch (translationError) {
+                if (signal?.aborted) throw translationError;
+                console.warn('Translation failed:', translationError);
+                result.fixes = [...result.fixes, { field: 'translation', message: `Questions could not be translated into ${formData.secondaryLanguage}.` }];
+            }
+        }
+        return result;
     } catch (error) {
-        handleApiError(error, "generateQuestionPaper");
-        throw error;
+        if (signal?.aborted) throw error;
+        return handleApiError(error, "generateSectionQuestions");
     }
 };
 
-// Fix: Implemented and exported `generateChatResponseStream` to resolve the missing member error.
-export const generateChatResponseStream = async (
-    chat: Chat,
-    messageParts: Part[],
-    useSearch: boolean,
-    useThinking: boolean
-) => {
-    // If no special config is needed, use the efficient, history-aware method.
-    if (!useSearch && !useThinking) {
-        return chat.sendMessageStream(messageParts);
+/** Builds a paper from whichever sections have finished, numbered in distribution order. */
+export const assemblePaperFromSections = (
+    formData: FormData,
+    sections: SectionGenerationState[],
+    base?: Pick<QuestionPaperData, 'id' | 'createdAt' | 'instructions'>,
+): QuestionPaperData => {
+    const { schoolName, className, subject, topics, syllabusId, syllabusTopics, sourceChunks, sourceMode, language, secondaryLanguage, bilingualLayout, templateId, sections: paperSections, questionDistribution, totalMarks, timeAllowed } = formData;
+    const results = sections.map(s => s.result).filter((r): r is SectionResult => !!r);
+    const questions: Question[] = results
+        .flatMap(r => r.questions)
+        .map((q, index) => ({ ...q, questionNumber: index + 1 }));
+
+    const paper: QuestionPaperData = {
+        id: base?.id ?? `paper-${Date.now()}`,
+        schoolName, className, subject, totalMarks: String(totalMarks),
+        timeAllowed, topics, syllabusId, syllabusTopics, sourceReferences: sourceReferencesFor(sourceChunks),
+        sourceMode: hasSourceMaterial(formData) ? sourceMode : undefined, language, blueprint: formData.blueprint, questions,
+        secondaryLanguage, bilingualLayout: secondaryLanguage ? bilingualLayout ?? 'interleaved' : undefined, templateId, sections: paperSections, htmlContent: '', createdAt: base?.createdAt ?? new Date().toISOString(),
+        validationReport: buildValidationReport(questionDistribution, results, totalMarks),
+        instructions: base?.instructions,
+    };
+    paper.htmlContent = generateHtmlFromPaperData(paper);
+    return paper;
+};
+
+export const generateQuestionPaper = async (formData: FormData): Promise<QuestionPaperData> => {
+    const sections: SectionGenerationState[] = [];
+    for (const item of formData.questionDistribution) {
+        sections.push({ item, status: 'done', result: await generateSectionQuestions(formData, item) });
     }
+    return assemblePaperFromSections(formData, sections);
+};
 
-    // For dynamic configs (search/thinking), a one-off `generateContentStream` call is necessary.
-    // Note: This approach uses the chat history but doesn't automatically update the original Chat object state.
-    if (!process.env.API_KEY) throw new Error("API_KEY is not configured.");
-    const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
-
-    const config: GenerateContentConfig = { systemInstruction };
-    let model = 'gemini-flash-lite-latest'; // Default model from chat
-
-    if (useSearch) {
-        // As per guidelines, googleSearch is a standalone tool and requires a compatible model.
-        config.tools = [{ googleSearch: {} }];
-        model = 'gemini-3-flash-preview';
-    } else {
-        // Retain the function calling tool for non-search queries.
-        config.tools = [{ functionDeclarations: [generatePaperFunctionDeclaration] }];
+export const generateTextToSpeech = async (text: string): Promise<string> => {
+    try {
+        return await getAIProvider().generateSpeech(text);
+    } catch (error) {
+        return handleApiError(error, "generateTextToSpeech");
     }
+};
 
-    if (useThinking) {
-        // Using a safe budget for flash models.
-        config.thinkingConfig = { thinkingBudget: 24576 };
+
+export const generateImage = async (prompt: string, aspectRatio: string = '1:1'): Promise<string> => {
+    try {
+        return await getAIProvider().generateImage(prompt, aspectRatio);
+    } catch (error) {
+        return handleApiError(error, "generateImage");
     }
+};
+
+const buildEditorInstruction = (paperData: QuestionPaperData) => `You are an expert academic editor.
+            PAPER: ${paperData.subject} for ${paperData.className}${paperData.topics ? ` | Topics: ${paperData.topics}` : ''}.
+            STRICT MATH: Use professional LaTeX with double backslashes inside JSON. 
+            NO REDUNDANT NUMBERING: The system handles all layout numbering. 
+            ${paperData.language ? `Write strictly in ${paperData.language}.` : "Preserve the paper's original language strictly."}`;
 
-    const contents = [...chat.history, { role: 'user', parts: messageParts }];
+const DIFFICULTY_STEPS = [Difficulty.Easy, Difficulty.Medium, Difficulty.Hard];
 
-    return ai.models.generateContentStream({
-        model,
-        contents,
-        config,
-    });
+const REFINE_INSTRUCTIONS: Record<QuestionRefineAction, string> = {
+    regenerate: 'Write a completely different question that tests the same part of the syllabus.',
+    simplify: 'Rewrite the question so it is easier: simpler wording, fewer steps, more direct.',
+    harder: 'Rewrite the question so it is more demanding: more steps, deeper reasoning, less obvious distractors.',
+    taxonomy: 'Rewrite the question so it targets the requested Bloom\'s taxonomy level.',
 };
 
-// Fix: Implemented and exported `generateTextToSpeech` to resolve the missing member error.
-export const generateTextToSpeech = async (text: string): Promise<string> => {
-    if (!process.env.API_KEY) throw new Error("API_KEY is not configured.");
-    const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
+/**
+ * Regenerates or rewrites one question of an existing paper. The replacement is
+ * validated like generated papers are and keeps the original number and marks.
+ * `avoid` lists earlier questions the replacement must not repeat.
+ */
+export const refineQuestion = async (paperData: QuestionPaperData, question: Question, action: QuestionRefineAction, taxonomy?: Taxonomy, avoid: string[] = []): Promise<Question> => {
+    const step = DIFFICULTY_STEPS.indexOf(question.difficulty);
+    const difficulty = action === 'simplify' ? DIFFICULTY_STEPS[Math.max(step - 1, 0)]
+        : action === 'harder' ? DIFFICULTY_STEPS[Math.min(step + 1, DIFFICULTY_STEPS.length - 1)]
+        : question.difficulty;
+    const target: QuestionDistributionItem = {
+        id: `refine-${question.questionNumber}`,
+        type: question.type,
+        count: 1,
+        marks: question.marks,
+        difficulty,
+        taxonomy: action === 'taxonomy' && taxonomy ? taxonomy : question.taxonomy,
+        unit: question.unit,
+        internalChoices: question.alternatives?.length ? 1 : 0,
+    };
+    const { questionNumber, styles, sourceFlag, ...current } = question;
+    const isStrictSource = paperData.sourceMode === 'strict';
+
+    const prompt = `${buildEditorInstruction(paperData)}
+
+**TASK:** ${REFINE_INSTRUCTIONS[action]}
+Current question: ${JSON.stringify(current)}
+Target: type "${target.type}", ${target.marks} marks, difficulty ${target.difficulty}, taxonomy ${target.taxonomy}.
+Keep the same question type and answer format. Return a JSON array containing exactly ONE question object.${isStrictSource && question.source?.excerpt ? `
+The question and its answer MUST come only from this source passage; repeat it in "source": ${JSON.stringify(question.source)}` : ''}${avoid.length ? `
+Do NOT reuse or closely paraphrase any of these earlier questions: ${JSON.stringify(avoid)}` : ''}`;
+
     try {
-        const response = await ai.models.generateContent({
-            model: "gemini-2.5-flash-preview-tts",
-            contents: [{ parts: [{ text }] }],
-            config: {
-                responseModalities: [Modality.AUDIO],
-                speechConfig: {
-                    voiceConfig: {
-                        // Using a standard, pleasant voice.
-                        prebuiltVoiceConfig: { voiceName: 'Kore' },
-                    },
-                },
-            },
+        const raw = await getAIProvider().generateJson({
+            task: 'refine',
+            prompt,
+            schema: questionArraySchema,
+            tier: 'fast',
+            context: { target, questionNumber, subject: paperData.subject, topics: paperData.topics || '' },
         });
-
-        const base64Audio = response.candidates?.[0]?.content?.parts?.[0]?.inlineData?.data;
-
-        if (!base64Audio) {
-            throw new Error("AI did not return any audio data.");
+        let [replacement] = assignToDistribution(raw, [target]).slots[target.id] || [];
+        if (!replacement) {
+            throw new InvalidResponseError("AI did not return a usable replacement question.");
         }
-        return base64Audio;
+        if (paperData.secondaryLanguage && !replacement.translation) {
+            [replacement] = (await translateQuestions([replacement], paperData.language || 'English', paperData.secondaryLanguage)).questions;
+        }
+        // The source text is not kept with the paper, so strict-mode replacements go back to the teacher to check.
+        const source = replacement.source ?? (action === 'regenerate' ? undefined : question.source);
+        return {
+            ...replacement, questionNumber, marks: question.marks, syllabusNodeId: question.syllabusNodeId, source, styles,
+            sourceFlag: isStrictSource ? { reason: 'Rewritten after the source check; confirm it still comes from the source material.' } : undefined,
+        };
     } catch (error) {
-        handleApiError(error, "generateTextToSpeech");
-        throw error;
+        return handleApiError(error, "refineQuestion");
     }
 };
 
+const reviewSchema = {
+    type: Type.OBJECT,
+    properties: {
+        summary: { type: Type.STRING },
+        issues: {
+            type: Type.ARRAY,
+            items: {
+                type: Type.OBJECT,
+                properties: {
+                    questionNumber: { type: Type.INTEGER },
+                    category: { type: Type.STRING, enum: ['ambiguity', 'multipleCorrect', 'wrongAnswer', 'outOfSyllabus', 'vocabulary', 'other'] },
+                    severity: { type: Type.STRING, enum: ['high', 'medium', 'low'] },
+                    message: { type: Type.STRING },
+                    suggestion: { type: Type.STRING },
+                    fix: {
+                        type: Type.OBJECT,
+                        properties: {
+                            questionText: { type: Type.STRING },
+                            options: { type: Type.ARRAY, items: { type: Type.STRING } },
+                            answer: { type: Type.STRING }
+                        }
+                    }
+                },
+                required: ["questionNumber", "category", "severity", "message"]
+            }
+        }
+    },
+    required: ["issues"]
+};
+
+const buildReviewPrompt = (paperData: QuestionPaperData, questions: Question[]) => `You are a senior teacher reviewing an exam paper before it is printed.
+PAPER: ${paperData.subject} for ${paperData.className}.
+SYLLABUS: ${paperData.syllabusTopics?.length ? paperData.syllabusTopics.map(t => t.path).join('; ') : paperData.topics || 'not specified'}
+
+Check every question for:
+- "ambiguity": wording a student could reasonably read two ways, or missing information.
+- "multipleCorrect": an MCQ with more than one defensible option.
+- "wrongAnswer": an answer that is incorrect or incomplete.
+- "outOfSyllabus": content outside the syllabus above.
+- "vocabulary": words or sentences too hard for ${paperData.className} students.
+Severity: "high" when a student could lose marks unfairly, "medium" when it should be fixed before printing, "low" for polish.
+Report only real problems; a good question gets no issue. For each issue give "message" (the problem in one sentence) and "suggestion" (what to change).
+When a concrete rewrite fixes it, add "fix" with only the fields that change: "questionText", "options" (the full list, MCQs only) or "answer" (must match one of the options for MCQs). Keep LaTeX with double backslashes.
+Return {"summary": one or two sentences on the paper overall, "issues": [...]}, using the question numbers below.
+
+**QUESTIONS:**
+${JSON.stringify(questions.map((q, i) => ({
+    questionNumber: i + 1,
+    type: q.type,
+    marks: q.marks,
+    questionText: q.questionText,
+    options: q.options,
+    answer: q.answer,
+    subQuestions: q.subQuestions?.map(({ questionText, answer }) => ({ questionText, answer })),
+    alternatives: q.alternatives?.map(({ questionText, options, answer }) => ({ questionText, options, answer })),
+})))}`;
 
-export const generateImage = async (prompt: string, aspectRatio: string = '1:1'): Promise<string> => {
-    if (!process.env.API_KEY) throw new Error("Internal Error Occurred");
-    const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
+/**
+ * Runs the automated reviewer over a paper. Issues refer to questions by their
+ * printed number and may carry a fix the teacher can accept in one click.
+ */
+export const reviewPaper = async (paperData: QuestionPaperData, signal?: AbortSignal): Promise<PaperReview> => {
+    const questions = orderQuestionsForLayout(paperData.questions, paperData.sections);
     try {
-        const response = await ai.models.generateContent({
-            model: 'gemini-3-pro-image-preview',
-            contents: prompt,
-            config: { imageConfig: { aspectRatio: aspectRatio as any, imageSize: "1K" } }
+        const raw = await getAIProvider().generateJson({
+            task: 'review',
+            prompt: buildReviewPrompt(paperData, questions),
+            schema: reviewSchema,
+            tier: 'pro',
+            context: { questions: questions.map((q, i) => ({ questionNumber: i + 1, type: q.type, questionText: q.questionText, options: q.options, answer: q.answer })) },
+            signal,
         });
-        for (const part of response.candidates![0].content.parts) {
-            if (part.inlineData) return `data:${part.inlineData.mimeType};base64,${part.inlineData.data}`;
-        }
-        throw new Error("Internal Error Occurred");
+        return normalizeReview(raw, paperData);
     } catch (error) {
-        handleApiError(error, "generateImage");
-        throw error;
+        return handleApiError(error, "reviewPaper");
     }
 };
 
-export const createEditingChat = (paperData: QuestionPaperData) => {
-    if (!process.env.API_KEY) throw new Error("Internal Error Occurred");
-    const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
-    return ai.chats.create({
-        model: "gemini-3-flash-preview",
-        config: {
-            systemInstruction: `You are an expert academic editor.
-            STRICT MATH: Use professional LaTeX with double backslashes inside JSON. 
-            NO REDUNDANT NUMBERING: The system handles all layout numbering. 
-            Preserve the paper's original language strictly.`
+const instructionsSchema = {
+    type: Type.OBJECT,
+    properties: {
+        general: { type: Type.ARRAY, items: { type: Type.STRING } },
+        sections: {
+            type: Type.ARRAY,
+            items: {
+                type: Type.OBJECT,
+                properties: {
+                    letter: { type: Type.STRING },
+                    instructions: { type: Type.ARRAY, items: { type: Type.STRING } }
+                },
+                required: ["letter", "instructions"]
+            }
         }
-    });
+    },
+    required: ["general", "sections"]
 };
 
-export const getAiEditResponse = async (chat: Chat, instruction: string) => {
-    const response = await chat.sendMessage({ message: instruction });
-    return { functionCalls: response.functionCalls || null, text: response.text || null };
+// A planned paper (FormData) or a finished one.
+type InstructionDetails = Pick<QuestionPaperData, 'subject' | 'className' | 'timeAllowed'> & { totalMarks: string | number };
+
+const buildInstructionsPrompt = (details: InstructionDetails, sections: InstructionSection[]) => `You are writing the printed instructions for a ${details.subject} exam paper for ${details.className}.
+Time allowed: ${details.timeAllowed}. Maximum marks: ${details.totalMarks}.
+
+SECTIONS:
+${sections.map(s => `- Section ${s.letter}, ${s.name}: ${s.count} question(s), marks ${s.breakdown}${s.internalChoices ? `, ${s.internalChoices} with an internal choice` : ''}`).join('\n')}
+
+Write "general": 4 to 7 short numbered-list lines for the "General Instructions" block, like a board exam paper: how many questions and sections there are, that all questions are compulsory, where internal choices are given, whether calculators and log tables are allowed for ${details.subject}, and anything else a student of ${details.className} must know.
+Write "sections": for each section letter, 1 or 2 short lines a student reads before that section (for example "Each question carries 1 mark." or "Answer in 30 to 50 words."). Use the exact counts and marks above.
+Plain sentences only: no numbering, no markdown.`;
+
+/**
+ * Drafts general and per-section instructions from a paper's sections, so it
+ * works from a planned distribution as well as from a finished paper.
+ */
+export const draftPaperInstructions = async (details: InstructionDetails, sections: InstructionSection[], signal?: AbortSignal): Promise<PaperInstructions> => {
+    try {
+        const raw = await getAIProvider().generateJson({
+            task: 'instructions',
+            prompt: buildInstructionsPrompt(details, sections),
+            schema: instructionsSchema,
+            context: { subject: details.subject, className: details.className, sections },
+            signal,
+        });
+        return normalizeInstructions(raw, sections);
+    } catch (error) {
+        return handleApiError(error, "draftPaperInstructions");
+    }
 };
 
 export const analyzePastedText = async (text: string): Promise<AnalysisResult> => {
-    if (!process.env.API_KEY) throw new Error("Internal Error Occurred");
-    const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
-    const response = await ai.models.generateContent({
-        model: "gemini-3-flash-preview",
-        contents: `Analyze this content into JSON for a question paper. Math MUST be LaTeX with DOUBLE backslashes. Text: ${text}`,
-        config: { responseMimeType: "application/json" }
-    });
-    return parseAiJson(response.text as string) as AnalysisResult;
+    try {
+        return await getAIProvider().generateJson({
+            task: 'analysis',
+            prompt: `Analyze this content into JSON for a question paper. Math MUST be LaTeX with DOUBLE backslashes. Text: ${text}`,
+            context: { text },
+        }) as AnalysisResult;
+    } catch (error) {
+        return handleApiError(error, "analyzePastedText");
+    }
 };
 
 export const analyzeHandwrittenImages = async (imageParts: Part[]): Promise<AnalysisResult> => {
-    if (!process.env.API_KEY) throw new Error("Internal Error Occurred");
-    const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
-    const response = await ai.models.generateContent({
-        model: "gemini-3-pro-preview",
-        contents: { parts: [...imageParts, { text: "Perform professional OCR and structure these questions into JSON. Use LaTeX with double backslashes for all math formulas." }] },
-        config: { responseMimeType: "application/json" }
-    });
-    return parseAiJson(response.text as string) as AnalysisResult;
-};
\ No newline at end of file
+    const attachments: AIAttachment[] = imageParts
+        .filter(part => part.inlineData?.data)
+        .map(part => ({ data: part.inlineData!.data!, mimeType: part.inlineData!.mimeType || 'image/jpeg' }));
+    try {
+        return await getAIProvider().generateJson({
+            task: 'analysis',
+            prompt: "Perform professional OCR and structure these questions into JSON. Use LaTeX with double backslashes for all math formulas.",
+            attachments,
+        }) as AnalysisResult;
+    } catch (error) {
+        return handleApiError(error, "analyzeHandwrittenImages");
+    }
+};
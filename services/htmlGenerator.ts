@@ -1,4 +1,69 @@
-import { type QuestionPaperData, type Question, QuestionType } from '../types';
+import { type QuestionPaperData, type PaperTemplate, type PaperSection, type Question, type SubQuestion, type MarkingPoint, type QuestionTranslation, type BilingualLayout, QuestionType, Taxonomy } from '../types';
+import { compareBlueprintWithPaper, type BlueprintCell } from './blueprint';
+import { formatNumericAnswer } from './paperValidator';
+import { renderMathInText } from './mathRenderer';
+import { resolvePaperTemplate, sanitizeTemplateCss, isSafeStyleValue } from './paperTemplates';
+
+// Order in which question types are grouped into sections on the printed paper.
+export const SECTION_ORDER = [
+    QuestionType.MultipleChoice,
+    QuestionType.AssertionReason,
+    QuestionType.FillInTheBlanks,
+    QuestionType.TrueFalse,
+    QuestionType.OneWord,
+    QuestionType.MatchTheFollowing,
+    QuestionType.Numerical,
+    QuestionType.ShortAnswer,
+    QuestionType.LongAnswer,
+    QuestionType.CaseBased
+];
+
+/** One printed section and what it holds, in printed order. */
+export interface LayoutSection<T> {
+    key: string; // the section's id, or the question type for type-grouped sections
+    name: string;
+    items: T[];
+}
+
+type SectionItem = { type: QuestionType; marks: number };
+
+const fitsSection = (item: SectionItem, section: PaperSection) =>
+    section.types.includes(item.type)
+    && (section.minMarks === undefined || item.marks >= section.minMarks)
+    && (section.maxMarks === undefined || item.marks <= section.maxMarks);
+
+/**
+ * Groups questions (or planned distribution rows) into the paper's sections.
+ * Each goes to the first section that fits it, ordered by the section's types;
+ * whatever no section takes, or everything when there are no sections, is
+ * grouped by type in `SECTION_ORDER` after them.
+ */
+export const groupIntoSections = <T extends SectionItem>(items: T[], sections: PaperSection[] = []): LayoutSection<T>[] => {
+    const remaining = new Set(items);
+    const take = (fits: (item: T) => boolean) => {
+        const taken = items.filter(item => remaining.has(item) && fits(item));
+        taken.forEach(item => remaining.delete(item));
+        return taken;
+    };
+    const defined = sections.map(section => ({
+        key: section.id,
+        name: section.name,
+        items: section.types.flatMap(type => take(item => item.type === type && fitsSection(item, section))),
+    }));
+    const byType = SECTION_ORDER.map(type => ({ key: type as string, name: `${type} Questions`, items: take(item => item.type === type) }));
+    return [...defined, ...byType].filter(section => section.items.length > 0);
+};
+
+/** Questions in printed order; the n-th entry is printed as question n. */
+export const orderQuestionsForLayout = (questions: Question[], sections?: PaperSection[]): Question[] =>
+    groupIntoSections(questions, sections).flatMap(section => section.items);
+
+/** How a section's marks add up, e.g. "3 × 2 + 2 × 3" when it mixes 2- and 3-mark questions. */
+export const marksBreakdown = (items: { marks: number; count?: number }[]): string => {
+    const counts = new Map<number, number>();
+    items.forEach(item => counts.set(item.marks, (counts.get(item.marks) || 0) + (item.count ?? 1)));
+    return [...counts].sort(([a], [b]) => a - b).map(([marks, count]) => `${count} × ${marks}`).join(' + ');
+};
 
 const escapeHtml = (unsafe: string | undefined | null): string => {
     if (typeof unsafe !== 'string') return '';
@@ -10,52 +75,10 @@ const escapeHtml = (unsafe: string | undefined | null): string => {
         .replace(/'/g, "&#039;");
 }
 
+// Math is typeset here, so the generated HTML needs only the KaTeX stylesheet to display.
 const formatText = (text: string = ''): string => {
     if (!text) return '';
-
-    // This regex splits the text by math delimiters ($...$ or $$...$$)
-    const regex = /(\$\$[\s\S]*?\$\$|\$[\s\S]*?\$)/g;
-    const parts = text.split(regex);
-    
-    return parts.map((part, index) => {
-        // Math parts are at odd indices because they are the captured separators.
-        if (index % 2 === 1) {
-            const isDisplayMath = part.startsWith('$$');
-            const delimiter = isDisplayMath ? '$$' : '$';
-            const mathContent = part.substring(delimiter.length, part.length - delimiter.length);
-
-            // Regex for a string that is ONLY a \frac{...}{...}
-            const singleFracRegex = /^\s*\\frac{([^}]+)}{([^}]+)}\s*$/;
-            const match = mathContent.match(singleFracRegex);
-
-            if (!isDisplayMath && match) {
-                // If the entire inline math content is just one fraction, convert to plain text.
-                return escapeHtml(`${match[1]}/${match[2]}`);
-            }
-
-            // Regex for simple numeric fractions like "1/2" or "1 1/2"
-            const simpleNumericFractionRegex = /^\s*(\d+\s+)?\d+\s*\/\s*\d+\s*$/;
-            if (!isDisplayMath && simpleNumericFractionRegex.test(mathContent) && !mathContent.includes('\\')) {
-                // If it's a simple numeric fraction, render as plain text.
-                return escapeHtml(mathContent);
-            }
-
-            // For all other cases, if there are any \frac commands, replace them with slash notation.
-            // This handles expressions like "1 + \frac{1}{2}".
-            const fracRegex = /\\frac{([^}]+)}{([^}]+)}/g;
-            if (fracRegex.test(mathContent)) {
-                 const simplifiedContent = mathContent.replace(fracRegex, '($1)/($2)');
-                 // Return it with delimiters for KaTeX to process the rest of the expression.
-                 return `${delimiter}${simplifiedContent}${delimiter}`;
-            }
-
-            // If no fraction conversions were applied, return the original math part for KaTeX.
-            return part;
-        } else { 
-            // This is a regular text part. Escape HTML and handle newlines.
-            return escapeHtml(part).replace(/\n/g, '<br/>');
-        }
-    }).join('');
+    return renderMathInText(text, part => escapeHtml(part).replace(/\n/g, '<br/>'));
 };
 
 const toRoman = (num: number): string => {
@@ -78,26 +101,64 @@ const styles = {
     questionNumberTd: `vertical-align: top; width: 35px; font-weight: 700; font-size: 1.1em; padding-top: 2px;`,
     questionTextTd: `vertical-align: top; text-align: left; padding-right: 12px; padding-top: 2px;`,
     marksTd: `vertical-align: top; text-align: right; width: 60px; font-weight: 600; font-size: 1em; padding-top: 2px;`,
+    subQuestionTable: `width: calc(100% - 35px); margin: 4px 0 8px 35px; border-collapse: collapse;`,
+    subQuestionLabelTd: `vertical-align: top; width: 35px; font-weight: 600; padding: 2px 0 6px;`,
     optionGrid: `display: grid; grid-template-columns: 1fr 1fr; gap: 12px; margin-top: 12px; padding-left: 35px;`,
     optionItem: `break-inside: avoid; line-height: 1.5;`,
+    optionList: `display: grid; grid-template-columns: 1fr; gap: 6px; margin-top: 12px; padding-left: 35px;`,
     matchTable: `width: 100%; border-collapse: collapse; margin-top: 16px; border: 1px solid #000;`,
     matchTh: `padding: 8px; border: 1px solid #000; width: 50%; font-weight: 700; text-transform: uppercase; font-size: 0.9em; background-color: #f8fafc;`,
     matchTd: `padding: 8px; border: 1px solid #000; width: 50%; vertical-align: middle;`,
     headerContainer: `text-align: center; width: 100%; margin-bottom: 32px; break-inside: avoid; border-bottom: 2px solid #000; padding-bottom: 16px;`,
     headerSchool: `margin: 0; font-size: 24pt; font-weight: 800; text-transform: uppercase; letter-spacing: 1px; line-height: 1.2; margin-bottom: 8px;`,
     headerSub: `margin: 4px 0; font-size: 14pt; font-weight: 600;`,
+    bilingualColumns: `display: grid; grid-template-columns: 1fr 1fr; gap: 16px;`,
+    secondaryText: `margin-top: 6px;`,
+    orDivider: `text-align: center; font-weight: 800; letter-spacing: 2px; margin: 12px 0; padding-left: 35px;`,
+    setBadge: `display: inline-block; margin: 4px 0 8px; padding: 2px 12px; border: 2px solid #000; font-weight: 800; letter-spacing: 2px;`,
     metaTable: `width: 100%; margin-top: 16px; font-weight: 600; font-size: 1.1em; border-top: 1px solid #000; border-bottom: 1px solid #000; padding: 8px 0;`,
     sectionHeader: `text-align: center; margin: 24px 0 16px; break-inside: avoid; page-break-after: avoid;`,
     sectionTitle: `font-weight: 800; text-transform: uppercase; font-size: 1.2em; border-bottom: 2px solid #000; display: inline-block; padding: 0 16px 4px;`,
-    sectionMeta: `display: flex; justify-content: space-between; border-bottom: 1px solid #cbd5e1; padding-bottom: 8px; margin-bottom: 24px; font-weight: 600; font-style: italic; color: #475569;`
+    sectionMeta: `display: flex; justify-content: space-between; border-bottom: 1px solid #cbd5e1; padding-bottom: 8px; margin-bottom: 24px; font-weight: 600; font-style: italic; color: #475569;`,
+    headerLine: `font-size: 1.1em; font-weight: 500;`,
+    instructions: `margin: 0 0 24px; break-inside: avoid;`,
+    instructionsTitle: `font-weight: 700; margin-bottom: 4px;`,
+    instructionsList: `margin: 0; padding-left: 24px;`,
+    sectionInstructions: `margin: -8px 0 16px; font-style: italic; font-size: 0.95em;`,
+    footer: `text-align: center; margin-top: 32px; font-weight: 700; letter-spacing: 2px;`
 };
 
-const renderOptions = (question: Question): string => {
-    if (question.type === QuestionType.MultipleChoice && Array.isArray(question.options)) {
+type LayoutStyles = typeof styles;
+
+/** What a layout template changes about how a single question is drawn. */
+interface QuestionFormat {
+    styles: LayoutStyles;
+    number: string;
+    marks: string;
+}
+
+const DEFAULT_QUESTION_FORMAT: QuestionFormat = { styles, number: '{n}.', marks: '[{marks}]' };
+
+/** Fills `{placeholders}` in a template pattern. Both the pattern and the values are escaped. */
+const fillPattern = (pattern: string, values: Record<string, string | number | undefined>): string =>
+    escapeHtml(pattern).replace(/\{(\w+)\}/g, (match, key: string) => key in values ? escapeHtml(String(values[key] ?? '')) : match);
+
+// Template styles are appended to the built-in inline styles, so they win over them.
+// Values that could break out of the style attribute are skipped, whatever their source.
+const templateStyles = (template: PaperTemplate): LayoutStyles => {
+    const merged = { ...styles };
+    Object.entries(template.styles || {}).forEach(([key, css]) => {
+        if (key in merged && typeof css === 'string' && isSafeStyleValue(css)) merged[key as keyof LayoutStyles] += ` ${css}`;
+    });
+    return merged;
+};
+
+const renderOptions = (question: Question, st: LayoutStyles = styles): string => {
+    if ((question.type === QuestionType.MultipleChoice || question.type === QuestionType.AssertionReason) && Array.isArray(question.options)) {
         const options = question.options as string[];
-        // Use a grid layout for better spacing and alignment, robust for PDF
-        return `<div style="${styles.optionGrid}">
-            ${options.map((opt, i) => `<div style="${styles.optionItem}"><span style="font-weight: 600; margin-right: 4px;">(${String.fromCharCode(97 + i)})</span> ${formatText(opt)}</div>`).join('')}
+        // Use a grid layout for better spacing and alignment, robust for PDF. Assertion-Reason choices are sentences, so one per row.
+        return `<div style="${question.type === QuestionType.AssertionReason ? st.optionList : st.optionGrid}">
+            ${options.map((opt, i) => `<div style="${st.optionItem}"><span style="font-weight: 600; margin-right: 4px;">(${String.fromCharCode(97 + i)})</span> ${formatText(opt)}</div>`).join('')}
         </div>`;
     } else if (question.type === QuestionType.MatchTheFollowing) {
         let colA: string[] = [];
@@ -118,17 +179,17 @@ const renderOptions = (question: Question): string => {
 
         const rows = colA.map((item, index) => `
             <tr>
-                <td style="${styles.matchTd}">(${index + 1}) ${formatText(item)}</td>
-                <td style="${styles.matchTd}">${colB[index] ? `(${String.fromCharCode(97 + index)}) ${formatText(colB[index])}` : ''}</td>
+                <td style="${st.matchTd}">(${index + 1}) ${formatText(item)}</td>
+                <td style="${st.matchTd}">${colB[index] ? `(${String.fromCharCode(97 + index)}) ${formatText(colB[index])}` : ''}</td>
             </tr>
         `).join('');
 
         return `
-            <table style="${styles.matchTable}">
+            <table style="${st.matchTable}">
                 <thead>
                     <tr>
-                        <th style="${styles.matchTh}">Column A</th>
-                        <th style="${styles.matchTh}">Column B</th>
+                        <th style="${st.matchTh}">Column A</th>
+                        <th style="${st.matchTh}">Column B</th>
                     </tr>
                 </thead>
                 <tbody>${rows}</tbody>
@@ -137,42 +198,100 @@ const renderOptions = (question: Question): string => {
     return '';
 };
 
-const renderQuestion = (question: Question, isAnswerKey: boolean): string => {
-    const optionsHtml = renderOptions(question);
-    const answerHtml = isAnswerKey ? `
+/** Puts the second-language HTML directly under the primary text, or beside it in a second column. */
+const renderBilingual = (primary: string, secondary: string | undefined, layout?: BilingualLayout, st: LayoutStyles = styles): string => {
+    if (!layout || !secondary) return primary;
+    return layout === 'columns'
+        ? `<div style="${st.bilingualColumns}"><div>${primary}</div><div>${secondary}</div></div>`
+        : `${primary}<div style="${st.secondaryText}">${secondary}</div>`;
+};
+
+const renderSolution = (answer: Question['answer'], label: string, extras: { finalAnswer?: string; translatedAnswer?: string; layout?: BilingualLayout } = {}): string => `
         <div style="margin-top: 12px; padding: 12px; background-color: #f1f5f9; border-left: 4px solid #475569; font-size: 0.95em; break-inside: avoid;">
-            <strong style="color: #334155; text-transform: uppercase; font-size: 0.85em; display: block; margin-bottom: 4px;">Solution:</strong>
-            <div style="line-height: 1.5;">${formatText(typeof question.answer === 'string' ? question.answer : JSON.stringify(question.answer))}</div>
+            <strong style="color: #334155; text-transform: uppercase; font-size: 0.85em; display: block; margin-bottom: 4px;">${label}:</strong>
+            ${extras.finalAnswer ? `<div style="font-weight: 700; margin-bottom: 4px;">Answer: ${formatText(extras.finalAnswer)}</div>` : ''}
+            <div style="line-height: 1.5;">${renderBilingual(formatText(typeof answer === 'string' ? answer : JSON.stringify(answer)), extras.translatedAnswer && formatText(extras.translatedAnswer), extras.layout)}</div>
         </div>
-    ` : '';
+    `;
 
-    return `<div class="question-block" style="${styles.questionBlock}">
-            <table style="${styles.questionTable}">
+const renderSubQuestions = (parts: SubQuestion[], labelFor: (index: number) => string, isAnswerKey: boolean, translated: QuestionTranslation['subQuestions'] | undefined, layout: BilingualLayout | undefined, format: QuestionFormat): string => `
+            <table style="${format.styles.subQuestionTable}">
                 <tbody>
+                    ${parts.map((part, i) => `
                     <tr>
-                        <td style="${styles.questionNumberTd}">${question.questionNumber}.</td>
-                        <td style="${styles.questionTextTd}">${formatText(question.questionText)}</td>
-                        <td style="${styles.marksTd}">[${question.marks}]</td>
+                        <td style="${format.styles.subQuestionLabelTd}">${labelFor(i)}</td>
+                        <td style="${format.styles.questionTextTd}">${renderBilingual(formatText(part.questionText), translated?.[i] && formatText(translated[i].questionText), layout, format.styles)}${isAnswerKey ? renderSolution(part.answer, `Solution ${labelFor(i)}`, { translatedAnswer: translated?.[i]?.answer, layout }) : ''}</td>
+                        <td class="question-marks" style="${format.styles.marksTd}">${fillPattern(format.marks, { marks: part.marks })}</td>
+                    </tr>`).join('')}
+                </tbody>
+            </table>`;
+
+/** The question and its internal choices, each with its own parts, answers and marking scheme. */
+const questionBodies = (question: Question): Question[] => [
+    question,
+    ...(question.alternatives || []).map(alt => ({ ...question, ...alt, subQuestions: alt.subQuestions, numericAnswer: alt.numericAnswer, markingScheme: alt.markingScheme })),
+];
+
+const renderQuestion = (question: Question, isAnswerKey: boolean, layout?: BilingualLayout, format: QuestionFormat = DEFAULT_QUESTION_FORMAT): string => {
+    const st = format.styles;
+    // Internal choices share the number and marks: "(a) ... OR (b) ...".
+    const bodies = questionBodies(question);
+    const translations = layout ? [question.translation, ...(question.alternatives || []).map((_, i) => question.translation?.alternatives?.[i])] : [];
+    const hasChoice = bodies.length > 1;
+    // Parts are lettered, unless the letters are already taken by the choices.
+    const partLabel = (index: number) => hasChoice ? `(${toRoman(index + 1).toLowerCase()})` : `(${String.fromCharCode(97 + index)})`;
+
+    const bodiesHtml = bodies.map((body, i) => {
+        const label = hasChoice ? `(${String.fromCharCode(97 + i)})` : '';
+        const finalAnswer = body.numericAnswer ? formatNumericAnswer(body.numericAnswer) : undefined;
+        const translation = translations[i];
+        return `${i > 0 ? `<div style="${st.orDivider}">OR</div>` : ''}
+            <table style="${st.questionTable}">
+                <tbody>
+                    <tr>
+                        <td class="question-number" style="${st.questionNumberTd}">${i === 0 ? fillPattern(format.number, { n: question.questionNumber }) : ''}</td>
+                        <td style="${st.questionTextTd}">${label ? `<strong>${label}</strong> ` : ''}${renderBilingual(formatText(body.questionText), translation && formatText(translation.questionText), layout, st)}</td>
+                        <td class="question-marks" style="${st.marksTd}">${i === 0 ? fillPattern(format.marks, { marks: question.marks }) : ''}</td>
                     </tr>
                 </tbody>
             </table>
-            ${optionsHtml}
-            ${answerHtml}
+            ${renderBilingual(renderOptions(body, st), translation?.options ? renderOptions({ ...body, options: translation.options }, st) : undefined, layout, st)}
+            ${body.subQuestions?.length ? renderSubQuestions(body.subQuestions, partLabel, isAnswerKey, translation?.subQuestions, layout, format) : ''}
+            ${isAnswerKey && (!body.subQuestions?.length || body.answer) ? renderSolution(body.answer, label ? `Solution ${label}` : 'Solution', {
+                finalAnswer: finalAnswer !== body.answer ? finalAnswer : undefined,
+                translatedAnswer: typeof translation?.answer === 'string' ? translation.answer : undefined,
+                layout,
+            }) : ''}`;
+    }).join('');
+
+    return `<div class="question-block" data-question-number="${question.questionNumber}" style="${st.questionBlock}">
+            ${bodiesHtml}
         </div>`;
 };
 
-export const generateHtmlFromPaperData = (paperData: QuestionPaperData, options?: { logoConfig?: { src?: string; alignment: 'left' | 'center' | 'right' }, isAnswerKey?: boolean }): string => {
-    const sectionOrder = [
-        QuestionType.MultipleChoice, 
-        QuestionType.FillInTheBlanks, 
-        QuestionType.TrueFalse, 
-        QuestionType.MatchTheFollowing, 
-        QuestionType.ShortAnswer, 
-        QuestionType.LongAnswer
-    ];
+/**
+ * Renders a paper in its layout template (`paperData.templateId`, or the
+ * standard layout). `options.template` overrides it, e.g. to preview a template.
+ */
+export const generateHtmlFromPaperData = (paperData: QuestionPaperData, options?: { logoConfig?: { src?: string; alignment: 'left' | 'center' | 'right' }, isAnswerKey?: boolean, template?: PaperTemplate }): string => {
     let questionCounter = 0;
     let sectionCount = 0;
     const isAnswerKey = options?.isAnswerKey ?? false;
+    const layout = paperData.secondaryLanguage ? paperData.bilingualLayout ?? 'interleaved' : undefined;
+    const template = options?.template ?? resolvePaperTemplate(paperData.templateId);
+    const st = templateStyles(template);
+    const format: QuestionFormat = { styles: st, ...template.question };
+    const sections = groupIntoSections(paperData.questions, paperData.sections);
+    const paperValues = {
+        schoolName: paperData.schoolName,
+        subject: paperData.subject,
+        className: paperData.className,
+        timeAllowed: paperData.timeAllowed,
+        totalMarks: paperData.totalMarks,
+        setLabel: paperData.setLabel,
+        sectionCount: sections.length,
+        questionCount: paperData.questions.length,
+    };
 
     let contentHtml = `
         <style>
@@ -203,51 +322,224 @@ export const generateHtmlFromPaperData = (paperData: QuestionPaperData, options?
             }
             
             img { max-width: 100%; height: auto; display: block; margin: 8px auto; }
+            ${sanitizeTemplateCss(template.css)}
         </style>
     `;
 
     // Render Header
-    const logoSrc = options?.logoConfig?.src;
+    const logoSrc = template.header.showLogo ? options?.logoConfig?.src : undefined;
     const logoAlignment = options?.logoConfig?.alignment ?? 'center';
     const logoImgTag = logoSrc ? `<img src="${logoSrc}" alt="Logo" style="max-height: 90px; margin-bottom: 16px; display: block; margin-left: auto; margin-right: auto;" />` : '';
     
     contentHtml += `
-        <div style="${styles.headerContainer}">
+        <div class="paper-header" style="${st.headerContainer}">
             ${logoAlignment === 'center' ? logoImgTag : ''}
-            <h1 style="${styles.headerSchool}">${escapeHtml(paperData.schoolName)}</h1>
-            <div style="${styles.headerSub}">${escapeHtml(paperData.subject)}${isAnswerKey ? ' - ANSWER KEY' : ''}</div>
-            <div style="font-size: 1.1em; font-weight: 500;">Class: ${escapeHtml(paperData.className)}</div>
+            <h1 class="paper-school" style="${st.headerSchool}">${escapeHtml(paperData.schoolName)}</h1>
+            ${template.header.lines.map((line, i) => i === 0
+                ? `<div class="paper-header-line" style="${st.headerSub}">${fillPattern(line, paperValues)}${isAnswerKey ? ' - ANSWER KEY' : ''}</div>
+            ${paperData.setLabel ? `<div style="${st.setBadge}">SET ${escapeHtml(paperData.setLabel)}</div>` : ''}`
+                : `<div class="paper-header-line" style="${st.headerLine}">${fillPattern(line, paperValues)}</div>`).join('')}
+            ${paperData.secondaryLanguage ? `<div style="font-weight: 500;">Medium: ${escapeHtml(paperData.language || 'English')} / ${escapeHtml(paperData.secondaryLanguage)}</div>` : ''}
             
-            <table style="${styles.metaTable}">
+            <table class="paper-meta" style="${st.metaTable}">
                 <tr>
-                    <td style="text-align: left; padding-left: 8px;">Time: ${escapeHtml(paperData.timeAllowed)}</td>
-                    <td style="text-align: right; padding-right: 8px;">Max Marks: ${escapeHtml(paperData.totalMarks)}</td>
+                    <td style="text-align: left; padding-left: 8px;">${fillPattern(template.header.meta[0], paperValues)}</td>
+                    <td style="text-align: right; padding-right: 8px;">${fillPattern(template.header.meta[1], paperValues)}</td>
                 </tr>
             </table>
         </div>
     `;
 
-    sectionOrder.forEach(type => {
-        const qs = paperData.questions.filter(q => q.type === type);
-        if (qs.length === 0) return;
-        sectionCount++;
-        const sectionTotal = qs.reduce((acc, q) => acc + q.marks, 0);
-        
+    // The paper's own general instructions replace the template's default list, under the template's title.
+    const generalInstructions = paperData.instructions?.general.length
+        ? paperData.instructions.general.map(item => formatText(item))
+        : template.instructions?.items.map(item => fillPattern(item, paperValues)) || [];
+    if (generalInstructions.length) {
         contentHtml += `
-            <div style="${styles.sectionHeader}">
-                <span style="${styles.sectionTitle}">SECTION ${String.fromCharCode(64 + sectionCount)}</span>
+            <div class="paper-instructions" style="${st.instructions}">
+                <div style="${st.instructionsTitle}">${fillPattern(template.instructions?.title || 'General Instructions:', paperValues)}</div>
+                <ol style="${st.instructionsList}">${generalInstructions.map(item => `<li>${item}</li>`).join('')}</ol>
             </div>
-            <div style="${styles.sectionMeta}">
-                <span>${toRoman(sectionCount)}. ${type} Questions</span>
-                <span>[${qs.length} &times; ${qs[0].marks} = ${sectionTotal} Marks]</span>
+        `;
+    }
+
+    sections.forEach(section => {
+        const qs = section.items;
+        sectionCount++;
+        const sectionValues = {
+            ...paperValues,
+            letter: String.fromCharCode(64 + sectionCount),
+            roman: toRoman(sectionCount),
+            number: sectionCount,
+            name: section.name,
+            type: [...new Set(qs.map(q => q.type))].join(' / '),
+            count: qs.length,
+            marks: [...new Set(qs.map(q => q.marks))].join('/'),
+            breakdown: marksBreakdown(qs),
+            total: qs.reduce((acc, q) => acc + q.marks, 0),
+        };
+        const subtitle = fillPattern(template.section.subtitle, sectionValues);
+        const marks = fillPattern(template.section.marks, sectionValues);
+        const sectionInstructions = paperData.instructions?.sections[section.key] || [];
+
+        contentHtml += `
+            <div class="paper-section" style="${st.sectionHeader}">
+                <span class="paper-section-title" style="${st.sectionTitle}">${fillPattern(template.section.title, sectionValues)}</span>
             </div>
+            ${subtitle || marks ? `<div class="paper-section-meta" style="${st.sectionMeta}">
+                <span>${subtitle}</span>
+                <span>${marks}</span>
+            </div>` : ''}
+            ${sectionInstructions.length ? `<div class="paper-section-instructions" style="${st.sectionInstructions}">${sectionInstructions.map(line => `<div>${formatText(line)}</div>`).join('')}</div>` : ''}
         `;
 
         qs.forEach(q => {
             questionCounter++;
-            contentHtml += renderQuestion({ ...q, questionNumber: questionCounter }, isAnswerKey);
+            contentHtml += renderQuestion({ ...q, questionNumber: questionCounter }, isAnswerKey, layout, format);
         });
     });
 
+    if (template.footer) {
+        contentHtml += `<div class="paper-footer" style="${st.footer}">${fillPattern(template.footer, paperValues)}</div>`;
+    }
+
+    return `<div id="paper-root" style="${st.root}">${contentHtml}</div>`;
+};
+
+const schemeCellStyle = `padding: 6px 8px; border: 1px solid #000; vertical-align: top;`;
+
+const answerText = (answer: Question['answer']): string =>
+    typeof answer === 'string' ? answer : Object.entries(answer || {}).map(([item, match]) => `${item} → ${match}`).join('; ');
+
+/** Questions without their own marking points earn full marks for the correct answer. */
+const renderMarkingPoints = (points: MarkingPoint[] | undefined, marks: number, answer: Question['answer']): string => {
+    const rows = points?.length ? points : [{ description: `Correct answer: ${answerText(answer)}`, marks }];
+    return `
+        <table style="${styles.matchTable} margin-top: 8px;">
+            <tbody>
+                ${rows.map((point, i) => `<tr>
+                    <td style="${schemeCellStyle} width: 35px; text-align: center;">${i + 1}</td>
+                    <td style="${schemeCellStyle}">${formatText(point.description)}</td>
+                    <td style="${schemeCellStyle} width: 60px; text-align: center; font-weight: 700;">${point.marks}</td>
+                </tr>`).join('')}
+            </tbody>
+        </table>`;
+};
+
+/**
+ * Printable marking scheme for examiners: for every question (and each part),
+ * the steps that earn marks. Numbered like the paper itself.
+ */
+export const generateMarkingSchemeHtml = (paperData: QuestionPaperData): string => {
+    const questions = orderQuestionsForLayout(paperData.questions, paperData.sections);
+    const questionsHtml = questions.map((question, index) => {
+        const bodies = questionBodies(question);
+        const hasChoice = bodies.length > 1;
+        const partLabel = (i: number) => hasChoice ? `(${toRoman(i + 1).toLowerCase()})` : `(${String.fromCharCode(97 + i)})`;
+        const bodiesHtml = bodies.map((body, i) => `
+            ${i > 0 ? `<div style="${styles.orDivider}">OR</div>` : ''}
+            ${hasChoice ? `<div style="margin-top: 8px;"><strong>(${String.fromCharCode(97 + i)})</strong> ${formatText(body.questionText)}</div>` : ''}
+            ${body.subQuestions?.length
+                ? body.subQuestions.map((part, p) => `
+                    <div style="margin-top: 10px; font-weight: 600;">${partLabel(p)} ${formatText(part.questionText)} [${part.marks}]</div>
+                    ${renderMarkingPoints(part.markingScheme, part.marks, part.answer)}`).join('')
+                : renderMarkingPoints(body.markingScheme, question.marks, body.numericAnswer && !body.answer ? formatNumericAnswer(body.numericAnswer) : body.answer)}`).join('');
+        return `<div class="question-block" data-question-number="${index + 1}" style="${styles.questionBlock}">
+            <table style="${styles.questionTable}">
+                <tbody>
+                    <tr>
+                        <td style="${styles.questionNumberTd}">${index + 1}.</td>
+                        <td style="${styles.questionTextTd}">${hasChoice ? '' : formatText(question.questionText)}</td>
+                        <td style="${styles.marksTd}">[${question.marks}]</td>
+                    </tr>
+                </tbody>
+            </table>
+            ${bodiesHtml}
+        </div>`;
+    }).join('');
+
+    const contentHtml = `
+        <div style="${styles.headerContainer}">
+            <h1 style="${styles.headerSchool}">${escapeHtml(paperData.schoolName)}</h1>
+            <div style="${styles.headerSub}">${escapeHtml(paperData.subject)} - MARKING SCHEME</div>
+            ${paperData.setLabel ? `<div style="${styles.setBadge}">SET ${escapeHtml(paperData.setLabel)}</div>` : ''}
+            <div style="font-size: 1.1em; font-weight: 500;">Class: ${escapeHtml(paperData.className)} &middot; Max Marks: ${escapeHtml(paperData.totalMarks)}</div>
+        </div>
+        <div style="${styles.sectionMeta}"><span>Award marks for each step shown</span><span>Marks</span></div>
+        ${questionsHtml}
+    `;
+
+    return `<div id="paper-root" style="${styles.root}">${contentHtml}</div>`;
+};
+
+const blueprintCellStyle = `padding: 6px 8px; border: 1px solid #000; text-align: center; font-size: 0.9em;`;
+
+const renderBlueprintCell = (cell: BlueprintCell | undefined, field: 'Marks' | 'Count'): string => {
+    const planned = cell ? cell[`planned${field}`] : 0;
+    const actual = cell ? cell[`actual${field}`] : 0;
+    if (!planned && !actual) return `<td style="${blueprintCellStyle}">&ndash;</td>`;
+    const mismatch = planned !== actual ? ' color: #b91c1c; font-weight: 700;' : '';
+    return `<td style="${blueprintCellStyle}${mismatch}">${planned} / ${actual}</td>`;
+};
+
+/**
+ * Printable blueprint for a paper: planned vs generated marks per unit and
+ * Bloom level, and planned vs generated question counts per unit and type.
+ */
+export const generateBlueprintHtml = (paperData: QuestionPaperData): string => {
+    const blueprint = paperData.blueprint;
+    if (!blueprint) return '';
+    const rows = compareBlueprintWithPaper(blueprint, paperData.questions);
+    const levels = Object.values(Taxonomy).filter(level => rows.some(r => r.byTaxonomy[level]));
+    const types = SECTION_ORDER.filter(type => rows.some(r => r.byType[type]));
+    const th = `padding: 6px 8px; border: 1px solid #000; background-color: #f8fafc; font-size: 0.85em; text-transform: uppercase;`;
+    const unitTd = `padding: 6px 8px; border: 1px solid #000; font-weight: 600;`;
+
+    const marksTable = `
+        <table style="${styles.matchTable}">
+            <thead><tr>
+                <th style="${th}">Unit</th>
+                ${levels.map(level => `<th style="${th}">${level}</th>`).join('')}
+                <th style="${th}">Weightage</th>
+                <th style="${th}">Total</th>
+            </tr></thead>
+            <tbody>
+                ${rows.map(row => `<tr>
+                    <td style="${unitTd}">${escapeHtml(row.unit)}</td>
+                    ${levels.map(level => renderBlueprintCell(row.byTaxonomy[level], 'Marks')).join('')}
+                    <td style="${blueprintCellStyle}">${row.target}</td>
+                    ${renderBlueprintCell(row.total, 'Marks')}
+                </tr>`).join('')}
+            </tbody>
+        </table>`;
+
+    const countTable = `
+        <table style="${styles.matchTable}">
+            <thead><tr>
+                <th style="${th}">Unit</th>
+                ${types.map(type => `<th style="${th}">${type}</th>`).join('')}
+                <th style="${th}">Total</th>
+            </tr></thead>
+            <tbody>
+                ${rows.map(row => `<tr>
+                    <td style="${unitTd}">${escapeHtml(row.unit)}</td>
+                    ${types.map(type => renderBlueprintCell(row.byType[type], 'Count')).join('')}
+                    ${renderBlueprintCell(row.total, 'Count')}
+                </tr>`).join('')}
+            </tbody>
+        </table>`;
+
+    const contentHtml = `
+        <div style="${styles.headerContainer}">
+            <h1 style="${styles.headerSchool}">${escapeHtml(paperData.schoolName)}</h1>
+            <div style="${styles.headerSub}">${escapeHtml(paperData.subject)} - BLUEPRINT</div>
+            <div style="font-size: 1.1em; font-weight: 500;">Class: ${escapeHtml(paperData.className)} &middot; ${escapeHtml(blueprint.name)}</div>
+        </div>
+        <div style="${styles.sectionMeta}"><span>Marks by unit and cognitive level</span><span>Planned / Generated</span></div>
+        <div style="break-inside: avoid; margin-bottom: 32px;">${marksTable}</div>
+        <div style="${styles.sectionMeta}"><span>Questions by unit and type</span><span>Planned / Generated</span></div>
+        <div style="break-inside: avoid;">${countTable}</div>
+    `;
+
     return `<div id="paper-root" style="${styles.root}">${contentHtml}</div>`;
-};
\ No newline at end of file
+};
@@ -0,0 +1,50 @@
+import katex from 'katex';
+import renderMathInElement from 'katex/contrib/auto-render';
+
+/**
+ * Math is typeset with the bundled KaTeX when a paper's HTML is generated, so
+ * the editor, shared view and PDF exports all show the same static markup and
+ * nothing is fetched at runtime. The MathML copy is kept for screen readers and
+ * for pasting into word processors.
+ */
+
+const KATEX_OPTIONS = {
+    throwOnError: false,
+    strict: false,
+    output: 'htmlAndMathml' as const,
+};
+
+// $$...$$ and \[...\] are display math; $...$ and \(...\) are inline.
+const MATH_DELIMITERS = [
+    { left: '$$', right: '$$', display: true },
+    { left: '\\[', right: '\\]', display: true },
+    { left: '\\(', right: '\\)', display: false },
+    { left: '$', right: '$', display: false },
+];
+
+const MATH_REGEX = /(\$\$[\s\S]*?\$\$|\\\[[\s\S]*?\\\]|\\\([\s\S]*?\\\)|\$[\s\S]*?\$)/g;
+
+/** Renders one TeX expression to HTML. Invalid TeX is shown as its source rather than breaking the paper. */
+export const renderTex = (tex: string, displayMode = false): string =>
+    katex.renderToString(tex, { ...KATEX_OPTIONS, displayMode });
+
+/**
+ * Splits text into plain and math parts and typesets the math. `formatPlain`
+ * escapes the plain parts, since they end up in the same HTML string.
+ */
+export const renderMathInText = (text: string, formatPlain: (plain: string) => string): string =>
+    text.split(MATH_REGEX).map((part, index) => {
+        // Math parts are at odd indices because they are the captured separators.
+        if (index % 2 === 0) return formatPlain(part);
+        const delimiter = MATH_DELIMITERS.find(d => part.startsWith(d.left) && part.endsWith(d.right))!;
+        return renderTex(part.slice(delimiter.left.length, part.length - delimiter.right.length), delimiter.display);
+    }).join('');
+
+/** Typesets math left as raw TeX in HTML saved before papers were rendered at generation time. */
+export const renderLegacyMath = (element: HTMLElement) => {
+    try {
+        renderMathInElement(element, { ...KATEX_OPTIONS, delimiters: MATH_DELIMITERS });
+    } catch (err) {
+        console.error("KaTeX render error:", err);
+    }
+};
@@ -0,0 +1,269 @@
+import { type QuestionDistributionItem, type AnalysisResult, type SyllabusTopic, QuestionType, Difficulty, Taxonomy } from '../types';
+import type { AIProvider, AIJsonRequest, AITextRequest, AIChatSession } from './aiProvider';
+import { ASSERTION_REASON_OPTIONS } from '../constants';
+
+/**
+ * Deterministic offline provider. It never touches the network and returns
+ * fixture content shaped exactly like the Gemini responses, so the app and
+ * end-to-end tests can run without an API key (`AI_PROVIDER=mock`).
+ */
+
+const pickTopic = (topics: string, index: number) => {
+    const list = topics.split(/[,;\n]/).map(t => t.trim()).filter(Boolean);
+    return list.length > 0 ? list[index % list.length] : 'the syllabus';
+};
+
+// Method marks first, the rest for the result, like a typical step-wise scheme.
+const buildFixtureScheme = (marks: number) => {
+    const method = Math.floor(marks / 2);
+    return method > 0
+        ? [{ description: 'Correct method or key idea', marks: method }, { description: 'Correct, complete answer', marks: marks - method }]
+        : [{ description: 'Correct, complete answer', marks }];
+};
+
+const buildFixtureParts = (topic: string, marks: number, taxonomy: Taxonomy) => {
+    const first = Math.floor(marks / 2);
+    return [
+        { questionText: `Define ${topic}.`, marks: first, answer: `A precise definition of ${topic}.`, taxonomy: Taxonomy.Remembering, markingScheme: buildFixtureScheme(first) },
+        { questionText: `Explain ${topic} with a suitable example.`, marks: marks - first, answer: `An explanation of ${topic} with an example.`, taxonomy, markingScheme: buildFixtureScheme(marks - first) },
+    ];
+};
+
+export const buildFixtureQuestion = (type: QuestionType, index: number, subject: string, topics: string, item?: Partial<QuestionDistributionItem>) => {
+    const topic = item?.unit || pickTopic(topics, index);
+    const n = index + 1;
+    const base = {
+        type,
+        marks: item?.marks ?? 1,
+        difficulty: item?.difficulty ?? Difficulty.Medium,
+        taxonomy: item?.taxonomy ?? Taxonomy.Understanding,
+        unit: item?.unit,
+    };
+
+    switch (type) {
+        case QuestionType.MultipleChoice:
+            return {
+                ...base,
+                questionText: `Which statement about ${topic} in ${subject} is correct? (fixture ${n})`,
+                options: [`Statement ${n}A`, `Statement ${n}B`, `Statement ${n}C`, `Statement ${n}D`],
+                answer: `Statement ${n}${'ABCD'[index % 4]}`,
+            };
+        case QuestionType.FillInTheBlanks:
+            return { ...base, questionText: `The key term for ${topic} is ________. (fixture ${n})`, options: null, answer: `Term ${n}` };
+        case QuestionType.TrueFalse:
+            return { ...base, questionText: `${topic} is part of ${subject}. (fixture ${n})`, options: null, answer: index % 2 === 0 ? 'True' : 'False' };
+        case QuestionType.MatchTheFollowing:
+            return {
+                ...base,
+                questionText: `Match the items related to ${topic}. (fixture ${n})`,
+                options: { columnA: ['Item 1', 'Item 2', 'Item 3'], columnB: ['Match 3', 'Match 1', 'Match 2'] },
+                answer: { 'Item 1': 'Match 1', 'Item 2': 'Match 2', 'Item 3': 'Match 3' },
+            };
+        case QuestionType.LongAnswer: {
+            // Longer questions come in two parts so sub-question handling is exercised offline.
+            if (base.marks < 4) {
+                return { ...base, questionText: `Explain ${topic} in detail with suitable examples. (fixture ${n})`, options: null, answer: `A complete explanation of ${topic} covering definitions, examples and applications.`, markingScheme: buildFixtureScheme(base.marks) };
+            }
+            return { ...base, questionText: `Answer the following about ${topic}. (fixture ${n})`, options: null, answer: '', subQuestions: buildFixtureParts(topic, base.marks, base.taxonomy) };
+        }
+        case QuestionType.AssertionReason: {
+            const assertion = `${topic} is an important part of ${subject}. (fixture ${n})`;
+            const reason = `${topic} builds on ideas introduced earlier in ${subject}.`;
+            return {
+                ...base,
+                questionText: `Assertion (A): ${assertion}\nReason (R): ${reason}`,
+                assertion,
+                reason,
+                options: [...ASSERTION_REASON_OPTIONS],
+                answer: `(${'abcd'[index % 4]})`,
+            };
+        }
+        case QuestionType.CaseBased:
+            return {
+                ...base,
+                questionText: `Read the following case and answer the questions. A class investigated ${topic} over several weeks and recorded their observations in a table. (fixture ${n})`,
+                options: null,
+                answer: '',
+                subQuestions: buildFixtureParts(topic, base.marks, base.taxonomy),
+            };
+        case QuestionType.Numerical:
+            return {
+                ...base,
+                questionText: `A quantity in ${topic} increases by ${n} units every second. By how much does it increase in 2.5 seconds? (fixture ${n})`,
+                options: null,
+                answer: `Increase = ${n} × 2.5 = ${n * 2.5} units.`,
+                numericAnswer: { value: n * 2.5, unit: 'units', tolerance: 0.1 },
+                markingScheme: buildFixtureScheme(base.marks),
+            };
+        case QuestionType.OneWord:
+            return { ...base, questionText: `Name the key term used for ${topic}. (fixture ${n})`, options: null, answer: `Term${n}` };
+        case QuestionType.ShortAnswer:
+        default:
+            return { ...base, questionText: `Briefly describe ${topic}. (fixture ${n})`, options: null, answer: `A short description of ${topic}.`, markingScheme: buildFixtureScheme(base.marks) };
+    }
+};
+
+const buildFixtureQuestions = (context: Record<string, unknown>) => {
+    const distribution = (context.distribution as QuestionDistributionItem[]) || [];
+    const subject = String(context.subject || 'General Studies');
+    const topics = String(context.topics || '');
+    const syllabusTopics = (context.syllabusTopics as SyllabusTopic[] | undefined) || [];
+    let index = 0;
+    return distribution.flatMap(item =>
+        Array.from({ length: item.count }, (_, i) => {
+            const syllabusNodeId = syllabusTopics.length ? syllabusTopics[index % syllabusTopics.length].id : undefined;
+            const question = { ...buildFixtureQuestion(item.type, index++, subject, topics, item), syllabusNodeId };
+            if (i >= (item.internalChoices || 0)) return question;
+            const alternative = buildFixtureQuestion(item.type, index + 100, subject, topics, item);
+            const { questionText, options, answer } = alternative;
+            return {
+                ...question,
+                alternative: {
+                    questionText,
+                    options,
+                    answer,
+                    subQuestions: 'subQuestions' in alternative ? alternative.subQuestions : undefined,
+                    numericAnswer: 'numericAnswer' in alternative ? alternative.numericAnswer : undefined,
+                    markingScheme: 'markingScheme' in alternative ? alternative.markingScheme : undefined,
+                },
+            };
+        })
+    );
+};
+
+// Marks each string with the target language and leaves formulas untouched, like a real translation must.
+const buildFixtureTranslations = (context: Record<string, unknown>) => {
+    const language = String(context.language || 'Translated');
+    const tag = (text: unknown) => typeof text === 'string' && text ? `[${language}] ${text}` : text;
+    const translateBody = (body: any) => ({
+        questionText: tag(body.questionText),
+        options: Array.isArray(body.options) ? body.options.map(tag)
+            : body.options ? { columnA: body.options.columnA.map(tag), columnB: body.options.columnB.map(tag) } : null,
+        answer: tag(body.answer),
+        subQuestions: body.subQuestions?.map((part: any) => ({ questionText: tag(part.questionText), answer: tag(part.answer) })),
+    });
+    return ((context.questions as any[]) || []).map(q => ({
+        index: q.index,
+        ...translateBody(q),
+        alternatives: q.alternatives?.map(translateBody),
+    }));
+};
+
+// Grounds every question in the opening words of the first piece of source material.
+const buildFixtureSourceChecks = (context: Record<string, unknown>) => {
+    const [material] = (context.material as string[] | undefined) || [];
+    const excerpt = material?.split(/\s+/).slice(0, 12).join(' ');
+    return ((context.questions as { index: number }[]) || []).map(({ index }) => (
+        excerpt ? { index, grounded: true, excerpt } : { index, grounded: false, reason: 'No source material was provided.' }
+    ));
+};
+
+// Raises a low-severity wording issue on the first question and questions any MCQ whose answer is not among its options.
+const buildFixtureReview = (context: Record<string, unknown>) => {
+    const questions = (context.questions as { questionNumber: number; questionText: string; options: unknown; answer: unknown }[]) || [];
+    const issues: Record<string, unknown>[] = questions.flatMap(q => {
+        const options = Array.isArray(q.options) ? q.options as string[] : null;
+        return options && typeof q.answer === 'string' && !options.includes(q.answer)
+            ? [{ questionNumber: q.questionNumber, category: 'wrongAnswer', severity: 'high', message: 'The answer is not one of the options.', suggestion: 'Use the first option as the answer.', fix: { answer: options[0] } }]
+            : [];
+    });
+    const [first] = questions;
+    if (first) {
+        issues.push({ questionNumber: first.questionNumber, category: 'ambiguity', severity: 'low', message: 'The question does not say how much detail is expected.', suggestion: 'State the expected length of the answer.', fix: { questionText: `${first.questionText} Answer briefly.` } });
+    }
+    return { summary: `Reviewed ${questions.length} question(s) offline.`, issues };
+};
+
+const buildFixtureInstructions = (context: Record<string, unknown>) => {
+    const sections = (context.sections as { letter: string; name: string; count: number; breakdown: string; internalChoices: number }[]) || [];
+    const questionCount = sections.reduce((acc, s) => acc + s.count, 0);
+    const hasChoice = sections.some(s => s.internalChoices > 0);
+    return {
+        general: [
+            `This question paper contains ${questionCount} questions in ${sections.length} section(s).`,
+            'All questions are compulsory.',
+            ...(hasChoice ? ['Internal choices are given in some questions; attempt only one of the alternatives.'] : []),
+            'Use of calculators is not permitted.',
+        ],
+        sections: sections.map(s => ({
+            letter: s.letter,
+            instructions: [`Section ${s.letter} has ${s.count} question(s) (${s.breakdown} marks).`],
+        })),
+    };
+};
+
+const buildFixtureAnalysis = (context: Record<string, unknown>): AnalysisResult => {
+    const text = String(context.text || '');
+    const lines = text.split('\n').map(l => l.trim()).filter(l => l.length > 0);
+    const questionLines = lines.filter(l => /\?$/.test(l) || /^(q?\d+[.)])/i.test(l));
+    return {
+        extractedData: { schoolName: null, className: null, subject: null, timeAllowed: null, totalMarks: null },
+        missingFields: ['schoolName', 'className', 'subject', 'timeAllowed', 'totalMarks'],
+        extractedQuestions: (questionLines.length > 0 ? questionLines : ['Describe the topic covered in the uploaded material.']).map(line => ({
+            type: QuestionType.ShortAnswer,
+            questionText: line.replace(/^(q?\d+[.)])\s*/i, ''),
+            options: null,
+            answer: '',
+            marks: 2,
+            difficulty: Difficulty.Medium,
+            taxonomy: Taxonomy.Understanding,
+        })),
+    };
+};
+
+// 0.25s of silence: 24kHz * 0.25s * 2 bytes per sample.
+const SILENT_PCM_BASE64 = btoa('\0'.repeat(12000));
+
+export const mockProvider: AIProvider = {
+    id: 'mock',
+
+    async generateJson(request: AIJsonRequest) {
+        if (request.signal?.aborted) throw new DOMException('The request was aborted.', 'AbortError');
+        const context = request.context || {};
+        switch (request.task) {
+            case 'questions':
+                return buildFixtureQuestions(context);
+            case 'refine': {
+                const target = context.target as QuestionDistributionItem;
+                return [buildFixtureQuestion(target.type, Number(context.questionNumber) || 0, String(context.subject || 'General Studies'), String(context.topics || ''), target)];
+            }
+            case 'translate':
+                return buildFixtureTranslations(context);
+            case 'verifySources':
+                return buildFixtureSourceChecks(context);
+            case 'review':
+                return buildFixtureReview(context);
+            case 'instructions':
+                return buildFixtureInstructions(context);
+            case 'analysis':
+                return buildFixtureAnalysis(context);
+            default:
+                return {};
+        }
+    },
+
+    async generateText(request: AITextRequest) {
+        if (request.task === 'transcript') return String(request.context?.text ?? '').trim();
+        return 'This is an offline response from the mock AI provider.';
+    },
+
+    createChat(): AIChatSession {
+        let turn = 0;
+        return {
+            async sendMessage(message: string) {
+                turn++;
+                return { text: `Offline assistant (turn ${turn}): received "${message.slice(0, 80)}".`, functionCalls: null };
+            },
+        };
+    },
+
+    async generateSpeech() {
+        return SILENT_PCM_BASE64;
+    },
+
+    async generateImage(prompt: string) {
+        const label = prompt.replace(/[<>&"]/g, '').slice(0, 60);
+        const svg = `<svg xmlns="http://www.w3.org/2000/svg" width="512" height="512"><rect width="100%" height="100%" fill="#e2e8f0"/><text x="50%" y="50%" font-family="sans-serif" font-size="20" text-anchor="middle" fill="#334155">${label}</text></svg>`;
+        return `data:image/svg+xml;charset=utf-8,${encodeURIComponent(svg)}`;
+    },
+};
@@ -0,0 +1,162 @@
+import { type QuestionPaperData, type Question, QuestionType } from '../types';
+import { orderQuestionsForLayout } from './htmlGenerator';
+import { resolveOptionIndex } from './paperValidator';
+
+/** Question types answered by filling a bubble. */
+export const OMR_QUESTION_TYPES = [QuestionType.MultipleChoice, QuestionType.TrueFalse];
+
+const ROLL_NUMBER_DIGITS = 6;
+const QUESTIONS_PER_COLUMN = 25;
+const COLUMNS_PER_SHEET = 4;
+const QUESTIONS_PER_SHEET = QUESTIONS_PER_COLUMN * COLUMNS_PER_SHEET;
+const TRUE_FALSE_CHOICES = ['T', 'F'];
+
+/** One bubble row: the printed question number, its choices and the choices that score. */
+export interface OmrQuestion {
+    number: number;
+    type: QuestionType;
+    marks: number;
+    choices: string[];
+    answers: (number | null)[]; // one per alternative (internal choice); null when the answer could not be read
+}
+
+const optionLetters = (count: number) => Array.from({ length: count }, (_, i) => String.fromCharCode(65 + i));
+
+const answerIndex = (type: QuestionType, options: Question['options'], answer: Question['answer']): number | null => {
+    if (typeof answer !== 'string') return null;
+    if (type === QuestionType.TrueFalse) {
+        const key = answer.trim().toLowerCase();
+        return key.startsWith('t') ? 0 : key.startsWith('f') ? 1 : null;
+    }
+    const index = Array.isArray(options) ? resolveOptionIndex(answer, options) : -1;
+    return index > -1 ? index : null;
+};
+
+/** The paper's bubble questions, numbered as printed. MCQs without a list of options are left out. */
+export const omrQuestions = (paper: QuestionPaperData): OmrQuestion[] =>
+    orderQuestionsForLayout(paper.questions, paper.sections).flatMap((question, index) => {
+        if (!OMR_QUESTION_TYPES.includes(question.type)) return [];
+        const bodies = [question, ...(question.alternatives || [])];
+        const optionCount = Math.max(...bodies.map(b => Array.isArray(b.options) ? b.options.length : 0));
+        if (question.type === QuestionType.MultipleChoice && optionCount < 2) return [];
+        return [{
+            number: index + 1,
+            type: question.type,
+            marks: question.marks,
+            choices: question.type === QuestionType.TrueFalse ? TRUE_FALSE_CHOICES : optionLetters(optionCount),
+            answers: bodies.map(b => answerIndex(question.type, b.options, b.answer)),
+        }];
+    });
+
+/**
+ * Lays the bubble rows of every set over one grid. Sets only shuffle within
+ * sections, so question numbers line up; a row gets the most choices any set has.
+ */
+export const mergeSetRows = (papers: QuestionPaperData[]): OmrQuestion[] => {
+    const rows = new Map<number, OmrQuestion>();
+    papers.flatMap(omrQuestions).forEach(q => {
+        const existing = rows.get(q.number);
+        if (!existing || existing.choices.length < q.choices.length) rows.set(q.number, q);
+    });
+    return [...rows.values()].sort((a, b) => a.number - b.number);
+};
+
+const st = {
+    root: `font-family: Arial, Helvetica, sans-serif; color: #000; background: #fff; font-size: 9pt;`,
+    mark: `position: absolute; width: 24px; height: 24px; background: #000;`,
+    header: `text-align: center; border-bottom: 2px solid #000; padding-bottom: 6px; margin-bottom: 10px;`,
+    candidate: `display: flex; gap: 16px; align-items: flex-start; margin-bottom: 12px;`,
+    box: `border: 1px solid #000; padding: 6px;`,
+    boxTitle: `font-weight: 700; font-size: 8pt; text-transform: uppercase; margin-bottom: 4px; text-align: center;`,
+    writeIn: `width: 16px; height: 18px; border: 1px solid #000; margin: 0 auto 3px;`,
+    bubble: `display: inline-block; width: 14px; height: 14px; border: 1px solid #000; border-radius: 50%; font-size: 7pt; line-height: 14px; text-align: center; margin: 1px 2px;`,
+    questions: `display: flex; gap: 10px; border: 1px solid #000; padding: 8px;`,
+    column: `flex: 1;`,
+    row: `display: flex; align-items: center; height: 18px;`,
+    number: `display: inline-block; width: 26px; text-align: right; margin-right: 6px; font-weight: 700;`,
+};
+
+const bubble = (label: string) => `<span style="${st.bubble}">${label}</span>`;
+
+// Solid squares at the page corners that a scanner aligns the sheet by.
+const alignmentMarks = () => ['top: 20px; left: 20px;', 'top: 20px; right: 20px;', 'bottom: 20px; left: 20px;', 'bottom: 20px; right: 20px;']
+    .map(position => `<div class="omr-alignment-mark" style="${st.mark} ${position}"></div>`).join('');
+
+const rollNumberGrid = () => `
+    <div style="${st.box}">
+        <div style="${st.boxTitle}">Roll Number</div>
+        <div style="display: flex;">
+            ${Array.from({ length: ROLL_NUMBER_DIGITS }, () => `
+                <div style="display: flex; flex-direction: column; align-items: center;">
+                    <div style="${st.writeIn}"></div>
+                    ${optionLetters(10).map((_, digit) => bubble(String(digit))).join('')}
+                </div>`).join('')}
+        </div>
+    </div>`;
+
+const setCodeBlock = (setLabels: string[]) => `
+    <div style="${st.box}">
+        <div style="${st.boxTitle}">Set Code</div>
+        <div style="display: flex; flex-direction: column; align-items: center;">${setLabels.map(bubble).join('')}</div>
+    </div>`;
+
+const escapeHtml = (text: string) => text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+/**
+ * Printable OMR answer sheets for a paper, or for all of its sets with a set
+ * code to bubble. Each document is one A4 sheet of up to 100 questions with
+ * alignment marks in its corners; longer papers get more sheets.
+ */
+export const generateOmrSheetHtml = (papers: QuestionPaperData[]): string[] => {
+    const [paper] = papers;
+    const rows = mergeSetRows(papers);
+    const setLabels = papers.map(p => p.setLabel).filter((label): label is string => !!label);
+    const sheetCount = Math.max(1, Math.ceil(rows.length / QUESTIONS_PER_SHEET));
+
+    return Array.from({ length: sheetCount }, (_, sheet) => {
+        const sheetRows = rows.slice(sheet * QUESTIONS_PER_SHEET, (sheet + 1) * QUESTIONS_PER_SHEET);
+        const columns = Array.from({ length: COLUMNS_PER_SHEET }, (_, c) => sheetRows.slice(c * QUESTIONS_PER_COLUMN, (c + 1) * QUESTIONS_PER_COLUMN));
+        return `<div id="paper-root" style="${st.root}">
+            <div class="omr-header" style="${st.header}">
+                ${alignmentMarks()}
+                <div style="font-size: 14pt; font-weight: 700;">${escapeHtml(paper.schoolName)}</div>
+                <div style="font-size: 11pt; font-weight: 700; letter-spacing: 2px;">OMR ANSWER SHEET</div>
+                <div>${escapeHtml(paper.subject)} · Class ${escapeHtml(paper.className)}${sheetCount > 1 ? ` · Sheet ${sheet + 1} of ${sheetCount}` : ''}</div>
+            </div>
+            <div class="omr-candidate" style="${st.candidate}">
+                <div style="${st.box} flex: 1;">
+                    <div style="margin-bottom: 14px;">Name: ______________________________</div>
+                    <div style="margin-bottom: 14px;">Invigilator's signature: ______________</div>
+                    <div style="${st.boxTitle} text-align: left;">Instructions</div>
+                    <div>Use a black or blue ball-point pen. Fill the bubble completely: ${bubble('')} becomes <span style="${st.bubble} background: #000;"></span>. Write your roll number in the boxes and fill the matching bubbles. Do not fold the sheet or make stray marks.</div>
+                </div>
+                ${rollNumberGrid()}
+                ${setLabels.length > 1 ? setCodeBlock(setLabels) : ''}
+            </div>
+            <div class="omr-questions" style="${st.questions}">
+                ${columns.map(column => `<div style="${st.column}">${column.map(row => `
+                    <div style="${st.row}"><span style="${st.number}">${row.number}</span>${row.choices.map(bubble).join('')}</div>`).join('')}</div>`).join('')}
+            </div>
+        </div>`;
+    });
+};
+
+const csvCell = (value: string | number) => /[",\n]/.test(String(value)) ? `"${String(value).replace(/"/g, '""')}"` : String(value);
+
+/**
+ * The answer key for scanning software, one row per set and question. Internal
+ * choices list each alternative's answer separated by "|"; answers that could
+ * not be read are left blank for the teacher to fill in.
+ */
+export const generateOmrAnswerKeyCsv = (papers: QuestionPaperData[]): string => {
+    const header = ['set', 'question', 'type', 'marks', 'choices', 'answer'];
+    const rows = papers.flatMap(paper => omrQuestions(paper).map(q => [
+        paper.setLabel || '',
+        q.number,
+        q.type,
+        q.marks,
+        q.choices.length,
+        q.answers.map(answer => answer === null ? '' : q.choices[answer]).join('|').replace(/^\|+$/, ''),
+    ]));
+    return [header, ...rows].map(row => row.map(csvCell).join(',')).join('\n');
+};
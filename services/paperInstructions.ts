@@ -0,0 +1,50 @@
+import { type PaperInstructions, type PaperSection, type Question, type QuestionDistributionItem, QuestionType } from '../types';
+import { groupIntoSections, marksBreakdown } from './htmlGenerator';
+
+/** What the instruction writer needs to know about one printed section. */
+export interface InstructionSection {
+    key: string;
+    letter: string;
+    name: string;
+    count: number;
+    breakdown: string; // e.g. "3 × 2 + 2 × 3"
+    internalChoices: number;
+}
+
+const toSections = (items: { type: QuestionType; count: number; marks: number; internalChoices: number }[], sections?: PaperSection[]): InstructionSection[] =>
+    groupIntoSections(items.filter(item => item.count > 0), sections).map((section, i) => ({
+        key: section.key,
+        letter: String.fromCharCode(65 + i),
+        name: section.name,
+        count: section.items.reduce((acc, item) => acc + item.count, 0),
+        breakdown: marksBreakdown(section.items),
+        internalChoices: section.items.reduce((acc, item) => acc + item.internalChoices, 0),
+    }));
+
+/** Sections as they will be printed from a planned distribution, before any question exists. */
+export const sectionsFromDistribution = (distribution: QuestionDistributionItem[], sections?: PaperSection[]): InstructionSection[] =>
+    toSections(distribution.map(item => ({ type: item.type, count: item.count, marks: item.marks, internalChoices: item.internalChoices || 0 })), sections);
+
+export const sectionsFromQuestions = (questions: Question[], sections?: PaperSection[]): InstructionSection[] =>
+    toSections(questions.map(q => ({ type: q.type, count: 1, marks: q.marks, internalChoices: q.alternatives?.length ? 1 : 0 })), sections);
+
+const lines = (value: unknown): string[] =>
+    Array.isArray(value) ? value.filter((line): line is string => typeof line === 'string' && !!line.trim()).map(line => line.trim()) : [];
+
+/** Keeps the model's instructions for sections the paper actually has. */
+export const normalizeInstructions = (raw: unknown, sections: InstructionSection[]): PaperInstructions => {
+    const body = raw && typeof raw === 'object' ? raw as Record<string, unknown> : {};
+    const drafted = Array.isArray(body.sections) ? body.sections as Record<string, unknown>[] : [];
+    const bySection: Record<string, string[]> = {};
+    sections.forEach(section => {
+        const match = drafted.find(d => d && d.letter === section.letter);
+        const sectionLines = lines(match?.instructions);
+        if (sectionLines.length) bySection[section.key] = sectionLines;
+    });
+    return { general: lines(body.general), sections: bySection };
+};
+
+/** Editor helpers: one instruction per line. */
+export const instructionsToText = (items: string[] | undefined): string => (items || []).join('\n');
+
+export const textToInstructions = (text: string): string[] => lines(text.split('\n'));
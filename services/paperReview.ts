@@ -0,0 +1,114 @@
+import { type QuestionPaperData, type Question, type PaperReview, type ReviewIssue, type ReviewIssueCategory, type ReviewSeverity, type ReviewFix, QuestionType } from '../types';
+import { generateHtmlFromPaperData, orderQuestionsForLayout } from './htmlGenerator';
+import { resolveOptionIndex } from './paperValidator';
+
+export const REVIEW_CATEGORY_LABELS: Record<ReviewIssueCategory, string> = {
+    ambiguity: 'Ambiguous wording',
+    multipleCorrect: 'More than one correct option',
+    wrongAnswer: 'Wrong answer',
+    outOfSyllabus: 'Out of syllabus',
+    vocabulary: 'Vocabulary above grade level',
+    other: 'Other',
+};
+
+export const REVIEW_SEVERITIES: ReviewSeverity[] = ['high', 'medium', 'low'];
+
+const text = (value: unknown): string | undefined =>
+    typeof value === 'string' && value.trim() ? value.trim() : undefined;
+
+const pick = <T extends string>(value: unknown, allowed: readonly T[], fallback: T): T =>
+    allowed.includes(value as T) ? value as T : fallback;
+
+/**
+ * Keeps only the parts of a proposed fix that fit the question. Options are
+ * only replaced on MCQs, and an MCQ fix is dropped when its answer would no
+ * longer be one of the options.
+ */
+const normalizeFix = (raw: unknown, question: Question): ReviewFix | undefined => {
+    if (!raw || typeof raw !== 'object') return undefined;
+    const fix = raw as Record<string, unknown>;
+    const isMcq = question.type === QuestionType.MultipleChoice && Array.isArray(question.options);
+    const options = isMcq && Array.isArray(fix.options) && fix.options.length >= 2 && fix.options.every(o => typeof o === 'string' && o.trim())
+        ? (fix.options as string[]).map(o => o.trim())
+        : undefined;
+    const answer = typeof question.answer === 'string' ? text(fix.answer) : undefined;
+    const normalized: ReviewFix = { questionText: text(fix.questionText), options, answer };
+
+    if (isMcq && (options || answer)) {
+        const finalOptions = options || question.options as string[];
+        const finalAnswer = answer || question.answer as string;
+        if (resolveOptionIndex(finalAnswer, finalOptions) < 0) return undefined;
+    }
+    const changed = (Object.keys(normalized) as (keyof ReviewFix)[]).filter(key => normalized[key] !== undefined);
+    return changed.length > 0 ? normalized : undefined;
+};
+
+/**
+ * Turns the model's review into issues tied to questions. Issues are matched to
+ * questions by their printed number; ones that point at no question are dropped.
+ */
+export const normalizeReview = (raw: unknown, paper: QuestionPaperData): PaperReview => {
+    const ordered = orderQuestionsForLayout(paper.questions, paper.sections);
+    const body = raw && typeof raw === 'object' && !Array.isArray(raw) ? raw as Record<string, unknown> : { issues: raw };
+    const reviewedAt = new Date().toISOString();
+    const issues: ReviewIssue[] = (Array.isArray(body.issues) ? body.issues : [])
+        .filter((item): item is Record<string, unknown> => !!item && typeof item === 'object')
+        .flatMap((item, i) => {
+            const questionNumber = Math.round(Number(item.questionNumber));
+            const question = ordered[questionNumber - 1];
+            const message = text(item.message);
+            if (!question || !message) return [];
+            return [{
+                id: `rv-${Date.parse(reviewedAt)}-${i}`,
+                questionNumber,
+                questionText: question.questionText,
+                category: pick(item.category, Object.keys(REVIEW_CATEGORY_LABELS) as ReviewIssueCategory[], 'other'),
+                severity: pick(item.severity, REVIEW_SEVERITIES, 'medium'),
+                message,
+                suggestion: text(item.suggestion),
+                fix: normalizeFix(item.fix, question),
+                status: 'open' as const,
+            }];
+        });
+    issues.sort((a, b) => REVIEW_SEVERITIES.indexOf(a.severity) - REVIEW_SEVERITIES.indexOf(b.severity) || a.questionNumber - b.questionNumber);
+    return { reviewedAt, summary: text(body.summary), issues };
+};
+
+/** The question an issue was raised on, or undefined once its text has been edited since the review. */
+export const findReviewedQuestion = (paper: QuestionPaperData, issue: ReviewIssue): Question | undefined =>
+    paper.questions.find(q => q.questionText === issue.questionText);
+
+const withIssueStatus = (review: PaperReview, issueId: string, status: ReviewIssue['status']): PaperReview => ({
+    ...review,
+    issues: review.issues.map(issue => issue.id === issueId ? { ...issue, status } : issue),
+});
+
+/**
+ * Applies an issue's fix to the paper, marks it accepted and re-renders the
+ * paper. Papers held to their source material get the question flagged again,
+ * since the reviewer's wording was never checked against the source. Any
+ * translation of the question is dropped with the old wording.
+ */
+export const applyReviewFix = (paper: QuestionPaperData, issue: ReviewIssue): QuestionPaperData => {
+    const question = findReviewedQuestion(paper, issue);
+    if (!paper.review || !question || !issue.fix) return paper;
+    const { questionText, options, answer } = issue.fix;
+    const fixed: Question = {
+        ...question,
+        questionText: questionText ?? question.questionText,
+        options: options ?? question.options,
+        answer: answer ?? question.answer,
+        translation: undefined,
+        sourceFlag: paper.sourceMode === 'strict' ? { reason: 'Changed by an accepted review fix; confirm it still comes from the source material.' } : question.sourceFlag,
+    };
+    const updated: QuestionPaperData = {
+        ...paper,
+        questions: paper.questions.map(q => q === question ? fixed : q),
+        review: withIssueStatus(paper.review, issue.id, 'accepted'),
+    };
+    const logoConfig = paper.schoolLogo ? { src: paper.schoolLogo, alignment: 'center' as const } : undefined;
+    return { ...updated, htmlContent: generateHtmlFromPaperData(updated, { logoConfig }) };
+};
+
+export const dismissReviewIssue = (paper: QuestionPaperData, issue: ReviewIssue): QuestionPaperData =>
+    paper.review ? { ...paper, review: withIssueStatus(paper.review, issue.id, 'dismissed') } : paper;
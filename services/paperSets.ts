@@ -0,0 +1,117 @@
+import { type QuestionPaperData, type Question, type QuestionTranslation, QuestionType } from '../types';
+import { generateHtmlFromPaperData, groupIntoSections } from './htmlGenerator';
+import { resolveOptionIndex } from './paperValidator';
+
+export const MAX_PAPER_SETS = 6;
+
+const optionLabel = (index: number) => String.fromCharCode(97 + index);
+
+const shuffle = <T,>(items: T[]): T[] => {
+    const result = [...items];
+    for (let i = result.length - 1; i > 0; i--) {
+        const j = Math.floor(Math.random() * (i + 1));
+        [result[i], result[j]] = [result[j], result[i]];
+    }
+    return result;
+};
+
+const sameText = (a: string, b: string) => a.trim().toLowerCase() === b.trim().toLowerCase();
+
+const shuffleMultipleChoice = (question: Question): Question => {
+    if (!Array.isArray(question.options) || typeof question.answer !== 'string') return question;
+    const options = question.options;
+    const answerIndex = resolveOptionIndex(question.answer, options);
+    // Without a resolvable answer we cannot remap it, so keep the original order.
+    if (answerIndex === -1) return question;
+
+    const order = shuffle(options.map((_, i) => i));
+    const newIndex = order.indexOf(answerIndex);
+    // Bilingual papers reorder the translated options the same way so both languages share letters.
+    const translated = question.translation?.options;
+    const translation = question.translation && Array.isArray(translated) && translated.length === options.length
+        ? { ...question.translation, options: order.map(i => translated[i]), answer: `(${optionLabel(newIndex)}) ${translated[answerIndex]}` }
+        : question.translation;
+    return {
+        ...question,
+        options: order.map(i => options[i]),
+        answer: `(${optionLabel(newIndex)}) ${options[answerIndex]}`,
+        translation,
+    };
+};
+
+const shuffleMatchColumns = (question: Question): Question => {
+    const opts = question.options;
+    if (!opts || Array.isArray(opts) || typeof question.answer !== 'object') return question;
+
+    const order = shuffle(opts.columnB.map((_, i) => i));
+    const columnB = order.map(i => opts.columnB[i]);
+    // Answers keyed by column B text stay valid; answers given as column B labels are relabelled.
+    const answer = Object.fromEntries(Object.entries(question.answer).map(([key, value]) => {
+        const bareLabel = value.trim().match(/^\(?([a-z])\)?$/i);
+        if (!bareLabel || opts.columnB.some(b => sameText(b, value))) return [key, value];
+        const oldIndex = bareLabel[1].toLowerCase().charCodeAt(0) - 97;
+        const newIndex = order.indexOf(oldIndex);
+        return [key, newIndex > -1 ? `(${optionLabel(newIndex)})` : value];
+    }));
+
+    const translated = question.translation?.options;
+    const translation = question.translation && translated && !Array.isArray(translated) && translated.columnB.length === opts.columnB.length
+        ? { ...question.translation, options: { columnA: translated.columnA, columnB: order.map(i => translated.columnB[i]) } }
+        : question.translation;
+
+    return { ...question, options: { columnA: opts.columnA, columnB }, answer, translation };
+};
+
+const shuffleBody = (question: Question): Question => {
+    if (question.type === QuestionType.MultipleChoice) return shuffleMultipleChoice(question);
+    if (question.type === QuestionType.MatchTheFollowing) return shuffleMatchColumns(question);
+    return question;
+};
+
+const shuffleQuestion = (question: Question): Question => {
+    const shuffled = shuffleBody(question);
+    if (!question.alternatives) return shuffled;
+    const altTranslations: NonNullable<QuestionTranslation['alternatives']> = [];
+    const alternatives = question.alternatives.map((alt, i) => {
+        const { questionText, options, answer, translation } = shuffleBody({ ...question, ...alt, translation: question.translation?.alternatives?.[i] });
+        if (translation) altTranslations.push(translation);
+        return { ...alt, questionText, options, answer };
+    });
+    return {
+        ...shuffled,
+        alternatives,
+        translation: shuffled.translation && {
+            ...shuffled.translation,
+            alternatives: altTranslations.length === alternatives.length ? altTranslations : shuffled.translation.alternatives,
+        },
+    };
+};
+
+/**
+ * Builds one shuffled variant of a paper. Questions only move within their
+ * section so section headers and marks stay identical across sets.
+ */
+export const createPaperSet = (paper: QuestionPaperData, setLabel: string): QuestionPaperData => {
+    const questions = groupIntoSections(paper.questions, paper.sections)
+        .flatMap(section => shuffle(section.items))
+        .map((q, index) => ({ ...shuffleQuestion(q), questionNumber: index + 1 }));
+
+    const set: QuestionPaperData = {
+        ...paper,
+        id: `${paper.id}-set-${setLabel}`,
+        questions,
+        createdAt: new Date().toISOString(),
+        parentPaperId: paper.id,
+        setLabel,
+        validationReport: undefined,
+        review: undefined,
+    };
+    const logoConfig = paper.schoolLogo ? { src: paper.schoolLogo, alignment: 'center' as const } : undefined;
+    set.htmlContent = generateHtmlFromPaperData(set, { logoConfig });
+    return set;
+};
+
+export const generatePaperSets = (paper: QuestionPaperData, count: number): QuestionPaperData[] => {
+    const total = Math.min(Math.max(Math.floor(count), 1), MAX_PAPER_SETS);
+    return Array.from({ length: total }, (_, i) => createPaperSet(paper, String.fromCharCode(65 + i)));
+};
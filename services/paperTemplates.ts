@@ -0,0 +1,166 @@
+import { type PaperTemplate } from '../types';
+import { authService } from './authService';
+
+const TEMPLATE_FILE_VERSION = 1;
+
+export const DEFAULT_TEMPLATE_ID = 'standard';
+
+const STANDARD_TEMPLATE: PaperTemplate = {
+    id: DEFAULT_TEMPLATE_ID,
+    name: 'Standard',
+    description: 'Lettered sections with a type heading and a marks summary.',
+    header: { lines: ['{subject}', 'Class: {className}'], meta: ['Time: {timeAllowed}', 'Max Marks: {totalMarks}'], showLogo: true },
+    section: { title: 'SECTION {letter}', subtitle: '{roman}. {name}', marks: '[{breakdown} = {total} Marks]' },
+    question: { number: '{n}.', marks: '[{marks}]' },
+};
+
+export const BUILT_IN_PAPER_TEMPLATES: PaperTemplate[] = [
+    STANDARD_TEMPLATE,
+    {
+        id: 'cbse',
+        name: 'CBSE',
+        description: 'General instructions, lettered sections and marks in the right margin.',
+        header: { lines: ['{subject}', 'Class {className}'], meta: ['Time Allowed: {timeAllowed}', 'Maximum Marks: {totalMarks}'], showLogo: true },
+        instructions: {
+            title: 'General Instructions:',
+            items: [
+                'This question paper contains {questionCount} questions in {sectionCount} sections.',
+                'All questions are compulsory. Internal choices are given in some questions.',
+                'Marks for each question are shown against it.',
+            ],
+        },
+        section: { title: 'SECTION {letter}', subtitle: 'This section has {count} {type} questions.', marks: '{total} Marks' },
+        question: { number: '{n}.', marks: '{marks}' },
+        footer: '*****',
+    },
+    {
+        id: 'icse',
+        name: 'ICSE',
+        description: 'Numbered "Question" headings with marks in square brackets.',
+        header: { lines: ['{subject}', 'Class {className}'], meta: ['Time: {timeAllowed}', 'Maximum Marks: {totalMarks}'], showLogo: true },
+        instructions: {
+            title: 'Instructions',
+            items: [
+                'Answers to this paper must be written on the paper provided separately.',
+                'You will not be allowed to write during the first 15 minutes. This time is to be spent in reading the question paper.',
+                'The intended marks for questions or parts of questions are given in brackets [ ].',
+            ],
+        },
+        section: { title: 'SECTION {letter} ({total} Marks)', subtitle: 'Attempt all questions from this Section.', marks: '' },
+        question: { number: 'Question {n}', marks: '[{marks}]' },
+        styles: { questionNumberTd: 'width: 100px;' },
+    },
+    {
+        id: 'stateBoard',
+        name: 'State Board',
+        description: 'Roman-numbered parts and marks in round brackets.',
+        header: { lines: ['{subject}', 'Standard {className}'], meta: ['Time: {timeAllowed}', 'Total Marks: {totalMarks}'], showLogo: true },
+        instructions: { title: 'Note:', items: ['Answer all the questions.', 'Draw diagrams wherever necessary.'] },
+        section: { title: 'PART - {roman}', subtitle: '{name}', marks: '{breakdown} = {total}' },
+        question: { number: '{n})', marks: '({marks})' },
+    },
+    {
+        id: 'university',
+        name: 'University',
+        description: 'Course header, lettered parts and "Q" numbering.',
+        header: { lines: ['{className} Examination', 'Course: {subject}'], meta: ['Duration: {timeAllowed}', 'Max. Marks: {totalMarks}'], showLogo: true },
+        instructions: {
+            title: 'Instructions to Candidates',
+            items: ['Answer all questions.', 'Figures to the right indicate full marks.', 'Assume suitable data wherever necessary and state it clearly.'],
+        },
+        section: { title: 'PART {letter}', subtitle: '{name}', marks: '({breakdown} = {total})' },
+        question: { number: 'Q{n}.', marks: '({marks})' },
+        footer: '* * * * *',
+        styles: { headerSchool: 'font-size: 18pt;', questionNumberTd: 'width: 45px;' },
+    },
+];
+
+export const isBuiltInTemplate = (id: string) => BUILT_IN_PAPER_TEMPLATES.some(t => t.id === id);
+
+/** Built-in templates first, then the school's own. */
+export const getPaperTemplates = (): PaperTemplate[] => [...BUILT_IN_PAPER_TEMPLATES, ...authService.getPaperTemplates()];
+
+/** Unknown ids (a deleted custom template, say) fall back to the standard layout. */
+export const resolvePaperTemplate = (id?: string): PaperTemplate =>
+    (id && getPaperTemplates().find(t => t.id === id)) || STANDARD_TEMPLATE;
+
+export const paperTemplateToJson = (template: PaperTemplate): string => {
+    const { id, createdAt, updatedAt, ...fields } = template;
+    return JSON.stringify({ version: TEMPLATE_FILE_VERSION, template: fields }, null, 2);
+};
+
+/**
+ * Template CSS ends up inside the paper's <style> tag, so it must not be able
+ * to close it or open another tag. CSS itself never needs a "<".
+ */
+export const sanitizeTemplateCss = (css: string | undefined): string => (css || '').replace(/</g, '');
+
+/** Style values end up inside style="..." attributes, which quotes and angle brackets could break out of. */
+export const isSafeStyleValue = (value: string): boolean => !/["<>]/.test(value);
+
+const text = (value: unknown, fallback: string): string => typeof value === 'string' ? value : fallback;
+
+const asRecord = (value: unknown): Record<string, unknown> | undefined =>
+    value && typeof value === 'object' && !Array.isArray(value) ? value as Record<string, unknown> : undefined;
+
+const textList = (value: unknown): string[] | undefined =>
+    Array.isArray(value) ? value.filter((item): item is string => typeof item === 'string') : undefined;
+
+/**
+ * Reads a template written by `paperTemplateToJson`, or a bare template object.
+ * Missing fields are taken from the standard layout, and `css` replaces the
+ * file's own stylesheet when given. The result always gets a fresh id.
+ */
+export const parsePaperTemplateJson = (json: string, css?: string): PaperTemplate => {
+    let raw: unknown;
+    try {
+        raw = JSON.parse(json);
+    } catch {
+        throw new Error('The template is not valid JSON.');
+    }
+    const file = asRecord(raw);
+    const body = asRecord(file?.template) ?? file;
+    if (!body || typeof body.name !== 'string' || !body.name.trim()) {
+        throw new Error('A template needs a "name".');
+    }
+    const base = STANDARD_TEMPLATE;
+    const header = asRecord(body.header) ?? {};
+    const instructions = asRecord(body.instructions) ?? {};
+    const section = asRecord(body.section) ?? {};
+    const question = asRecord(body.question) ?? {};
+    const meta = textList(header.meta);
+    const instructionItems = textList(instructions.items);
+    const styleEntries = Object.entries(asRecord(body.styles) ?? {});
+    if (styleEntries.some(([, value]) => typeof value === 'string' && !isSafeStyleValue(value))) {
+        throw new Error('Template styles cannot contain quotes or angle brackets.');
+    }
+    const styles = styleEntries.length
+        ? Object.fromEntries(styleEntries.filter((entry): entry is [string, string] => typeof entry[1] === 'string'))
+        : undefined;
+    const now = new Date().toISOString();
+    return {
+        id: `tpl-${Date.now()}-${Math.random().toString(36).slice(2, 7)}`,
+        name: body.name.trim(),
+        description: typeof body.description === 'string' ? body.description : undefined,
+        header: {
+            lines: textList(header.lines) ?? base.header.lines,
+            meta: meta?.length === 2 ? [meta[0], meta[1]] : base.header.meta,
+            showLogo: typeof header.showLogo === 'boolean' ? header.showLogo : base.header.showLogo,
+        },
+        instructions: instructionItems?.length ? { title: text(instructions.title, 'Instructions'), items: instructionItems } : undefined,
+        section: {
+            title: text(section.title, base.section.title),
+            subtitle: text(section.subtitle, base.section.subtitle),
+            marks: text(section.marks, base.section.marks),
+        },
+        question: {
+            number: text(question.number, base.question.number),
+            marks: text(question.marks, base.question.marks),
+        },
+        footer: typeof body.footer === 'string' && body.footer.trim() ? body.footer : undefined,
+        styles,
+        css: sanitizeTemplateCss(css ?? (typeof body.css === 'string' ? body.css : undefined)) || undefined,
+        createdAt: now,
+        updatedAt: now,
+    };
+};
@@ -0,0 +1,661 @@
+import {
+    type Question,
+    type QuestionAlternative,
+    type SubQuestion,
+    type MarkingPoint,
+    type NumericAnswer,
+    type QuestionTranslation,
+    type SourceCitation,
+    type QuestionDistributionItem,
+    type ValidationFix,
+    type ValidationReport,
+    type SectionResult,
+    QuestionType,
+    Difficulty,
+    Taxonomy,
+} from '../types';
+import { ASSERTION_REASON_OPTIONS } from '../constants';
+
+const normalizeKey = (value: unknown): string =>
+    typeof value === 'string' ? value.toLowerCase().replace(/[^a-z]/g, '') : '';
+
+const QUESTION_TYPE_ALIASES: Record<string, QuestionType> = {
+    mcq: QuestionType.MultipleChoice,
+    mcqs: QuestionType.MultipleChoice,
+    multiplechoice: QuestionType.MultipleChoice,
+    multiplechoicequestion: QuestionType.MultipleChoice,
+    objective: QuestionType.MultipleChoice,
+    fillintheblanks: QuestionType.FillInTheBlanks,
+    fillintheblank: QuestionType.FillInTheBlanks,
+    fillblanks: QuestionType.FillInTheBlanks,
+    blanks: QuestionType.FillInTheBlanks,
+    truefalse: QuestionType.TrueFalse,
+    trueorfalse: QuestionType.TrueFalse,
+    tf: QuestionType.TrueFalse,
+    shortanswer: QuestionType.ShortAnswer,
+    shortanswerquestion: QuestionType.ShortAnswer,
+    short: QuestionType.ShortAnswer,
+    saq: QuestionType.ShortAnswer,
+    longanswer: QuestionType.LongAnswer,
+    longanswerquestion: QuestionType.LongAnswer,
+    long: QuestionType.LongAnswer,
+    essay: QuestionType.LongAnswer,
+    laq: QuestionType.LongAnswer,
+    matchthefollowing: QuestionType.MatchTheFollowing,
+    matching: QuestionType.MatchTheFollowing,
+    match: QuestionType.MatchTheFollowing,
+    assertionreason: QuestionType.AssertionReason,
+    assertionandreason: QuestionType.AssertionReason,
+    assertion: QuestionType.AssertionReason,
+    ar: QuestionType.AssertionReason,
+    casebased: QuestionType.CaseBased,
+    casestudy: QuestionType.CaseBased,
+    casestudybased: QuestionType.CaseBased,
+    case: QuestionType.CaseBased,
+    passagebased: QuestionType.CaseBased,
+    passage: QuestionType.CaseBased,
+    sourcebased: QuestionType.CaseBased,
+    comprehension: QuestionType.CaseBased,
+    numerical: QuestionType.Numerical,
+    numericals: QuestionType.Numerical,
+    numeric: QuestionType.Numerical,
+    numericalanswer: QuestionType.Numerical,
+    oneword: QuestionType.OneWord,
+    onewordanswer: QuestionType.OneWord,
+    veryshortanswer: QuestionType.OneWord,
+    vsa: QuestionType.OneWord,
+};
+
+const DIFFICULTY_ALIASES: Record<string, Difficulty> = {
+    easy: Difficulty.Easy,
+    simple: Difficulty.Easy,
+    low: Difficulty.Easy,
+    medium: Difficulty.Medium,
+    moderate: Difficulty.Medium,
+    average: Difficulty.Medium,
+    hard: Difficulty.Hard,
+    difficult: Difficulty.Hard,
+    high: Difficulty.Hard,
+    challenging: Difficulty.Hard,
+};
+
+const TAXONOMY_ALIASES: Record<string, Taxonomy> = {
+    remembering: Taxonomy.Remembering,
+    remember: Taxonomy.Remembering,
+    knowledge: Taxonomy.Remembering,
+    recall: Taxonomy.Remembering,
+    understanding: Taxonomy.Understanding,
+    understand: Taxonomy.Understanding,
+    comprehension: Taxonomy.Understanding,
+    applying: Taxonomy.Applying,
+    apply: Taxonomy.Applying,
+    application: Taxonomy.Applying,
+    analyzing: Taxonomy.Analyzing,
+    analysing: Taxonomy.Analyzing,
+    analyze: Taxonomy.Analyzing,
+    analyse: Taxonomy.Analyzing,
+    analysis: Taxonomy.Analyzing,
+    evaluating: Taxonomy.Evaluating,
+    evaluate: Taxonomy.Evaluating,
+    evaluation: Taxonomy.Evaluating,
+    creating: Taxonomy.Creating,
+    create: Taxonomy.Creating,
+    synthesis: Taxonomy.Creating,
+};
+
+export const coerceQuestionType = (value: unknown): QuestionType | null =>
+    QUESTION_TYPE_ALIASES[normalizeKey(value)] ?? null;
+
+export const coerceDifficulty = (value: unknown): Difficulty | null =>
+    DIFFICULTY_ALIASES[normalizeKey(value)] ?? null;
+
+export const coerceTaxonomy = (value: unknown): Taxonomy | null =>
+    TAXONOMY_ALIASES[normalizeKey(value)] ?? null;
+
+const toCleanStringArray = (value: unknown): string[] =>
+    Array.isArray(value) ? value.map(v => String(v ?? '').trim()).filter(Boolean) : [];
+
+const sameText = (a: string, b: string) => a.trim().toLowerCase() === b.trim().toLowerCase();
+
+/**
+ * Works out which option an MCQ answer refers to. Answers come back from the
+ * model as the option text, a bare label ("b", "(b)") or both ("(b) Paris").
+ */
+export const resolveOptionIndex = (answer: string, options: string[]): number => {
+    const byText = options.findIndex(opt => sameText(opt, answer));
+    if (byText > -1) return byText;
+
+    const labelled = answer.trim().match(/^\(?([a-z])[).:]\s*(.+)$/i);
+    if (labelled) {
+        const index = labelled[1].toLowerCase().charCodeAt(0) - 97;
+        if (options[index] !== undefined && sameText(options[index], labelled[2])) return index;
+    }
+
+    const bareLabel = answer.trim().match(/^\(?([a-z])\)?\.?$/i);
+    if (bareLabel) {
+        const index = bareLabel[1].toLowerCase().charCodeAt(0) - 97;
+        if (index < options.length) return index;
+    }
+    return -1;
+};
+
+const toNumber = (value: unknown): number | null => {
+    const n = typeof value === 'number' ? value : typeof value === 'string' && value.trim() !== '' ? Number(value) : NaN;
+    return Number.isFinite(n) ? n : null;
+};
+
+/** Reads `numericAnswer` (or flat value/unit/tolerance fields), falling back to a leading number in the answer. */
+const parseNumericAnswer = (raw: any): NumericAnswer | null => {
+    const source = raw.numericAnswer && typeof raw.numericAnswer === 'object' ? raw.numericAnswer : raw;
+    let value = toNumber(source.value);
+    let unit = typeof source.unit === 'string' && source.unit.trim() ? source.unit.trim() : undefined;
+    const tolerance = toNumber(source.tolerance);
+
+    if (value === null && typeof raw.answer === 'string') {
+        const leading = raw.answer.trim().match(/^(-?\d+(?:\.\d+)?)\s*(.{0,20})$/);
+        if (leading) {
+            value = Number(leading[1]);
+            unit = unit ?? (leading[2].trim() || undefined);
+        }
+    }
+    if (value === null) return null;
+    return { value, unit, tolerance: tolerance ? Math.abs(tolerance) : undefined };
+};
+
+export const formatNumericAnswer = ({ value, unit, tolerance }: NumericAnswer): string =>
+    `${value}${unit ? ` ${unit}` : ''}${tolerance ? ` (± ${tolerance})` : ''}`;
+
+const MATH_SEGMENT = /\$\$[\s\S]*?\$\$|\$[\s\S]*?\$/g;
+
+/**
+ * Copies the primary text's LaTeX into its translation, segment by segment, so
+ * formulas read identically in both languages. Returns null when the two texts
+ * do not have the same number of formulas.
+ */
+const keepPrimaryMath = (primary: string, translated: string): string | null => {
+    const formulas = primary.match(MATH_SEGMENT) || [];
+    if ((translated.match(MATH_SEGMENT) || []).length !== formulas.length) return null;
+    let i = 0;
+    return translated.replace(MATH_SEGMENT, () => formulas[i++]);
+};
+
+type TranslatableBody = Pick<Question, 'questionText' | 'options' | 'answer' | 'subQuestions'> & { alternatives?: QuestionAlternative[] };
+
+/**
+ * Checks a raw translation against the question it translates. Options, parts
+ * and alternatives are kept only when they line up one-to-one with the
+ * original; anything that does not falls back to the primary language.
+ */
+export const normalizeTranslation = (raw: unknown, body: TranslatableBody): { translation?: QuestionTranslation; fixes: Omit<ValidationFix, 'questionNumber'>[] } => {
+    const fixes: Omit<ValidationFix, 'questionNumber'>[] = [];
+    if (!raw || typeof raw !== 'object') return { fixes };
+    const source = raw as Record<string, any>;
+    const text = (primary: string, translated: unknown): string | null =>
+        typeof translated === 'string' && translated.trim() ? keepPrimaryMath(primary, translated.trim()) : null;
+
+    const questionText = text(body.questionText, source.questionText);
+    if (!questionText) {
+        fixes.push({ field: 'translation', message: 'Translation dropped: it was empty or its formulas differ from the original.' });
+        return { fixes };
+    }
+    const translation: QuestionTranslation = { questionText };
+
+    if (Array.isArray(body.options)) {
+        const primary = body.options;
+        const list = toCleanStringArray(source.options).map((opt, i) => primary[i] !== undefined ? text(primary[i], opt) : null);
+        if (list.length === primary.length && list.every(Boolean)) translation.options = list as string[];
+    } else if (body.options && source.options && typeof source.options === 'object') {
+        const { columnA, columnB } = body.options;
+        const a = toCleanStringArray(source.options.columnA).map((item, i) => columnA[i] !== undefined ? text(columnA[i], item) : null);
+        const b = toCleanStringArray(source.options.columnB).map((item, i) => columnB[i] !== undefined ? text(columnB[i], item) : null);
+        if (a.length === columnA.length && b.length === columnB.length && [...a, ...b].every(Boolean)) {
+            translation.options = { columnA: a as string[], columnB: b as string[] };
+        }
+    }
+    if (body.options && !translation.options) {
+        fixes.push({ field: 'translation', message: 'Translated options did not match the original and were left untranslated.' });
+    }
+
+    if (typeof body.answer === 'string') {
+        translation.answer = text(body.answer, source.answer) ?? undefined;
+    }
+
+    if (body.subQuestions) {
+        const parts: unknown[] = Array.isArray(source.subQuestions) ? source.subQuestions : [];
+        const translatedParts = body.subQuestions.map((part, i) => {
+            const rawPart = parts[i] as Record<string, unknown> | undefined;
+            const partText = rawPart ? text(part.questionText, rawPart.questionText) : null;
+            return partText ? { questionText: partText, answer: text(part.answer, rawPart?.answer) ?? '' } : null;
+        });
+        if (parts.length === body.subQuestions.length && translatedParts.every(Boolean)) {
+            translation.subQuestions = translatedParts as QuestionTranslation['subQuestions'];
+        } else {
+            fixes.push({ field: 'translation', message: 'Translated parts did not match the original and were left untranslated.' });
+        }
+    }
+
+    if (body.alternatives) {
+        const alternatives: unknown[] = Array.isArray(source.alternatives) ? source.alternatives : source.alternative ? [source.alternative] : [];
+        const translated = body.alternatives.map((alt, i) => normalizeTranslation(alternatives[i], alt));
+        translated.forEach(t => fixes.push(...t.fixes));
+        if (translated.every(t => t.translation)) {
+            translation.alternatives = translated.map(t => t.translation!);
+        }
+    }
+
+    return { translation, fixes };
+};
+
+/**
+ * Attaches translations from a translate request. Items are matched to
+ * `questions` by their `index` field, falling back to their position.
+ */
+export const attachTranslations = (questions: Question[], raw: unknown): { questions: Question[]; fixes: ValidationFix[] } => {
+    const fixes: ValidationFix[] = [];
+    const list: unknown[] = Array.isArray(raw) ? raw : [];
+    const byIndex = new Map<number, unknown>();
+    list.forEach((item, position) => {
+        const index = item && typeof item === 'object' && Number.isInteger((item as any).index) ? (item as any).index : position;
+        byIndex.set(index, item);
+    });
+
+    return {
+        questions: questions.map((question, index) => {
+            const { translation, fixes: itemFixes } = normalizeTranslation(byIndex.get(index), question);
+            itemFixes.forEach(f => fixes.push({ ...f, questionNumber: question.questionNumber }));
+            return translation ? { ...question, translation } : question;
+        }),
+        fixes,
+    };
+};
+
+const MIN_PART_MARKS = 0.5;
+
+/** Total marks of a question's parts or of a marking scheme's points. */
+export const sumMarks = (parts: { marks: number }[]): number =>
+    parts.reduce((acc, part) => acc + part.marks, 0);
+
+/**
+ * Rescales part (or marking point) marks in half-mark steps so they add up to
+ * `marks`, keeping their proportions. Returns null when every part cannot keep
+ * half a mark.
+ */
+export const fitMarks = <T extends { marks: number }>(parts: T[], marks: number): T[] | null => {
+    const total = sumMarks(parts);
+    if (total === marks) return parts;
+    if (marks < parts.length * MIN_PART_MARKS) return null;
+    let remaining = marks;
+    return parts.map((part, i) => {
+        const reserved = (parts.length - i - 1) * MIN_PART_MARKS;
+        const share = total > 0 ? part.marks / total : 1 / parts.length;
+        const partMarks = i === parts.length - 1
+            ? remaining
+            : Math.min(Math.max(Math.round(share * marks * 2) / 2, MIN_PART_MARKS), remaining - reserved);
+        remaining -= partMarks;
+        return { ...part, marks: partMarks };
+    });
+};
+
+/** Writes the parts back into the question and answer text, for bodies whose parts cannot be kept. */
+const foldSubQuestions = <T extends QuestionAlternative>(body: T): T => {
+    const { subQuestions, ...rest } = body;
+    if (!subQuestions) return body;
+    const label = (i: number) => `(${String.fromCharCode(97 + i)})`;
+    const partPoints = subQuestions.flatMap((part, i) => (part.markingScheme || []).map(point => ({ ...point, description: `${label(i)} ${point.description}` })));
+    return {
+        ...rest,
+        markingScheme: partPoints.length > 0 ? partPoints : rest.markingScheme,
+        questionText: [body.questionText, ...subQuestions.map((part, i) => `${label(i)} ${part.questionText}`)].join('\n'),
+        answer: typeof body.answer === 'string'
+            ? [body.answer, ...subQuestions.map((part, i) => part.answer && `${label(i)} ${part.answer}`)].filter(Boolean).join('\n')
+            : body.answer,
+    } as T;
+};
+
+/** Makes a body's parts add up to `marks`, describing any change in `fixes`. */
+const fitBodyParts = <T extends QuestionAlternative>(body: T, marks: number, fixes: Omit<ValidationFix, 'questionNumber'>[]): T => {
+    if (!body.subQuestions) return body;
+    const total = sumMarks(body.subQuestions);
+    if (total === marks) return body;
+    const parts = fitMarks(body.subQuestions, marks);
+    if (!parts) {
+        fixes.push({ field: 'subQuestions', message: `Sub-parts merged into the question: ${marks} mark(s) cannot be split across ${body.subQuestions.length} parts.` });
+        return foldSubQuestions(body);
+    }
+    fixes.push({ field: 'subQuestions', message: `Sub-part marks rescaled from ${total} to ${marks}.` });
+    return { ...body, subQuestions: parts };
+};
+
+/** Reads marking points, which may also come back as plain strings without marks. */
+const normalizeMarkingPoints = (value: unknown): MarkingPoint[] | undefined => {
+    if (!Array.isArray(value)) return undefined;
+    const points = value
+        .map(point => typeof point === 'string' ? { description: point.trim(), marks: 0 }
+            : point && typeof point === 'object' ? { description: String(point.description ?? point.step ?? point.point ?? '').trim(), marks: Number(point.marks) || 0 }
+            : null)
+        .filter((point): point is MarkingPoint => !!point?.description);
+    return points.length > 0 ? points : undefined;
+};
+
+/** Makes marking points add up to `marks`, or drops them when they cannot. */
+const fitMarkingScheme = (points: MarkingPoint[] | undefined, marks: number, label: string, fixes: Omit<ValidationFix, 'questionNumber'>[]): MarkingPoint[] | undefined => {
+    if (!points) return undefined;
+    const total = sumMarks(points);
+    if (total === marks) return points;
+    const fitted = fitMarks(points, marks);
+    fixes.push({
+        field: 'markingScheme',
+        message: fitted
+            ? `Marking scheme${label} rescaled from ${total} to ${marks} mark(s).`
+            : `Marking scheme${label} dropped: ${marks} mark(s) cannot be split across ${points.length} points.`,
+    });
+    return fitted ?? undefined;
+};
+
+/** Fits each part's marking scheme to the part, or the body's scheme to the body when it has no parts. */
+const fitBodyMarkingSchemes = <T extends QuestionAlternative>(body: T, marks: number, fixes: Omit<ValidationFix, 'questionNumber'>[]): T => {
+    if (!body.subQuestions?.length) return { ...body, markingScheme: fitMarkingScheme(body.markingScheme, marks, '', fixes) };
+    return {
+        ...body,
+        markingScheme: undefined,
+        subQuestions: body.subQuestions.map((part, i) => ({ ...part, markingScheme: fitMarkingScheme(part.markingScheme, part.marks, ` for part ${i + 1}`, fixes) })),
+    };
+};
+
+const normalizeSubQuestions = (value: unknown, fallbackTaxonomy: Taxonomy): SubQuestion[] => {
+    if (!Array.isArray(value)) return [];
+    return value
+        .filter((part): part is Record<string, unknown> => !!part && typeof part === 'object')
+        .map(part => ({
+            questionText: String(part.questionText ?? part.text ?? '').trim(),
+            marks: Number(part.marks) || 0,
+            answer: typeof part.answer === 'string' ? part.answer : String(part.answer ?? ''),
+            taxonomy: coerceTaxonomy(part.taxonomy) ?? fallbackTaxonomy,
+            markingScheme: normalizeMarkingPoints(part.markingScheme),
+        }))
+        .filter(part => part.questionText);
+};
+
+const optionalText = (value: unknown): string | undefined =>
+    typeof value === 'string' && value.trim() ? value.trim() : typeof value === 'number' ? String(value) : undefined;
+
+/** Reads the model's `source` citation, which may also come back as a bare quote. */
+const normalizeSourceCitation = (raw: unknown): SourceCitation | undefined => {
+    if (typeof raw === 'string') return raw.trim() ? { excerpt: raw.trim() } : undefined;
+    if (!raw || typeof raw !== 'object') return undefined;
+    const r = raw as Record<string, unknown>;
+    const citation: SourceCitation = {
+        documentName: optionalText(r.documentName ?? r.document),
+        section: optionalText(r.section ?? r.chapter),
+        pages: optionalText(r.pages ?? r.page),
+        excerpt: optionalText(r.excerpt ?? r.quote),
+    };
+    return Object.values(citation).some(Boolean) ? citation : undefined;
+};
+
+/**
+ * Normalises a single raw question from the model. Returns null (with a reason)
+ * when the item cannot be used for its declared type.
+ */
+const normalizeRawQuestion = (raw: any): { question: Question | null; fixes: Omit<ValidationFix, 'questionNumber'>[]; reason?: string } => {
+    const fixes: Omit<ValidationFix, 'questionNumber'>[] = [];
+    if (!raw || typeof raw !== 'object') return { question: null, fixes, reason: 'not an object' };
+
+    // Assertion-Reason items may come back as separate fields instead of one text.
+    const assertionText = typeof raw.assertion === 'string' && typeof raw.reason === 'string'
+        ? `Assertion (A): ${raw.assertion.trim()}\nReason (R): ${raw.reason.trim()}`
+        : '';
+    const questionText = assertionText || (typeof raw.questionText === 'string' ? raw.questionText.trim() : '');
+    if (!questionText) return { question: null, fixes, reason: 'missing question text' };
+
+    const type = coerceQuestionType(raw.type);
+    if (!type) return { question: null, fixes, reason: `unknown question type "${raw.type}"` };
+    if (type !== raw.type) fixes.push({ field: 'type', message: `Type "${raw.type}" coerced to "${type}".` });
+
+    let options: Question['options'] = null;
+    let answer: Question['answer'] = typeof raw.answer === 'string' || (raw.answer && typeof raw.answer === 'object') ? raw.answer : String(raw.answer ?? '');
+    let numericAnswer: NumericAnswer | undefined;
+
+    if (type === QuestionType.MultipleChoice) {
+        const list = toCleanStringArray(raw.options);
+        if (list.length < 2) return { question: null, fixes, reason: 'multiple choice question without options' };
+        options = list;
+    } else if (type === QuestionType.MatchTheFollowing) {
+        const opts = raw.options;
+        let columnA: string[] = [];
+        let columnB: string[] = [];
+        if (opts && typeof opts === 'object' && !Array.isArray(opts)) {
+            if ('columnA' in opts || 'columnB' in opts) {
+                columnA = toCleanStringArray(opts.columnA);
+                columnB = toCleanStringArray(opts.columnB);
+            } else {
+                columnA = Object.keys(opts);
+                columnB = Object.values(opts).map(v => String(v));
+                fixes.push({ field: 'options', message: 'Matching pairs converted to Column A / Column B.' });
+            }
+        }
+        if (columnA.length < 2 || columnA.length !== columnB.length) {
+            return { question: null, fixes, reason: 'matching question with unbalanced columns' };
+        }
+        options = { columnA, columnB };
+    } else if (type === QuestionType.TrueFalse && typeof answer === 'string') {
+        const key = normalizeKey(answer);
+        const normalized = key.startsWith('true') || key === 't' ? 'True' : key.startsWith('false') || key === 'f' ? 'False' : answer;
+        if (normalized !== answer) fixes.push({ field: 'answer', message: `Answer "${answer}" normalised to "${normalized}".` });
+        answer = normalized;
+    } else if (type === QuestionType.AssertionReason) {
+        options = [...ASSERTION_REASON_OPTIONS];
+        const given = toCleanStringArray(raw.options);
+        if (given.length > 0 && given.some((opt, i) => !sameText(opt, ASSERTION_REASON_OPTIONS[i] ?? ''))) {
+            fixes.push({ field: 'options', message: 'Assertion-Reason options replaced with the four standard choices.' });
+        }
+        const index = typeof answer === 'string' ? resolveOptionIndex(answer, options) : -1;
+        if (index === -1) return { question: null, fixes, reason: 'assertion-reason answer is not one of the standard choices' };
+        answer = `(${String.fromCharCode(97 + index)}) ${options[index]}`;
+    } else if (type === QuestionType.Numerical) {
+        numericAnswer = parseNumericAnswer(raw) ?? undefined;
+        if (!numericAnswer) return { question: null, fixes, reason: 'numerical question without a numeric answer' };
+        if (typeof answer === 'string' && !answer.trim()) answer = formatNumericAnswer(numericAnswer);
+    } else if (type === QuestionType.OneWord && typeof answer === 'string') {
+        answer = answer.trim();
+    }
+
+    // Internal choices are validated like standalone questions of the same type.
+    const rawAlternatives: unknown[] = Array.isArray(raw.alternatives) ? raw.alternatives : raw.alternative ? [raw.alternative] : [];
+    const alternatives: QuestionAlternative[] = [];
+    rawAlternatives.forEach(alt => {
+        const parsed = normalizeRawQuestion(alt && typeof alt === 'object' ? { marks: raw.marks, ...alt, type, alternative: undefined, alternatives: undefined } : alt);
+        if (parsed.question) {
+            fixes.push(...parsed.fixes);
+            const { questionText, options, answer, subQuestions, numericAnswer, markingScheme } = parsed.question;
+            alternatives.push({ questionText, options, answer, subQuestions, numericAnswer, markingScheme });
+        } else {
+            fixes.push({ field: 'alternative', message: `Dropped an invalid internal choice: ${parsed.reason}.` });
+        }
+    });
+
+    const difficulty = coerceDifficulty(raw.difficulty);
+    const taxonomy = coerceTaxonomy(raw.taxonomy);
+
+    let question: Question = {
+        questionNumber: 0,
+        type,
+        questionText,
+        options,
+        answer,
+        marks: Number(raw.marks) || 0,
+        difficulty: difficulty ?? Difficulty.Medium,
+        taxonomy: taxonomy ?? Taxonomy.Understanding,
+        unit: typeof raw.unit === 'string' && raw.unit.trim() ? raw.unit.trim() : undefined,
+        syllabusNodeId: typeof raw.syllabusNodeId === 'string' && raw.syllabusNodeId.trim() ? raw.syllabusNodeId.trim() : undefined,
+        alternatives: alternatives.length > 0 ? alternatives : undefined,
+        numericAnswer,
+        markingScheme: normalizeMarkingPoints(raw.markingScheme),
+        source: normalizeSourceCitation(raw.source),
+    };
+
+    // A question is worth the sum of its parts; a lone part is just the question.
+    const subQuestions = normalizeSubQuestions(raw.subQuestions ?? raw.parts, question.taxonomy);
+    if (subQuestions.length === 1) {
+        fixes.push({ field: 'subQuestions', message: 'A single sub-part was merged into the question.' });
+        question = foldSubQuestions({ ...question, subQuestions });
+    } else if (subQuestions.length > 1) {
+        question.subQuestions = subQuestions;
+        if (subQuestions.every(part => part.marks > 0)) {
+            const partMarks = sumMarks(subQuestions);
+            if (question.marks && partMarks !== question.marks) {
+                fixes.push({ field: 'marks', message: `Marks recomputed from sub-parts: ${question.marks} to ${partMarks}.` });
+            }
+            question.marks = partMarks;
+        } else {
+            question = fitBodyParts(question, question.marks, fixes);
+        }
+    }
+
+    if (raw.translation) {
+        const { translation, fixes: translationFixes } = normalizeTranslation(raw.translation, question);
+        fixes.push(...translationFixes);
+        question.translation = translation;
+    }
+
+    if (type === QuestionType.CaseBased && !question.subQuestions) {
+        return { question: null, fixes, reason: 'case-based question without questions on the passage' };
+    }
+
+    return { question, fixes };
+};
+
+export interface DistributionAssignment {
+    /** Accepted questions keyed by `QuestionDistributionItem.id`, in model order. */
+    slots: Record<string, Question[]>;
+    /** Distribution items that still need questions, with `count` reduced to the shortfall. */
+    missing: QuestionDistributionItem[];
+    fixes: ValidationFix[];
+    receivedCount: number;
+}
+
+/**
+ * Checks raw model output against the requested distribution. Questions are
+ * coerced into the enums from `types.ts`, bucketed into distribution items by
+ * type, and forced to the item's marks, difficulty and taxonomy. Anything that
+ * is invalid or surplus is dropped and recorded in `fixes`.
+ */
+export const assignToDistribution = (raw: unknown, distribution: QuestionDistributionItem[]): DistributionAssignment => {
+    const fixes: ValidationFix[] = [];
+    const rawList: unknown[] = Array.isArray(raw) ? raw : [];
+    const candidates: Question[] = [];
+
+    rawList.forEach((item, index) => {
+        const { question, fixes: itemFixes, reason } = normalizeRawQuestion(item);
+        itemFixes.forEach(f => fixes.push({ ...f, questionNumber: index + 1 }));
+        if (question) {
+            candidates.push(question);
+        } else {
+            fixes.push({ field: 'type', questionNumber: index + 1, message: `Discarded generated question: ${reason}.` });
+        }
+    });
+
+    const slots: Record<string, Question[]> = {};
+    const missing: QuestionDistributionItem[] = [];
+    const used = new Set<Question>();
+
+    distribution.forEach(item => {
+        const pool = candidates.filter(q => !used.has(q) && q.type === item.type);
+        // Prefer questions that were already written for this item's unit and marks.
+        const fit = (q: Question) => Number(!item.unit || q.unit === item.unit) * 2 + Number(q.marks === item.marks);
+        pool.sort((a, b) => fit(b) - fit(a));
+        const accepted = pool.slice(0, item.count);
+        accepted.forEach(q => {
+            used.add(q);
+            if (q.marks !== item.marks) {
+                fixes.push({ field: 'marks', message: `${item.type} question marks corrected from ${q.marks} to ${item.marks}.` });
+            }
+            if (q.difficulty !== item.difficulty) {
+                fixes.push({ field: 'difficulty', message: `${item.type} question difficulty set to ${item.difficulty}.` });
+            }
+            if (q.taxonomy !== item.taxonomy) {
+                fixes.push({ field: 'taxonomy', message: `${item.type} question taxonomy set to ${item.taxonomy}.` });
+            }
+        });
+        // Keep at most as many "OR" alternatives as were requested for this item, one per question,
+        // so the row never prints more OR-pairs than it asks for.
+        const wantedChoices = item.internalChoices || 0;
+        let keptChoices = 0;
+        let droppedChoices = 0;
+        // Sub-part and marking point marks follow the item's marks, so they still add up after correction.
+        const fitParts = <T extends QuestionAlternative>(body: T): T => {
+            const partFixes: Omit<ValidationFix, 'questionNumber'>[] = [];
+            const fitted = fitBodyMarkingSchemes(fitBodyParts(body, item.marks, partFixes), item.marks, partFixes);
+            partFixes.forEach(f => fixes.push({ ...f, message: `${item.type} question: ${f.message}` }));
+            return fitted;
+        };
+        slots[item.id] = accepted.map(q => {
+            const { alternatives, ...rest } = fitParts({ ...q, marks: item.marks, difficulty: item.difficulty, taxonomy: item.taxonomy, unit: item.unit ?? q.unit });
+            const kept = (alternatives || []).slice(0, Math.min(1, wantedChoices - keptChoices));
+            keptChoices += kept.length;
+            droppedChoices += (alternatives?.length || 0) - kept.length;
+            return kept.length ? { ...rest, alternatives: kept.map(fitParts) } : rest;
+        });
+        if (droppedChoices > 0) {
+            fixes.push({ field: 'alternative', message: `Removed ${droppedChoices} internal choice(s) that were not requested for ${item.type}.` });
+        }
+        if (keptChoices < wantedChoices && accepted.length === item.count) {
+            fixes.push({ field: 'alternative', message: `Only ${keptChoices} of ${wantedChoices} requested internal choice(s) were generated for ${item.type}.` });
+        }
+
+        if (accepted.length < item.count) {
+            const missingCount = item.count - accepted.length;
+            missing.push({ ...item, count: missingCount, internalChoices: Math.min(Math.max(wantedChoices - keptChoices, 0), missingCount) });
+        }
+    });
+
+    const surplus = candidates.filter(q => !used.has(q));
+    if (surplus.length > 0) {
+        fixes.push({ field: 'count', message: `Dropped ${surplus.length} surplus question(s) not requested in the distribution.` });
+    }
+
+    return { slots, missing, fixes, receivedCount: rawList.length };
+};
+
+/** Appends repaired questions into the slots of a previous assignment. */
+export const mergeAssignments = (base: DistributionAssignment, repair: DistributionAssignment): DistributionAssignment => {
+    const slots = { ...base.slots };
+    Object.entries(repair.slots).forEach(([id, questions]) => {
+        slots[id] = [...(slots[id] || []), ...questions];
+    });
+    return {
+        slots,
+        missing: repair.missing,
+        fixes: [...base.fixes, ...repair.fixes],
+        receivedCount: base.receivedCount + repair.receivedCount,
+    };
+};
+
+/** Flattens slots into distribution order. Numbering is left to the caller. */
+export const collectQuestions = (assignment: DistributionAssignment, distribution: QuestionDistributionItem[]): Question[] =>
+    distribution.flatMap(item => assignment.slots[item.id] || []);
+
+export const toSectionResult = (assignment: DistributionAssignment, distribution: QuestionDistributionItem[], repairAttempts: number, repairedCount: number): SectionResult => ({
+    questions: collectQuestions(assignment, distribution),
+    fixes: assignment.fixes,
+    receivedCount: assignment.receivedCount,
+    repairAttempts,
+    repairedCount,
+    unresolved: assignment.missing.map(item => ({ distributionId: item.id, type: item.type, missing: item.count })),
+});
+
+/**
+ * Summarises the per-section results of one paper against its full distribution.
+ * Marks are checked against the total printed on the paper, which the
+ * distribution is meant to add up to; without one, the distribution's sum is used.
+ */
+export const buildValidationReport = (distribution: QuestionDistributionItem[], results: SectionResult[], totalMarks?: number): ValidationReport => ({
+    requestedCount: distribution.reduce((acc, item) => acc + item.count, 0),
+    receivedCount: results.reduce((acc, r) => acc + r.receivedCount, 0),
+    expectedTotalMarks: Number(totalMarks) > 0 ? Number(totalMarks) : distribution.reduce((acc, item) => acc + item.count * item.marks, 0),
+    actualTotalMarks: results.reduce((acc, r) => acc + r.questions.reduce((sum, q) => sum + q.marks, 0), 0),
+    repairAttempts: results.reduce((acc, r) => acc + r.repairAttempts, 0),
+    repairedCount: results.reduce((acc, r) => acc + r.repairedCount, 0),
+    fixes: results.flatMap(r => r.fixes),
+    unresolved: results.flatMap(r => r.unresolved),
+});
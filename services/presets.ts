@@ -0,0 +1,160 @@
+import { type FormData, type GenerationPreset, type QuestionDistributionItem, type PaperSection, type Blueprint, type SyllabusTopic, QuestionType, Difficulty, Taxonomy } from '../types';
+
+const PRESET_FILE_VERSION = 1;
+
+export const createPreset = (name: string, formData: FormData): GenerationPreset => {
+    const { sourceFiles, sourceChunks, ...rest } = formData;
+    const now = new Date().toISOString();
+    return {
+        id: `preset-${Date.now()}-${Math.random().toString(36).slice(2, 7)}`,
+        name: name.trim(),
+        formData: rest,
+        createdAt: now,
+        updatedAt: now,
+    };
+};
+
+export const duplicatePreset = (preset: GenerationPreset, existingNames: string[] = []): GenerationPreset => {
+    let name = `${preset.name} (Copy)`;
+    for (let n = 2; existingNames.includes(name); n++) name = `${preset.name} (Copy ${n})`;
+    return createPreset(name, preset.formData);
+};
+
+/** One line describing what a preset generates, e.g. "Class 10 · Science · 80 marks". */
+export const presetSummary = (preset: GenerationPreset): string => {
+    const { className, subject, totalMarks } = preset.formData;
+    return [className && `Class ${className}`, subject, totalMarks && `${totalMarks} marks`].filter(Boolean).join(' · ');
+};
+
+export const presetsToJson = (presets: GenerationPreset[]): string =>
+    JSON.stringify({ version: PRESET_FILE_VERSION, presets: presets.map(({ name, formData }) => ({ name, formData })) }, null, 2);
+
+const isOneOf = <T extends string>(values: Record<string, T>, value: unknown): value is T => Object.values(values).includes(value as T);
+
+const asRecord = (value: unknown): Record<string, unknown> | undefined =>
+    value && typeof value === 'object' && !Array.isArray(value) ? value as Record<string, unknown> : undefined;
+
+const records = (value: unknown): Record<string, unknown>[] =>
+    (Array.isArray(value) ? value : []).map(asRecord).filter((item): item is Record<string, unknown> => !!item);
+
+const optionalText = (value: unknown): string | undefined => typeof value === 'string' ? value : undefined;
+
+const optionalMarks = (value: unknown): number | undefined => typeof value === 'number' && value >= 0 ? value : undefined;
+
+// The text fields every preset fills in. A preset with one of these set to anything but text is skipped.
+const TEXT_FIELDS = ['schoolName', 'className', 'subject', 'topics', 'language', 'timeAllowed'] as const;
+
+const readDistribution = (raw: unknown): QuestionDistributionItem[] =>
+    (Array.isArray(raw) ? raw : [])
+        .filter((item): item is Record<string, unknown> => !!item && typeof item === 'object')
+        .filter(item => isOneOf(QuestionType, item.type) && Number(item.count) > 0)
+        .map((item, i) => ({
+            id: `dist-${Date.now()}-${i}`,
+            type: item.type as QuestionType,
+            count: Math.floor(Number(item.count)),
+            marks: Number(item.marks) || 0,
+            difficulty: isOneOf(Difficulty, item.difficulty) ? item.difficulty : Difficulty.Medium,
+            taxonomy: isOneOf(Taxonomy, item.taxonomy) ? item.taxonomy : Taxonomy.Understanding,
+            unit: typeof item.unit === 'string' ? item.unit : undefined,
+            internalChoices: Number(item.internalChoices) || undefined,
+        }));
+
+const readSections = (raw: unknown): PaperSection[] | undefined => {
+    const sections = records(raw)
+        .filter(s => typeof s.name === 'string' && s.name.trim())
+        .map((s, i): PaperSection => ({
+            id: typeof s.id === 'string' && s.id ? s.id : `sec-${Date.now()}-${i}`,
+            name: s.name as string,
+            types: (Array.isArray(s.types) ? s.types : []).filter((t): t is QuestionType => isOneOf(QuestionType, t)),
+            minMarks: optionalMarks(s.minMarks),
+            maxMarks: optionalMarks(s.maxMarks),
+        }))
+        .filter(s => s.types.length > 0 && !(s.minMarks !== undefined && s.maxMarks !== undefined && s.minMarks > s.maxMarks));
+    return sections.length ? sections : undefined;
+};
+
+const readSyllabusTopics = (raw: unknown): SyllabusTopic[] | undefined => {
+    const topics = records(raw).filter(t => typeof t.id === 'string' && typeof t.path === 'string') as unknown as SyllabusTopic[];
+    return topics.length ? topics : undefined;
+};
+
+/** Keeps a blueprint only when its matrix rows are readable and point at its own units. */
+const readBlueprint = (raw: unknown): Blueprint | undefined => {
+    const blueprint = asRecord(raw);
+    if (!blueprint || typeof blueprint.id !== 'string' || typeof blueprint.name !== 'string') return undefined;
+    const units = records(blueprint.units)
+        .filter(u => typeof u.id === 'string' && typeof u.name === 'string')
+        .map(u => ({ id: u.id as string, name: u.name as string, weightage: Number(u.weightage) || 0 }));
+    const entries = records(blueprint.entries)
+        .filter(e => typeof e.id === 'string' && units.some(u => u.id === e.unitId) && isOneOf(QuestionType, e.type) && Number(e.count) > 0)
+        .map(e => ({
+            id: e.id as string,
+            unitId: e.unitId as string,
+            type: e.type as QuestionType,
+            taxonomy: isOneOf(Taxonomy, e.taxonomy) ? e.taxonomy : Taxonomy.Understanding,
+            difficulty: isOneOf(Difficulty, e.difficulty) ? e.difficulty : Difficulty.Medium,
+            count: Math.floor(Number(e.count)),
+            marks: Number(e.marks) || 0,
+            internalChoices: Number(e.internalChoices) || undefined,
+        }));
+    if (units.length === 0 || entries.length === 0) return undefined;
+    const taxonomyWeightage = Object.fromEntries(Object.entries(asRecord(blueprint.taxonomyWeightage) ?? {})
+        .filter(([level, marks]) => isOneOf(Taxonomy, level) && typeof marks === 'number'));
+    return {
+        id: blueprint.id,
+        name: blueprint.name,
+        subject: optionalText(blueprint.subject) ?? '',
+        className: optionalText(blueprint.className) ?? '',
+        units,
+        taxonomyWeightage,
+        entries,
+        createdAt: optionalText(blueprint.createdAt) ?? new Date().toISOString(),
+        updatedAt: optionalText(blueprint.updatedAt) ?? new Date().toISOString(),
+    };
+};
+
+/**
+ * Reads a file written by `presetsToJson`, or a bare array of presets. Each
+ * preset gets a fresh id so importing never overwrites an existing one.
+ * Fields are checked one by one; unreadable optional ones are dropped.
+ */
+export const parsePresetsJson = (text: string): GenerationPreset[] => {
+    let raw: unknown;
+    try {
+        raw = JSON.parse(text);
+    } catch {
+        throw new Error('The file is not valid JSON.');
+    }
+    const list: unknown[] = Array.isArray(raw) ? raw : Array.isArray(asRecord(raw)?.presets) ? asRecord(raw)!.presets as unknown[] : [];
+
+    const presets = list.flatMap(item => {
+        const preset = asRecord(item);
+        const formData = asRecord(preset?.formData);
+        if (!preset || typeof preset.name !== 'string' || !preset.name.trim() || !formData) return [];
+        if (TEXT_FIELDS.some(field => formData[field] !== undefined && typeof formData[field] !== 'string')) return [];
+        const questionDistribution = readDistribution(formData.questionDistribution);
+        if (questionDistribution.length === 0) return [];
+        return [createPreset(preset.name, {
+            schoolName: optionalText(formData.schoolName) ?? '',
+            className: optionalText(formData.className) ?? '',
+            subject: optionalText(formData.subject) ?? '',
+            topics: optionalText(formData.topics) ?? '',
+            language: optionalText(formData.language) || 'English',
+            timeAllowed: optionalText(formData.timeAllowed) ?? '',
+            secondaryLanguage: optionalText(formData.secondaryLanguage),
+            bilingualLayout: formData.bilingualLayout === 'interleaved' || formData.bilingualLayout === 'columns' ? formData.bilingualLayout : undefined,
+            templateId: optionalText(formData.templateId) || undefined,
+            sections: readSections(formData.sections),
+            syllabusId: optionalText(formData.syllabusId),
+            syllabusTopics: readSyllabusTopics(formData.syllabusTopics),
+            sourceMaterials: optionalText(formData.sourceMaterials) ?? '',
+            sourceMode: formData.sourceMode === 'strict' ? 'strict' : 'reference',
+            modelQuality: formData.modelQuality === 'flash' || formData.modelQuality === 'pro' ? formData.modelQuality : undefined,
+            blueprint: readBlueprint(formData.blueprint),
+            questionDistribution,
+            totalMarks: questionDistribution.reduce((acc, d) => acc + d.count * d.marks, 0),
+        })];
+    });
+    if (presets.length === 0) throw new Error('No valid presets were found in the file.');
+    return presets;
+};
@@ -0,0 +1,137 @@
+import { type Question, type QuestionPaperData } from '../types';
+import { authService } from './authService';
+
+export const DEFAULT_SIMILARITY_THRESHOLD = 0.7;
+export const MIN_SIMILARITY_THRESHOLD = 0.5;
+export const MAX_SIMILARITY_THRESHOLD = 0.95;
+
+const STOPWORDS = new Set([
+    'a', 'an', 'the', 'of', 'to', 'in', 'on', 'for', 'and', 'or', 'is', 'are', 'was', 'were', 'be',
+    'by', 'with', 'as', 'at', 'from', 'that', 'this', 'it', 'its', 'which', 'what', 'following',
+]);
+
+interface Fingerprint {
+    trigrams: Map<string, number>;
+    norm: number;
+    words: Set<string>;
+}
+
+/** Lowercased words and formula symbols only, so punctuation, markup and spacing do not count. */
+export const normalizeQuestionText = (text: string): string =>
+    text
+        .replace(/<[^>]+>/g, ' ')
+        .toLowerCase()
+        .replace(/[^\p{L}\p{M}\p{N}\s]/gu, ' ')
+        .replace(/\s+/g, ' ')
+        .trim();
+
+const fingerprint = (text: string): Fingerprint => {
+    const normalized = normalizeQuestionText(text);
+    const padded = ` ${normalized} `;
+    const trigrams = new Map<string, number>();
+    for (let i = 0; i < padded.length - 2; i++) {
+        const gram = padded.slice(i, i + 3);
+        trigrams.set(gram, (trigrams.get(gram) || 0) + 1);
+    }
+    let sumOfSquares = 0;
+    trigrams.forEach(count => { sumOfSquares += count * count; });
+    return {
+        trigrams,
+        norm: Math.sqrt(sumOfSquares),
+        words: new Set(normalized.split(' ').filter(word => word && !STOPWORDS.has(word))),
+    };
+};
+
+const compareFingerprints = (a: Fingerprint, b: Fingerprint): number => {
+    if (a.norm === 0 || b.norm === 0) return 0;
+    let dot = 0;
+    const [small, large] = a.trigrams.size <= b.trigrams.size ? [a.trigrams, b.trigrams] : [b.trigrams, a.trigrams];
+    small.forEach((count, gram) => { dot += count * (large.get(gram) || 0); });
+    const cosine = dot / (a.norm * b.norm);
+
+    let shared = 0;
+    a.words.forEach(word => { if (b.words.has(word)) shared++; });
+    const union = a.words.size + b.words.size - shared;
+    const jaccard = union === 0 ? cosine : shared / union;
+
+    // Trigram cosine tolerates reworded phrasing; word overlap keeps short, generic stems apart.
+    return (cosine + jaccard) / 2;
+};
+
+/** Similarity of two question texts between 0 (unrelated) and 1 (identical after normalisation). */
+export const questionSimilarity = (a: string, b: string): number => compareFingerprints(fingerprint(a), fingerprint(b));
+
+const questionBodyText = (question: Pick<Question, 'questionText' | 'subQuestions'>): string =>
+    [question.questionText, ...(question.subQuestions || []).map(part => part.questionText)].join(' ');
+
+interface CorpusEntry {
+    text: string;
+    origin: string;
+    fingerprint: Fingerprint;
+}
+
+export interface SimilarityCorpus {
+    entries: CorpusEntry[];
+}
+
+export interface SimilarityMatch {
+    text: string;
+    /** Where the earlier question lives, e.g. "Question Bank" or a past paper's title. */
+    origin: string;
+    score: number;
+}
+
+export interface NearDuplicate {
+    question: Question;
+    matches: SimilarityMatch[];
+}
+
+const sameLabel = (a: string | undefined, b: string | undefined) => (a || '').trim().toLowerCase() === (b || '').trim().toLowerCase();
+
+/** Sets and translations of the same paper share its questions on purpose, so they are not compared. */
+const isRelatedPaper = (paper: QuestionPaperData, other: QuestionPaperData) =>
+    other.id === paper.id
+    || other.parentPaperId === paper.id || paper.parentPaperId === other.id
+    || (!!paper.parentPaperId && other.parentPaperId === paper.parentPaperId)
+    || other.translatedFromId === paper.id || paper.translatedFromId === other.id;
+
+/**
+ * Collects the questions this paper should not repeat: the teacher's question
+ * bank and earlier papers for the same subject and class.
+ */
+export const buildSimilarityCorpus = (paper: QuestionPaperData): SimilarityCorpus => {
+    const entries: CorpusEntry[] = [];
+    const add = (text: string, origin: string) => {
+        if (text.trim()) entries.push({ text, origin, fingerprint: fingerprint(text) });
+    };
+
+    authService.getQuestionsFromBank()
+        .filter(q => sameLabel(q.subject, paper.subject) && sameLabel(q.className, paper.className))
+        .forEach(q => add(questionBodyText(q), 'Question Bank'));
+
+    authService.getPapers()
+        .filter(p => sameLabel(p.subject, paper.subject) && sameLabel(p.className, paper.className) && !isRelatedPaper(paper, p))
+        .forEach(p => {
+            const origin = `${p.subject}${p.setLabel ? ` (Set ${p.setLabel})` : ''}, ${new Date(p.createdAt).toLocaleDateString()}`;
+            p.questions.forEach(q => add(questionBodyText(q), origin));
+        });
+
+    return { entries };
+};
+
+const MAX_MATCHES = 3;
+
+/** Earlier questions that score at or above `threshold` against `question`, best first. */
+export const findSimilarQuestions = (question: Question, corpus: SimilarityCorpus, threshold: number): SimilarityMatch[] => {
+    const target = fingerprint(questionBodyText(question));
+    return corpus.entries
+        .map(entry => ({ text: entry.text, origin: entry.origin, score: compareFingerprints(target, entry.fingerprint) }))
+        .filter(match => match.score >= threshold)
+        .sort((a, b) => b.score - a.score)
+        .slice(0, MAX_MATCHES);
+};
+
+export const findNearDuplicates = (questions: Question[], corpus: SimilarityCorpus, threshold: number): NearDuplicate[] =>
+    questions
+        .map(question => ({ question, matches: findSimilarQuestions(question, corpus, threshold) }))
+        .filter(duplicate => duplicate.matches.length > 0);
@@ -0,0 +1,292 @@
+/// <reference types="vite/client" />
+import { type SourceChunk, type SourceReference, type SourceCitation, type Question, type QuestionPaperData, type QuestionDistributionItem } from '../types';
+
+/** A paragraph (DOCX, text) or line (PDF) of extracted text. */
+interface DocumentBlock {
+    text: string;
+    page?: number;
+    heading?: boolean;
+}
+
+interface ExtractedDocument {
+    name: string;
+    blocks: DocumentBlock[];
+}
+
+// Roughly 2,000 tokens per chunk and 7,500 tokens of source text per request.
+const MAX_CHUNK_CHARS = 8000;
+const MAX_SOURCE_CHARS_PER_REQUEST = 30000;
+// Headings with less text than this under them (e.g. a table of contents) are folded into the next section.
+const MIN_SECTION_CHARS = 300;
+
+const HEADING_LINE = /^(chapter|unit|lesson|section|part|module)\s+([0-9]+|[ivxlc]+)\b/i;
+
+export const SOURCE_DOCUMENT_ACCEPT = '.pdf,.docx,.txt,.md';
+
+export const isIngestibleFile = (file: File) => /\.(pdf|docx|txt|md)$/i.test(file.name) || file.type.startsWith('text/');
+
+export const estimateTokens = (text: string) => Math.ceil(text.length / 4);
+
+const chunkId = () => `src-${Date.now()}-${Math.random().toString(36).slice(2, 7)}`;
+
+// --- Extraction ---
+
+const extractPdf = async (file: File): Promise<ExtractedDocument> => {
+    const pdfjs = await import('pdfjs-dist');
+    if (!pdfjs.GlobalWorkerOptions.workerSrc) {
+        pdfjs.GlobalWorkerOptions.workerSrc = (await import('pdfjs-dist/build/pdf.worker.min.mjs?url')).default;
+    }
+    const pdf = await pdfjs.getDocument({ data: new Uint8Array(await file.arrayBuffer()) }).promise;
+
+    // Top-level outline entries are the book's chapters, when the PDF has an outline.
+    const chapterStarts = new Map<number, string>();
+    try {
+        for (const item of (await pdf.getOutline()) || []) {
+            const dest = typeof item.dest === 'string' ? await pdf.getDestination(item.dest) : item.dest;
+            if (!dest?.[0]) continue;
+            const page = (await pdf.getPageIndex(dest[0])) + 1;
+            if (!chapterStarts.has(page)) chapterStarts.set(page, item.title.trim());
+        }
+    } catch (e) {
+        console.warn(`Could not read the outline of ${file.name}:`, e);
+    }
+    const useOutline = chapterStarts.size > 1;
+
+    const blocks: DocumentBlock[] = [];
+    for (let page = 1; page <= pdf.numPages; page++) {
+        const content = await (await pdf.getPage(page)).getTextContent();
+        if (useOutline && chapterStarts.has(page)) {
+            blocks.push({ text: chapterStarts.get(page)!, page, heading: true });
+        }
+        let line = '';
+        content.items.forEach(item => {
+            if (!('str' in item)) return;
+            line += item.str;
+            if (item.hasEOL) {
+                if (line.trim()) blocks.push({ text: line.trim(), page, heading: !useOutline && HEADING_LINE.test(line.trim()) && line.length < 80 });
+                line = '';
+            }
+        });
+        if (line.trim()) blocks.push({ text: line.trim(), page });
+    }
+    await pdf.destroy();
+    return { name: file.name, blocks };
+};
+
+const extractDocx = async (file: File): Promise<ExtractedDocument> => {
+    const JSZip = (await import('jszip')).default;
+    const zip = await JSZip.loadAsync(await file.arrayBuffer());
+    const xml = await zip.file('word/document.xml')?.async('string');
+    if (!xml) throw new Error(`${file.name} is not a Word document.`);
+
+    const doc = new DOMParser().parseFromString(xml, 'application/xml');
+    const paragraphs = Array.from(doc.getElementsByTagNameNS('*', 'p')).map(p => {
+        const style = p.getElementsByTagNameNS('*', 'pStyle')[0]?.getAttribute('w:val') || '';
+        let text = '';
+        p.querySelectorAll('*').forEach(node => {
+            if (node.localName === 't') text += node.textContent || '';
+            else if (node.localName === 'tab') text += '\t';
+            else if (node.localName === 'br') text += '\n';
+        });
+        const level = /^(heading|title)\s*(\d)?$/i.exec(style.replace(/[^a-z0-9]/gi, ' ').trim());
+        return { text: text.trim(), headingLevel: level ? Number(level[2] || 0) : null };
+    }).filter(p => p.text);
+
+    // Split on the top-most heading level the document actually uses.
+    const levels = paragraphs.map(p => p.headingLevel).filter((l): l is number => !!l);
+    const splitLevel = levels.length ? Math.min(...levels) : null;
+    return {
+        name: file.name,
+        blocks: paragraphs.map(p => ({
+            text: p.text,
+            heading: splitLevel !== null ? p.headingLevel === splitLevel : HEADING_LINE.test(p.text) && p.text.length < 80,
+        })),
+    };
+};
+
+const extractText = async (file: File): Promise<ExtractedDocument> => {
+    const paragraphs = (await file.text()).split(/\n\s*\n/).map(p => p.trim()).filter(Boolean);
+    return {
+        name: file.name,
+        blocks: paragraphs.map(text => {
+            const markdownHeading = /^#{1,2}\s+(.+)$/.exec(text.split('\n')[0]);
+            return markdownHeading || (HEADING_LINE.test(text) && text.length < 80)
+                ? { text: markdownHeading ? text.replace(/^#{1,2}\s+/, '') : text, heading: true }
+                : { text };
+        }),
+    };
+};
+
+// --- Chunking ---
+
+const pageRange = (blocks: DocumentBlock[]) => {
+    const pages = blocks.map(b => b.page).filter((p): p is number => p !== undefined);
+    if (pages.length === 0) return undefined;
+    const [first, last] = [Math.min(...pages), Math.max(...pages)];
+    return first === last ? String(first) : `${first}–${last}`;
+};
+
+/** Splits a long section at block boundaries into parts of at most MAX_CHUNK_CHARS. */
+const splitSection = (documentName: string, title: string, blocks: DocumentBlock[]): SourceChunk[] => {
+    const parts: DocumentBlock[][] = [[]];
+    let length = 0;
+    blocks.forEach(block => {
+        if (length + block.text.length > MAX_CHUNK_CHARS && parts[parts.length - 1].length > 0) {
+            parts.push([]);
+            length = 0;
+        }
+        parts[parts.length - 1].push(block);
+        length += block.text.length + 1;
+    });
+    return parts.map((part, i) => ({
+        id: chunkId(),
+        documentName,
+        title: parts.length > 1 ? `${title} (part ${i + 1})` : title,
+        text: part.map(b => b.text).join('\n'),
+        pages: pageRange(part),
+    }));
+};
+
+/** Groups blocks into chapters at headings, or into fixed-size parts when the document has none. */
+const chunkDocument = (doc: ExtractedDocument): SourceChunk[] => {
+    const sections: { title: string; blocks: DocumentBlock[] }[] = [];
+    let current: { title: string; blocks: DocumentBlock[] } = { title: 'Introduction', blocks: [] };
+    const bodyLength = (section: typeof current) => section.blocks.reduce((acc, b) => acc + b.text.length, 0);
+
+    doc.blocks.forEach(block => {
+        if (!block.heading) {
+            current.blocks.push(block);
+            return;
+        }
+        if (bodyLength(current) >= MIN_SECTION_CHARS) {
+            sections.push(current);
+            current = { title: block.text, blocks: [] };
+        } else {
+            current = { title: block.text, blocks: current.blocks };
+        }
+    });
+    if (current.blocks.length) sections.push(current);
+
+    const hasChapters = sections.length > 1;
+    if (hasChapters) return sections.flatMap(section => splitSection(doc.name, section.title, section.blocks));
+    return splitSection(doc.name, doc.name, sections[0]?.blocks || [])
+        .map((chunk, i, all) => ({ ...chunk, title: all.length > 1 ? `Part ${i + 1}` : doc.name }));
+};
+
+/**
+ * Extracts the text of a PDF, DOCX or plain-text file in the browser and
+ * splits it into chapters (from the PDF outline, Word headings or "Chapter N"
+ * lines) or, failing that, fixed-size parts.
+ */
+export const ingestSourceDocument = async (file: File): Promise<SourceChunk[]> => {
+    const name = file.name.toLowerCase();
+    const doc = name.endsWith('.pdf') ? await extractPdf(file)
+        : name.endsWith('.docx') ? await extractDocx(file)
+        : await extractText(file);
+    const chunks = chunkDocument(doc).filter(chunk => chunk.text.trim());
+    if (chunks.length === 0) {
+        throw new Error(`No text could be read from ${file.name}. Scanned documents need to be attached as images instead.`);
+    }
+    return chunks;
+};
+
+// --- Selection ---
+
+const keywords = (text: string) => new Set((text.toLowerCase().match(/[\p{L}\p{N}]{4,}/gu) || []));
+
+const relevance = (chunk: SourceChunk, terms: Set<string>) => {
+    const title = chunk.title.toLowerCase();
+    const body = chunk.text.toLowerCase();
+    let score = 0;
+    terms.forEach(term => {
+        if (title.includes(term)) score += 5;
+        score += Math.min(body.split(term).length - 1, 5);
+    });
+    return score;
+};
+
+/**
+ * Picks the chunks worth sending for one request: those matching the
+ * section's units (or the paper's topics), best first, within a size budget.
+ * When nothing matches, sections take turns through the material by `offset`.
+ */
+export const selectSourceChunks = (chunks: SourceChunk[], distribution: QuestionDistributionItem[], topics: string, offset = 0): SourceChunk[] => {
+    if (chunks.length === 0) return [];
+    const units = distribution.map(d => d.unit).filter((u): u is string => !!u?.trim());
+    const terms = keywords(units.length ? units.join(' ') : topics);
+    const scored = chunks.map((chunk, index) => ({ chunk, index, score: relevance(chunk, terms) }));
+
+    const ranked = scored.some(s => s.score > 0)
+        ? scored.filter(s => s.score > 0).sort((a, b) => b.score - a.score)
+        : scored.map((_, i) => scored[(i + offset) % scored.length]);
+
+    const picked: typeof scored = [];
+    let length = 0;
+    for (const entry of ranked) {
+        if (picked.length > 0 && length + entry.chunk.text.length > MAX_SOURCE_CHARS_PER_REQUEST) continue;
+        picked.push(entry);
+        length += entry.chunk.text.length;
+    }
+    return picked.sort((a, b) => a.index - b.index).map(s => s.chunk);
+};
+
+export const formatSourceChunks = (chunks: SourceChunk[]) =>
+    chunks.map(c => `--- ${c.documentName}: ${c.title}${c.pages ? ` (pp. ${c.pages})` : ''} ---\n${c.text}`).join('\n\n');
+
+export const sourceReferencesFor = (chunks: SourceChunk[] | undefined): SourceReference[] | undefined =>
+    chunks?.length ? chunks.map(({ id, documentName, title, pages }) => ({ chunkId: id, documentName, title, pages })) : undefined;
+
+// --- Citations ---
+
+const matchText = (text: string) => text.toLowerCase().replace(/[^\p{L}\p{N}]+/gu, ' ').trim();
+
+// Share of an excerpt's five-word runs that must appear in a chunk, so small slips in a quote still match.
+const MIN_EXCERPT_OVERLAP = 0.6;
+
+/** Finds the chunk a quoted excerpt comes from, ignoring case, punctuation and spacing. */
+export const locateExcerpt = (excerpt: string, chunks: SourceChunk[]): SourceChunk | null => {
+    const quote = matchText(excerpt);
+    if (!quote) return null;
+    const texts = chunks.map(chunk => ` ${matchText(chunk.text)} `);
+    const exact = texts.findIndex(text => text.includes(` ${quote} `));
+    if (exact !== -1) return chunks[exact];
+
+    const words = quote.split(' ');
+    if (words.length < 8) return null;
+    const runs = Array.from({ length: words.length - 4 }, (_, i) => ` ${words.slice(i, i + 5).join(' ')} `);
+    let best: SourceChunk | null = null;
+    let bestOverlap = MIN_EXCERPT_OVERLAP;
+    texts.forEach((text, i) => {
+        const overlap = runs.filter(run => text.includes(run)).length / runs.length;
+        if (overlap >= bestOverlap) {
+            best = chunks[i];
+            bestOverlap = overlap;
+        }
+    });
+    return best;
+};
+
+/** The citation for an excerpt found in `chunk`, with the chunk's document, chapter and pages. */
+export const citationFromChunk = (chunk: SourceChunk, excerpt: string): SourceCitation => ({
+    documentName: chunk.documentName,
+    section: chunk.title,
+    pages: chunk.pages,
+    excerpt,
+    chunkId: chunk.id,
+});
+
+/** Short label for a citation, e.g. "Chapter 2 Respiration · p. 14–16". */
+export const formatCitation = (citation: SourceCitation) =>
+    [citation.section || citation.documentName, citation.pages && `p. ${citation.pages}`].filter(Boolean).join(' · ') || 'Source';
+
+/** Questions of a strict-mode paper still carrying a flag the teacher has not resolved. */
+export const unresolvedSourceFlags = (paper: QuestionPaperData): Question[] =>
+    paper.sourceMode === 'strict' ? paper.questions.filter(q => q.sourceFlag && !q.sourceFlag.resolved) : [];
+
+/** Why the papers (a paper or all of its sets) cannot be used for `action` yet, or `null` when nothing is flagged. */
+export const sourceFlagBlockMessage = (papers: QuestionPaperData[], action: string): string | null => {
+    const flagged = papers.reduce((count, paper) => count + unresolvedSourceFlags(paper).length, 0);
+    return flagged > 0
+        ? `${flagged} question(s) in this strict-mode paper could not be grounded in the source material. Open the paper and regenerate or keep each flagged question before ${action}.`
+        : null;
+};
@@ -0,0 +1,218 @@
+import { type Syllabus, type SyllabusNode, type SyllabusLevel, type SyllabusTopic, type Question, type ValidationFix } from '../types';
+
+export const SYLLABUS_LEVELS: SyllabusLevel[] = ['unit', 'chapter', 'subtopic', 'outcome'];
+
+export const SYLLABUS_LEVEL_LABELS: Record<SyllabusLevel, string> = {
+    unit: 'Unit',
+    chapter: 'Chapter',
+    subtopic: 'Subtopic',
+    outcome: 'Learning Outcome',
+};
+
+const PATH_SEPARATOR = ' > ';
+
+export const childLevel = (level: SyllabusLevel): SyllabusLevel | null => SYLLABUS_LEVELS[SYLLABUS_LEVELS.indexOf(level) + 1] ?? null;
+
+export const createSyllabusNode = (level: SyllabusLevel, name: string, id?: string): SyllabusNode => ({
+    id: id || `syl-${Date.now()}-${Math.random().toString(36).slice(2, 7)}`,
+    name,
+    level,
+    children: [],
+});
+
+export const createSyllabus = (board: string, className: string, subject: string): Syllabus => {
+    const now = new Date().toISOString();
+    return {
+        id: `syllabus-${Date.now()}`,
+        board,
+        className,
+        subject,
+        units: [createSyllabusNode('unit', 'Unit 1')],
+        createdAt: now,
+        updatedAt: now,
+    };
+};
+
+export const syllabusTitle = (syllabus: Syllabus) => [syllabus.board, syllabus.className, syllabus.subject].filter(Boolean).join(' · ') || 'Untitled Syllabus';
+
+/** Applies `update` to the node with `id`; returning null removes the node and its subtree. */
+export const updateSyllabusNode = (nodes: SyllabusNode[], id: string, update: (node: SyllabusNode) => SyllabusNode | null): SyllabusNode[] =>
+    nodes.flatMap(node => {
+        if (node.id === id) {
+            const updated = update(node);
+            return updated ? [updated] : [];
+        }
+        return [{ ...node, children: updateSyllabusNode(node.children, id, update) }];
+    });
+
+export const flattenSyllabus = (nodes: SyllabusNode[], parentPath: string[] = []): { node: SyllabusNode; path: string[] }[] =>
+    nodes.flatMap(node => {
+        const path = [...parentPath, node.name];
+        return [{ node, path }, ...flattenSyllabus(node.children, path)];
+    });
+
+export const descendantIds = (node: SyllabusNode): string[] => node.children.flatMap(child => [child.id, ...descendantIds(child)]);
+
+/** Every picked node with its path, in syllabus order. */
+export const syllabusTopicsFor = (syllabus: Syllabus, selectedIds: string[]): SyllabusTopic[] => {
+    const selected = new Set(selectedIds);
+    return flattenSyllabus(syllabus.units)
+        .filter(({ node }) => selected.has(node.id))
+        .map(({ node, path }) => ({ id: node.id, path: path.join(PATH_SEPARATOR) }));
+};
+
+/** The free-text topics line for a selection: only the top-most picked nodes, since they cover their children. */
+export const syllabusTopicsToText = (topics: SyllabusTopic[]): string =>
+    topics
+        .filter(topic => !topics.some(other => other !== topic && topic.path.startsWith(other.path + PATH_SEPARATOR)))
+        .map(topic => topic.path)
+        .join('; ');
+
+const sameName = (a: string, b: string) => a.trim().toLowerCase() === b.trim().toLowerCase();
+
+const lastSegment = (path: string) => path.split(PATH_SEPARATOR).pop() || path;
+
+/**
+ * Keeps each question's `syllabusNodeId` only if it names one of the picked
+ * topics. Unknown tags are recovered from the question's unit where possible.
+ */
+export const tagSyllabusNodes = (questions: Question[], topics: SyllabusTopic[]): { questions: Question[]; fixes: ValidationFix[] } => {
+    const fixes: ValidationFix[] = [];
+    if (topics.length === 0) return { questions, fixes };
+    const ids = new Set(topics.map(t => t.id));
+
+    return {
+        questions: questions.map(question => {
+            if (question.syllabusNodeId && ids.has(question.syllabusNodeId)) return question;
+            const byUnit = question.unit ? topics.find(t => sameName(lastSegment(t.path), question.unit!)) : undefined;
+            const recovered = byUnit ?? (topics.length === 1 ? topics[0] : undefined);
+            fixes.push({
+                questionNumber: question.questionNumber,
+                field: 'syllabus',
+                message: recovered
+                    ? `Syllabus topic set to "${recovered.path}".`
+                    : 'Question was not tagged with one of the selected syllabus topics.',
+            });
+            return { ...question, syllabusNodeId: recovered?.id };
+        }),
+        fixes,
+    };
+};
+
+// --- Import / export ---
+
+const CHILD_KEYS = ['children', 'units', 'chapters', 'subtopics', 'outcomes', 'learningOutcomes'];
+
+const readNode = (raw: unknown, depth: number): SyllabusNode | null => {
+    const level = SYLLABUS_LEVELS[depth];
+    if (!level) throw new Error('The syllabus is nested deeper than learning outcomes (unit > chapter > subtopic > outcome).');
+    if (typeof raw === 'string') return raw.trim() ? createSyllabusNode(level, raw.trim()) : null;
+    if (!raw || typeof raw !== 'object') return null;
+
+    const source = raw as Record<string, unknown>;
+    const name = [source.name, source.title].find((v): v is string => typeof v === 'string' && !!v.trim());
+    if (!name) return null;
+    const node = createSyllabusNode(level, name.trim(), typeof source.id === 'string' ? source.id : undefined);
+    const childList = CHILD_KEYS.map(key => source[key]).find(Array.isArray) as unknown[] | undefined;
+    node.children = (childList || []).map(child => readNode(child, depth + 1)).filter((n): n is SyllabusNode => !!n);
+    return node;
+};
+
+const syllabusFromUnits = (units: SyllabusNode[], details: Pick<Syllabus, 'board' | 'className' | 'subject'>): Syllabus => {
+    if (units.length === 0) throw new Error('No units were found in the file.');
+    return { ...createSyllabus(details.board, details.className, details.subject), units };
+};
+
+/**
+ * Reads a syllabus exported from this app, or any nested JSON of names: an
+ * array of units, or an object with `units`. Children may be listed under
+ * `children`, `chapters`, `subtopics` or `outcomes`, and leaves may be plain strings.
+ */
+export const parseSyllabusJson = (text: string, defaults: Pick<Syllabus, 'board' | 'className' | 'subject'>): Syllabus => {
+    let raw: unknown;
+    try {
+        raw = JSON.parse(text);
+    } catch {
+        throw new Error('The file is not valid JSON.');
+    }
+    const source = Array.isArray(raw) ? { units: raw } : (raw && typeof raw === 'object' ? raw as Record<string, unknown> : {});
+    const str = (value: unknown, fallback: string) => typeof value === 'string' && value.trim() ? value.trim() : fallback;
+    const units = (Array.isArray(source.units) ? source.units : [])
+        .map(unit => readNode(unit, 0))
+        .filter((n): n is SyllabusNode => !!n);
+    return syllabusFromUnits(units, {
+        board: str(source.board, defaults.board),
+        className: str(source.className ?? source.class, defaults.className),
+        subject: str(source.subject, defaults.subject),
+    });
+};
+
+const parseCsvRows = (text: string): string[][] => {
+    const rows: string[][] = [];
+    let row: string[] = [];
+    let cell = '';
+    let quoted = false;
+    for (let i = 0; i < text.length; i++) {
+        const char = text[i];
+        if (quoted) {
+            if (char === '"' && text[i + 1] === '"') { cell += '"'; i++; }
+            else if (char === '"') quoted = false;
+            else cell += char;
+        } else if (char === '"') {
+            quoted = true;
+        } else if (char === ',') {
+            row.push(cell); cell = '';
+        } else if (char === '\n' || char === '\r') {
+            if (char === '\r' && text[i + 1] === '\n') i++;
+            row.push(cell); rows.push(row); row = []; cell = '';
+        } else {
+            cell += char;
+        }
+    }
+    if (cell || row.length) { row.push(cell); rows.push(row); }
+    return rows.map(r => r.map(c => c.trim())).filter(r => r.some(Boolean));
+};
+
+const CSV_HEADERS: Record<SyllabusLevel, string[]> = {
+    unit: ['unit'],
+    chapter: ['chapter'],
+    subtopic: ['subtopic', 'sub-topic', 'topic'],
+    outcome: ['outcome', 'learning outcome', 'learningoutcome'],
+};
+
+/**
+ * Reads one syllabus path per row: unit, chapter, subtopic, learning outcome.
+ * A header row naming those columns may put them in any order; rows sharing
+ * a unit or chapter name are merged.
+ */
+export const parseSyllabusCsv = (text: string, defaults: Pick<Syllabus, 'board' | 'className' | 'subject'>): Syllabus => {
+    const rows = parseCsvRows(text);
+    if (rows.length === 0) throw new Error('The CSV file is empty.');
+
+    const header = rows[0].map(h => h.toLowerCase());
+    const headerColumns = SYLLABUS_LEVELS.map(level => header.findIndex(h => CSV_HEADERS[level].includes(h)));
+    const hasHeader = headerColumns[0] > -1;
+    const columns = hasHeader ? headerColumns : SYLLABUS_LEVELS.map((_, i) => i);
+
+    const units: SyllabusNode[] = [];
+    (hasHeader ? rows.slice(1) : rows).forEach(row => {
+        let siblings = units;
+        for (let depth = 0; depth < SYLLABUS_LEVELS.length; depth++) {
+            const name = columns[depth] > -1 ? row[columns[depth]] : '';
+            if (!name) break;
+            let node = siblings.find(n => sameName(n.name, name));
+            if (!node) {
+                node = createSyllabusNode(SYLLABUS_LEVELS[depth], name);
+                siblings.push(node);
+            }
+            siblings = node.children;
+        }
+    });
+    return syllabusFromUnits(units, defaults);
+};
+
+export const syllabusToJson = (syllabus: Syllabus): string => {
+    const strip = (node: SyllabusNode): object => ({ id: node.id, name: node.name, children: node.children.map(strip) });
+    const { board, className, subject, units } = syllabus;
+    return JSON.stringify({ board, className, subject, units: units.map(strip) }, null, 2);
+};
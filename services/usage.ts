@@ -0,0 +1,109 @@
+import { type AIFeature, type UsageRecord, type UsageLimits } from '../types';
+import { authService } from './authService';
+import { UsageLimitError } from './aiErrors';
+
+export const AI_FEATURES: AIFeature[] = ['generation', 'analysis', 'chat', 'tts', 'image'];
+
+export const AI_FEATURE_LABELS: Record<AIFeature, string> = {
+    generation: 'Generation',
+    analysis: 'Analysis',
+    chat: 'Chat',
+    tts: 'Text to Speech',
+    image: 'Images',
+};
+
+export interface UsageTotals {
+    calls: number;
+    failures: number;
+    promptTokens: number;
+    responseTokens: number;
+    latencyMs: number;
+}
+
+export interface DailyUsage {
+    date: string; // local YYYY-MM-DD
+    total: UsageTotals;
+    byFeature: Partial<Record<AIFeature, UsageTotals>>;
+    byModel: Record<string, UsageTotals>;
+}
+
+const emptyTotals = (): UsageTotals => ({ calls: 0, failures: 0, promptTokens: 0, responseTokens: 0, latencyMs: 0 });
+
+const addRecord = (totals: UsageTotals, record: UsageRecord) => {
+    totals.calls++;
+    if (!record.success) totals.failures++;
+    totals.promptTokens += record.promptTokens;
+    totals.responseTokens += record.responseTokens;
+    totals.latencyMs += record.latencyMs;
+};
+
+export const totalTokens = (totals: UsageTotals) => totals.promptTokens + totals.responseTokens;
+
+/** Days are counted in the user's time zone, matching when their quota "feels" like it resets. */
+export const localDateKey = (date: Date) => {
+    const pad = (n: number) => String(n).padStart(2, '0');
+    return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+};
+
+export const recordUsage = (record: Omit<UsageRecord, 'id' | 'timestamp'>) => {
+    try {
+        authService.recordUsage({ ...record, id: `usage-${Date.now()}-${Math.random().toString(36).slice(2, 7)}`, timestamp: new Date().toISOString() });
+    } catch (e) {
+        console.warn('Could not record AI usage:', e);
+    }
+};
+
+/** Per-day totals, newest day first. */
+export const summarizeUsage = (records: UsageRecord[]): DailyUsage[] => {
+    const days = new Map<string, DailyUsage>();
+    records.forEach(record => {
+        const date = localDateKey(new Date(record.timestamp));
+        let day = days.get(date);
+        if (!day) {
+            day = { date, total: emptyTotals(), byFeature: {}, byModel: {} };
+            days.set(date, day);
+        }
+        addRecord(day.total, record);
+        addRecord(day.byFeature[record.feature] ??= emptyTotals(), record);
+        addRecord(day.byModel[record.model] ??= emptyTotals(), record);
+    });
+    return [...days.values()].sort((a, b) => b.date.localeCompare(a.date));
+};
+
+/** Describes each soft limit today's usage has reached, or returns an empty list. */
+export const limitWarnings = (limits: UsageLimits | undefined, today: UsageTotals): string[] => {
+    const warnings: string[] = [];
+    if (limits?.dailyCalls && today.calls >= limits.dailyCalls) {
+        warnings.push(`${today.calls} AI calls today (limit ${limits.dailyCalls})`);
+    }
+    if (limits?.dailyTokens && totalTokens(today) >= limits.dailyTokens) {
+        warnings.push(`${totalTokens(today).toLocaleString()} tokens today (limit ${limits.dailyTokens.toLocaleString()})`);
+    }
+    return warnings;
+};
+
+// Each limit asks once per user and day; after the user agrees to continue, their calls go out
+// without asking again. Keyed by user so a teacher signing in on the same tab is asked too.
+let acknowledgedKey = '';
+
+/**
+ * Runs before every AI call. Once today's usage reaches a soft limit the user
+ * is asked whether to continue; declining throws a UsageLimitError.
+ */
+export const confirmWithinLimits = (feature: AIFeature) => {
+    const today = localDateKey(new Date());
+    const key = `${authService.getCurrentUserUid() ?? ''}|${today}`;
+    if (acknowledgedKey === key) return;
+    const limits = authService.getUsageLimits();
+    if (!limits?.dailyCalls && !limits?.dailyTokens) return;
+
+    const [todayUsage] = summarizeUsage(authService.getUsage().filter(r => localDateKey(new Date(r.timestamp)) === today));
+    const warnings = limitWarnings(limits, todayUsage?.total ?? emptyTotals());
+    if (warnings.length === 0) return;
+
+    const message = `You have reached your daily usage limit: ${warnings.join(' and ')}.\n\nSend this ${AI_FEATURE_LABELS[feature].toLowerCase()} request anyway?`;
+    if (!window.confirm(message)) {
+        throw new UsageLimitError({ context: feature, detail: warnings.join('; ') });
+    }
+    acknowledgedKey = key;
+};
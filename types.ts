@@ -6,6 +6,10 @@ export enum QuestionType {
   ShortAnswer = 'Short Answer',
   LongAnswer = 'Long Answer',
   MatchTheFollowing = 'Match the Following',
+  AssertionReason = 'Assertion-Reason',
+  CaseBased = 'Case-Based',
+  Numerical = 'Numerical',
+  OneWord = 'One Word',
 }
 
 export enum Difficulty {
@@ -30,6 +34,148 @@ export interface QuestionDistributionItem {
   marks: number;
   difficulty: Difficulty;
   taxonomy: Taxonomy;
+  unit?: string; // Blueprint unit/chapter the questions must come from
+  internalChoices?: number; // How many of these questions get an "OR" alternative
+}
+
+export interface BlueprintUnit {
+  id: string;
+  name: string;
+  weightage: number; // planned marks for the unit
+}
+
+/** One cell of the design matrix: a unit × question type × cognitive level with its question count and marks. */
+export interface BlueprintEntry {
+  id: string;
+  unitId: string;
+  type: QuestionType;
+  taxonomy: Taxonomy;
+  difficulty: Difficulty;
+  count: number;
+  marks: number;
+  internalChoices?: number;
+}
+
+export interface Blueprint {
+  id: string;
+  name: string;
+  subject: string;
+  className: string;
+  units: BlueprintUnit[];
+  taxonomyWeightage: Partial<Record<Taxonomy, number>>; // planned marks per Bloom level
+  entries: BlueprintEntry[];
+  createdAt: string;
+  updatedAt: string;
+}
+
+export type SyllabusLevel = 'unit' | 'chapter' | 'subtopic' | 'outcome';
+
+/** A unit, chapter, subtopic or learning outcome. Children are always one level deeper. */
+export interface SyllabusNode {
+  id: string;
+  name: string;
+  level: SyllabusLevel;
+  children: SyllabusNode[];
+}
+
+export interface Syllabus {
+  id: string;
+  board: string;
+  className: string;
+  subject: string;
+  units: SyllabusNode[];
+  createdAt: string;
+  updatedAt: string;
+}
+
+/** A syllabus node picked for generation, with its full "Unit > Chapter > ..." path. */
+export interface SyllabusTopic {
+  id: string;
+  path: string;
+}
+
+export type BilingualLayout = 'interleaved' | 'columns';
+
+/** A chapter (or fixed-size part) of an uploaded PDF, DOCX or text file. */
+export interface SourceChunk {
+  id: string;
+  documentName: string;
+  title: string;
+  text: string;
+  pages?: string; // e.g. "12–18", for PDFs
+}
+
+/** A source chunk a paper was generated from, without its text. */
+export interface SourceReference {
+  chunkId: string;
+  documentName: string;
+  title: string;
+  pages?: string;
+}
+
+/** Where in the source material a question comes from. */
+export interface SourceCitation {
+  documentName?: string;
+  section?: string;
+  pages?: string;
+  excerpt?: string; // short verbatim passage the question is based on
+  chunkId?: string; // set when the excerpt was found in an uploaded document
+}
+
+/** Raised when a strict-mode question could not be grounded in the source material. */
+export interface SourceFlag {
+  reason: string;
+  resolved?: boolean; // the teacher checked the question and kept it
+}
+
+/**
+ * A section the teacher defines instead of the default one-per-type grouping.
+ * A question goes to the first section that lists its type and whose marks
+ * band (inclusive, open-ended when unset) fits it.
+ */
+export interface PaperSection {
+  id: string;
+  name: string; // e.g. "Short Answer Questions"
+  types: QuestionType[];
+  minMarks?: number;
+  maxMarks?: number;
+}
+
+/**
+ * How a printed paper is laid out. Text fields are patterns in which
+ * `{placeholders}` are filled in: `{schoolName}`, `{subject}`, `{className}`,
+ * `{timeAllowed}`, `{totalMarks}` and `{setLabel}` anywhere; `{letter}`,
+ * `{roman}`, `{number}`, `{name}`, `{type}`, `{count}`, `{marks}`,
+ * `{breakdown}` (e.g. "3 × 2 + 2 × 3") and `{total}` in section headings;
+ * `{n}` and `{marks}` for questions.
+ */
+export interface PaperTemplate {
+  id: string;
+  name: string;
+  description?: string;
+  header: {
+    lines: string[]; // centred under the school name
+    meta: [string, string]; // left and right of the bar under the header
+    showLogo: boolean;
+  };
+  instructions?: {
+    title: string;
+    items: string[];
+  };
+  section: {
+    title: string; // e.g. "SECTION {letter}" or "PART {roman}"
+    subtitle: string;
+    marks: string;
+  };
+  question: {
+    number: string; // e.g. "{n}." or "Q{n}."
+    marks: string; // e.g. "[{marks}]" or "({marks} marks)"
+  };
+  footer?: string;
+  styles?: Record<string, string>; // extra inline CSS per element, keyed like the generator's styles
+  css?: string; // added to the paper's stylesheet; style the paper-* classes
+  createdAt?: string; // set on custom templates
+  updatedAt?: string;
 }
 
 export interface FormData {
@@ -37,7 +183,13 @@ export interface FormData {
   className: string;
   subject: string;
   topics: string;
+  syllabusId?: string;
+  syllabusTopics?: SyllabusTopic[]; // picked from the syllabus; `topics` is derived from them
   language: string;
+  secondaryLanguage?: string; // set for bilingual papers
+  bilingualLayout?: BilingualLayout;
+  templateId?: string; // layout template; the standard layout when unset
+  sections?: PaperSection[]; // printed sections in order; one section per question type when unset
   timeAllowed: string;
   sourceMaterials: string;
   sourceFiles?: {
@@ -45,10 +197,21 @@ export interface FormData {
     data: string; // base64 encoded string
     mimeType: string;
   }[];
+  sourceChunks?: SourceChunk[]; // the chunks the teacher chose to include; each section gets the relevant ones
   sourceMode: 'strict' | 'reference';
   questionDistribution: QuestionDistributionItem[];
   totalMarks: number;
   modelQuality?: 'flash' | 'pro';
+  blueprint?: Blueprint;
+}
+
+/** A named, reusable set of generator inputs. Uploaded source files are not kept. */
+export interface GenerationPreset {
+  id: string;
+  name: string;
+  formData: Omit<FormData, 'sourceFiles' | 'sourceChunks'>;
+  createdAt: string;
+  updatedAt: string;
 }
 
 export interface AnalysisResult {
@@ -63,6 +226,43 @@ export interface AnalysisResult {
   extractedQuestions: Omit<Question, 'questionNumber' | 'styles'>[];
 }
 
+/** An internal-choice ("OR") body. It shares the number, type and marks of the question it belongs to. */
+export type QuestionAlternative = Pick<Question, 'questionText' | 'options' | 'answer' | 'subQuestions' | 'numericAnswer' | 'markingScheme'>;
+
+/** One step an examiner awards marks for, e.g. "Correct formula" for 1 mark. */
+export interface MarkingPoint {
+  description: string;
+  marks: number;
+}
+
+/** One lettered part of a question, e.g. "(a)", with its own marks. A question's marks are the sum of its parts. */
+export interface SubQuestion {
+  questionText: string;
+  marks: number;
+  answer: string;
+  taxonomy: Taxonomy;
+  markingScheme?: MarkingPoint[]; // adds up to the part's marks
+}
+
+/** Final value of a numerical question. Answers within `tolerance` of `value` are accepted. */
+export interface NumericAnswer {
+  value: number;
+  unit?: string;
+  tolerance?: number;
+}
+
+/**
+ * A question's text in the paper's second language. Numbering, marks and LaTeX
+ * are shared with the primary text, so only the words are stored here.
+ */
+export interface QuestionTranslation {
+  questionText: string;
+  options?: Question['options'];
+  answer?: Question['answer'];
+  subQuestions?: Pick<SubQuestion, 'questionText' | 'answer'>[];
+  alternatives?: Omit<QuestionTranslation, 'alternatives'>[];
+}
+
 export interface Question {
   questionNumber: number;
   type: QuestionType;
@@ -72,6 +272,15 @@ export interface Question {
   marks: number;
   difficulty: Difficulty;
   taxonomy: Taxonomy;
+  unit?: string;
+  syllabusNodeId?: string; // most specific syllabus node the question tests
+  alternatives?: QuestionAlternative[];
+  subQuestions?: SubQuestion[];
+  numericAnswer?: NumericAnswer;
+  markingScheme?: MarkingPoint[]; // adds up to `marks`; questions with parts carry it on each part instead
+  translation?: QuestionTranslation;
+  source?: SourceCitation;
+  sourceFlag?: SourceFlag;
   styles?: {
       color?: string;
   };
@@ -95,6 +304,111 @@ export interface QuestionPaperData {
   htmlContent: string;
   createdAt: string;
   schoolLogo?: string;
+  // Generation context, kept so single questions can be regenerated later.
+  topics?: string;
+  syllabusId?: string;
+  syllabusTopics?: SyllabusTopic[];
+  language?: string;
+  secondaryLanguage?: string;
+  bilingualLayout?: BilingualLayout;
+  templateId?: string;
+  sections?: PaperSection[];
+  blueprint?: Blueprint;
+  sourceReferences?: SourceReference[];
+  sourceMode?: 'strict' | 'reference'; // set when the paper was generated from source material
+  validationReport?: ValidationReport;
+  review?: PaperReview;
+  instructions?: PaperInstructions;
+  // Set variants (A/B/C...) point back at the paper they were shuffled from.
+  parentPaperId?: string;
+  setLabel?: string;
+  // Translated copies point back at the paper they were translated from.
+  translatedFromId?: string;
+}
+
+export type ReviewIssueCategory = 'ambiguity' | 'multipleCorrect' | 'wrongAnswer' | 'outOfSyllabus' | 'vocabulary' | 'other';
+
+export type ReviewSeverity = 'high' | 'medium' | 'low';
+
+/** Replacement text the reviewer proposes; only the fields it sets are changed. */
+export interface ReviewFix {
+  questionText?: string;
+  options?: string[];
+  answer?: string;
+}
+
+export interface ReviewIssue {
+  id: string;
+  questionNumber: number; // printed number when the paper was reviewed
+  questionText: string; // finds the question again if the paper changed since
+  category: ReviewIssueCategory;
+  severity: ReviewSeverity;
+  message: string;
+  suggestion?: string;
+  fix?: ReviewFix;
+  status: 'open' | 'accepted' | 'dismissed';
+}
+
+/**
+ * Printed instructions: the general block under the header, and notes under
+ * section headings keyed by section id (the question type for type-grouped sections).
+ * A paper without general instructions falls back to its layout template's.
+ */
+export interface PaperInstructions {
+  general: string[];
+  sections: Record<string, string[]>;
+}
+
+/** The automated reviewer's critique of a paper, kept with it. */
+export interface PaperReview {
+  reviewedAt: string;
+  summary?: string;
+  issues: ReviewIssue[];
+}
+
+export type QuestionRefineAction = 'regenerate' | 'simplify' | 'harder' | 'taxonomy';
+
+export type ValidationFixField = 'type' | 'difficulty' | 'taxonomy' | 'marks' | 'options' | 'answer' | 'count' | 'alternative' | 'subQuestions' | 'translation' | 'syllabus' | 'source' | 'markingScheme';
+
+export interface ValidationFix {
+  field: ValidationFixField;
+  message: string;
+  questionNumber?: number;
+}
+
+export interface UnresolvedSlot {
+  distributionId: string;
+  type: QuestionType;
+  missing: number;
+}
+
+export interface SectionResult {
+  questions: Question[];
+  fixes: ValidationFix[];
+  receivedCount: number;
+  repairAttempts: number;
+  repairedCount: number;
+  unresolved: UnresolvedSlot[];
+}
+
+export type SectionStatus = 'pending' | 'generating' | 'done' | 'failed';
+
+export interface SectionGenerationState {
+  item: QuestionDistributionItem;
+  status: SectionStatus;
+  result?: SectionResult;
+  error?: string;
+}
+
+export interface ValidationReport {
+  requestedCount: number;
+  receivedCount: number;
+  expectedTotalMarks: number;
+  actualTotalMarks: number;
+  repairAttempts: number;
+  repairedCount: number;
+  fixes: ValidationFix[];
+  unresolved: UnresolvedSlot[];
 }
 
 export interface User {
@@ -104,6 +418,29 @@ export interface User {
     role?: 'teacher' | 'student';
     defaultSchoolName?: string;
     schoolLogo?: string;
+    similarityThreshold?: number; // flag generated questions at or above this score against past ones
+    usageLimits?: UsageLimits;
+}
+
+export type AIFeature = 'generation' | 'analysis' | 'chat' | 'tts' | 'image';
+
+/** One AI call as it went out, for usage accounting. Failed attempts are recorded too. */
+export interface UsageRecord {
+  id: string;
+  timestamp: string;
+  feature: AIFeature;
+  task: string;
+  model: string;
+  promptTokens: number;
+  responseTokens: number;
+  latencyMs: number;
+  success: boolean;
+}
+
+/** Daily soft limits: the user is warned before a call that would go past them, but may continue. */
+export interface UsageLimits {
+  dailyCalls?: number;
+  dailyTokens?: number;
 }
 
 export interface PaperStyles {
@@ -168,7 +505,8 @@ export type Page =
   | 'assignedPapers'
   | 'attendedPapers'
   | 'gallery'
-  | 'imageEditor';
+  | 'imageEditor'
+  | 'syllabus';
   
 export type Theme = 'light' | 'dark';
 
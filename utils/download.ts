@@ -0,0 +1,9 @@
+/** Saves generated text (JSON, CSV...) as a file through a temporary link. */
+export const downloadTextFile = (content: string, fileName: string, mimeType: string) => {
+    const url = URL.createObjectURL(new Blob([content], { type: mimeType }));
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = fileName;
+    link.click();
+    URL.revokeObjectURL(url);
+};
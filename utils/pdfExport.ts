@@ -0,0 +1,84 @@
+import { jsPDF } from 'jspdf';
+import html2canvas from 'html2canvas';
+
+const A4_WIDTH_PX = 794;
+const A4_HEIGHT_PX = 1123;
+const PAGE_PADDING_PX = 60;
+const FONT_FAMILY = "'Times New Roman', Times, serif";
+
+const createPageElement = (html: string) => {
+    const page = document.createElement('div');
+    page.style.width = `${A4_WIDTH_PX}px`;
+    page.style.minHeight = `${A4_HEIGHT_PX}px`;
+    page.style.padding = `${PAGE_PADDING_PX}px`;
+    page.style.boxSizing = 'border-box';
+    page.style.position = 'absolute';
+    page.style.left = '-9999px';
+    page.style.top = '0';
+    page.style.backgroundColor = 'white';
+    page.style.fontFamily = FONT_FAMILY;
+    page.className = 'prose max-w-none';
+    page.innerHTML = html;
+    document.body.appendChild(page);
+    return page;
+};
+
+/** Splits a generated paper into A4-sized chunks of its top-level blocks, like the editor does. */
+const paginateHtml = async (html: string): Promise<string[]> => {
+    const container = createPageElement(html);
+    await document.fonts.ready;
+
+    const root = container.querySelector('#paper-root');
+    const style = root?.querySelector('style')?.outerHTML || '';
+    const maxPageHeight = A4_HEIGHT_PX - PAGE_PADDING_PX * 2 - 50;
+    const pages: string[] = [];
+    let current = '';
+    let currentHeight = 0;
+
+    Array.from(root?.children || []).forEach(child => {
+        const el = child as HTMLElement;
+        if (el.tagName === 'STYLE') return;
+        const computed = window.getComputedStyle(el);
+        const height = el.getBoundingClientRect().height + parseFloat(computed.marginTop || '0') + parseFloat(computed.marginBottom || '0');
+        if (currentHeight > 0 && currentHeight + height > maxPageHeight) {
+            pages.push(current);
+            current = '';
+            currentHeight = 0;
+        }
+        current += el.outerHTML;
+        currentHeight += height;
+    });
+    if (current) pages.push(current);
+    document.body.removeChild(container);
+
+    return pages.map(page => `${style}${page}`);
+};
+
+/**
+ * Renders several generated papers (e.g. every set and its answer key) into a
+ * single PDF, each document starting on a fresh page.
+ */
+export const exportHtmlDocumentsToPdf = async (documents: string[], fileName: string): Promise<void> => {
+    const pdf = new jsPDF('p', 'px', 'a4');
+    const pdfW = pdf.internal.pageSize.getWidth();
+    const pdfH = pdf.internal.pageSize.getHeight();
+    let isFirstPage = true;
+
+    for (const html of documents) {
+        const pages = await paginateHtml(html);
+        for (const pageHtml of pages) {
+            const page = createPageElement(pageHtml);
+            page.style.height = `${A4_HEIGHT_PX}px`;
+            try {
+                const canvas = await html2canvas(page, { scale: 2, useCORS: true, backgroundColor: '#ffffff', logging: false });
+                if (!isFirstPage) pdf.addPage();
+                pdf.addImage(canvas.toDataURL('image/png'), 'PNG', 0, 0, pdfW, pdfH);
+                isFirstPage = false;
+            } finally {
+                document.body.removeChild(page);
+            }
+        }
+    }
+
+    pdf.save(fileName);
+};